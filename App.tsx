@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { StatusBar, TouchableOpacity, StyleSheet, Text } from 'react-native';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { NavigationContainer, useNavigation } from '@react-navigation/native';
@@ -9,6 +9,8 @@ import { ThemeProvider, useTheme } from './src/context/ThemeContext';
 import { SettingsProvider } from './src/context/SettingsContext';
 import { PracticeGameProvider } from './src/context/PracticeGameContext';
 import Icon from './src/components/Icon';
+import TableSwitcherModal from './src/components/TableSwitcherModal';
+import { isGameInProgress } from './src/types/game';
 import { TapTargets, IconSize, Spacing, BorderRadius, Typography } from './src/theme';
 
 import HomeScreen from './src/screens/HomeScreen';
@@ -16,10 +18,13 @@ import GameSetupScreen from './src/screens/GameSetupScreen';
 import GameScreen from './src/screens/GameScreen';
 import HistoryScreen from './src/screens/HistoryScreen';
 import RulesScreen from './src/screens/RulesScreen';
+import HandAnalysisScreen from './src/screens/HandAnalysisScreen';
 import {
   PracticeSetupScreen,
   PracticeGameScreen,
   PracticeHistoryScreen,
+  PracticeReviewScreen,
+  PracticeReplayScreen,
 } from './src/screens/practice';
 
 const Stack = createNativeStackNavigator();
@@ -42,23 +47,49 @@ const HomeButton = () => {
 const PlayButton = () => {
   const navigation = useNavigation<any>();
   const { colors } = useTheme();
-  const { currentGame } = useGame();
+  const { activeGames, currentGame, selectGame } = useGame();
+  const [showTables, setShowTables] = useState(false);
 
-  // Only show if there's an active game with no winner
-  if (!currentGame || currentGame.winner) {
+  // Only show if a table has a game in progress
+  const tables = activeGames.filter(isGameInProgress);
+  if (tables.length === 0) {
     return null;
   }
 
+  // With one table there's nothing to choose; go straight back to it
+  const handlePress = () => {
+    if (tables.length === 1 && tables[0].id === currentGame?.id) {
+      navigation.goBack();
+    } else {
+      setShowTables(true);
+    }
+  };
+
+  const handleSelect = (gameId: string) => {
+    setShowTables(false);
+    selectGame(gameId);
+    navigation.navigate('Game');
+  };
+
   return (
-    <TouchableOpacity
-      onPress={() => navigation.goBack()}
-      style={[styles.headerBadge, { backgroundColor: colors.gold + '20' }]}
-      accessibilityLabel="Continue game"
-      accessibilityRole="button"
-    >
-      <Icon name="play.fill" size={IconSize.small} color={colors.gold} weight="medium" />
-      <Text style={[styles.headerBadgeText, { color: colors.gold }]}>Play</Text>
-    </TouchableOpacity>
+    <>
+      <TouchableOpacity
+        onPress={handlePress}
+        style={[styles.headerBadge, { backgroundColor: colors.gold + '20' }]}
+        accessibilityLabel={tables.length > 1 ? 'Choose a table' : 'Continue game'}
+        accessibilityRole="button"
+      >
+        <Icon name="play.fill" size={IconSize.small} color={colors.gold} weight="medium" />
+        <Text style={[styles.headerBadgeText, { color: colors.gold }]}>
+          {tables.length > 1 ? `${tables.length} Tables` : 'Play'}
+        </Text>
+      </TouchableOpacity>
+      <TableSwitcherModal
+        visible={showTables}
+        onSelect={handleSelect}
+        onClose={() => setShowTables(false)}
+      />
+    </>
   );
 };
 
@@ -146,6 +177,14 @@ const AppNavigator = () => {
             headerLeft: HomeButton,
           }}
         />
+        <Stack.Screen
+          name="HandAnalysis"
+          component={HandAnalysisScreen}
+          options={{
+            title: 'Hand Analysis',
+            headerLeft: HomeButton,
+          }}
+        />
         {/* Practice Mode Screens */}
         <Stack.Screen
           name="PracticeSetup"
@@ -170,6 +209,21 @@ const AppNavigator = () => {
             headerShown: false,
           }}
         />
+        <Stack.Screen
+          name="PracticeReview"
+          component={PracticeReviewScreen}
+          options={{
+            title: 'Game Review',
+          }}
+        />
+        <Stack.Screen
+          name="PracticeReplay"
+          component={PracticeReplayScreen}
+          options={{
+            title: 'Replay',
+            headerShown: false,
+          }}
+        />
       </Stack.Navigator>
     </>
   );
@@ -0,0 +1,112 @@
+/**
+ * @format
+ */
+
+import {
+  DEFAULT_FIRST_DROP,
+  DEFAULT_INVALID_DECLARATION,
+  DEFAULT_MIDDLE_DROP,
+  GameAction,
+  getDiscardHistory,
+  reduce,
+  replayRound,
+} from '../src/engine';
+import { Card, PracticeGameState } from '../src/engine/types';
+
+const NOW = 1700000000000;
+
+const apply = (state: PracticeGameState, action: GameAction): PracticeGameState => {
+  const result = reduce(state, action, NOW);
+  if (!result.ok) throw new Error(result.error.message);
+  return result.state;
+};
+
+const newGame = (): PracticeGameState => ({
+  id: 'test',
+  config: {
+    variant: 'points',
+    firstDropPenalty: DEFAULT_FIRST_DROP,
+    middleDropPenalty: DEFAULT_MIDDLE_DROP,
+    invalidDeclarationPenalty: DEFAULT_INVALID_DECLARATION,
+  },
+  players: [
+    { id: 'human', name: 'You', isBot: false },
+    { id: 'bot-0', name: 'Bot 1', isBot: true, difficulty: 'easy' },
+    { id: 'bot-1', name: 'Bot 2', isBot: true, difficulty: 'easy' },
+  ],
+  activePlayers: ['human', 'bot-0', 'bot-1'],
+  currentRound: null,
+  roundResults: [],
+  scores: { human: 0, 'bot-0': 0, 'bot-1': 0 },
+  gamePhase: 'playing',
+  winner: null,
+  createdAt: NOW,
+  updatedAt: NOW,
+});
+
+test('logs the deal, each draw and discard, drops and the declaration in order', () => {
+  let state = apply(newGame(), { type: 'START_ROUND', seed: 21 });
+  const first = state.activePlayers[state.currentRound!.currentPlayerIndex];
+  state = apply(state, { type: 'DROP', playerId: first, dropType: 'first' });
+
+  const player = state.activePlayers[state.currentRound!.currentPlayerIndex];
+  state = apply(state, { type: 'DRAW_CARD', playerId: player, source: 'discard' });
+  const hand = state.currentRound!.hands[player];
+  state = apply(state, { type: 'DISCARD_CARD', playerId: player, card: hand[0] });
+
+  const declarer = state.activePlayers[state.currentRound!.currentPlayerIndex];
+  state = apply(state, { type: 'DRAW_CARD', playerId: declarer, source: 'deck' });
+  const [thrown, ...rest] = state.currentRound!.hands[declarer];
+  state = apply(state, {
+    type: 'DECLARE',
+    playerId: declarer,
+    melds: [],
+    deadwood: rest.filter(c => c.id !== thrown.id),
+  });
+
+  const log = state.roundResults[0].actions!;
+  expect(log.map(a => a.type)).toEqual([
+    'START_ROUND',
+    'DROP',
+    'DRAW_CARD',
+    'DISCARD_CARD',
+    'DRAW_CARD',
+    'DECLARE',
+  ]);
+  expect(log[2]).toEqual({ type: 'DRAW_CARD', playerId: player, source: 'discard' });
+  expect(log[3]).toEqual({ type: 'DISCARD_CARD', playerId: player, card: hand[0] });
+
+  // The log is kept on the round while it is played, and saved with the result
+  expect(state.currentRound!.actions).toEqual(log);
+
+  // Stepping through the replay passes through every position, ending where the round did
+  const replay = replayRound(state, 0);
+  if (!replay.ok) throw new Error(replay.error);
+  expect(replay.states).toHaveLength(log.length);
+  expect(replay.states[0].currentRound!.hands).toEqual(
+    apply(newGame(), { type: 'START_ROUND', seed: 21 }).currentRound!.hands
+  );
+  expect(replay.states[1].currentRound!.droppedPlayers).toEqual([first]);
+  expect(replay.states[3].currentRound!.hands[player]).toEqual(state.roundResults[0].finalHands![player]);
+  const replayed = replay.states[replay.states.length - 1].roundResults[0];
+  expect(replayed.declarationType).toBe('invalid');
+  expect(replayed.scores).toEqual(state.roundResults[0].scores);
+});
+
+test("rebuilds the round's discards from its log after a save and reload", () => {
+  let state = apply(newGame(), { type: 'START_ROUND', seed: 21 });
+  const [openCard] = state.currentRound!.discardPile;
+  const discarded: Card[] = [];
+
+  // The open card is picked up, so only the log still knows it was discarded
+  for (const source of ['discard', 'deck'] as const) {
+    const playerId = state.activePlayers[state.currentRound!.currentPlayerIndex];
+    state = apply(state, { type: 'DRAW_CARD', playerId, source });
+    const card = state.currentRound!.hands[playerId][0];
+    discarded.push(card);
+    state = apply(state, { type: 'DISCARD_CARD', playerId, card });
+  }
+
+  const reloaded: PracticeGameState = JSON.parse(JSON.stringify(state));
+  expect(getDiscardHistory(reloaded).map(c => c.id)).toEqual([openCard, ...discarded].map(c => c.id));
+});
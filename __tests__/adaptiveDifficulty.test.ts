@@ -0,0 +1,83 @@
+/**
+ * @format
+ */
+
+import {
+  DEFAULT_FIRST_DROP,
+  DEFAULT_INVALID_DECLARATION,
+  DEFAULT_MIDDLE_DROP,
+  reduce,
+} from '../src/engine';
+import { PracticeGameState, RoundResult } from '../src/engine/types';
+import {
+  ADAPTIVE_MAX_LEVEL,
+  adjustAdaptiveLevel,
+  getRecentStats,
+} from '../src/engine/bot/adaptive';
+
+const NOW = 1700000000000;
+
+const roundWonBy = (winnerId: string, humanScore: number, droppedPlayers: string[] = []): RoundResult => ({
+  winnerId,
+  winnerName: winnerId,
+  declarationType: 'valid',
+  scores: { human: humanScore, 'bot-0': winnerId === 'bot-0' ? 0 : 30 },
+  timestamp: NOW,
+  droppedPlayers,
+});
+
+test('raises the level while the human keeps winning and lowers it while they struggle', () => {
+  const winning = getRecentStats([roundWonBy('human', 0), roundWonBy('human', 0)], 'human');
+  expect(winning.winRate).toBe(1);
+  expect(adjustAdaptiveLevel(5, winning)).toBe(7);
+  expect(adjustAdaptiveLevel(ADAPTIVE_MAX_LEVEL, winning)).toBe(ADAPTIVE_MAX_LEVEL);
+
+  const losingClose = getRecentStats([roundWonBy('bot-0', 10), roundWonBy('bot-0', 12)], 'human');
+  expect(adjustAdaptiveLevel(5, losingClose)).toBe(4);
+
+  const losingBadly = getRecentStats(
+    [roundWonBy('bot-0', 80, ['human']), roundWonBy('bot-0', 60, ['human'])],
+    'human'
+  );
+  expect(losingBadly.dropRate).toBe(1);
+  expect(adjustAdaptiveLevel(5, losingBadly)).toBe(3);
+
+  // One round is not enough to judge
+  expect(adjustAdaptiveLevel(5, getRecentStats([roundWonBy('human', 0)], 'human'))).toBe(5);
+});
+
+test('moves the level once per finished round when the next round starts', () => {
+  const state: PracticeGameState = {
+    id: 'test',
+    config: {
+      variant: 'pool',
+      poolLimit: 201,
+      firstDropPenalty: DEFAULT_FIRST_DROP,
+      middleDropPenalty: DEFAULT_MIDDLE_DROP,
+      invalidDeclarationPenalty: DEFAULT_INVALID_DECLARATION,
+      adaptive: true,
+    },
+    players: [
+      { id: 'human', name: 'You', isBot: false },
+      { id: 'bot-0', name: 'Bot 1', isBot: true },
+    ],
+    activePlayers: ['human', 'bot-0'],
+    currentRound: null,
+    roundResults: [roundWonBy('human', 0), roundWonBy('human', 0)],
+    scores: { human: 0, 'bot-0': 60 },
+    gamePhase: 'playing',
+    winner: null,
+    adaptive: { level: 5, roundsCounted: 0 },
+    createdAt: NOW,
+    updatedAt: NOW,
+  };
+
+  const next = reduce(state, { type: 'START_ROUND', seed: 1 }, NOW);
+  if (!next.ok) throw new Error(next.error.message);
+  expect(next.state.adaptive).toEqual({ level: 7, roundsCounted: 2 });
+
+  // Dealing again for the same results leaves the level alone
+  const redeal = reduce({ ...next.state, currentRound: null }, { type: 'START_ROUND', seed: 2 }, NOW);
+  if (!redeal.ok) throw new Error(redeal.error.message);
+  expect(redeal.state.adaptive).toEqual({ level: 7, roundsCounted: 2 });
+});
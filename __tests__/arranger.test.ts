@@ -0,0 +1,116 @@
+/**
+ * @format
+ */
+
+import {
+  MELD_RULE_PRESETS,
+  autoArrangeHand,
+  calculateHandPoints,
+  isValidSequence,
+  isValidSet,
+  validateMeld,
+} from '../src/engine';
+import { card, printedJoker } from './helpers/cards';
+
+test('finds a declaration the greedy arranger missed', () => {
+  // Clubs 2-3-4, 6-7-8 and 10-J-Q plus an Ace-high run in diamonds
+  const hand = [
+    card('clubs', '8'),
+    card('clubs', '2'),
+    card('clubs', '10'),
+    card('clubs', '6'),
+    card('clubs', '7'),
+    card('clubs', 'J'),
+    card('clubs', '3'),
+    card('clubs', 'Q'),
+    card('clubs', '4'),
+    card('diamonds', 'Q'),
+    card('diamonds', 'A'),
+    card('diamonds', 'J'),
+    card('diamonds', 'K'),
+  ];
+
+  const analysis = autoArrangeHand(hand);
+
+  expect(analysis.canDeclare).toBe(true);
+  expect(analysis.deadwood).toHaveLength(0);
+  expect(analysis.melds.every(m => validateMeld(m))).toBe(true);
+  expect(calculateHandPoints(hand)).toBe(0);
+});
+
+test('keeps a wild joker in its natural slot to make a pure sequence', () => {
+  const hand = [
+    card('spades', '2'),
+    card('spades', '3', 0, 'wild'),
+    card('spades', '4'),
+    card('hearts', '9'),
+    card('hearts', '10'),
+    card('clubs', '5'),
+    card('diamonds', 'K'),
+  ];
+
+  const analysis = autoArrangeHand(hand);
+
+  expect(analysis.hasPureSequence).toBe(true);
+  expect(analysis.melds.every(m => validateMeld(m))).toBe(true);
+});
+
+test('every card ends up exactly once in melds or deadwood', () => {
+  const hand = [
+    card('hearts', 'A'),
+    card('hearts', 'K'),
+    card('hearts', 'Q'),
+    card('clubs', 'A'),
+    card('spades', 'A'),
+    card('diamonds', '2'),
+    card('diamonds', '3'),
+    card('diamonds', '5'),
+    printedJoker(),
+    card('clubs', '8'),
+    card('clubs', '8', 1),
+    card('spades', '8'),
+    card('hearts', '6'),
+  ];
+
+  const analysis = autoArrangeHand(hand);
+  const placed = [...analysis.melds.flatMap(m => m.cards), ...analysis.deadwood].map(c => c.id);
+
+  expect(placed.sort()).toEqual(hand.map(c => c.id).sort());
+  expect(analysis.melds.every(m => validateMeld(m))).toBe(true);
+});
+
+test('meld rules change which runs and sets are valid', () => {
+  const kingAceTwo = [card('hearts', 'K'), card('hearts', 'A'), card('hearts', '2')];
+  const queenKingAce = [card('hearts', 'Q'), card('hearts', 'K'), card('hearts', 'A')];
+  const doubleSpades = [card('spades', '7'), card('spades', '7', 1), card('hearts', '7')];
+
+  expect(isValidSequence(kingAceTwo)).toBe(false);
+  expect(isValidSequence(kingAceTwo, MELD_RULE_PRESETS['round-the-corner'])).toBe(true);
+  expect(isValidSequence(queenKingAce)).toBe(true);
+  expect(isValidSequence(queenKingAce, MELD_RULE_PRESETS['ace-low-only'])).toBe(false);
+  expect(isValidSet(doubleSpades)).toBe(false);
+  expect(isValidSet(doubleSpades, MELD_RULE_PRESETS['duplicate-sets'])).toBe(true);
+});
+
+test('arranges around the corner only when the rules allow it', () => {
+  const hand = [
+    card('hearts', 'K'),
+    card('hearts', 'A'),
+    card('hearts', '2'),
+    card('clubs', '5'),
+    card('clubs', '6'),
+    card('clubs', '7'),
+    card('spades', '9'),
+    card('spades', '10'),
+    card('spades', 'J'),
+    card('diamonds', '4'),
+    card('clubs', '4'),
+    card('spades', '4'),
+    card('hearts', '4'),
+  ];
+  const rules = MELD_RULE_PRESETS['round-the-corner'];
+
+  expect(autoArrangeHand(hand).canDeclare).toBe(false);
+  expect(autoArrangeHand(hand, rules).canDeclare).toBe(true);
+  expect(calculateHandPoints(hand, rules)).toBe(0);
+});
@@ -0,0 +1,95 @@
+/**
+ * @format
+ */
+
+import { StorageBackend } from '../src/storage/repository';
+import { createBackup, parseBackup, restoreBackup, serializeBackup } from '../src/storage/backup';
+
+const createMemoryBackend = (items: { [key: string]: string } = {}): StorageBackend => ({
+  getItem: async key => items[key] ?? null,
+  setItem: async (key, value) => {
+    items[key] = value;
+  },
+  removeItem: async key => {
+    delete items[key];
+  },
+  getAllKeys: async () => Object.keys(items),
+});
+
+const game = (id: string, startedAt: string) => ({
+  id,
+  config: { variant: 'points' },
+  players: [],
+  rounds: [],
+  currentDeal: 1,
+  startedAt,
+  winner: 'a',
+});
+
+const stored = (data: unknown) => JSON.stringify({ schemaVersion: 1, data });
+
+test('round-trips a device through a backup, merging by game id or replacing', async () => {
+  const source = createMemoryBackend({
+    gameHistory: stored([game('2', '2024-05-02T00:00:00.000Z'), game('1', '2024-05-01T00:00:00.000Z')]),
+    app_theme: 'royal', // Written before versioning
+  });
+  const archive = await createBackup(source, 1000);
+  const parsed = parseBackup(serializeBackup(archive));
+  if (!parsed.ok) throw new Error(parsed.errors.join());
+
+  expect(parsed.exportedAt).toBe(1000);
+  expect(parsed.contents.theme).toBe('royal');
+  expect(parsed.contents.gameHistory?.[0].startedAt).toBeInstanceOf(Date);
+  expect(parsed.contents.currentGame).toBeNull();
+
+  // Merging adds game 2, skips game 1 and leaves the device's theme alone
+  const items: { [key: string]: string } = {
+    gameHistory: stored([game('1', '2024-05-01T00:00:00.000Z'), game('0', '2024-04-01T00:00:00.000Z')]),
+    app_theme: stored('forest'),
+  };
+  const target = createMemoryBackend(items);
+  expect(await restoreBackup(target, parsed.contents, 'merge')).toEqual({ gamesAdded: 1, gamesSkipped: 1 });
+  expect(JSON.parse(items.gameHistory).data.map((g: { id: string }) => g.id)).toEqual(['2', '1', '0']);
+  expect(JSON.parse(items.app_theme).data).toBe('forest');
+
+  // Replacing makes the device match the backup
+  await restoreBackup(target, parsed.contents, 'replace');
+  expect(JSON.parse(items.gameHistory).data.map((g: { id: string }) => g.id)).toEqual(['2', '1']);
+  expect(JSON.parse(items.app_theme).data).toBe('royal');
+});
+
+test('rejects files that are not backups or hold damaged records', () => {
+  expect(parseBackup('hello')).toEqual({ ok: false, errors: ['This is not a RummyIQ backup'] });
+  expect(parseBackup(JSON.stringify({ format: 'rummyiq-backup', version: 2 }))).toEqual({
+    ok: false,
+    errors: ['This backup was made by a newer version of the app'],
+  });
+  expect(
+    parseBackup(
+      JSON.stringify({
+        format: 'rummyiq-backup',
+        version: 1,
+        exportedAt: 0,
+        records: { gameHistory: { schemaVersion: 1, data: [{ id: 3 }] } },
+      })
+    )
+  ).toEqual({ ok: false, errors: ['The game history in the backup is damaged'] });
+});
+
+test('merging adds the backup tables the device is missing and keeps its selection', async () => {
+  const tables = (ids: string[], selectedGameId: string) =>
+    JSON.stringify({
+      schemaVersion: 2,
+      data: { games: ids.map(id => game(id, '2024-05-01T00:00:00.000Z')), selectedGameId },
+    });
+  const source = createMemoryBackend({ currentGame: tables(['1', '2'], '2') });
+  const parsed = parseBackup(serializeBackup(await createBackup(source, 0)));
+  if (!parsed.ok) throw new Error(parsed.errors.join());
+
+  const items: { [key: string]: string } = { currentGame: tables(['1'], '1') };
+
+  await restoreBackup(createMemoryBackend(items), parsed.contents, 'merge');
+  const merged = JSON.parse(items.currentGame).data;
+  expect(merged.games.map((g: { id: string }) => g.id)).toEqual(['1', '2']);
+  expect(merged.selectedGameId).toBe('1');
+});
@@ -0,0 +1,79 @@
+/**
+ * @format
+ */
+
+import { BotContext, getBotDecision } from '../src/engine/bot';
+import { BotPersonality, Card } from '../src/engine/types';
+import { card } from './helpers/cards';
+
+const context = (hand: Card[], overrides: Partial<BotContext>): BotContext => ({
+  hand,
+  topDiscard: null,
+  discardHistory: [],
+  isFirstTurn: false,
+  currentScore: 0,
+  poolLimit: null,
+  turnPhase: 'draw',
+  ...overrides,
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+test('a discard fisher takes an open card that only touches its hand', () => {
+  // Three melds, a loose queen and king, and a jack-queen pair
+  const hand = [
+    card('spades', 'Q'),
+    card('clubs', 'K'),
+    card('hearts', 'A'),
+    card('hearts', '2'),
+    card('hearts', '3'),
+    card('spades', '4'),
+    card('spades', '5'),
+    card('spades', '6'),
+    card('clubs', '7'),
+    card('clubs', '8'),
+    card('clubs', '9'),
+    card('diamonds', 'J'),
+    card('diamonds', 'Q'),
+  ];
+  const draw = (personality: BotPersonality) =>
+    getBotDecision('hard', context(hand, { topDiscard: card('spades', '10'), personality })).source;
+
+  expect(draw('balanced')).toBe('deck');
+  expect(draw('fisher')).toBe('discard');
+});
+
+test('drop tendency and joker hoarding change when a bad hand is dropped', () => {
+  jest.spyOn(Math, 'random').mockReturnValue(0.5);
+
+  // No pairs and no two cards of a suit close enough to build on, even with a joker
+  const hand = [
+    card('diamonds', 'K'),
+    card('spades', 'A'),
+    card('spades', '4'),
+    card('spades', '7'),
+    card('spades', '10'),
+    card('hearts', '2'),
+    card('hearts', '5'),
+    card('hearts', '8'),
+    card('hearts', 'J'),
+    card('clubs', '3'),
+    card('clubs', '6'),
+    card('clubs', '9'),
+    card('clubs', 'Q'),
+  ];
+  const action = (personality: BotPersonality, cards = hand) =>
+    getBotDecision('hard', context(cards, { isFirstTurn: true, personality })).action;
+
+  expect(action('balanced')).toBe('draw');
+  expect(action('aggressive')).toBe('draw');
+  expect(action('cautious')).toBe('drop');
+
+  // Even a certain drop is skipped while a hoarder holds a joker
+  jest.spyOn(Math, 'random').mockReturnValue(0);
+  const withJoker = [...hand.slice(1), card('diamonds', '2', 0, 'wild')];
+  expect(action('balanced', withJoker)).toBe('drop');
+  expect(action('joker-hoarder', withJoker)).toBe('draw');
+});
@@ -0,0 +1,73 @@
+/**
+ * @format
+ */
+
+import {
+  createDeck,
+  formatCard,
+  formatHand,
+  getDeckCount,
+  markWildJokers,
+  parseCard,
+  parseHand,
+} from '../src/engine';
+
+test('formats and parses hands, jokers and deck copies without losing anything', () => {
+  const second = markWildJokers(createDeck(1), createDeck(0).find(c => c.id === 'spades-7-0')!);
+  const pick = (id: string) => [...createDeck(0), ...second].find(c => c.id === id)!;
+  const groups = [
+    [pick('hearts-A-0'), pick('hearts-2-0'), pick('hearts-3-0')],
+    [pick('spades-10-0'), pick('diamonds-10-1'), pick('clubs-10-0')],
+    [pick('joker-0-0'), pick('joker-1-1'), pick('clubs-7-1')],
+  ];
+
+  const text = formatHand(groups);
+  expect(text).toBe('AH 2H 3H | 10S 10D#1 10C | JK JK2#1 7C*#1');
+  expect(parseHand(text)).toEqual({ ok: true, cards: groups.flat(), groups });
+
+  // A flat hand is one group, and spacing around separators is optional
+  expect(formatHand(groups[0])).toBe('AH 2H 3H');
+  expect(parseHand('AH 2H 3H|JK')).toMatchObject({ ok: true, groups: [groups[0], [groups[2][0]]] });
+  expect(parseHand('  ')).toEqual({ ok: true, cards: [], groups: [] });
+  expect(formatCard(pick('hearts-K-0'))).toBe('KH');
+});
+
+test('rejects bad notation with the offending token and where it is', () => {
+  expect(parseCard('1H')).toEqual({
+    ok: false,
+    error: {
+      message: '"1H" is not a card: expected a rank (A, 2-10, J, Q, K) and a suit (H, D, C, S), or JK',
+      token: '1H',
+      position: 0,
+    },
+  });
+
+  const errorOf = (text: string) => {
+    const result = parseHand(text);
+    return result.ok ? null : result.error;
+  };
+  expect(errorOf('AH 2h')).toMatchObject({ token: '2h', position: 3, message: '"2h": write cards in capitals, as 2H' });
+  expect(errorOf('TS JS')?.message).toBe('"TS": write a ten as 10, as in 10S');
+  expect(errorOf('AH 5S#3')?.message).toBe('"5S#3": deck index must be below 3');
+  expect(errorOf('| AH')).toMatchObject({ token: '|', position: 0 });
+  expect(errorOf('AH | | 2H')).toMatchObject({ token: '|', position: 5, message: 'Empty group before "|"' });
+  expect(errorOf('AH 2H |')).toMatchObject({ token: '|', position: 6, message: 'Empty group after "|"' });
+  expect(errorOf('7S 8S 7S')).toMatchObject({
+    token: '7S',
+    position: 6,
+    message: '"7S" is the same card as "7S"; mark a copy from another deck with #, e.g. 7S#1',
+  });
+  expect(errorOf('JK JK1')?.token).toBe('JK1');
+});
+
+test('reads cards from every deck of a game dealt from more than the usual decks', () => {
+  const deckCount = getDeckCount(8, 'auto', 21);
+  const last = createDeck(deckCount - 1);
+  const cards = [last.find(c => c.id === 'spades-7-3')!, last.find(c => c.id === 'joker-3-1')!];
+
+  const text = formatHand(cards);
+  expect(text).toBe('7S#3 JK2#3');
+  expect(parseHand(text, deckCount)).toEqual({ ok: true, cards, groups: [cards] });
+  expect(parseHand(text)).toMatchObject({ ok: false, error: { message: '"7S#3": deck index must be below 3' } });
+  expect(parseCard('7S#4', deckCount)).toMatchObject({ ok: false, error: { message: '"7S#4": deck index must be below 4' } });
+});
@@ -0,0 +1,53 @@
+/**
+ * @format
+ */
+
+import { getDiscardAdvice, getDrawAdvice } from '../src/engine';
+import { card } from './helpers/cards';
+
+// Three melds, a jack-queen pair and a loose king and four
+const hand = [
+  card('hearts', 'A'),
+  card('hearts', '2'),
+  card('hearts', '3'),
+  card('spades', '4'),
+  card('spades', '5'),
+  card('spades', '6'),
+  card('clubs', '7'),
+  card('clubs', '8'),
+  card('clubs', '9'),
+  card('diamonds', 'J'),
+  card('diamonds', 'Q'),
+  card('clubs', 'K'),
+  card('hearts', '4'),
+];
+
+test('advises taking a discard that completes a meld and skipping one that helps nothing', () => {
+  expect(getDrawAdvice(hand, card('diamonds', 'K'))).toEqual({
+    source: 'discard',
+    reason: 'It completes a meld',
+  });
+  expect(getDrawAdvice(hand, card('spades', '10')).source).toBe('deck');
+  expect(getDrawAdvice(hand, null).source).toBe('deck');
+});
+
+test('ranks loose high cards first and warns about feeding the next player', () => {
+  const withDraw = [...hand, card('hearts', '9')];
+  const advice = getDiscardAdvice(withDraw, [], []);
+
+  expect(advice).toHaveLength(3);
+  expect(advice[0].card.rank).toBe('K');
+  expect(advice[0].reason).toMatch(/High points/);
+  expect(advice.every(a => a.reason.length > 0)).toBe(true);
+
+  // The next player picked up kings: the king is no longer the throw
+  const next = {
+    playerId: 'next',
+    pickedUp: [card('spades', 'K'), card('hearts', 'K')],
+    discarded: [],
+    deckDraws: 0,
+  };
+  const careful = getDiscardAdvice(withDraw, [], [next], undefined, withDraw.length);
+  expect(careful[0].card.rank).not.toBe('K');
+  expect(careful.find(a => a.card.rank === 'K')?.reason).toMatch(/Careful/);
+});
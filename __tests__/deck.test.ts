@@ -0,0 +1,50 @@
+/**
+ * @format
+ */
+
+import { createDecks, dealCards, getDeckCount } from '../src/engine';
+import { MAX_DECK_COUNT } from '../src/engine/types';
+
+const PLAYERS = ['north', 'east', 'south', 'west'];
+
+const deal = (seed: number) => dealCards(createDecks(PLAYERS.length), PLAYERS, 13, seed);
+
+test('a seed deals the same cards every time', () => {
+  const first = deal(1234);
+  const again = deal(1234);
+
+  expect(again).toEqual(first);
+  expect(first.seed).toBe(1234);
+});
+
+test('a different seed deals differently', () => {
+  const first = deal(1234);
+  const other = deal(5678);
+
+  expect(other.drawPile.map(c => c.id)).not.toEqual(first.drawPile.map(c => c.id));
+  expect(PLAYERS.some(p => other.hands[p][0].id !== first.hands[p][0].id)).toBe(true);
+});
+
+test('auto picks decks by player count', () => {
+  expect(getDeckCount(2)).toBe(1);
+  expect(getDeckCount(3)).toBe(2);
+  expect(getDeckCount(5)).toBe(2);
+  expect(getDeckCount(6)).toBe(3);
+});
+
+test('a chosen deck count is raised to what the deal needs and capped at the most allowed', () => {
+  expect(getDeckCount(6, 1)).toBe(2);
+  expect(getDeckCount(4, 5)).toBe(MAX_DECK_COUNT);
+
+  // Dealing everyone in wins over the cap
+  expect(getDeckCount(8, 'auto', 21)).toBe(4);
+});
+
+test('adds the configured printed jokers to every deck', () => {
+  const cards = createDecks(4, { deckCount: 2, printedJokersPerDeck: 1, wildJoker: true });
+  expect(cards).toHaveLength(2 * 53);
+  expect(cards.filter(c => c.jokerType === 'printed').map(c => c.id)).toEqual(['joker-0-0', 'joker-1-0']);
+
+  const plain = createDecks(4, { deckCount: 2, printedJokersPerDeck: 0, wildJoker: true });
+  expect(plain.some(c => c.jokerType === 'printed')).toBe(false);
+});
@@ -0,0 +1,81 @@
+/**
+ * @format
+ */
+
+import {
+  DEFAULT_MELD_RULES,
+  createGroup,
+  parseHand,
+  validateDeclaration,
+  withTwentyOneRules,
+} from '../src/engine';
+
+const groups = (text: string) => {
+  const result = parseHand(text);
+  if (!result.ok) throw new Error(result.error.message);
+  return result.groups.map(cards => createGroup(cards));
+};
+
+const codes = (text: string) =>
+  validateDeclaration(groups(text)).errors.map(error => [error.code, error.meldIndex]);
+
+test('points each broken group at what is wrong with it', () => {
+  expect(codes('AH 2H 3H | 4S 5S 6S | 7D 9D JD | 8C 8C#1 8H | KH')).toEqual([
+    ['NOT_CONSECUTIVE', 2],
+    ['DUPLICATE_SUIT', 3],
+    ['TOO_SHORT', 4],
+    ['UNMELDED_CARDS', undefined],
+  ]);
+
+  const [mixed] = validateDeclaration(groups('AH 2H 3H | 4S 5S 6S | 7D 8C 9D | QH QS QD KC')).errors;
+  expect(mixed).toMatchObject({ code: 'MIXED_SUITS', meldIndex: 2 });
+  expect(mixed.message).toContain('7D 8C 9D');
+});
+
+test('reports missing sequences and sets laid down too early', () => {
+  expect(codes('AH 2H 3H | 7S 7D 7C | 8S 8D 8H | 9C 9D 9H 9S')).toEqual([
+    ['SETS_WITHOUT_SEQUENCES', 1],
+    ['SETS_WITHOUT_SEQUENCES', 2],
+    ['SETS_WITHOUT_SEQUENCES', 3],
+    ['MISSING_SEQUENCES', undefined],
+    ['UNMELDED_CARDS', undefined],
+  ]);
+
+  // The first sequence is only short of pure by its joker
+  const [pure] = validateDeclaration(groups('AH 2H JK | 5S JK#1 7S | 7D 7C 7H | 9C 9D 9H 9S')).errors;
+  expect(pure).toMatchObject({ code: 'MISSING_PURE_SEQUENCE', meldIndex: 0 });
+  expect(pure.cards.map(card => card.jokerType)).toEqual(['printed']);
+
+  expect(codes('AH 2H 3H | 4S 5S 6S | 7D 8D 9D | QH QS QD')).toEqual([
+    ['WRONG_CARD_COUNT', undefined],
+  ]);
+  expect(validateDeclaration(groups('AH 2H 3H | 4S 5S 6S | 7D 8D 9D | QH QS QD QC')).errors).toEqual([]);
+});
+
+test('rejects a card declared twice, even among enough dublees', () => {
+  const rules = withTwentyOneRules(DEFAULT_MELD_RULES);
+  const parsed = parseHand('KH KH#1');
+  if (!parsed.ok) throw new Error(parsed.error.message);
+  const dublee = createGroup(parsed.groups[0], rules);
+  expect(dublee.type).toBe('dublee');
+
+  const result = validateDeclaration(Array(rules.dubleesToDeclare!).fill(dublee), [], rules);
+  expect(result.isValid).toBe(false);
+  expect(result.errors[0]).toMatchObject({ code: 'REPEATED_CARDS' });
+});
+
+test('a dublee declaration still has to be the whole hand', () => {
+  const rules = withTwentyOneRules(DEFAULT_MELD_RULES);
+  const pairs = '2S 2S#1 | 4S 4S#1 | 6S 6S#1 | 8S 8S#1 | 10S 10S#1 | QS QS#1 | AS AS#1 | 3S 3S#1';
+  const dublees = (loose: string) => {
+    const parsed = parseHand(`${pairs} | ${loose}`);
+    if (!parsed.ok) throw new Error(parsed.error.message);
+    return parsed.groups.map(cards => createGroup(cards, rules));
+  };
+
+  expect(validateDeclaration(dublees('9H JC 5D KH 7C'), [], rules).isValid).toBe(true);
+
+  const short = validateDeclaration(dublees('9H JC'), [], rules);
+  expect(short.isValid).toBe(false);
+  expect(short.errors.map(error => error.code)).toContain('WRONG_CARD_COUNT');
+});
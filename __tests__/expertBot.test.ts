@@ -0,0 +1,77 @@
+/**
+ * @format
+ */
+
+import { createDecks, dealCards } from '../src/engine';
+import { BotContext, getBotDecision } from '../src/engine/bot';
+import { Card } from '../src/engine/types';
+import { card, printedJoker } from './helpers/cards';
+
+const context = (hand: Card[], overrides: Partial<BotContext> = {}): BotContext => ({
+  hand,
+  topDiscard: null,
+  discardHistory: [],
+  isFirstTurn: false,
+  currentScore: 0,
+  poolLimit: null,
+  turnPhase: 'discard',
+  playerCount: 2,
+  timeBudgetMs: 20,
+  ...overrides,
+});
+
+test('declares as soon as a discard leaves a winning hand', () => {
+  const hand = [
+    card('hearts', 'A'),
+    card('hearts', '2'),
+    card('hearts', '3'),
+    card('spades', '5'),
+    card('spades', '6'),
+    card('spades', '7'),
+    card('clubs', '9'),
+    card('diamonds', '9'),
+    card('spades', '9'),
+    card('clubs', 'J'),
+    card('clubs', 'Q'),
+    card('clubs', 'K'),
+    card('hearts', '9'),
+    card('hearts', 'K'),
+  ];
+
+  const decision = getBotDecision('expert', context(hand));
+
+  expect(decision.action).toBe('declare');
+});
+
+test('discards a loose card from its own hand and keeps its jokers', () => {
+  const deal = dealCards(createDecks(2), ['bot', 'other'], 13, 99);
+  const hand = [...deal.hands.bot, deal.drawPile[0]];
+
+  const decision = getBotDecision(
+    'expert',
+    context(hand, {
+      topDiscard: deal.discardPile[0],
+      discardHistory: deal.discardPile,
+      wildJokerCard: deal.wildJokerCard,
+    })
+  );
+
+  expect(decision.action === 'declare' || decision.action === 'discard').toBe(true);
+  if (decision.action === 'discard') {
+    expect(hand.some(c => c.id === decision.card?.id)).toBe(true);
+    expect(decision.card?.jokerType).toBeNull();
+  }
+});
+
+test('always takes a joker from the discard pile', () => {
+  const deal = dealCards(createDecks(2), ['bot', 'other'], 13, 7);
+  const joker = printedJoker();
+
+  const decision = getBotDecision(
+    'expert',
+    context(deal.hands.bot, { turnPhase: 'draw', topDiscard: joker, discardHistory: [joker] })
+  );
+
+  expect(decision.action).toBe('draw');
+  expect(decision.source).toBe('discard');
+});
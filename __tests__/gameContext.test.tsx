@@ -0,0 +1,278 @@
+/**
+ * @format
+ */
+
+import React from 'react';
+import ReactTestRenderer from 'react-test-renderer';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { GameProvider, useGame } from '../src/context/GameContext';
+import { GameConfig, Player, ScoreInput } from '../src/types/game';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+const POOL: GameConfig = { variant: 'pool', poolLimit: 101, joinTableAmount: 10 };
+
+const PLAYERS: Player[] = [
+  { id: 'a', name: 'Asha', score: 0 },
+  { id: 'b', name: 'Bilal', score: 0 },
+  { id: 'c', name: 'Chen', score: 0 },
+];
+
+let game: ReturnType<typeof useGame>;
+let renderer: ReactTestRenderer.ReactTestRenderer | undefined;
+
+const Probe = () => {
+  game = useGame();
+  return null;
+};
+
+// Run an action and let its storage writes settle before reading the context again
+const run = async (action: () => void) => {
+  await ReactTestRenderer.act(async () => {
+    action();
+    await new Promise(resolve => setTimeout(resolve, 0));
+  });
+};
+
+const startGame = async (config: GameConfig = POOL, players: Player[] = PLAYERS, name?: string) => {
+  await run(() => game.createGame(config, players, name));
+  return game.currentGame!.id;
+};
+
+// The first player named declares, the rest score the points given
+const scores = (points: { [playerId: string]: number }): ScoreInput[] =>
+  Object.entries(points).map(([playerId, value], i) => ({
+    playerId,
+    points: value,
+    isDeclared: i === 0,
+  }));
+
+const findGame = (gameId: string) => game.activeGames.find(g => g.id === gameId)!;
+
+beforeEach(async () => {
+  // Game and round ids come from the clock, so keep each one distinct
+  let now = 0;
+  jest.spyOn(Date, 'now').mockImplementation(() => ++now);
+  await AsyncStorage.clear();
+  await ReactTestRenderer.act(async () => {
+    renderer = ReactTestRenderer.create(
+      <GameProvider>
+        <Probe />
+      </GameProvider>,
+    );
+  });
+});
+
+afterEach(async () => {
+  await ReactTestRenderer.act(async () => renderer?.unmount());
+  jest.restoreAllMocks();
+});
+
+test('undoing rounds brings back eliminated players and takes the win out of the history', async () => {
+  const gameId = await startGame();
+
+  await run(() => game.addRound(gameId, scores({ a: 0, b: 20, c: 102 })));
+  expect(findGame(gameId).players.find(p => p.id === 'c')?.isEliminated).toBe(true);
+
+  await run(() => game.addRound(gameId, scores({ a: 0, b: 102 })));
+  expect(findGame(gameId).winner).toBe('a');
+  expect(game.gameHistory.map(g => g.id)).toEqual([gameId]);
+  expect(game.getUndoAction(gameId)).toBe('Round 2');
+
+  await run(() => game.undo(gameId));
+  const restored = findGame(gameId);
+  expect(restored.winner).toBeUndefined();
+  expect(restored.completedAt).toBeUndefined();
+  expect(restored.rounds).toHaveLength(1);
+  expect(restored.players.find(p => p.id === 'b')).toMatchObject({ score: 20, isEliminated: false });
+  expect(game.gameHistory).toEqual([]);
+
+  await run(() => game.undo(gameId));
+  expect(findGame(gameId).players.every(p => p.score === 0 && !p.isEliminated)).toBe(true);
+  expect(game.getUndoAction(gameId)).toBeNull();
+
+  // Redoing both rounds wins the game again
+  await run(() => game.redo(gameId));
+  await run(() => game.redo(gameId));
+  expect(findGame(gameId).winner).toBe('a');
+  expect(game.gameHistory.map(g => g.id)).toEqual([gameId]);
+});
+
+test('undoes a rejoin, a dealer change and a pot split', async () => {
+  const gameId = await startGame();
+  await run(() => game.addRound(gameId, scores({ a: 0, b: 20, c: 102 })));
+  const beforeRejoin = findGame(gameId);
+
+  await run(() => game.rejoinPlayer(gameId, 'c'));
+  expect(findGame(gameId).players.find(p => p.id === 'c')).toMatchObject({ score: 21, rejoinCount: 1 });
+  expect(game.getUndoAction(gameId)).toBe("Chen's rejoin");
+  await run(() => game.undo(gameId));
+  expect(findGame(gameId).players).toEqual(beforeRejoin.players);
+
+  const dealerId = findGame(gameId).dealerId;
+  const newDealer = dealerId === 'a' ? 'b' : 'a';
+  await run(() => game.setDealer(gameId, newDealer));
+  expect(findGame(gameId).dealerId).toBe(newDealer);
+  expect(game.getUndoAction(gameId)).toBe('Dealer change');
+  await run(() => game.undo(gameId));
+  expect(findGame(gameId).dealerId).toBe(dealerId);
+
+  await run(() =>
+    game.splitPot(gameId, [
+      { playerId: 'a', amount: 15 },
+      { playerId: 'b', amount: 15 },
+    ]),
+  );
+  expect(findGame(gameId).splitPot?.totalPot).toBe(30);
+  expect(findGame(gameId).completedAt).toBeDefined();
+  expect(game.getUndoAction(gameId)).toBe('Pot split');
+  await run(() => game.undo(gameId));
+  expect(findGame(gameId).splitPot).toBeUndefined();
+  expect(findGame(gameId).completedAt).toBeUndefined();
+});
+
+test('keeps only the last 30 actions to undo', async () => {
+  const gameId = await startGame();
+  for (let i = 0; i < 31; i++) {
+    await run(() => game.setDealer(gameId, i % 2 === 0 ? 'a' : 'b'));
+  }
+
+  for (let i = 0; i < 30; i++) {
+    await run(() => game.undo(gameId));
+  }
+
+  // The first change is past the limit, so it stays
+  expect(game.getUndoAction(gameId)).toBeNull();
+  expect(findGame(gameId).dealerId).toBe('a');
+  expect(game.getRedoAction(gameId)).toBe('Dealer change');
+});
+
+test('a new action clears what could be redone', async () => {
+  const gameId = await startGame();
+  await run(() => game.setDealer(gameId, 'a'));
+  await run(() => game.undo(gameId));
+  expect(game.getRedoAction(gameId)).toBe('Dealer change');
+
+  await run(() => game.setDealer(gameId, 'b'));
+  expect(game.getRedoAction(gameId)).toBeNull();
+
+  await run(() => game.redo(gameId));
+  expect(findGame(gameId).dealerId).toBe('b');
+});
+
+test('logs what each round edit changed', async () => {
+  const gameId = await startGame();
+  await run(() => game.addRound(gameId, scores({ a: 0, b: 20, c: 30 })));
+  const roundId = findGame(gameId).rounds[0].id;
+
+  await run(() => game.updateRound(gameId, roundId, scores({ a: 0, b: 20, c: 102 })));
+  expect(findGame(gameId).edits?.[0]).toMatchObject({
+    roundId,
+    roundNumber: 1,
+    scores: [{ playerId: 'c', before: 30, after: 102 }],
+    eliminated: ['c'],
+    reinstated: [],
+  });
+
+  await run(() => game.updateRound(gameId, roundId, scores({ b: 0, a: 40, c: 30 })));
+  expect(findGame(gameId).edits?.[1]).toMatchObject({
+    scores: [
+      { playerId: 'a', before: 0, after: 40 },
+      { playerId: 'b', before: 20, after: 0 },
+      { playerId: 'c', before: 102, after: 30 },
+    ],
+    roundWinner: { before: 'a', after: 'b' },
+    eliminated: [],
+    reinstated: ['c'],
+  });
+  expect(findGame(gameId).edits?.[1].gameWinner).toBeUndefined();
+
+  await run(() => game.updateRound(gameId, roundId, scores({ b: 0, a: 102, c: 102 })));
+  expect(findGame(gameId).edits?.[2]).toMatchObject({
+    eliminated: ['a', 'c'],
+    gameWinner: { before: null, after: 'b' },
+  });
+  expect(findGame(gameId).edits?.[2].roundWinner).toBeUndefined();
+});
+
+test('an edit that takes away the win takes the game out of the history', async () => {
+  const gameId = await startGame();
+  await run(() => game.addRound(gameId, scores({ a: 0, b: 102, c: 102 })));
+  expect(game.gameHistory.map(g => g.id)).toEqual([gameId]);
+  const roundId = findGame(gameId).rounds[0].id;
+
+  await run(() => game.updateRound(gameId, roundId, scores({ a: 0, b: 20, c: 30 })));
+  expect(findGame(gameId).edits?.[0].gameWinner).toEqual({ before: 'a', after: null });
+  expect(game.gameHistory).toEqual([]);
+
+  // Undoing the edit wins the game again
+  await run(() => game.undo(gameId));
+  expect(game.gameHistory.map(g => g.id)).toEqual([gameId]);
+});
+
+test('an edit that changes nothing is not logged', async () => {
+  const gameId = await startGame();
+  await run(() => game.addRound(gameId, scores({ a: 0, b: 20, c: 30 })));
+  const roundId = findGame(gameId).rounds[0].id;
+
+  await run(() => game.updateRound(gameId, roundId, scores({ a: 0, b: 20, c: 30 })));
+  expect(findGame(gameId).edits).toBeUndefined();
+});
+
+test('actions only touch the table they name', async () => {
+  const first = await startGame(POOL, PLAYERS, 'Front room');
+  const second = await startGame(POOL, PLAYERS, 'Back room');
+  expect(game.currentGame?.id).toBe(second);
+
+  await run(() => game.addRound(first, scores({ a: 0, b: 20, c: 30 })));
+  expect(findGame(first).rounds).toHaveLength(1);
+  expect(findGame(second).rounds).toHaveLength(0);
+  expect(game.currentGame?.id).toBe(second);
+
+  await run(() => game.setDealer(second, 'b'));
+  expect(findGame(second).dealerId).toBe('b');
+  expect(findGame(first).dealerId).not.toBe('b');
+});
+
+test('each table keeps its own undo history', async () => {
+  const first = await startGame(POOL, PLAYERS, 'Front room');
+  const second = await startGame(POOL, PLAYERS, 'Back room');
+
+  await run(() => game.addRound(first, scores({ a: 0, b: 20, c: 30 })));
+  await run(() => game.setDealer(second, 'a'));
+  expect(game.getUndoAction(first)).toBe('Round 1');
+  expect(game.getUndoAction(second)).toBe('Dealer change');
+
+  await run(() => game.undo(first));
+  expect(findGame(first).rounds).toHaveLength(0);
+  expect(findGame(second).dealerId).toBe('a');
+  expect(game.getUndoAction(second)).toBe('Dealer change');
+  expect(game.getRedoAction(first)).toBe('Round 1');
+  expect(game.getRedoAction(second)).toBeNull();
+
+  // Closing a table drops its history along with it
+  await run(() => game.closeGame(second));
+  expect(game.getUndoAction(second)).toBeNull();
+  expect(game.getRedoAction(first)).toBe('Round 1');
+});
+
+test('closing the table on screen brings up the last table started', async () => {
+  const first = await startGame(POOL, PLAYERS, 'Front room');
+  const second = await startGame(POOL, PLAYERS, 'Back room');
+  const third = await startGame(POOL, PLAYERS, 'Patio');
+
+  await run(() => game.selectGame(second));
+  await run(() => game.closeGame(second));
+  expect(game.currentGame?.id).toBe(third);
+
+  // Closing another table leaves the one on screen alone
+  await run(() => game.selectGame(first));
+  await run(() => game.closeGame(third));
+  expect(game.currentGame?.id).toBe(first);
+
+  await run(() => game.closeGame(first));
+  expect(game.currentGame).toBeNull();
+  expect(game.activeGames).toEqual([]);
+});
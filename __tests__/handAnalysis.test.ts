@@ -0,0 +1,41 @@
+/**
+ * @format
+ */
+
+import { analyzeHand, parseHand, setWildJokerRank } from '../src/engine';
+
+const hand = (text: string) => {
+  const result = parseHand(text);
+  if (!result.ok) throw new Error(result.error.message);
+  return result.cards;
+};
+
+test('analyses a dealt hand: arrangement, declaration and points', () => {
+  const report = analyzeHand(hand('AH 2H 3H 4S 5S 6S 7S 9D 9C 9S KC KD KH'));
+  expect(report.declaration.isValid).toBe(true);
+  expect(report.declaration.errors).toEqual([]);
+  expect(report.points).toBe(0);
+  expect(report.arrangement.melds).toHaveLength(4);
+  expect(report.discards).toEqual([]);
+
+  const broken = analyzeHand(hand('AH 2H 3H 4S 5S 6S 8S 9D 9C 9S KC KD QH'));
+  expect(broken.declaration.isValid).toBe(false);
+  expect(broken.points).toBeGreaterThan(0);
+});
+
+test('the wild joker rank decides the best discard of a drawn hand', () => {
+  const cards = hand('AH 2H 3H 4S 5S 6S 9D 9C 9S 9H KC KD 5C QS');
+
+  // With fives wild, KC KD 5C is a set, so throwing QS declares
+  const wild = analyzeHand(setWildJokerRank(cards, '5'));
+  expect(wild.discards[0]).toMatchObject({ points: 0, canDeclare: true });
+  expect(wild.discards[0].card.id).toBe('spades-Q-0');
+  expect(wild.cards).toHaveLength(13);
+  expect(wild.declaration.isValid).toBe(true);
+  expect(wild.discards.map(d => d.points)).toEqual([...wild.discards.map(d => d.points)].sort((a, b) => a - b));
+
+  // Without it the hand can't go out, whatever is thrown
+  const plain = analyzeHand(setWildJokerRank(setWildJokerRank(cards, '5'), null));
+  expect(plain.discards.some(d => d.canDeclare)).toBe(false);
+  expect(plain.cards.find(c => c.id === 'clubs-5-0')).toMatchObject({ jokerType: null, value: 5 });
+});
@@ -0,0 +1,24 @@
+/**
+ * @format
+ */
+
+import { parseHand, scoreRemainingHand } from '../src/engine';
+
+const hand = (text: string) => {
+  const result = parseHand(text);
+  if (!result.ok) throw new Error(result.error.message);
+  return result.cards;
+};
+
+test("counts a loser's cards with the deal's wild joker, sets only counting with two sequences", () => {
+  const cards = hand('AH 2H 3H 7S 7D 7C 8S 8D 8H 2C 3C QS 9H');
+
+  // One sequence: both sets are counted as deadwood
+  expect(scoreRemainingHand(cards, null)).toBe(7 * 3 + 8 * 3 + 2 + 3 + 10 + 9);
+
+  // Queens wild make 2C 3C QS a second sequence, so the sets hold and only 9H counts
+  expect(scoreRemainingHand(cards, 'Q')).toBe(9);
+
+  // No pure sequence is a full count
+  expect(scoreRemainingHand(hand('AH 2D 3H 7S 7D 7C 8S 8D 8H 2C 3C QS 9H'), 'Q')).toBe(80);
+});
@@ -0,0 +1,31 @@
+/**
+ * @format
+ */
+
+// Card fixtures shared by the test suites, with ids in the same form as a dealt deck's
+
+import { Card, Rank, Suit, getCardValue } from '../../src/engine/types';
+
+/**
+ * A card from the given deck; pass a different deck index for a second copy of the same card
+ */
+export const card = (
+  suit: Suit,
+  rank: Rank,
+  deckIndex = 0,
+  jokerType: Card['jokerType'] = null
+): Card => {
+  const base = { id: `${suit}-${rank}-${deckIndex}`, suit, rank, jokerType, value: 0 };
+  return { ...base, value: jokerType === 'wild' ? 0 : getCardValue(base) };
+};
+
+/**
+ * A printed joker from the given deck
+ */
+export const printedJoker = (deckIndex = 0, index = 0): Card => ({
+  id: `joker-${deckIndex}-${index}`,
+  suit: 'spades',
+  rank: 'A',
+  jokerType: 'printed',
+  value: 0,
+});
@@ -0,0 +1,64 @@
+/**
+ * @format
+ */
+
+import { BotContext, OpponentObservation, getBotDecision } from '../src/engine/bot';
+import { opponentInterest } from '../src/engine/bot/hard';
+import { Card } from '../src/engine/types';
+import { card } from './helpers/cards';
+
+const observed = (pickedUp: Card[], discarded: Card[] = []): OpponentObservation => ({
+  playerId: 'next',
+  pickedUp,
+  discarded,
+  deckDraws: 0,
+});
+
+// Four melds plus a loose queen and king
+const hand = [
+  card('spades', 'Q'),
+  card('clubs', 'K'),
+  card('hearts', 'A'),
+  card('hearts', '2'),
+  card('hearts', '3'),
+  card('spades', '4'),
+  card('spades', '5'),
+  card('spades', '6'),
+  card('clubs', '7'),
+  card('clubs', '8'),
+  card('clubs', '9'),
+  card('diamonds', 'J'),
+  card('diamonds', 'Q'),
+  card('diamonds', 'K'),
+];
+
+const context = (opponents: OpponentObservation[]): BotContext => ({
+  hand,
+  topDiscard: null,
+  discardHistory: [],
+  isFirstTurn: false,
+  currentScore: 0,
+  poolLimit: null,
+  turnPhase: 'discard',
+  opponents,
+});
+
+test('reads what an opponent collects from their pickups and discards', () => {
+  const collectingQueens = observed([card('hearts', 'Q')]);
+  const gaveUpOnQueens = observed([card('hearts', 'Q')], [card('clubs', 'Q'), card('diamonds', 'Q')]);
+
+  expect(opponentInterest(card('spades', 'Q'), collectingQueens)).toBeGreaterThan(0);
+  expect(opponentInterest(card('hearts', 'J'), collectingQueens)).toBeGreaterThan(0);
+  expect(opponentInterest(card('clubs', 'K'), collectingQueens)).toBe(0);
+  expect(opponentInterest(card('spades', 'Q'), gaveUpOnQueens)).toBeLessThan(
+    opponentInterest(card('spades', 'Q'), collectingQueens)
+  );
+});
+
+test('hard bot holds the card the next player is collecting', () => {
+  const unaware = getBotDecision('hard', context([]));
+  const aware = getBotDecision('hard', context([observed([card('hearts', 'Q')])]));
+
+  expect(unaware.card?.id).toBe('spades-Q-0');
+  expect(aware.card?.id).toBe('clubs-K-0');
+});
@@ -0,0 +1,129 @@
+/**
+ * @format
+ */
+
+import {
+  DEFAULT_FIRST_DROP,
+  DEFAULT_INVALID_DECLARATION,
+  DEFAULT_MIDDLE_DROP,
+  GameAction,
+  assessDiscard,
+  assessDraw,
+  reduce,
+  replayRound,
+} from '../src/engine';
+import { BotContext } from '../src/engine/bot';
+import { Card, PracticeGameState } from '../src/engine/types';
+import { card } from './helpers/cards';
+
+const NOW = 1700000000000;
+
+const apply = (state: PracticeGameState, action: GameAction): PracticeGameState => {
+  const result = reduce(state, action, NOW);
+  if (!result.ok) throw new Error(result.error.message);
+  return result.state;
+};
+
+test('logs every move so a finished round replays card for card', () => {
+  let state: PracticeGameState = {
+    id: 'test',
+    config: {
+      variant: 'pool',
+      poolLimit: 101,
+      firstDropPenalty: DEFAULT_FIRST_DROP,
+      middleDropPenalty: DEFAULT_MIDDLE_DROP,
+      invalidDeclarationPenalty: DEFAULT_INVALID_DECLARATION,
+    },
+    players: [
+      { id: 'human', name: 'You', isBot: false },
+      { id: 'bot-0', name: 'Bot 1', isBot: true, difficulty: 'easy' },
+    ],
+    activePlayers: ['human', 'bot-0'],
+    currentRound: null,
+    roundResults: [],
+    scores: { human: 0, 'bot-0': 0 },
+    gamePhase: 'playing',
+    winner: null,
+    createdAt: NOW,
+    updatedAt: NOW,
+  };
+  state = apply(state, { type: 'START_ROUND', seed: 9 });
+
+  // A few turns each, alternating pickups, then the human drops
+  for (let turn = 0; turn < 6; turn++) {
+    const round = state.currentRound!;
+    const playerId = state.activePlayers[round.currentPlayerIndex];
+    state = apply(state, { type: 'DRAW_CARD', playerId, source: turn % 3 === 0 ? 'discard' : 'deck' });
+    const hand = state.currentRound!.hands[playerId];
+    state = apply(state, { type: 'DISCARD_CARD', playerId, card: hand[hand.length - 1] });
+  }
+  const dropper = state.activePlayers[state.currentRound!.currentPlayerIndex];
+  state = apply(state, { type: 'DRAW_CARD', playerId: dropper, source: 'deck' });
+  state = apply(state, { type: 'DROP', playerId: dropper, dropType: 'middle' });
+
+  const result = state.roundResults[0];
+  expect(result.actions?.[0]).toEqual({ type: 'START_ROUND', seed: 9, dealerIndex: 0 });
+  expect(result.actions).toHaveLength(15);
+
+  const replay = replayRound(state, 0);
+  if (!replay.ok) throw new Error(replay.error);
+  expect(replay.states).toHaveLength(15);
+  const last = replay.states[replay.states.length - 1];
+  expect(last.roundResults[0].finalHands).toEqual(result.finalHands);
+  expect(last.roundResults[0].scores).toEqual(result.scores);
+
+  // Rounds saved before logging can't be replayed
+  const unlogged = { ...state, roundResults: [{ ...result, actions: undefined }] };
+  expect(replayRound(unlogged, 0).ok).toBe(false);
+});
+
+// Three melds, a jack-queen pair and a loose king and four
+const hand = [
+  card('hearts', 'A'),
+  card('hearts', '2'),
+  card('hearts', '3'),
+  card('spades', '4'),
+  card('spades', '5'),
+  card('spades', '6'),
+  card('clubs', '7'),
+  card('clubs', '8'),
+  card('clubs', '9'),
+  card('diamonds', 'J'),
+  card('diamonds', 'Q'),
+  card('clubs', 'K'),
+  card('hearts', '4'),
+];
+
+const contextFor = (cards: Card[], topDiscard: Card | null): BotContext => ({
+  hand: cards,
+  topDiscard,
+  discardHistory: topDiscard ? [topDiscard] : [],
+  isFirstTurn: false,
+  currentScore: 0,
+  poolLimit: 101,
+  turnPhase: cards.length > 13 ? 'discard' : 'draw',
+  timeBudgetMs: 50,
+});
+
+test('grades draws and discards against the expert and names the error pattern', () => {
+  // The king of diamonds finishes the jack-queen sequence
+  const pickup = assessDraw(contextFor(hand, card('diamonds', 'K')), 'discard');
+  expect(pickup.quality).toBe('good');
+  expect(pickup.equityLoss).toBe(0);
+
+  const missed = assessDraw(contextFor(hand, card('diamonds', 'K')), 'deck');
+  expect(missed.quality).toBe('mistake');
+  expect(missed.best.source).toBe('discard');
+  expect(missed.patterns).toEqual(['missed-pickup']);
+
+  // Throwing from a finished pure sequence while holding loose face cards
+  const drawn = [...hand, card('clubs', '10')];
+  const broken = assessDiscard(contextFor(drawn, null), card('hearts', '2'));
+  expect(broken.quality).toBe('mistake');
+  expect(broken.best.card?.value).toBe(10);
+  expect(broken.patterns).toContain('broke-meld');
+  expect(broken.patterns).toContain('held-high-cards');
+
+  const king = assessDiscard(contextFor(drawn, null), card('clubs', 'K'));
+  expect(king.quality).not.toBe('mistake');
+});
@@ -0,0 +1,84 @@
+/**
+ * @format
+ */
+
+import React from 'react';
+import ReactTestRenderer from 'react-test-renderer';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { PracticeGameProvider, usePracticeGame } from '../src/context/PracticeGameContext';
+import { getBotName } from '../src/engine/bot';
+import { BotSeat, PracticeGameConfig } from '../src/engine/types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+const CONFIG: PracticeGameConfig = {
+  variant: 'pool',
+  poolLimit: 101,
+  firstDropPenalty: 20,
+  middleDropPenalty: 40,
+  invalidDeclarationPenalty: 80,
+};
+
+const SEATS: BotSeat[] = [
+  { difficulty: 'easy', name: '  Ravi ' },
+  { difficulty: 'expert' },
+  { difficulty: 'hard', personality: 'aggressive' },
+];
+
+let practice: ReturnType<typeof usePracticeGame>;
+let renderer: ReactTestRenderer.ReactTestRenderer | undefined;
+
+const Probe = () => {
+  practice = usePracticeGame();
+  return null;
+};
+
+const createGame = async (config: PracticeGameConfig) => {
+  await ReactTestRenderer.act(async () => {
+    await practice.createGame('Me', SEATS, config, 42);
+    await new Promise(resolve => setTimeout(resolve, 0));
+  });
+  return practice.gameState!;
+};
+
+beforeEach(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  await AsyncStorage.clear();
+  await ReactTestRenderer.act(async () => {
+    renderer = ReactTestRenderer.create(
+      <PracticeGameProvider>
+        <Probe />
+      </PracticeGameProvider>,
+    );
+  });
+});
+
+afterEach(async () => {
+  await ReactTestRenderer.act(async () => renderer?.unmount());
+  jest.restoreAllMocks();
+});
+
+test('each bot seat keeps its own difficulty, name and personality', async () => {
+  const game = await createGame(CONFIG);
+
+  expect(game.players.map(p => [p.id, p.name, p.difficulty, p.personality])).toEqual([
+    ['human', 'Me', undefined, undefined],
+    ['bot-0', 'Ravi', 'easy', 'balanced'],
+    ['bot-1', getBotName('expert', 1), 'expert', 'balanced'],
+    ['bot-2', getBotName('hard', 2), 'hard', 'aggressive'],
+  ]);
+  expect(practice.savedBotSeats).toEqual(SEATS);
+});
+
+test('adaptive games leave the seat difficulties to the adaptive level', async () => {
+  const game = await createGame({ ...CONFIG, adaptive: true });
+
+  expect(game.players.filter(p => p.isBot).map(p => p.difficulty)).toEqual([
+    undefined,
+    undefined,
+    undefined,
+  ]);
+  expect(game.players.map(p => p.name)).toEqual(['Me', 'Ravi', getBotName('expert', 1), getBotName('hard', 2)]);
+});
@@ -0,0 +1,195 @@
+/**
+ * @format
+ */
+
+import {
+  DEFAULT_FIRST_DROP,
+  DEFAULT_INVALID_DECLARATION,
+  DEFAULT_MIDDLE_DROP,
+  createGroup,
+  reduce,
+} from '../src/engine';
+import { PracticeGameState } from '../src/engine/types';
+import { card as fixture } from './helpers/cards';
+
+const NOW = 1700000000000;
+
+const newGame = (): PracticeGameState => ({
+  id: 'test',
+  config: {
+    variant: 'pool',
+    poolLimit: 101,
+    firstDropPenalty: DEFAULT_FIRST_DROP,
+    middleDropPenalty: DEFAULT_MIDDLE_DROP,
+    invalidDeclarationPenalty: DEFAULT_INVALID_DECLARATION,
+  },
+  players: [
+    { id: 'human', name: 'You', isBot: false },
+    { id: 'bot-0', name: 'Bot 1', isBot: true, difficulty: 'easy' },
+    { id: 'bot-1', name: 'Bot 2', isBot: true, difficulty: 'easy' },
+  ],
+  activePlayers: ['human', 'bot-0', 'bot-1'],
+  currentRound: null,
+  roundResults: [],
+  scores: { human: 0, 'bot-0': 0, 'bot-1': 0 },
+  gamePhase: 'playing',
+  winner: null,
+  createdAt: NOW,
+  updatedAt: NOW,
+});
+
+const started = (): PracticeGameState => {
+  const result = reduce(newGame(), { type: 'START_ROUND', seed: 42 }, NOW);
+  if (!result.ok) throw new Error(result.error.message);
+  return result.state;
+};
+
+test('deals the same round for the same seed', () => {
+  const a = started();
+  const b = started();
+
+  expect(a.currentRound?.hands).toEqual(b.currentRound?.hands);
+  expect(a.currentRound?.hands.human).toHaveLength(13);
+  expect(a.currentRound?.dealerIndex).toBe(0);
+  expect(a.activePlayers[a.currentRound!.currentPlayerIndex]).toBe('bot-0');
+
+  const again = reduce(a, { type: 'START_ROUND', seed: 7 }, NOW);
+  expect(again.ok ? null : again.error.code).toBe('ROUND_IN_PROGRESS');
+});
+
+test('enforces turn order and turn phase', () => {
+  const state = started();
+  const card = state.currentRound!.hands['bot-0'][0];
+
+  const outOfTurn = reduce(state, { type: 'DRAW_CARD', playerId: 'human', source: 'deck' }, NOW);
+  expect(outOfTurn.ok ? null : outOfTurn.error.code).toBe('NOT_YOUR_TURN');
+
+  const early = reduce(state, { type: 'DISCARD_CARD', playerId: 'bot-0', card }, NOW);
+  expect(early.ok ? null : early.error.code).toBe('WRONG_TURN_PHASE');
+
+  const lateFirstDrop = reduce(state, { type: 'DROP', playerId: 'bot-0', dropType: 'middle' }, NOW);
+  expect(lateFirstDrop.ok ? null : lateFirstDrop.error.code).toBe('WRONG_TURN_PHASE');
+});
+
+test('draw then discard passes the turn without touching the old state', () => {
+  const state = started();
+  const snapshot = JSON.stringify(state);
+
+  const drawn = reduce(state, { type: 'DRAW_CARD', playerId: 'bot-0', source: 'discard' }, NOW);
+  if (!drawn.ok) throw new Error(drawn.error.message);
+  expect(drawn.state.currentRound!.hands['bot-0']).toHaveLength(14);
+  expect(drawn.state.currentRound!.discardPile).toHaveLength(0);
+
+  const card = drawn.state.currentRound!.hands['bot-0'][0];
+  const discarded = reduce(drawn.state, { type: 'DISCARD_CARD', playerId: 'bot-0', card }, NOW);
+  if (!discarded.ok) throw new Error(discarded.error.message);
+
+  const round = discarded.state.currentRound!;
+  expect(round.hands['bot-0']).toHaveLength(13);
+  expect(round.discardPile[round.discardPile.length - 1].id).toBe(card.id);
+  expect(discarded.state.activePlayers[round.currentPlayerIndex]).toBe('bot-1');
+  expect(JSON.stringify(state)).toBe(snapshot);
+  expect(round.observations!['bot-0'].pickedUp.map(c => c.id)).toEqual([
+    state.currentRound!.discardPile[0].id,
+  ]);
+  expect(round.observations!['bot-0'].discarded.map(c => c.id)).toEqual([card.id]);
+
+  const notInHand = reduce(discarded.state, { type: 'DRAW_CARD', playerId: 'bot-1', source: 'deck' }, NOW);
+  if (!notInHand.ok) throw new Error(notInHand.error.message);
+  const missing = reduce(notInHand.state, { type: 'DISCARD_CARD', playerId: 'bot-1', card }, NOW);
+  expect(missing.ok ? null : missing.error.code).toBe('CARD_NOT_IN_HAND');
+});
+
+test('the last player left after drops wins the round', () => {
+  const first = reduce(started(), { type: 'DROP', playerId: 'bot-0', dropType: 'first' }, NOW);
+  if (!first.ok) throw new Error(first.error.message);
+  expect(first.state.activePlayers[first.state.currentRound!.currentPlayerIndex]).toBe('bot-1');
+
+  const second = reduce(first.state, { type: 'DROP', playerId: 'bot-1', dropType: 'first' }, NOW);
+  if (!second.ok) throw new Error(second.error.message);
+
+  const [result] = second.state.roundResults;
+  expect(second.state.currentRound!.phase).toBe('ended');
+  expect(result.winnerId).toBe('human');
+  expect(second.state.scores).toEqual({
+    human: 0,
+    'bot-0': DEFAULT_FIRST_DROP,
+    'bot-1': DEFAULT_FIRST_DROP,
+  });
+
+  const next = reduce(second.state, { type: 'START_ROUND', seed: 1 }, NOW);
+  if (!next.ok) throw new Error(next.error.message);
+  expect(next.state.currentRound!.dealerIndex).toBe(1);
+});
+
+test('rejects a declaration that repeats cards or leaves out part of the hand', () => {
+  const drawn = reduce(started(), { type: 'DRAW_CARD', playerId: 'bot-0', source: 'deck' }, NOW);
+  if (!drawn.ok) throw new Error(drawn.error.message);
+  const hand = drawn.state.currentRound!.hands['bot-0'];
+
+  // One card repeated across every slot of a full hand
+  const repeated = reduce(
+    drawn.state,
+    { type: 'DECLARE', playerId: 'bot-0', melds: [], deadwood: Array(13).fill(hand[0]) },
+    NOW
+  );
+  expect(repeated.ok ? null : repeated.error.code).toBe('MALFORMED_DECLARATION');
+
+  const short = reduce(
+    drawn.state,
+    { type: 'DECLARE', playerId: 'bot-0', melds: [], deadwood: hand.slice(0, 12) },
+    NOW
+  );
+  expect(short.ok ? null : short.error.code).toBe('MALFORMED_DECLARATION');
+
+  const full = reduce(
+    drawn.state,
+    { type: 'DECLARE', playerId: 'bot-0', melds: [], deadwood: hand.slice(1) },
+    NOW
+  );
+  expect(full.ok ? full.state.roundResults[0].declarationType : null).toBe('invalid');
+});
+
+test('each dropped player is charged for their own kind of drop', () => {
+  const first = reduce(started(), { type: 'DROP', playerId: 'bot-0', dropType: 'first' }, NOW);
+  if (!first.ok) throw new Error(first.error.message);
+  const drawn = reduce(first.state, { type: 'DRAW_CARD', playerId: 'bot-1', source: 'deck' }, NOW);
+  if (!drawn.ok) throw new Error(drawn.error.message);
+  const middle = reduce(drawn.state, { type: 'DROP', playerId: 'bot-1', dropType: 'middle' }, NOW);
+  if (!middle.ok) throw new Error(middle.error.message);
+
+  const expected = { human: 0, 'bot-0': DEFAULT_FIRST_DROP, 'bot-1': DEFAULT_MIDDLE_DROP };
+  expect(middle.state.roundResults[0].scores).toEqual(expected);
+  expect(middle.state.scores).toEqual(expected);
+});
+
+test('a player who dropped pays only the drop when someone else shows', () => {
+  const dropped = reduce(started(), { type: 'DROP', playerId: 'bot-0', dropType: 'first' }, NOW);
+  if (!dropped.ok) throw new Error(dropped.error.message);
+  const drawn = reduce(dropped.state, { type: 'DRAW_CARD', playerId: 'bot-1', source: 'deck' }, NOW);
+  if (!drawn.ok) throw new Error(drawn.error.message);
+
+  const melds = [
+    [fixture('hearts', 'A'), fixture('hearts', '2'), fixture('hearts', '3'), fixture('hearts', '4')],
+    [fixture('spades', '5'), fixture('spades', '6'), fixture('spades', '7')],
+    [fixture('clubs', '8'), fixture('clubs', '9'), fixture('clubs', '10')],
+    [fixture('diamonds', 'J'), fixture('diamonds', 'Q'), fixture('diamonds', 'K')],
+  ].map(cards => createGroup(cards));
+  const round = drawn.state.currentRound!;
+  const state: PracticeGameState = {
+    ...drawn.state,
+    currentRound: {
+      ...round,
+      hands: { ...round.hands, 'bot-1': [...melds.flatMap(m => m.cards), fixture('clubs', 'K')] },
+    },
+  };
+
+  const shown = reduce(state, { type: 'DECLARE', playerId: 'bot-1', melds, deadwood: [] }, NOW);
+  if (!shown.ok) throw new Error(shown.error.message);
+  const [result] = shown.state.roundResults;
+  expect(result.declarationType).toBe('valid');
+  expect(result.scores['bot-0']).toBe(DEFAULT_FIRST_DROP);
+  expect(result.scores['bot-1']).toBe(0);
+  expect(result.scores.human).toBeGreaterThan(0);
+  expect(shown.state.scores['bot-0']).toBe(DEFAULT_FIRST_DROP);
+});
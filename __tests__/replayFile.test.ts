@@ -0,0 +1,145 @@
+/**
+ * @format
+ */
+
+import {
+  DEFAULT_FIRST_DROP,
+  DEFAULT_INVALID_DECLARATION,
+  DEFAULT_MIDDLE_DROP,
+  GameAction,
+  createReplayFile,
+  parseReplayFile,
+  reduce,
+  serializeReplayFile,
+  validateReplayFile,
+} from '../src/engine';
+import { PracticeGameState } from '../src/engine/types';
+
+const NOW = 1700000000000;
+
+const apply = (state: PracticeGameState, action: GameAction): PracticeGameState => {
+  const result = reduce(state, action, NOW);
+  if (!result.ok) throw new Error(result.error.message);
+  return result.state;
+};
+
+// Two rounds of a three-player game, so the second deal has a rotated dealer
+const playedGame = (): PracticeGameState => {
+  let state: PracticeGameState = {
+    id: 'test',
+    config: {
+      variant: 'pool',
+      poolLimit: 101,
+      firstDropPenalty: DEFAULT_FIRST_DROP,
+      middleDropPenalty: DEFAULT_MIDDLE_DROP,
+      invalidDeclarationPenalty: DEFAULT_INVALID_DECLARATION,
+    },
+    players: [
+      { id: 'human', name: 'You', isBot: false },
+      { id: 'bot-0', name: 'Bot 1', isBot: true, difficulty: 'hard', personality: 'fisher' },
+      { id: 'bot-1', name: 'Bot 2', isBot: true, difficulty: 'easy' },
+    ],
+    activePlayers: ['human', 'bot-0', 'bot-1'],
+    currentRound: null,
+    roundResults: [],
+    scores: { human: 0, 'bot-0': 0, 'bot-1': 0 },
+    gamePhase: 'playing',
+    winner: null,
+    createdAt: NOW,
+    updatedAt: NOW,
+  };
+
+  for (const seed of [3, 4]) {
+    state = apply(state, { type: 'START_ROUND', seed });
+    for (let turn = 0; turn < 4; turn++) {
+      const playerId = state.activePlayers[state.currentRound!.currentPlayerIndex];
+      state = apply(state, { type: 'DRAW_CARD', playerId, source: turn === 2 ? 'discard' : 'deck' });
+      state = apply(state, { type: 'DISCARD_CARD', playerId, card: state.currentRound!.hands[playerId][0] });
+    }
+    for (let drops = 0; drops < 2; drops++) {
+      const playerId = state.activePlayers[state.currentRound!.currentPlayerIndex];
+      state = apply(state, { type: 'DROP', playerId, dropType: 'first' });
+    }
+  }
+  return state;
+};
+
+test('exports a round to text and rebuilds it exactly through the engine', () => {
+  const game = playedGame();
+  const replay = createReplayFile(game, 1, NOW);
+  if (!replay) throw new Error('Round was not logged');
+
+  expect(replay.roundNumber).toBe(2);
+  expect(replay.actions[0]).toEqual({ type: 'START_ROUND', seed: 4, dealerIndex: 1 });
+  expect(replay.scores).toEqual(game.roundResults[0].scores);
+
+  const imported = parseReplayFile(serializeReplayFile(replay));
+  if (!imported.ok) throw new Error(imported.errors.join(', '));
+
+  const last = imported.states[imported.states.length - 1];
+  const result = last.roundResults[last.roundResults.length - 1];
+  expect(result.finalHands).toEqual(game.roundResults[1].finalHands);
+  expect(result.winnerId).toBe(game.roundResults[1].winnerId);
+  expect(last.scores).toEqual(game.scores);
+});
+
+test('rejects files that are malformed or that the engine cannot replay', () => {
+  const replay = createReplayFile(playedGame(), 0, NOW)!;
+
+  expect(parseReplayFile('not json')).toEqual({ ok: false, errors: ['The replay is not valid JSON'] });
+  expect(validateReplayFile({ ...replay, format: 'other' }).ok).toBe(false);
+  expect(validateReplayFile({ ...replay, version: 99 })).toEqual({
+    ok: false,
+    errors: ['This replay was made by a newer version of the app'],
+  });
+  for (const version of [0, -1, 1.5, '1', undefined]) {
+    expect(validateReplayFile({ ...replay, version })).toEqual({
+      ok: false,
+      errors: ['The replay has no valid version number'],
+    });
+  }
+
+  // Every shape problem is listed
+  const broken = validateReplayFile({
+    ...replay,
+    players: [replay.players[0], replay.players[0]],
+    actions: [{ type: 'START_ROUND' }, { type: 'DRAW_CARD', playerId: 'nobody', source: 'deck' }],
+  });
+  expect(broken.ok ? [] : broken.errors).toEqual([
+    'Player human appears twice',
+    'The first move must be the deal, with its seed and dealer',
+    'Move 2 is by an unknown player',
+  ]);
+
+  // A well-formed move the rules don't allow stops the rebuild
+  const outOfTurn = validateReplayFile({ ...replay, actions: [replay.actions[0], replay.actions[3]] });
+  expect(outOfTurn.ok ? [] : outOfTurn.errors).toEqual([expect.stringMatching(/^Move 2: /)]);
+
+  // A discard can't swap in a different card under a dealt card's id
+  const discardIndex = replay.actions.findIndex(a => a.type === 'DISCARD_CARD');
+  const tampered = replay.actions.map((action, index) =>
+    index === discardIndex && action.type === 'DISCARD_CARD'
+      ? { ...action, card: { ...action.card, rank: action.card.rank === 'A' ? 'K' : 'A' } }
+      : action
+  );
+  const swapped = validateReplayFile({ ...replay, actions: tampered });
+  expect(swapped.ok ? [] : swapped.errors).toEqual([
+    `Move ${discardIndex + 1} names a card that isn't the one dealt`,
+  ]);
+});
+
+test('reports unreadable deck and meld settings instead of throwing', () => {
+  const replay = createReplayFile(playedGame(), 0, NOW)!;
+
+  const noDeck = validateReplayFile({ ...replay, config: { ...replay.config, deck: null } });
+  expect(noDeck).toEqual({ ok: false, errors: ['The deck settings are unreadable'] });
+
+  const badRules = validateReplayFile({
+    ...replay,
+    config: { ...replay.config, meldRules: { handSize: '13' }, poolLimit: 'high' },
+  });
+  expect(badRules).toEqual({
+    ok: false,
+    errors: ['The meld rules are unreadable', 'The game settings are unreadable'],
+  });
+});
@@ -0,0 +1,16 @@
+/**
+ * @format
+ */
+
+import { simulateGames } from '../src/engine/simulation';
+
+test('plays full games and accounts for every one', () => {
+  const stats = simulateGames({ seats: ['easy', 'hard'], games: 2, seed: 7 });
+  const gamesWon = stats.seats.reduce((sum, seat) => sum + seat.gamesWon, 0);
+
+  expect(stats.seed).toBe(7);
+  expect(stats.completedGames + stats.abandonedGames).toBe(2);
+  expect(gamesWon).toBe(stats.completedGames);
+  expect(stats.rounds).toBeGreaterThan(0);
+  expect(stats.seats.map(s => s.difficulty)).toEqual(['easy', 'hard']);
+});
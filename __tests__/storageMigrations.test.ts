@@ -0,0 +1,88 @@
+/**
+ * @format
+ */
+
+import { StorageBackend, createRepository, getQuarantinedKeys } from '../src/storage/repository';
+import { ACTIVE_GAMES_SCHEMA, THEME_SCHEMA } from '../src/storage/schemas';
+
+const createMemoryBackend = (items: { [key: string]: string } = {}): StorageBackend => ({
+  getItem: async key => items[key] ?? null,
+  setItem: async (key, value) => {
+    items[key] = value;
+  },
+  removeItem: async key => {
+    delete items[key];
+  },
+  getAllKeys: async () => Object.keys(items),
+});
+
+const legacyGame = {
+  id: '1',
+  config: { variant: 'pool', poolLimit: 101 },
+  players: [{ id: 'a', name: 'A', score: 0 }],
+  rounds: [{ id: 'r1', timestamp: '2024-03-01T20:15:00.000Z', scores: { a: 0 } }],
+  currentDeal: 2,
+  startedAt: '2024-03-01T20:00:00.000Z',
+};
+
+test('upgrades unversioned records, revives dates and writes them back versioned', async () => {
+  const items: { [key: string]: string } = {
+    currentGame: JSON.stringify(legacyGame),
+    app_theme: 'forest',
+  };
+  const backend = createMemoryBackend(items);
+
+  const tables = await createRepository(backend, ACTIVE_GAMES_SCHEMA).load();
+  expect(tables?.games[0].startedAt).toEqual(new Date('2024-03-01T20:00:00.000Z'));
+  expect(tables?.games[0].rounds[0].timestamp).toBeInstanceOf(Date);
+  expect(JSON.parse(items.currentGame)).toEqual({
+    schemaVersion: 2,
+    data: { games: [legacyGame], selectedGameId: '1' },
+  });
+
+  // The theme used to be a bare string rather than JSON
+  expect(await createRepository(backend, THEME_SCHEMA).load()).toBe('forest');
+});
+
+test('turns the single game in progress into the first table', async () => {
+  const items = { currentGame: JSON.stringify({ schemaVersion: 1, data: legacyGame }) };
+
+  const tables = await createRepository(createMemoryBackend(items), ACTIVE_GAMES_SCHEMA).load();
+  expect(tables?.games.map(game => game.id)).toEqual(['1']);
+  expect(tables?.selectedGameId).toBe('1');
+});
+
+test('runs migrations in order from the stored version', async () => {
+  const items = { counter: JSON.stringify({ schemaVersion: 1, data: { count: 2 } }) };
+  const repository = createRepository<{ total: number }>(createMemoryBackend(items), {
+    key: 'counter',
+    migrations: [
+      () => {
+        throw new Error('version 0 is never read here');
+      },
+      data => ({ count: (data as { count: number }).count * 10 }),
+      data => ({ total: (data as { count: number }).count + 1 }),
+    ],
+    isValid: data => typeof (data as { total: unknown }).total === 'number',
+  });
+
+  expect(await repository.load()).toEqual({ total: 21 });
+});
+
+test('quarantines a corrupt record instead of discarding it', async () => {
+  const items: { [key: string]: string } = {
+    currentGame: '{"schemaVersion":1,"data":{"id":',
+    app_theme: JSON.stringify({ schemaVersion: 7, data: 'ocean' }),
+  };
+  const backend = createMemoryBackend(items);
+  const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+  expect(await createRepository(backend, ACTIVE_GAMES_SCHEMA).load()).toBeNull();
+  expect(await createRepository(backend, THEME_SCHEMA).load()).toBeNull();
+  warn.mockRestore();
+
+  const quarantined = await getQuarantinedKeys(backend);
+  expect(quarantined.map(key => key.split(':')[1]).sort()).toEqual(['app_theme', 'currentGame']);
+  expect(items.currentGame).toBeUndefined();
+  expect(Object.values(items)).toContain('{"schemaVersion":1,"data":{"id":');
+});
@@ -0,0 +1,84 @@
+/**
+ * @format
+ */
+
+import {
+  MELD_RULE_PRESETS,
+  autoArrangeHand,
+  calculateTwentyOneBonus,
+  canDeclare,
+  settleTwentyOneBonuses,
+  withTwentyOneRules,
+} from '../src/engine';
+import { Rank } from '../src/engine/types';
+import { card } from './helpers/cards';
+
+const rules = withTwentyOneRules(MELD_RULE_PRESETS.standard);
+
+test('a tunnela counts as one of the three pure sequences', () => {
+  const hand = [
+    card('hearts', '2'),
+    card('hearts', '3'),
+    card('hearts', '4'),
+    card('clubs', '9'),
+    card('clubs', '10'),
+    card('clubs', 'J'),
+    card('spades', '7'),
+    card('spades', '7', 1),
+    card('spades', '7', 2),
+    card('diamonds', '5'),
+    card('clubs', '5'),
+    card('spades', '5'),
+    card('hearts', 'Q'),
+    card('clubs', 'Q'),
+    card('diamonds', 'Q'),
+    card('diamonds', 'A'),
+    card('diamonds', '2'),
+    card('diamonds', '3'),
+    card('hearts', 'K'),
+    card('clubs', 'K'),
+    card('spades', 'K'),
+  ];
+
+  const analysis = autoArrangeHand(hand, rules);
+
+  expect(analysis.canDeclare).toBe(true);
+  expect(analysis.melds.some(m => m.type === 'tunnela')).toBe(true);
+  expect(canDeclare(hand, rules)).toBe(true);
+  expect(canDeclare(hand, { ...rules, tunnelas: false })).toBe(false);
+});
+
+test('eight dublees declare regardless of the other cards', () => {
+  const ranks: Rank[] = ['2', '4', '6', '8', '10', 'Q', 'A', '3'];
+  const hand = [
+    ...ranks.flatMap(rank => [card('spades', rank), card('spades', rank, 1)]),
+    card('hearts', '9'),
+    card('clubs', 'J'),
+    card('diamonds', '5'),
+    card('hearts', 'K'),
+    card('clubs', '7'),
+  ];
+
+  const analysis = autoArrangeHand(hand, rules);
+
+  expect(analysis.canDeclare).toBe(true);
+  expect(analysis.melds.filter(m => m.type === 'dublee')).toHaveLength(8);
+  expect(canDeclare(hand, rules)).toBe(true);
+});
+
+test('marriage and value card bonuses are collected from every other player', () => {
+  const wildJokerCard = card('hearts', '7');
+  const hand = [
+    card('hearts', '6', 0, 'wild'),
+    card('hearts', '7', 1, 'wild'),
+    card('hearts', '8', 0, 'wild'),
+    card('diamonds', '7', 0, 'wild'),
+    card('clubs', '2'),
+  ];
+
+  const bonus = calculateTwentyOneBonus(hand, wildJokerCard);
+  expect(bonus).toBe(110);
+
+  const settled = settleTwentyOneBonuses({ a: 0, b: 40, c: 25 }, { a: bonus, b: 0, c: 10 });
+  expect(settled).toEqual({ a: -210, b: 160, c: 115 });
+});
@@ -0,0 +1,117 @@
+/**
+ * Bot-vs-bot simulation runner
+ *
+ * Usage: npm run simulate -- --seats easy,medium,hard --games 100 [options]
+ *   --seats     Comma separated bot difficulty per seat (2-6 seats)
+ *   --personalities Comma separated bot personality per seat (default balanced)
+ *   --games     Number of full games to play (default 100)
+ *   --variant   pool | points | deals | twenty-one (default pool)
+ *   --pool      Pool limit for pool rummy (default 101)
+ *   --deals     Number of deals for deals and 21-card rummy (default 2)
+ *   --rules     Meld rules preset (default standard)
+ *   --seed      Master seed, to replay the same deals
+ *   --max-turns Abandon a game whose round runs longer than this
+ *   --budget    Expert bot search time per decision in ms
+ *
+ * Prints the aggregate statistics as JSON on stdout
+ */
+
+/// <reference types="node" />
+
+import {
+  BotDifficulty,
+  BotPersonality,
+  DEFAULT_FIRST_DROP,
+  DEFAULT_INVALID_DECLARATION,
+  DEFAULT_MIDDLE_DROP,
+  MELD_RULE_PRESETS,
+  MeldRulesPreset,
+  PracticeGameConfig,
+  PracticeVariant,
+  TWENTY_ONE_DECK_CONFIG,
+  withTwentyOneRules,
+} from '../src/engine';
+import { simulateGames } from '../src/engine/simulation';
+import { BOT_PERSONALITIES } from '../src/engine/bot';
+
+const DIFFICULTIES: BotDifficulty[] = ['easy', 'medium', 'hard', 'expert'];
+const VARIANTS: PracticeVariant[] = ['pool', 'points', 'deals', 'twenty-one'];
+
+const fail = (message: string): never => {
+  console.error(message);
+  process.exit(1);
+};
+
+const parseArgs = (argv: string[]): { [flag: string]: string } => {
+  const args: { [flag: string]: string } = {};
+  for (let i = 0; i < argv.length; i += 2) {
+    if (!argv[i].startsWith('--') || argv[i + 1] === undefined) {
+      fail(`Unexpected argument: ${argv[i]}`);
+    }
+    args[argv[i].slice(2)] = argv[i + 1];
+  }
+  return args;
+};
+
+const parseNumber = (value: string | undefined, name: string): number | undefined => {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    fail(`--${name} must be a whole number`);
+  }
+  return parsed;
+};
+
+const args = parseArgs(process.argv.slice(2));
+
+const seats = (args.seats ?? 'easy,medium,hard').split(',') as BotDifficulty[];
+if (seats.length < 2 || seats.length > 6 || seats.some(s => !DIFFICULTIES.includes(s))) {
+  fail(`--seats takes 2-6 of ${DIFFICULTIES.join(', ')}`);
+}
+
+const personalities = args.personalities?.split(',') as BotPersonality[] | undefined;
+if (
+  personalities &&
+  (personalities.length > seats.length || personalities.some(p => !BOT_PERSONALITIES.includes(p)))
+) {
+  fail(`--personalities takes up to one per seat of ${BOT_PERSONALITIES.join(', ')}`);
+}
+
+const variant = (args.variant ?? 'pool') as PracticeVariant;
+if (!VARIANTS.includes(variant)) {
+  fail(`--variant must be one of ${VARIANTS.join(', ')}`);
+}
+
+const preset = (args.rules ?? 'standard') as MeldRulesPreset;
+if (!MELD_RULE_PRESETS[preset]) {
+  fail(`--rules must be one of ${Object.keys(MELD_RULE_PRESETS).join(', ')}`);
+}
+
+const config: PracticeGameConfig = {
+  variant,
+  poolLimit: variant === 'pool' ? parseNumber(args.pool, 'pool') ?? 101 : undefined,
+  numberOfDeals:
+    variant === 'deals' || variant === 'twenty-one'
+      ? parseNumber(args.deals, 'deals') ?? 2
+      : undefined,
+  deck: variant === 'twenty-one' ? TWENTY_ONE_DECK_CONFIG : undefined,
+  meldRules:
+    variant === 'twenty-one'
+      ? withTwentyOneRules(MELD_RULE_PRESETS[preset])
+      : MELD_RULE_PRESETS[preset],
+  firstDropPenalty: DEFAULT_FIRST_DROP,
+  middleDropPenalty: DEFAULT_MIDDLE_DROP,
+  invalidDeclarationPenalty: DEFAULT_INVALID_DECLARATION,
+};
+
+const stats = simulateGames({
+  seats,
+  personalities,
+  games: parseNumber(args.games, 'games') ?? 100,
+  config,
+  seed: parseNumber(args.seed, 'seed'),
+  maxTurnsPerRound: parseNumber(args['max-turns'], 'max-turns'),
+  timeBudgetMs: parseNumber(args.budget, 'budget'),
+});
+
+console.log(JSON.stringify({ config, ...stats }, null, 2));
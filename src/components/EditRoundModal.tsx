@@ -28,6 +28,7 @@ type PlayerState = 0 | 1 | 2 | 3; // 0=drop(25), 1=winner(0), 2=custom, 3=invali
 
 interface EditRoundModalProps {
   visible: boolean;
+  gameId: string;
   round: Round | null;
   roundNumber: number;
   players: Player[];
@@ -36,13 +37,15 @@ interface EditRoundModalProps {
 
 const EditRoundModal: React.FC<EditRoundModalProps> = ({
   visible,
+  gameId,
   round,
   roundNumber,
   players,
   onClose,
 }) => {
   const { colors } = useTheme();
-  const { updateRound, currentGame } = useGame();
+  const { updateRound, activeGames } = useGame();
+  const game = activeGames.find(g => g.id === gameId);
   const styles = useMemo(() => createStyles(colors), [colors]);
   const slideAnim = useRef(new Animated.Value(MODAL_HEIGHT)).current;
   const backdropOpacity = useRef(new Animated.Value(0)).current;
@@ -200,10 +203,10 @@ const EditRoundModal: React.FC<EditRoundModalProps> = ({
   const [validationError, setValidationError] = useState<string | null>(null);
 
   const calculateChangePreview = (): string => {
-    if (!round || !currentGame) return '';
+    if (!round || !game) return '';
 
     const changes: string[] = [];
-    const roundIndex = currentGame.rounds.findIndex(r => r.id === round.id);
+    const roundIndex = game.rounds.findIndex(r => r.id === round.id);
     if (roundIndex === -1) return '';
 
     // Calculate new round scores
@@ -233,14 +236,14 @@ const EditRoundModal: React.FC<EditRoundModalProps> = ({
     });
 
     // Simulate total scores after edit
-    if (currentGame.config.variant === 'pool' && currentGame.config.poolLimit) {
-      const poolLimit = currentGame.config.poolLimit;
+    if (game.config.variant === 'pool' && game.config.poolLimit) {
+      const poolLimit = game.config.poolLimit;
 
       // Replay all rounds with the edited one
       const simulatedTotals: { [playerId: string]: number } = {};
       players.forEach(p => { simulatedTotals[p.id] = 0; });
 
-      currentGame.rounds.forEach((r, idx) => {
+      game.rounds.forEach((r, idx) => {
         const scores = idx === roundIndex ? newRoundScores : r.scores;
         players.forEach(player => {
           simulatedTotals[player.id] += scores[player.id] || 0;
@@ -300,7 +303,7 @@ const EditRoundModal: React.FC<EditRoundModalProps> = ({
       hasInvalidDeclaration: playerStates[player.id] === 3,
     }));
 
-    updateRound(round.id, scores);
+    updateRound(gameId, round.id, scores);
     setShowConfirmation(false);
     handleClose();
   };
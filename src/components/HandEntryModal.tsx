@@ -0,0 +1,220 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  Dimensions,
+} from 'react-native';
+import { BlurView } from '@react-native-community/blur';
+import Icon from './Icon';
+import { ArrangedHand, CardPicker, WildJokerPicker } from './practice';
+import { useTheme } from '../context/ThemeContext';
+import { ThemeColors, Typography, Spacing, IconSize, BorderRadius } from '../theme';
+import { Card, MeldRules, Rank } from '../engine/types';
+import { autoArrangeHand } from '../engine/declaration';
+import { setWildJokerRank } from '../engine/analysis';
+
+const { height: screenHeight } = Dimensions.get('window');
+const MODAL_HEIGHT = screenHeight * 0.85;
+
+interface HandEntryModalProps {
+  visible: boolean;
+  playerName: string;
+  initialHand: Card[];
+  wildJokerRank: Rank | null;
+  rules: MeldRules;
+  scoreHand: (hand: Card[], wildJokerRank: Rank | null) => number;
+  onDone: (hand: Card[], wildJokerRank: Rank | null) => void;
+  onClose: () => void;
+}
+
+// Tap in a loser's remaining cards and the deal's wild joker, and see how they count
+const HandEntryModal: React.FC<HandEntryModalProps> = ({
+  visible,
+  playerName,
+  initialHand,
+  wildJokerRank,
+  rules,
+  scoreHand,
+  onDone,
+  onClose,
+}) => {
+  const { colors } = useTheme();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const [hand, setHand] = useState<Card[]>([]);
+  const [wildRank, setWildRank] = useState<Rank | null>(null);
+
+  // Start from what was entered before each time the sheet opens
+  useEffect(() => {
+    if (visible) {
+      setHand(initialHand);
+      setWildRank(wildJokerRank);
+    }
+  }, [visible, initialHand, wildJokerRank]);
+
+  const cards = useMemo(() => setWildJokerRank(hand, wildRank), [hand, wildRank]);
+  const isComplete = cards.length === rules.handSize;
+  const arrangement = useMemo(
+    () => (isComplete ? autoArrangeHand(cards, rules) : null),
+    [isComplete, cards, rules]
+  );
+  const points = isComplete ? scoreHand(cards, wildRank) : null;
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+      supportedOrientations={['portrait', 'landscape']}>
+      <View style={styles.container}>
+        <BlurView
+          style={StyleSheet.absoluteFill}
+          blurType="dark"
+          blurAmount={10}
+          reducedTransparencyFallbackColor="black"
+        />
+        <View style={styles.modalContent}>
+          {/* Header */}
+          <View style={styles.header}>
+            <TouchableOpacity onPress={onClose} style={styles.headerButton}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <Text style={styles.headerTitle} numberOfLines={1}>{playerName}'s Cards</Text>
+            <TouchableOpacity
+              onPress={() => onDone(cards, wildRank)}
+              style={styles.headerButton}
+              disabled={!isComplete}>
+              <Text style={[styles.doneText, !isComplete && styles.doneTextDisabled]}>Done</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
+            <Text style={styles.sectionLabel}>WILD JOKER</Text>
+            <WildJokerPicker rank={wildRank} onChange={setWildRank} />
+
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionLabel}>
+                CARDS · {cards.length} OF {rules.handSize}
+              </Text>
+              {cards.length > 0 && (
+                <TouchableOpacity onPress={() => setHand([])} accessibilityRole="button">
+                  <Text style={styles.clearText}>Clear</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+            <View style={styles.card}>
+              <CardPicker hand={cards} maxCards={rules.handSize} onChange={setHand} />
+            </View>
+
+            {/* Count */}
+            <View style={styles.card}>
+              <View style={styles.pointsRow}>
+                <Icon name="number.circle.fill" size={IconSize.medium} color={colors.tint} weight="medium" />
+                <Text style={styles.pointsLabel}>
+                  {isComplete ? 'Points' : `Tap in ${rules.handSize - cards.length} more`}
+                </Text>
+                {points !== null && <Text style={styles.pointsValue}>{points}</Text>}
+              </View>
+              {arrangement && (
+                <ArrangedHand melds={arrangement.melds} deadwood={arrangement.deadwood} />
+              )}
+            </View>
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    height: MODAL_HEIGHT,
+    backgroundColor: colors.background,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: colors.separator,
+  },
+  headerTitle: {
+    ...Typography.headline,
+    color: colors.label,
+    flexShrink: 1,
+  },
+  headerButton: {
+    padding: Spacing.sm,
+  },
+  cancelText: {
+    ...Typography.body,
+    color: colors.tint,
+  },
+  doneText: {
+    ...Typography.body,
+    fontWeight: '600',
+    color: colors.tint,
+  },
+  doneTextDisabled: {
+    color: colors.tertiaryLabel,
+  },
+  scrollContent: {
+    padding: Spacing.lg,
+    paddingBottom: Spacing.xxl,
+    gap: Spacing.sm,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.secondaryLabel,
+    letterSpacing: 0.5,
+    marginTop: Spacing.sm,
+  },
+  clearText: {
+    ...Typography.footnote,
+    fontWeight: '600',
+    color: colors.tint,
+    marginTop: Spacing.sm,
+  },
+  card: {
+    backgroundColor: colors.cardBackground,
+    borderRadius: BorderRadius.large,
+    padding: Spacing.md,
+    gap: Spacing.sm,
+  },
+  pointsRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+  },
+  pointsLabel: {
+    ...Typography.body,
+    color: colors.label,
+    flex: 1,
+  },
+  pointsValue: {
+    ...Typography.title2,
+    fontWeight: '700',
+    color: colors.label,
+  },
+});
+
+export default HandEntryModal;
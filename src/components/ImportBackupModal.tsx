@@ -0,0 +1,315 @@
+/**
+ * ImportBackupModal Component
+ *
+ * Paste a backup exported from this or another device, see what it holds,
+ * then merge it into the device's data or replace the data with it.
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+} from 'react-native';
+import { BlurView } from '@react-native-community/blur';
+import Icon from './Icon';
+import { useTheme } from '../context/ThemeContext';
+import { useGame } from '../context/GameContext';
+import { ThemeColors, Spacing, BorderRadius, Typography } from '../theme';
+import { BackupResult, RestoreMode, parseBackup, restoreBackup } from '../storage';
+import { getTableName } from '../types/game';
+
+interface ImportBackupModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const ImportBackupModal: React.FC<ImportBackupModalProps> = ({ visible, onClose }) => {
+  const { colors } = useTheme();
+  const { gameHistory } = useGame();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const [text, setText] = useState('');
+  const [result, setResult] = useState<BackupResult | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const backup = result?.ok ? result : null;
+
+  const preview = useMemo(() => {
+    if (!backup) return [];
+    const { contents } = backup;
+    const games = contents.gameHistory ?? [];
+    const existingIds = new Set(gameHistory.map(game => game.id));
+    const duplicates = games.filter(game => existingIds.has(game.id)).length;
+    const hasSettings = !!(contents.gameDefaults || contents.lastGameSettings || contents.theme);
+
+    return [
+      {
+        label: 'Completed games',
+        value: duplicates > 0 ? `${games.length} (${duplicates} already here)` : `${games.length}`,
+      },
+      {
+        label: 'Open tables',
+        value: contents.currentGame
+          ? contents.currentGame.games.map(getTableName).join('; ') || 'None'
+          : 'None',
+      },
+      {
+        label: 'Practice game',
+        value: !contents.practiceGame
+          ? 'None'
+          : contents.practiceGame.gamePhase === 'ended'
+            ? 'Finished'
+            : `Round ${contents.practiceGame.roundResults.length + 1}`,
+      },
+      { label: 'Settings and theme', value: hasSettings ? 'Included' : 'None' },
+    ];
+  }, [backup, gameHistory]);
+
+  const handleClose = () => {
+    setText('');
+    setResult(null);
+    onClose();
+  };
+
+  const restore = async (mode: RestoreMode) => {
+    if (!backup) return;
+    setIsRestoring(true);
+    try {
+      const summary = await restoreBackup(backup.contents, mode);
+      const skipped = summary.gamesSkipped > 0 ? `, ${summary.gamesSkipped} already here` : '';
+      Alert.alert('Backup Restored', `${summary.gamesAdded} games added${skipped}.`);
+      handleClose();
+    } catch (error) {
+      console.error('Failed to restore backup:', error);
+      Alert.alert('Restore Failed', 'Your data was not changed.');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const handleReplace = () => {
+    Alert.alert(
+      'Replace All Data?',
+      'Games, settings and the practice game on this device will be replaced by the backup.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Replace', style: 'destructive', onPress: () => restore('replace') },
+      ]
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={handleClose}
+      supportedOrientations={['portrait', 'landscape']}
+    >
+      <KeyboardAvoidingView
+        style={styles.keyboardAvoid}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <BlurView style={styles.blurContainer} blurType="dark" blurAmount={10}>
+          <View style={styles.modalContent}>
+            <View style={styles.header}>
+              <Text style={styles.title}>Import Backup</Text>
+              <TouchableOpacity onPress={handleClose} style={styles.closeButton}>
+                <Icon name="xmark.circle.fill" size={28} color={colors.secondaryLabel} />
+              </TouchableOpacity>
+            </View>
+
+            {!backup ? (
+              <>
+                <Text style={styles.helperText}>Paste a backup exported from RummyIQ.</Text>
+                <TextInput
+                  style={styles.input}
+                  value={text}
+                  onChangeText={value => {
+                    setText(value);
+                    setResult(null);
+                  }}
+                  placeholder='{"format": "rummyiq-backup", ...}'
+                  placeholderTextColor={colors.placeholder}
+                  multiline
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                />
+
+                {result && !result.ok && result.errors.map(error => (
+                  <View key={error} style={styles.errorRow}>
+                    <Icon name="exclamationmark.triangle.fill" size={12} color={colors.destructive} />
+                    <Text style={styles.errorText}>{error}</Text>
+                  </View>
+                ))}
+
+                <TouchableOpacity
+                  style={[styles.primaryButton, !text.trim() && styles.buttonDisabled]}
+                  onPress={() => setResult(parseBackup(text.trim()))}
+                  disabled={!text.trim()}
+                >
+                  <Text style={styles.primaryButtonText}>Check Backup</Text>
+                </TouchableOpacity>
+              </>
+            ) : (
+              <>
+                <Text style={styles.helperText}>
+                  Exported {new Date(backup.exportedAt).toLocaleString()}
+                </Text>
+                <View style={styles.previewCard}>
+                  {preview.map(row => (
+                    <View key={row.label} style={styles.previewRow}>
+                      <Text style={styles.previewLabel}>{row.label}</Text>
+                      <Text style={styles.previewValue}>{row.value}</Text>
+                    </View>
+                  ))}
+                </View>
+                <Text style={styles.helperText}>
+                  Merging keeps everything on this device and adds what it's missing.
+                </Text>
+
+                <View style={styles.actions}>
+                  <TouchableOpacity
+                    style={[styles.secondaryButton, isRestoring && styles.buttonDisabled]}
+                    onPress={handleReplace}
+                    disabled={isRestoring}
+                  >
+                    <Text style={[styles.secondaryButtonText, { color: colors.destructive }]}>Replace</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.primaryButton, styles.actionButton, isRestoring && styles.buttonDisabled]}
+                    onPress={() => restore('merge')}
+                    disabled={isRestoring}
+                  >
+                    <Text style={styles.primaryButtonText}>Merge</Text>
+                  </TouchableOpacity>
+                </View>
+              </>
+            )}
+          </View>
+        </BlurView>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    keyboardAvoid: {
+      flex: 1,
+    },
+    blurContainer: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    modalContent: {
+      width: '85%',
+      maxWidth: 400,
+      maxHeight: '90%',
+      backgroundColor: colors.cardBackground,
+      borderRadius: BorderRadius.large,
+      padding: Spacing.md,
+      gap: Spacing.sm,
+    },
+    header: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+    },
+    title: {
+      ...Typography.title2,
+      color: colors.label,
+      fontWeight: '700',
+    },
+    closeButton: {
+      padding: Spacing.xs,
+    },
+    helperText: {
+      ...Typography.footnote,
+      color: colors.secondaryLabel,
+    },
+    input: {
+      ...Typography.footnote,
+      color: colors.label,
+      backgroundColor: colors.background,
+      borderRadius: BorderRadius.medium,
+      borderWidth: 1,
+      borderColor: colors.separator,
+      padding: Spacing.sm,
+      height: 120,
+      textAlignVertical: 'top',
+    },
+    errorRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: Spacing.xs,
+    },
+    errorText: {
+      ...Typography.caption1,
+      color: colors.destructive,
+      flex: 1,
+    },
+    previewCard: {
+      backgroundColor: colors.background,
+      borderRadius: BorderRadius.medium,
+      padding: Spacing.sm,
+      gap: Spacing.xs,
+    },
+    previewRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      gap: Spacing.sm,
+    },
+    previewLabel: {
+      ...Typography.subheadline,
+      color: colors.label,
+    },
+    previewValue: {
+      ...Typography.subheadline,
+      color: colors.secondaryLabel,
+      flexShrink: 1,
+      textAlign: 'right',
+    },
+    actions: {
+      flexDirection: 'row',
+      gap: Spacing.sm,
+    },
+    actionButton: {
+      flex: 1,
+    },
+    primaryButton: {
+      backgroundColor: colors.accent,
+      borderRadius: BorderRadius.medium,
+      padding: Spacing.md,
+      alignItems: 'center',
+    },
+    primaryButtonText: {
+      ...Typography.body,
+      color: '#FFFFFF',
+      fontWeight: '600',
+    },
+    secondaryButton: {
+      flex: 1,
+      borderRadius: BorderRadius.medium,
+      borderWidth: 1,
+      borderColor: colors.destructive,
+      padding: Spacing.md,
+      alignItems: 'center',
+    },
+    secondaryButtonText: {
+      ...Typography.body,
+      fontWeight: '600',
+    },
+    buttonDisabled: {
+      opacity: 0.5,
+    },
+  });
+
+export default ImportBackupModal;
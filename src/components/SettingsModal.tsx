@@ -1,4 +1,4 @@
-import React, { useEffect, useRef, useMemo } from 'react';
+import React, { useEffect, useRef, useMemo, useState } from 'react';
 import {
   View,
   Text,
@@ -11,6 +11,7 @@ import {
   ScrollView,
   Switch,
   TextInput,
+  Share,
 } from 'react-native';
 import { BlurView } from '@react-native-community/blur';
 import SegmentedControl from '@react-native-segmented-control/segmented-control';
@@ -20,6 +21,8 @@ import { useSettings } from '../context/SettingsContext';
 import { ThemeColors, ThemeName, themeNames, themes, Typography, Spacing, IconSize, BorderRadius, TapTargets } from '../theme';
 import { GameVariant, PoolType, CURRENCIES } from '../types/game';
 import { getCurrencySymbol } from '../context/SettingsContext';
+import { exportBackup, serializeBackup } from '../storage';
+import ImportBackupModal from './ImportBackupModal';
 
 const { height: screenHeight } = Dimensions.get('window');
 const MODAL_HEIGHT = screenHeight * 0.85;
@@ -31,8 +34,8 @@ interface SettingsModalProps {
 
 const themeOrder: ThemeName[] = ['midnight', 'light', 'ocean', 'forest', 'royal'];
 
-const GAME_TYPES: GameVariant[] = ['pool', 'points', 'deals'];
-const GAME_TYPE_LABELS = ['Pool', 'Points', 'Deals'];
+const GAME_TYPES: GameVariant[] = ['pool', 'points', 'deals', 'twenty-one'];
+const GAME_TYPE_LABELS = ['Pool', 'Points', 'Deals', '21 Card'];
 
 const POOL_LIMITS: PoolType[] = [101, 201, 250];
 const POOL_LIMIT_LABELS = ['101', '201', '250'];
@@ -43,6 +46,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ visible, onClose }) => {
   const styles = useMemo(() => createStyles(colors), [colors]);
   const slideAnim = useRef(new Animated.Value(MODAL_HEIGHT)).current;
   const backdropOpacity = useRef(new Animated.Value(0)).current;
+  const [showImportBackup, setShowImportBackup] = useState(false);
 
   useEffect(() => {
     if (visible) {
@@ -86,6 +90,18 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ visible, onClose }) => {
     setTheme(theme);
   };
 
+  const handleExportBackup = async () => {
+    try {
+      const archive = await exportBackup();
+      await Share.share({
+        title: 'RummyIQ backup',
+        message: serializeBackup(archive),
+      });
+    } catch (error) {
+      console.error('Failed to export backup:', error);
+    }
+  };
+
   const gameTypeIndex = GAME_TYPES.indexOf(defaults.gameType);
   const poolLimitIndex = POOL_LIMITS.indexOf(defaults.poolLimit as 101 | 201 | 250);
 
@@ -324,8 +340,8 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ visible, onClose }) => {
                   </>
                 )}
 
-                {/* Default Number of Deals - only show for Deals game type */}
-                {defaults.gameType === 'deals' && (
+                {/* Default Number of Deals - only show for Deals and 21 Card game types */}
+                {(defaults.gameType === 'deals' || defaults.gameType === 'twenty-one') && (
                   <>
                     <View style={styles.settingDivider} />
 
@@ -415,6 +431,41 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ visible, onClose }) => {
               </View>
             </View>
 
+            {/* Backup Section */}
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <Icon name="externaldrive.fill" size={IconSize.medium} color={colors.accent} weight="medium" />
+                <Text style={styles.sectionTitle}>Backup</Text>
+              </View>
+              <View style={styles.defaultsCard}>
+                <TouchableOpacity
+                  style={styles.settingRow}
+                  onPress={handleExportBackup}
+                  accessibilityRole="button"
+                >
+                  <View style={styles.toggleLabelContainer}>
+                    <Text style={styles.settingLabel}>Export Backup</Text>
+                    <Text style={styles.settingHint}>Games, settings and practice game</Text>
+                  </View>
+                  <Icon name="square.and.arrow.up" size={IconSize.small} color={colors.tint} weight="semibold" />
+                </TouchableOpacity>
+
+                <View style={styles.settingDivider} />
+
+                <TouchableOpacity
+                  style={styles.settingRow}
+                  onPress={() => setShowImportBackup(true)}
+                  accessibilityRole="button"
+                >
+                  <View style={styles.toggleLabelContainer}>
+                    <Text style={styles.settingLabel}>Import Backup</Text>
+                    <Text style={styles.settingHint}>Merge or replace from a backup</Text>
+                  </View>
+                  <Icon name="square.and.arrow.down" size={IconSize.small} color={colors.tint} weight="semibold" />
+                </TouchableOpacity>
+              </View>
+            </View>
+
             {/* About Section */}
             <View style={styles.section}>
               <View style={styles.sectionHeader}>
@@ -429,6 +480,8 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ visible, onClose }) => {
           </ScrollView>
         </Animated.View>
       </View>
+
+      <ImportBackupModal visible={showImportBackup} onClose={() => setShowImportBackup(false)} />
     </Modal>
   );
 };
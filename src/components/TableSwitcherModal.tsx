@@ -0,0 +1,130 @@
+/**
+ * TableSwitcherModal Component
+ *
+ * Lists every table with a game in progress so the scorekeeper can jump
+ * between them when running several tables at once.
+ */
+
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity } from 'react-native';
+import { BlurView } from '@react-native-community/blur';
+import Icon from './Icon';
+import { useTheme } from '../context/ThemeContext';
+import { useGame } from '../context/GameContext';
+import { getTableName, isGameInProgress } from '../types/game';
+import { ThemeColors, Spacing, BorderRadius, Typography } from '../theme';
+
+interface TableSwitcherModalProps {
+  visible: boolean;
+  onSelect: (gameId: string) => void;
+  onClose: () => void;
+}
+
+const TableSwitcherModal: React.FC<TableSwitcherModalProps> = ({ visible, onSelect, onClose }) => {
+  const { colors } = useTheme();
+  const { activeGames, currentGame } = useGame();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
+  const tables = activeGames.filter(isGameInProgress);
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+      supportedOrientations={['portrait', 'landscape']}
+    >
+      <BlurView style={styles.blurContainer} blurType="dark" blurAmount={10}>
+        <View style={styles.modalContent}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Tables</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Icon name="xmark.circle.fill" size={28} color={colors.secondaryLabel} />
+            </TouchableOpacity>
+          </View>
+
+          {tables.map(game => {
+            const isSelected = game.id === currentGame?.id;
+            return (
+              <TouchableOpacity
+                key={game.id}
+                style={[styles.tableRow, isSelected && styles.tableRowSelected]}
+                onPress={() => onSelect(game.id)}
+                accessibilityLabel={`Play at ${getTableName(game)}`}
+                accessibilityRole="button"
+              >
+                <View style={styles.tableInfo}>
+                  <Text style={styles.tableName} numberOfLines={1}>{getTableName(game)}</Text>
+                  <Text style={styles.tableDetail}>
+                    Round {game.rounds.length + 1} • {game.players.filter(p => !p.isEliminated).length} players
+                  </Text>
+                </View>
+                {isSelected && (
+                  <Icon name="checkmark.circle.fill" size={22} color={colors.accent} />
+                )}
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </BlurView>
+    </Modal>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    blurContainer: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    modalContent: {
+      width: '85%',
+      maxWidth: 400,
+      maxHeight: '90%',
+      backgroundColor: colors.cardBackground,
+      borderRadius: BorderRadius.large,
+      padding: Spacing.md,
+      gap: Spacing.sm,
+    },
+    header: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+    },
+    title: {
+      ...Typography.title2,
+      color: colors.label,
+      fontWeight: '700',
+    },
+    closeButton: {
+      padding: Spacing.xs,
+    },
+    tableRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: colors.background,
+      borderRadius: BorderRadius.medium,
+      borderWidth: 1,
+      borderColor: 'transparent',
+      padding: Spacing.md,
+      gap: Spacing.sm,
+    },
+    tableRowSelected: {
+      borderColor: colors.accent,
+    },
+    tableInfo: {
+      flex: 1,
+    },
+    tableName: {
+      ...Typography.headline,
+      color: colors.label,
+    },
+    tableDetail: {
+      ...Typography.caption1,
+      color: colors.secondaryLabel,
+    },
+  });
+
+export default TableSwitcherModal;
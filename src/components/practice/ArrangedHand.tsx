@@ -0,0 +1,124 @@
+/**
+ * ArrangedHand Component
+ *
+ * A hand laid out as melds and deadwood in one row, each group badged
+ * and colour coded by meld type, with the deadwood's points.
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useTheme } from '../../context/ThemeContext';
+import { Meld, Card as CardType } from '../../engine/types';
+import { ThemeColors, Spacing, BorderRadius } from '../../theme';
+import Card from './Card';
+
+interface ArrangedHandProps {
+  melds: Meld[];
+  deadwood: CardType[];
+}
+
+/**
+ * Short label for a meld's type
+ */
+export const getMeldTypeLabel = (meld: Meld): string => {
+  if (meld.type === 'pure-sequence') return 'Pure';
+  if (meld.type === 'sequence') return 'Seq';
+  if (meld.type === 'tunnela') return 'Tunnela';
+  if (meld.type === 'dublee') return 'Dublee';
+  return 'Set';
+};
+
+/**
+ * Badge colour for a meld's type
+ */
+export const getMeldTypeColor = (meld: Meld, colors: ThemeColors): string => {
+  if (meld.type === 'pure-sequence' || meld.type === 'tunnela') return colors.success;
+  if (meld.type === 'sequence') return colors.accent;
+  return colors.warning;
+};
+
+const ArrangedHand: React.FC<ArrangedHandProps> = ({ melds, deadwood }) => {
+  const { colors } = useTheme();
+
+  return (
+    <View style={styles.allCardsRow}>
+      {melds.map((meld, meldIdx) => (
+        <View key={meldIdx} style={[styles.meldGroupContainer, meldIdx > 0 && styles.meldGap]}>
+          <View style={styles.meldGroup}>
+            {meld.cards.map((card, idx) => (
+              <View key={card.id} style={[styles.cardWrapper, idx > 0 && styles.cardOverlap]}>
+                <Card card={card} size="medium" />
+              </View>
+            ))}
+          </View>
+          <View style={[styles.meldTypeBadgeOverlay, { backgroundColor: getMeldTypeColor(meld, colors) }]}>
+            <Text style={styles.meldTypeBadgeText}>{getMeldTypeLabel(meld)}</Text>
+          </View>
+        </View>
+      ))}
+      {deadwood.length > 0 && (
+        <View style={[styles.meldGroupContainer, melds.length > 0 && styles.meldGap]}>
+          <View style={[styles.meldGroup, styles.deadwoodGroup]}>
+            {deadwood.map((card, idx) => (
+              <View key={card.id} style={[styles.cardWrapper, idx > 0 && styles.cardOverlap]}>
+                <Card card={card} size="medium" />
+              </View>
+            ))}
+          </View>
+          <View style={[styles.meldTypeBadgeOverlay, { backgroundColor: colors.destructive }]}>
+            <Text style={styles.meldTypeBadgeText}>
+              {deadwood.reduce((sum, c) => sum + c.value, 0)}pts
+            </Text>
+          </View>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  allCardsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'flex-end',
+    marginTop: Spacing.xs,
+  },
+  meldGroupContainer: {
+    position: 'relative',
+  },
+  meldTypeBadgeOverlay: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    paddingVertical: 3,
+    alignItems: 'center',
+    borderBottomLeftRadius: BorderRadius.small,
+    borderBottomRightRadius: BorderRadius.small,
+  },
+  meldTypeBadgeText: {
+    fontSize: 10,
+    fontWeight: '700',
+    color: '#FFFFFF',
+    textShadowColor: 'rgba(0,0,0,0.5)',
+    textShadowOffset: { width: 0, height: 1 },
+    textShadowRadius: 2,
+  },
+  meldGroup: {
+    flexDirection: 'row',
+  },
+  meldGap: {
+    marginLeft: Spacing.sm,
+  },
+  deadwoodGroup: {
+    opacity: 0.6,
+  },
+  cardWrapper: {
+    marginBottom: 2,
+  },
+  cardOverlap: {
+    marginLeft: -30,
+  },
+});
+
+export default ArrangedHand;
@@ -0,0 +1,142 @@
+/**
+ * CardPicker Component
+ *
+ * Builds a hand by tapping cards in a grid of every rank and suit plus a
+ * printed joker. Tapping a card again adds another deck's copy; tapping a
+ * picked card removes it.
+ */
+
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useTheme } from '../../context/ThemeContext';
+import {
+  Card as CardType,
+  SUITS,
+  MAX_DECK_COUNT,
+  PRINTED_JOKERS_PER_DECK,
+} from '../../engine/types';
+import { createDeck } from '../../engine/deck';
+import { ThemeColors, Typography, Spacing } from '../../theme';
+import Card from './Card';
+
+interface CardPickerProps {
+  hand: CardType[];
+  maxCards: number;
+  onChange: (hand: CardType[]) => void;
+  emptyText?: string;
+}
+
+// One of each card to pick from, plus a printed joker
+const GRID_CARDS = createDeck(0, 1);
+const GRID_JOKER = GRID_CARDS.find(card => card.jokerType === 'printed')!;
+
+/**
+ * Card ids a picked card can take, one per physical copy in the shoe
+ */
+const getCopyIds = (card: CardType): string[] => {
+  const ids: string[] = [];
+  for (let deck = 0; deck < MAX_DECK_COUNT; deck++) {
+    if (card.jokerType === 'printed') {
+      for (let i = 0; i < PRINTED_JOKERS_PER_DECK; i++) ids.push(`joker-${deck}-${i}`);
+    } else {
+      ids.push(`${card.suit}-${card.rank}-${deck}`);
+    }
+  }
+  return ids;
+};
+
+const CardPicker: React.FC<CardPickerProps> = ({
+  hand,
+  maxCards,
+  onChange,
+  emptyText = 'Tap cards below to add them.',
+}) => {
+  const { colors } = useTheme();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const isFull = hand.length >= maxCards;
+
+  const handleAdd = (card: CardType) => {
+    if (isFull) return;
+    const id = getCopyIds(card).find(copyId => !hand.some(c => c.id === copyId));
+    if (id) onChange([...hand, { ...card, id }]);
+  };
+
+  const handleRemove = (card: CardType) => {
+    onChange(hand.filter(c => c.id !== card.id));
+  };
+
+  const renderGridCard = (card: CardType) => {
+    const ids = getCopyIds(card);
+    const copies = hand.filter(c => ids.includes(c.id)).length;
+    return (
+      <View key={card.id}>
+        <Card card={card} size="tiny" isDisabled={isFull} onPress={handleAdd} />
+        {copies > 0 && (
+          <View style={styles.copyBadge}>
+            <Text style={styles.copyBadgeText}>{copies}</Text>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      {hand.length > 0 ? (
+        <View style={styles.row}>
+          {hand.map(card => (
+            <Card key={card.id} card={card} size="small" onPress={handleRemove} />
+          ))}
+        </View>
+      ) : (
+        <Text style={styles.emptyText}>{emptyText}</Text>
+      )}
+
+      <View style={styles.grid}>
+        {SUITS.map(suit => (
+          <View key={suit} style={styles.row}>
+            {GRID_CARDS.filter(card => card.suit === suit && card.jokerType === null).map(renderGridCard)}
+          </View>
+        ))}
+        <View style={styles.row}>{renderGridCard(GRID_JOKER)}</View>
+      </View>
+    </View>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      gap: Spacing.sm,
+    },
+    row: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 4,
+    },
+    grid: {
+      gap: 4,
+    },
+    emptyText: {
+      ...Typography.footnote,
+      color: colors.secondaryLabel,
+    },
+    copyBadge: {
+      position: 'absolute',
+      top: -4,
+      right: -4,
+      minWidth: 14,
+      height: 14,
+      borderRadius: 7,
+      backgroundColor: colors.accent,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    copyBadgeText: {
+      fontSize: 9,
+      fontWeight: '700',
+      color: '#FFFFFF',
+    },
+  });
+
+export default CardPicker;
@@ -0,0 +1,127 @@
+/**
+ * CoachPanel Component
+ *
+ * Optional live advice for the human's turn: whether to take the top discard,
+ * or which cards to throw, each with a one-line reason.
+ */
+
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet, ViewStyle } from 'react-native';
+import { useTheme } from '../../context/ThemeContext';
+import { Card as CardType, MeldRules, TurnPhase } from '../../engine/types';
+import { OpponentObservation } from '../../engine/bot';
+import { getDiscardAdvice, getDrawAdvice } from '../../engine/coach';
+import { ThemeColors, Spacing, Typography, BorderRadius } from '../../theme';
+import Icon from '../Icon';
+import Card from './Card';
+
+interface CoachPanelProps {
+  hand: CardType[];
+  topDiscard: CardType | null;
+  turnPhase: TurnPhase;
+  discardHistory: CardType[];
+  opponents: OpponentObservation[];
+  meldRules?: MeldRules;
+  style?: ViewStyle;
+}
+
+const CoachPanel: React.FC<CoachPanelProps> = ({
+  hand,
+  topDiscard,
+  turnPhase,
+  discardHistory,
+  opponents,
+  meldRules,
+  style,
+}) => {
+  const { colors } = useTheme();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
+  const drawAdvice = useMemo(
+    () => (turnPhase === 'draw' ? getDrawAdvice(hand, topDiscard) : null),
+    [turnPhase, hand, topDiscard]
+  );
+  const discardAdvice = useMemo(
+    () => (turnPhase === 'discard' ? getDiscardAdvice(hand, discardHistory, opponents, meldRules) : []),
+    [turnPhase, hand, discardHistory, opponents, meldRules]
+  );
+
+  return (
+    <View style={[styles.container, style]}>
+      <View style={styles.titleRow}>
+        <Icon name="lightbulb.fill" size={12} color={colors.gold} />
+        <Text style={styles.title}>Coach</Text>
+      </View>
+
+      {drawAdvice && (
+        <View style={styles.adviceRow}>
+          {drawAdvice.source === 'discard' && topDiscard ? (
+            <Card card={topDiscard} size="tiny" />
+          ) : (
+            <Icon name="square.stack.3d.up" size={16} color={colors.accent} />
+          )}
+          <View style={styles.adviceText}>
+            <Text style={styles.advice}>
+              {drawAdvice.source === 'discard' ? 'Pick up the discard' : 'Draw from the deck'}
+            </Text>
+            <Text style={styles.reason}>{drawAdvice.reason}</Text>
+          </View>
+        </View>
+      )}
+
+      {discardAdvice.map((advice, index) => (
+        <View key={advice.card.id} style={styles.adviceRow}>
+          <Text style={styles.rank}>{index + 1}</Text>
+          <Card card={advice.card} size="tiny" />
+          <Text style={[styles.reason, styles.adviceText]}>{advice.reason}</Text>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      backgroundColor: colors.background,
+      borderRadius: BorderRadius.medium,
+      borderWidth: StyleSheet.hairlineWidth,
+      borderColor: colors.separator,
+      padding: Spacing.sm,
+      gap: Spacing.xs,
+      maxWidth: 240,
+    },
+    titleRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 4,
+    },
+    title: {
+      ...Typography.caption1,
+      color: colors.label,
+      fontWeight: '600',
+    },
+    adviceRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: Spacing.xs,
+    },
+    adviceText: {
+      flex: 1,
+    },
+    advice: {
+      ...Typography.caption1,
+      color: colors.label,
+    },
+    rank: {
+      ...Typography.caption2,
+      color: colors.secondaryLabel,
+      fontWeight: '600',
+    },
+    reason: {
+      ...Typography.caption2,
+      color: colors.secondaryLabel,
+    },
+  });
+
+export default CoachPanel;
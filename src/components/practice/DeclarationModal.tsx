@@ -2,7 +2,7 @@
  * DeclarationModal Component
  *
  * Modal for arranging cards into melds and declaring.
- * Shows meld validation and hints.
+ * Highlights groups that don't form melds and says how to fix them.
  */
 
 import React, { useMemo, useState, useCallback, useEffect } from 'react';
@@ -17,9 +17,9 @@ import {
 } from 'react-native';
 import { BlurView } from '@react-native-community/blur';
 import { useTheme } from '../../context/ThemeContext';
-import { Card as CardType, Meld } from '../../engine/types';
-import { autoArrangeHand, validateDeclaration, getDeclarationHint } from '../../engine/declaration';
-import { createMeld } from '../../engine/meld';
+import { Card as CardType, Meld, MeldRules, CARDS_PER_PLAYER } from '../../engine/types';
+import { autoArrangeHand, validateDeclaration, DeclarationError } from '../../engine/declaration';
+import { createMeld, createGroup, validateMeld } from '../../engine/meld';
 
 interface CardWithGroup extends CardType {
   groupIndex?: number;
@@ -31,8 +31,9 @@ import Card from './Card';
 interface DeclarationModalProps {
   visible: boolean;
   cards: CardWithGroup[];
-  onDeclare: (melds: Meld[]) => void;
+  onDeclare: (melds: Meld[], deadwood: CardType[]) => void;
   onCancel: () => void;
+  meldRules?: MeldRules;
 }
 
 const DeclarationModal: React.FC<DeclarationModalProps> = ({
@@ -40,9 +41,11 @@ const DeclarationModal: React.FC<DeclarationModalProps> = ({
   cards,
   onDeclare,
   onCancel,
+  meldRules,
 }) => {
   const { colors } = useTheme();
   const styles = useMemo(() => createStyles(colors), [colors]);
+  const handSize = meldRules?.handSize ?? CARDS_PER_PLAYER;
 
   const [melds, setMelds] = useState<Meld[]>([]);
   const [deadwood, setDeadwood] = useState<CardType[]>([]);
@@ -93,14 +96,15 @@ const DeclarationModal: React.FC<DeclarationModalProps> = ({
         const invalidGroupCards: CardType[] = [];
 
         Object.entries(groupedCards).forEach(([idx, groupCards]) => {
-          if (groupCards.length >= 3) {
-            const meld = createMeld(groupCards);
+          if (groupCards.length >= 2) {
+            const meld = createMeld(groupCards, meldRules);
             if (meld) {
               console.log(`  ✓ Group ${idx} → Valid ${meld.type}: ${groupCards.map(formatCard).join(' ')}`);
               manualMelds.push(meld);
             } else {
+              // Keep the player's group so the problem can be shown on it
               console.log(`  ✗ Group ${idx} → INVALID meld: ${groupCards.map(formatCard).join(' ')}`);
-              invalidGroupCards.push(...groupCards);
+              manualMelds.push(createGroup(groupCards, meldRules));
             }
           } else {
             console.log(`  ✗ Group ${idx} → Too few cards (${groupCards.length}): ${groupCards.map(formatCard).join(' ')}`);
@@ -112,28 +116,30 @@ const DeclarationModal: React.FC<DeclarationModalProps> = ({
         const cardsToAutoArrange = [...ungroupedCards, ...invalidGroupCards];
         console.log(`\nCards to auto-arrange: ${cardsToAutoArrange.map(formatCard).join(' ') || 'none'} (${cardsToAutoArrange.length} cards)`);
 
-        // Calculate total melded cards from manual melds
-        const meldedCardCount = manualMelds.reduce((sum, m) => sum + m.cards.length, 0);
+        // Count cards in real melds only; a group kept to show its problem isn't melded
+        const countMelded = (groups: Meld[]) =>
+          groups.filter(m => validateMeld(m, meldRules)).reduce((sum, m) => sum + m.cards.length, 0);
+        const meldedCardCount = countMelded(manualMelds);
 
-        // Check if we have exactly 13 cards melded and 1 card left (closing card scenario)
-        if (cardsToAutoArrange.length === 1 && meldedCardCount === 13) {
+        // Check if we have a full hand melded and 1 card left (closing card scenario)
+        if (cardsToAutoArrange.length === 1 && meldedCardCount === handSize) {
           // This is the closing card - the card that will be discarded when declaring
           console.log(`\n✓ Closing card identified: ${formatCard(cardsToAutoArrange[0])}`);
           setMelds(manualMelds);
           setClosingCard(cardsToAutoArrange[0]);
           setDeadwood([]);
         } else if (cardsToAutoArrange.length > 0) {
-          const analysis = autoArrangeHand(cardsToAutoArrange);
+          const analysis = autoArrangeHand(cardsToAutoArrange, meldRules);
           console.log(`Auto-arranged melds: ${analysis.melds?.length || 0}`);
           analysis.melds?.forEach((m, i) => {
             console.log(`  Auto meld ${i}: ${m.type} - ${m.cards.map(formatCard).join(' ')}`);
           });
 
           const allMelds = [...manualMelds, ...(analysis.melds || [])];
-          const totalMeldedNow = allMelds.reduce((sum, m) => sum + m.cards.length, 0);
+          const totalMeldedNow = countMelded(allMelds);
 
-          // After auto-arrange, check again if we have 13 melded + 1 closing
-          if (analysis.deadwood?.length === 1 && totalMeldedNow === 13) {
+          // After auto-arrange, check again if we have a full hand melded + 1 closing
+          if (analysis.deadwood?.length === 1 && totalMeldedNow === handSize) {
             console.log(`\n✓ Closing card (after auto-arrange): ${formatCard(analysis.deadwood[0])}`);
             setMelds(allMelds);
             setClosingCard(analysis.deadwood[0]);
@@ -160,13 +166,13 @@ const DeclarationModal: React.FC<DeclarationModalProps> = ({
         setSelectedMeldIndex(null);
       }
     }
-  }, [visible, cards]);
+  }, [visible, cards, meldRules, handSize]);
 
   const validation = useMemo(() => {
     try {
       // Don't include closing card in deadwood - it will be discarded
-      // Only validate the 13 melded cards
-      return validateDeclaration(melds, deadwood);
+      // Only validate the melded cards
+      return validateDeclaration(melds, deadwood, meldRules);
     } catch (error) {
       console.error('Error in validateDeclaration:', error);
       return {
@@ -177,23 +183,35 @@ const DeclarationModal: React.FC<DeclarationModalProps> = ({
         melds: [],
         deadwood: [],
         deadwoodPoints: 0,
-        errors: ['Error validating declaration'],
+        errors: [],
       };
     }
-  }, [melds, deadwood]);
-
-  // Check if we have a valid declaration with closing card
-  const isValidWithClosingCard = validation.isValid || (closingCard && deadwood.length === 0 && validation.hasPureSequence && validation.hasMinimumSequences);
-
-  const hints = useMemo(() => {
-    if (!cards || cards.length === 0) return [];
-    try {
-      return getDeclarationHint(cards);
-    } catch (error) {
-      console.error('Error in getDeclarationHint:', error);
-      return [];
+  }, [melds, deadwood, meldRules]);
+
+  // Problems with a group are shown on it; the rest are listed below the melds.
+  // Holding the card to discard, one card over is expected.
+  const { meldErrors, handErrors } = useMemo(() => {
+    const byMeld: { [meldIndex: number]: DeclarationError[] } = {};
+    const rest: DeclarationError[] = [];
+    for (const error of validation.errors) {
+      if (error.code === 'WRONG_CARD_COUNT' && cards.length === handSize + 1) continue;
+      if (error.meldIndex !== undefined) {
+        byMeld[error.meldIndex] = [...(byMeld[error.meldIndex] ?? []), error];
+      } else {
+        rest.push(error);
+      }
     }
-  }, [cards]);
+    return { meldErrors: byMeld, handErrors: rest };
+  }, [validation, cards, handSize]);
+
+  // Check if we have a valid declaration with closing card; a broken group never is
+  const isValidWithClosingCard =
+    validation.isValid ||
+    (closingCard &&
+      deadwood.length === 0 &&
+      Object.keys(meldErrors).length === 0 &&
+      validation.hasPureSequence &&
+      validation.hasMinimumSequences);
 
   const handleAutoArrange = useCallback(() => {
     if (!cards || cards.length === 0) return;
@@ -211,7 +229,7 @@ const DeclarationModal: React.FC<DeclarationModalProps> = ({
 
       for (const meld of melds) {
         // Check if meld is valid (has 3+ cards and is a valid type)
-        if (meld.cards.length >= 3 && (meld.type === 'pure-sequence' || meld.type === 'sequence' || meld.type === 'set')) {
+        if (meld.cards.length >= 3 && meld.type !== 'dublee' && validateMeld(meld, meldRules)) {
           validMeldsToKeep.push(meld);
           meld.cards.forEach(c => validMeldCards.add(c.id));
         }
@@ -223,19 +241,19 @@ const DeclarationModal: React.FC<DeclarationModalProps> = ({
       if (cardsToRearrange.length === 0) {
         // All cards are in valid melds, but declaration is still invalid
         // This means we need sequence requirement - try full rearrange
-        const analysis = autoArrangeHand(cards);
+        const analysis = autoArrangeHand(cards, meldRules);
         setMelds(analysis.melds || []);
         setDeadwood(analysis.deadwood || []);
       } else {
         // Auto-arrange only the unmelded cards
-        const analysis = autoArrangeHand(cardsToRearrange);
+        const analysis = autoArrangeHand(cardsToRearrange, meldRules);
 
         // Combine valid melds with newly arranged ones
         const allMelds = [...validMeldsToKeep, ...(analysis.melds || [])];
         const totalMelded = allMelds.reduce((sum, m) => sum + m.cards.length, 0);
 
         // Check for closing card scenario
-        if (analysis.deadwood?.length === 1 && totalMelded === 13) {
+        if (analysis.deadwood?.length === 1 && totalMelded === handSize) {
           setMelds(allMelds);
           setClosingCard(analysis.deadwood[0]);
           setDeadwood([]);
@@ -249,22 +267,28 @@ const DeclarationModal: React.FC<DeclarationModalProps> = ({
     } catch (error) {
       console.error('Error in handleAutoArrange:', error);
     }
-  }, [cards, melds, isValidWithClosingCard]);
+  }, [cards, melds, isValidWithClosingCard, meldRules, handSize]);
 
   const handleDeclare = useCallback(() => {
+    // Everything but the discard is declared: the closing card, or else the last loose card
+    const declaredDeadwood = closingCard ? deadwood : deadwood.slice(0, -1);
     if (!isValidWithClosingCard) {
       Alert.alert(
         'Invalid Declaration',
         'Your melds do not meet the requirements for a valid declaration. You will receive penalty points.',
         [
           { text: 'Cancel', style: 'cancel' },
-          { text: 'Declare Anyway', style: 'destructive', onPress: () => onDeclare(melds) },
+          {
+            text: 'Declare Anyway',
+            style: 'destructive',
+            onPress: () => onDeclare(melds, declaredDeadwood),
+          },
         ]
       );
     } else {
-      onDeclare(melds);
+      onDeclare(melds, declaredDeadwood);
     }
-  }, [isValidWithClosingCard, melds, onDeclare]);
+  }, [isValidWithClosingCard, melds, deadwood, closingCard, onDeclare]);
 
   const getMeldTypeLabel = (meld: Meld): string => {
     switch (meld.type) {
@@ -272,15 +296,19 @@ const DeclarationModal: React.FC<DeclarationModalProps> = ({
         return 'Pure Sequence';
       case 'sequence':
         return 'Sequence';
+      case 'tunnela':
+        return 'Tunnela';
       case 'set':
         return 'Set';
+      case 'dublee':
+        return 'Dublee';
       default:
         return 'Meld';
     }
   };
 
   const getMeldTypeColor = (meld: Meld): string => {
-    if (meld.type === 'pure-sequence') return colors.success;
+    if (meld.type === 'pure-sequence' || meld.type === 'tunnela') return colors.success;
     if (meld.type === 'sequence') return colors.accent;
     return colors.warning;
   };
@@ -333,14 +361,21 @@ const DeclarationModal: React.FC<DeclarationModalProps> = ({
                 key={index}
                 style={[
                   styles.meldContainer,
+                  meldErrors[index] && styles.invalidMeld,
                   selectedMeldIndex === index && styles.selectedMeld,
                 ]}
                 onPress={() => setSelectedMeldIndex(index === selectedMeldIndex ? null : index)}
               >
                 <View style={styles.meldHeader}>
-                  <View style={[styles.meldTypeBadge, { backgroundColor: getMeldTypeColor(meld) }]}>
-                    <Text style={styles.meldTypeText}>{getMeldTypeLabel(meld)}</Text>
-                  </View>
+                  {validateMeld(meld, meldRules) ? (
+                    <View style={[styles.meldTypeBadge, { backgroundColor: getMeldTypeColor(meld) }]}>
+                      <Text style={styles.meldTypeText}>{getMeldTypeLabel(meld)}</Text>
+                    </View>
+                  ) : (
+                    <View style={[styles.meldTypeBadge, { backgroundColor: colors.destructive }]}>
+                      <Text style={styles.meldTypeText}>Not a Meld</Text>
+                    </View>
+                  )}
                   <Text style={styles.meldCardCount}>{meld.cards.length} cards</Text>
                 </View>
                 <ScrollView
@@ -354,6 +389,15 @@ const DeclarationModal: React.FC<DeclarationModalProps> = ({
                     </View>
                   ))}
                 </ScrollView>
+                {meldErrors[index]?.map(error => (
+                  <View key={error.code} style={styles.problemRow}>
+                    <Icon name="exclamationmark.circle.fill" size={14} color={colors.destructive} />
+                    <View style={styles.problemTextContainer}>
+                      <Text style={styles.problemText}>{error.message}</Text>
+                      <Text style={styles.fixText}>{error.fix}</Text>
+                    </View>
+                  </View>
+                ))}
               </TouchableOpacity>
             ))}
 
@@ -394,18 +438,21 @@ const DeclarationModal: React.FC<DeclarationModalProps> = ({
               </>
             )}
 
-            {/* Hints */}
-            {hints.length > 0 && !isValidWithClosingCard && (
+            {/* Problems with the declaration as a whole */}
+            {handErrors.length > 0 && !isValidWithClosingCard && (
               <View style={styles.hintsContainer}>
                 <Text style={styles.hintsTitle}>Requirements:</Text>
-                {hints.map((hint, index) => (
-                  <View key={index} style={styles.hintRow}>
+                {handErrors.map(error => (
+                  <View key={error.code} style={styles.hintRow}>
                     <Icon
                       name="info.circle"
                       size={14}
                       color={colors.warning}
                     />
-                    <Text style={styles.hintText}>{hint}</Text>
+                    <View style={styles.problemTextContainer}>
+                      <Text style={styles.hintText}>{error.message}</Text>
+                      <Text style={styles.fixText}>{error.fix}</Text>
+                    </View>
                   </View>
                 ))}
               </View>
@@ -503,6 +550,10 @@ const createStyles = (colors: ThemeColors) =>
       borderWidth: 1,
       borderColor: colors.separator,
     },
+    invalidMeld: {
+      borderColor: colors.destructive,
+      backgroundColor: colors.destructive + '10',
+    },
     selectedMeld: {
       borderColor: colors.accent,
       borderWidth: 2,
@@ -578,8 +629,24 @@ const createStyles = (colors: ThemeColors) =>
     hintText: {
       ...Typography.footnote,
       color: colors.label,
+    },
+    problemRow: {
+      flexDirection: 'row',
+      alignItems: 'flex-start',
+      gap: Spacing.xs,
+      marginTop: Spacing.xs,
+    },
+    problemTextContainer: {
       flex: 1,
     },
+    problemText: {
+      ...Typography.footnote,
+      color: colors.destructive,
+    },
+    fixText: {
+      ...Typography.caption1,
+      color: colors.secondaryLabel,
+    },
     actions: {
       flexDirection: 'row',
       padding: Spacing.md,
@@ -25,7 +25,7 @@ import {
 } from 'react-native-gesture-handler';
 import ReactNativeHapticFeedback from 'react-native-haptic-feedback';
 import { useTheme } from '../../context/ThemeContext';
-import { Card as CardType } from '../../engine/types';
+import { Card as CardType, MeldRules } from '../../engine/types';
 import { getMeldType } from '../../engine/meld';
 import { ThemeColors, Spacing, BorderRadius } from '../../theme';
 import Card from './Card';
@@ -47,6 +47,7 @@ interface DraggableHandProps {
   canDiscard?: boolean;
   cardSize?: 'small' | 'medium' | 'large';
   style?: ViewStyle;
+  meldRules?: MeldRules;
 }
 
 const hapticOptions = {
@@ -62,7 +63,9 @@ const DISCARD_THRESHOLD = -60; // Drag up this many pixels to discard
 const MELD_TYPE_INFO: Record<string, { label: string; colorKey: 'success' | 'accent' | 'warning' }> = {
   'pure-sequence': { label: 'Pure', colorKey: 'success' },
   'sequence': { label: 'Seq', colorKey: 'accent' },
+  'tunnela': { label: 'Tunnela', colorKey: 'success' },
   'set': { label: 'Set', colorKey: 'warning' },
+  'dublee': { label: 'Dublee', colorKey: 'warning' },
 };
 
 const DraggableHand: React.FC<DraggableHandProps> = ({
@@ -77,6 +80,7 @@ const DraggableHand: React.FC<DraggableHandProps> = ({
   canDiscard = false,
   cardSize = 'medium',
   style,
+  meldRules,
 }) => {
   const { colors } = useTheme();
   const { width: screenWidth } = useWindowDimensions();
@@ -113,7 +117,7 @@ const DraggableHand: React.FC<DraggableHandProps> = ({
       const groupIndex = parseInt(key, 10);
       const groupCards = groups[groupIndex];
       if (groupCards.length >= 3) {
-        const meldType = getMeldType(groupCards);
+        const meldType = getMeldType(groupCards, meldRules);
         if (meldType && MELD_TYPE_INFO[meldType]) {
           info[groupIndex] = { type: meldType, ...MELD_TYPE_INFO[meldType], cardCount: groupCards.length };
         } else {
@@ -122,7 +126,7 @@ const DraggableHand: React.FC<DraggableHandProps> = ({
       }
     });
     return info;
-  }, [cards]);
+  }, [cards, meldRules]);
 
   // Count meld gaps
   const meldGapsCount = countMeldGaps(cards);
@@ -0,0 +1,187 @@
+/**
+ * ImportReplayModal Component
+ *
+ * Paste a shared round replay to load it. The text is validated and the
+ * round rebuilt through the engine before it's accepted.
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { BlurView } from '@react-native-community/blur';
+import { useTheme } from '../../context/ThemeContext';
+import { ReplayFile, parseReplayFile } from '../../engine/replayFile';
+import { ThemeColors, Spacing, BorderRadius, Typography } from '../../theme';
+import Icon from '../Icon';
+
+interface ImportReplayModalProps {
+  visible: boolean;
+  onImport: (replay: ReplayFile) => void;
+  onClose: () => void;
+}
+
+const ImportReplayModal: React.FC<ImportReplayModalProps> = ({
+  visible,
+  onImport,
+  onClose,
+}) => {
+  const { colors } = useTheme();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const [text, setText] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const handleClose = () => {
+    setText('');
+    setErrors([]);
+    onClose();
+  };
+
+  const handleLoad = () => {
+    const result = parseReplayFile(text.trim());
+    if (!result.ok) {
+      setErrors(result.errors);
+      return;
+    }
+    setText('');
+    setErrors([]);
+    onImport(result.replay);
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={handleClose}
+      supportedOrientations={['portrait', 'landscape']}
+    >
+      <KeyboardAvoidingView
+        style={styles.keyboardAvoid}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <BlurView style={styles.blurContainer} blurType="dark" blurAmount={10}>
+          <View style={styles.modalContent}>
+            <View style={styles.header}>
+              <Text style={styles.title}>Import Replay</Text>
+              <TouchableOpacity onPress={handleClose} style={styles.closeButton}>
+                <Icon name="xmark.circle.fill" size={28} color={colors.secondaryLabel} />
+              </TouchableOpacity>
+            </View>
+
+            <Text style={styles.helperText}>Paste a replay shared from another game.</Text>
+            <TextInput
+              style={styles.input}
+              value={text}
+              onChangeText={value => {
+                setText(value);
+                setErrors([]);
+              }}
+              placeholder='{"format": "rummyiq-round-replay", ...}'
+              placeholderTextColor={colors.placeholder}
+              multiline
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+
+            {errors.map(error => (
+              <View key={error} style={styles.errorRow}>
+                <Icon name="exclamationmark.triangle.fill" size={12} color={colors.destructive} />
+                <Text style={styles.errorText}>{error}</Text>
+              </View>
+            ))}
+
+            <TouchableOpacity
+              style={[styles.loadButton, !text.trim() && styles.loadButtonDisabled]}
+              onPress={handleLoad}
+              disabled={!text.trim()}
+            >
+              <Text style={styles.loadButtonText}>Load Replay</Text>
+            </TouchableOpacity>
+          </View>
+        </BlurView>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    keyboardAvoid: {
+      flex: 1,
+    },
+    blurContainer: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    modalContent: {
+      width: '70%',
+      maxHeight: '90%',
+      backgroundColor: colors.cardBackground,
+      borderRadius: BorderRadius.large,
+      padding: Spacing.md,
+      gap: Spacing.sm,
+    },
+    header: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+    },
+    title: {
+      ...Typography.title2,
+      color: colors.label,
+      fontWeight: '700',
+    },
+    closeButton: {
+      padding: Spacing.xs,
+    },
+    helperText: {
+      ...Typography.footnote,
+      color: colors.secondaryLabel,
+    },
+    input: {
+      ...Typography.footnote,
+      color: colors.label,
+      backgroundColor: colors.background,
+      borderRadius: BorderRadius.medium,
+      borderWidth: 1,
+      borderColor: colors.separator,
+      padding: Spacing.sm,
+      height: 120,
+      textAlignVertical: 'top',
+    },
+    errorRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: Spacing.xs,
+    },
+    errorText: {
+      ...Typography.caption1,
+      color: colors.destructive,
+      flex: 1,
+    },
+    loadButton: {
+      backgroundColor: colors.accent,
+      borderRadius: BorderRadius.medium,
+      padding: Spacing.md,
+      alignItems: 'center',
+    },
+    loadButtonDisabled: {
+      opacity: 0.5,
+    },
+    loadButtonText: {
+      ...Typography.body,
+      color: '#FFFFFF',
+      fontWeight: '600',
+    },
+  });
+
+export default ImportReplayModal;
@@ -1,7 +1,7 @@
 /**
  * OpponentHand Component
  *
- * Displays a bot's hand as face-down cards.
+ * Displays a bot's hand as face-down cards, or face up when the cards are given (replays).
  * Shows player name and card count.
  */
 
@@ -13,9 +13,10 @@ import {
   ViewStyle,
 } from 'react-native';
 import { useTheme } from '../../context/ThemeContext';
-import { PracticePlayer } from '../../engine/types';
+import { PracticePlayer, Card as CardType } from '../../engine/types';
 import { ThemeColors, Spacing, BorderRadius, Typography } from '../../theme';
 import Icon from '../Icon';
+import Card from './Card';
 
 interface OpponentHandProps {
   player: PracticePlayer;
@@ -23,6 +24,7 @@ interface OpponentHandProps {
   isCurrentTurn?: boolean;
   isDealer?: boolean;
   score?: number;
+  cards?: CardType[]; // Shown face up instead of the card backs
   style?: ViewStyle;
 }
 
@@ -32,6 +34,7 @@ const OpponentHand: React.FC<OpponentHandProps> = ({
   isCurrentTurn = false,
   isDealer = false,
   score = 0,
+  cards,
   style,
 }) => {
   const { colors } = useTheme();
@@ -67,20 +70,30 @@ const OpponentHand: React.FC<OpponentHandProps> = ({
       </View>
 
       {/* Cards display */}
-      <View style={[styles.cardsContainer, { width: totalWidth + 8 }]}>
-        {Array.from({ length: displayCards }).map((_, index) => (
-          <View
-            key={index}
-            style={[
-              styles.miniCard,
-              {
-                left: index * overlap,
-                zIndex: index,
-              },
-            ]}
-          />
-        ))}
-      </View>
+      {cards ? (
+        <View style={styles.faceUpCards}>
+          {cards.map((card, index) => (
+            <View key={card.id} style={index > 0 && styles.faceUpOverlap}>
+              <Card card={card} size="tiny" />
+            </View>
+          ))}
+        </View>
+      ) : (
+        <View style={[styles.cardsContainer, { width: totalWidth + 8 }]}>
+          {Array.from({ length: displayCards }).map((_, index) => (
+            <View
+              key={index}
+              style={[
+                styles.miniCard,
+                {
+                  left: index * overlap,
+                  zIndex: index,
+                },
+              ]}
+            />
+          ))}
+        </View>
+      )}
 
       {/* Card count badge */}
       <View style={styles.countBadge}>
@@ -155,6 +168,13 @@ const createStyles = (colors: ThemeColors) =>
       position: 'relative',
       marginRight: Spacing.xs,
     },
+    faceUpCards: {
+      flexDirection: 'row',
+      marginRight: Spacing.xs,
+    },
+    faceUpOverlap: {
+      marginLeft: -14,
+    },
     miniCard: {
       position: 'absolute',
       width: 20,
@@ -2,13 +2,14 @@
  * PlayerSeat Component
  *
  * Displays a player's seat around the virtual table.
- * Shows avatar, name, score, and turn indicator.
+ * Shows avatar, name, score, bot difficulty and personality, and turn indicator.
  */
 
 import React, { useMemo } from 'react';
 import { View, Text, StyleSheet, ViewStyle } from 'react-native';
 import { useTheme } from '../../context/ThemeContext';
 import { PracticePlayer } from '../../engine/types';
+import { DIFFICULTY_LABELS, getPersonalityProfile } from '../../engine/bot';
 import { ThemeColors, Spacing, Typography } from '../../theme';
 import Icon from '../Icon';
 
@@ -82,6 +83,14 @@ const PlayerSeat: React.FC<PlayerSeatProps> = ({
         <Text style={styles.score}>{score}</Text>
       </View>
 
+      {/* Bot difficulty and personality */}
+      {player.isBot && (
+        <Text style={styles.botStyle} numberOfLines={1} adjustsFontSizeToFit>
+          {player.difficulty ? `${DIFFICULTY_LABELS[player.difficulty]} · ` : ''}
+          {getPersonalityProfile(player.personality).shortLabel}
+        </Text>
+      )}
+
       {/* Turn indicator arrow */}
       {isCurrentTurn && (
         <View style={styles.turnArrow}>
@@ -142,6 +151,11 @@ const createStyles = (colors: ThemeColors) =>
       ...Typography.caption2,
       color: colors.secondaryLabel,
     },
+    botStyle: {
+      ...Typography.caption2,
+      color: colors.tertiaryLabel,
+      textAlign: 'center',
+    },
     dealerBadge: {
       position: 'absolute',
       top: -4,
@@ -0,0 +1,69 @@
+/**
+ * WildJokerPicker Component
+ *
+ * A row of rank chips for choosing the deal's wild joker, or none.
+ */
+
+import React, { useMemo } from 'react';
+import { Text, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
+import { useTheme } from '../../context/ThemeContext';
+import { Rank, RANKS } from '../../engine/types';
+import { ThemeColors, Typography, Spacing, BorderRadius } from '../../theme';
+
+interface WildJokerPickerProps {
+  rank: Rank | null;
+  onChange: (rank: Rank | null) => void;
+}
+
+const WildJokerPicker: React.FC<WildJokerPickerProps> = ({ rank, onChange }) => {
+  const { colors } = useTheme();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.row}>
+      {[null, ...RANKS].map(option => (
+        <TouchableOpacity
+          key={option ?? 'none'}
+          style={[styles.chip, rank === option && styles.chipSelected]}
+          onPress={() => onChange(option)}
+          accessibilityRole="button"
+          accessibilityLabel={option ? `Wild joker ${option}` : 'No wild joker'}
+          accessibilityState={{ selected: rank === option }}
+        >
+          <Text style={[styles.chipText, rank === option && styles.chipTextSelected]}>
+            {option ?? 'None'}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </ScrollView>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    row: {
+      gap: Spacing.xs,
+    },
+    chip: {
+      paddingHorizontal: Spacing.sm,
+      paddingVertical: Spacing.xs,
+      borderRadius: BorderRadius.small,
+      borderWidth: 1,
+      borderColor: colors.separator,
+      backgroundColor: colors.cardBackground,
+    },
+    chipSelected: {
+      backgroundColor: colors.accent,
+      borderColor: colors.accent,
+    },
+    chipText: {
+      ...Typography.subheadline,
+      color: colors.label,
+    },
+    chipTextSelected: {
+      color: '#FFFFFF',
+      fontWeight: '600',
+    },
+  });
+
+export default WildJokerPicker;
@@ -14,3 +14,8 @@ export { default as TableCenter } from './TableCenter';
 export { default as TableView } from './TableView';
 export { default as DrawAnimation } from './DrawAnimation';
 export { default as BotDeclarationModal } from './BotDeclarationModal';
+export { default as CoachPanel } from './CoachPanel';
+export { default as ImportReplayModal } from './ImportReplayModal';
+export { default as ArrangedHand } from './ArrangedHand';
+export { default as CardPicker } from './CardPicker';
+export { default as WildJokerPicker } from './WildJokerPicker';
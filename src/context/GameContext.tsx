@@ -1,31 +1,91 @@
-import React, { createContext, useContext, useState, useCallback, ReactNode } from 'react';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Game, GameConfig, Player, Round, ScoreInput, SplitPotShare, SplitPotInfo } from '../types/game';
+import React, { createContext, useContext, useState, useCallback, useEffect, ReactNode } from 'react';
+import {
+  Game,
+  GameConfig,
+  isGameInProgress,
+  Player,
+  Round,
+  RoundEdit,
+  ScoreInput,
+  SplitPotShare,
+  SplitPotInfo,
+} from '../types/game';
+import { Card, Rank } from '../engine/types';
+import { activeGamesRepository, gameHistoryRepository, onBackupRestored } from '../storage';
 
 interface GameContextType {
-  currentGame: Game | null;
+  activeGames: Game[]; // Every open table, in the order they were started
+  currentGame: Game | null; // The table on screen
   gameHistory: Game[];
+  selectGame: (gameId: string) => void;
   createGame: (config: GameConfig, players: Player[], name?: string, dealerId?: string) => void;
-  addRound: (scores: ScoreInput[]) => void;
-  updateRound: (roundId: string, scores: ScoreInput[]) => void;
-  resetGame: () => void;
+  addRound: (gameId: string, scores: ScoreInput[], wildJokerRank?: Rank | null) => void;
+  updateRound: (gameId: string, roundId: string, scores: ScoreInput[]) => void;
+  closeGame: (gameId: string) => void;
   loadGame: () => Promise<void>;
   deleteGameFromHistory: (gameId: string) => void;
   clearHistory: () => void;
-  isPlayerInCompulsoryPlay: (playerId: string) => boolean;
-  canPlayersRejoin: () => boolean;
-  rejoinPlayer: (playerId: string) => void;
-  setDealer: (playerId: string) => void;
-  splitPot: (shares: SplitPotShare[]) => void;
-  canSplitPot: () => boolean;
-  getTotalPot: () => number;
+  isPlayerInCompulsoryPlay: (gameId: string, playerId: string) => boolean;
+  canPlayersRejoin: (gameId: string) => boolean;
+  rejoinPlayer: (gameId: string, playerId: string) => void;
+  setDealer: (gameId: string, playerId: string) => void;
+  splitPot: (gameId: string, shares: SplitPotShare[]) => void;
+  canSplitPot: (gameId: string) => boolean;
+  getTotalPot: (gameId: string) => number;
+  undo: (gameId: string) => void;
+  redo: (gameId: string) => void;
+  getUndoAction: (gameId: string) => string | null; // What undo would take back, e.g. 'Round 3'
+  getRedoAction: (gameId: string) => string | null;
 }
 
+// How many game actions can be undone
+const MAX_UNDO_STEPS = 30;
+
+// The game as it stood before an action
+interface GameSnapshot {
+  game: Game;
+  action: string;
+}
+
+// Each table keeps its own undo and redo history
+type SnapshotStacks = { [gameId: string]: GameSnapshot[] };
+
+const getLastAction = (stacks: SnapshotStacks, gameId: string): string | null => {
+  const stack = stacks[gameId] ?? [];
+  return stack[stack.length - 1]?.action ?? null;
+};
+
+const withoutGames = (stacks: SnapshotStacks, gameIds: string[]): SnapshotStacks =>
+  Object.fromEntries(Object.entries(stacks).filter(([gameId]) => !gameIds.includes(gameId)));
+
+// Store the open tables, clearing the record once the last one closes
+const saveActiveGames = async (games: Game[], selectedGameId: string | null) => {
+  try {
+    if (games.length > 0) {
+      await activeGamesRepository.save({ games, selectedGameId });
+    } else {
+      await activeGamesRepository.remove();
+    }
+  } catch (error) {
+    console.error('Error saving games:', error);
+  }
+};
+
 const GameContext = createContext<GameContextType | undefined>(undefined);
 
 export const GameProvider = ({ children }: { children: ReactNode }) => {
-  const [currentGame, setCurrentGame] = useState<Game | null>(null);
+  const [activeGames, setActiveGames] = useState<Game[]>([]);
+  const [selectedGameId, setSelectedGameId] = useState<string | null>(null);
   const [gameHistory, setGameHistory] = useState<Game[]>([]);
+  const [undoStacks, setUndoStacks] = useState<SnapshotStacks>({});
+  const [redoStacks, setRedoStacks] = useState<SnapshotStacks>({});
+
+  const currentGame = activeGames.find(g => g.id === selectedGameId) ?? null;
+
+  const findGame = useCallback(
+    (gameId: string) => activeGames.find(g => g.id === gameId),
+    [activeGames]
+  );
 
   const createGame = (config: GameConfig, players: Player[], name?: string, dealerId?: string) => {
     // Dealer defaults to last player in the order
@@ -40,10 +100,80 @@ export const GameProvider = ({ children }: { children: ReactNode }) => {
       dealerId: initialDealerId,
       startedAt: new Date(),
     };
-    setCurrentGame(newGame);
-    saveGame(newGame);
+
+    // The new table goes on screen, taking the place of any finished ones
+    const finishedIds = activeGames.filter(g => !isGameInProgress(g)).map(g => g.id);
+    const games = [...activeGames.filter(isGameInProgress), newGame];
+    setActiveGames(games);
+    setSelectedGameId(newGame.id);
+    clearUndoHistory(finishedIds);
+    saveActiveGames(games, newGame.id);
   };
 
+  const selectGame = (gameId: string) => {
+    if (!findGame(gameId)) return;
+    setSelectedGameId(gameId);
+    saveActiveGames(activeGames, gameId);
+  };
+
+  const clearUndoHistory = (gameIds: string[]) => {
+    setUndoStacks(stacks => withoutGames(stacks, gameIds));
+    setRedoStacks(stacks => withoutGames(stacks, gameIds));
+  };
+
+  // Put an updated game back at its table, adding it to the history once won
+  const saveGame = useCallback(async (game: Game) => {
+    const games = activeGames.map(g => (g.id === game.id ? game : g));
+    setActiveGames(games);
+    await saveActiveGames(games, selectedGameId);
+    if (!game.winner) return;
+
+    try {
+      const existingHistory = (await gameHistoryRepository.load()) ?? [];
+
+      // Check if game already exists in history
+      const gameIndex = existingHistory.findIndex(g => g.id === game.id);
+      if (gameIndex >= 0) {
+        existingHistory[gameIndex] = game;
+      } else {
+        existingHistory.unshift(game); // Add to beginning
+      }
+
+      await gameHistoryRepository.save(existingHistory);
+      setGameHistory(existingHistory);
+    } catch (error) {
+      console.error('Error saving game:', error);
+    }
+  }, [activeGames, selectedGameId]);
+
+  // Take a game that is no longer won back out of the history
+  const removeFromHistory = async (gameId: string) => {
+    try {
+      const history = (await gameHistoryRepository.load()) ?? [];
+      if (history.some(g => g.id === gameId)) {
+        const updatedHistory = history.filter(g => g.id !== gameId);
+        await gameHistoryRepository.save(updatedHistory);
+        setGameHistory(updatedHistory);
+      }
+    } catch (error) {
+      console.error('Error updating history:', error);
+    }
+  };
+
+  // Apply a game action, remembering the game before it for undo
+  const commitGame = useCallback((updatedGame: Game, action: string) => {
+    const previous = findGame(updatedGame.id);
+    if (!previous) return;
+
+    const snapshot = { game: previous, action };
+    setUndoStacks(stacks => ({
+      ...stacks,
+      [previous.id]: [...(stacks[previous.id] ?? []), snapshot].slice(-MAX_UNDO_STEPS),
+    }));
+    setRedoStacks(stacks => ({ ...stacks, [previous.id]: [] }));
+    saveGame(updatedGame);
+  }, [findGame, saveGame]);
+
   // Get the next dealer based on open card rule:
   // - Open card goes to next ACTIVE player after dealer (in seating order)
   // - Only the player who received open card can become next dealer
@@ -102,20 +232,20 @@ export const GameProvider = ({ children }: { children: ReactNode }) => {
     return openCardReceiver.id;
   };
 
-  const setDealer = useCallback((playerId: string) => {
-    if (!currentGame) return;
+  const setDealer = useCallback((gameId: string, playerId: string) => {
+    const game = findGame(gameId);
+    if (!game) return;
 
-    const player = currentGame.players.find(p => p.id === playerId);
+    const player = game.players.find(p => p.id === playerId);
     if (!player || player.isEliminated) return;
 
     const updatedGame: Game = {
-      ...currentGame,
+      ...game,
       dealerId: playerId,
     };
 
-    setCurrentGame(updatedGame);
-    saveGame(updatedGame);
-  }, [currentGame]);
+    commitGame(updatedGame, 'Dealer change');
+  }, [findGame, commitGame]);
 
   const calculateScore = (input: ScoreInput, config: GameConfig): number => {
     if (input.hasInvalidDeclaration) {
@@ -127,16 +257,22 @@ export const GameProvider = ({ children }: { children: ReactNode }) => {
     return input.points;
   };
 
-  const addRound = (scores: ScoreInput[]) => {
-    if (!currentGame) return;
+  const addRound = (gameId: string, scores: ScoreInput[], wildJokerRank?: Rank | null) => {
+    const game = findGame(gameId);
+    if (!game) return;
 
     const roundScores: { [playerId: string]: number } = {};
+    const hands: { [playerId: string]: Card[] } = {};
     let winner: string | undefined;
 
     scores.forEach(scoreInput => {
-      const calculatedScore = calculateScore(scoreInput, currentGame.config);
+      const calculatedScore = calculateScore(scoreInput, game.config);
       roundScores[scoreInput.playerId] = calculatedScore;
 
+      if (scoreInput.cards) {
+        hands[scoreInput.playerId] = scoreInput.cards;
+      }
+
       if (scoreInput.isDeclared && !scoreInput.hasInvalidDeclaration) {
         winner = scoreInput.playerId;
       }
@@ -149,14 +285,20 @@ export const GameProvider = ({ children }: { children: ReactNode }) => {
       winner,
     };
 
-    const updatedPlayers = currentGame.players.map(player => {
+    // Keep tapped-in hands, and the wild joker they were counted with, for later review
+    if (Object.keys(hands).length > 0) {
+      newRound.hands = hands;
+      newRound.wildJokerRank = wildJokerRank ?? null;
+    }
+
+    const updatedPlayers = game.players.map(player => {
       const roundScore = roundScores[player.id] || 0;
       const newScore = player.score + roundScore;
 
       let isEliminated = player.isEliminated || false;
-      if (currentGame.config.variant === 'pool' && currentGame.config.poolLimit) {
+      if (game.config.variant === 'pool' && game.config.poolLimit) {
         // Player survives at exactly the limit, eliminated when exceeding it
-        isEliminated = newScore > currentGame.config.poolLimit;
+        isEliminated = newScore > game.config.poolLimit;
       }
 
       return {
@@ -169,12 +311,12 @@ export const GameProvider = ({ children }: { children: ReactNode }) => {
     let gameWinner: string | undefined;
     const activePlayers = updatedPlayers.filter(p => !p.isEliminated);
 
-    if (currentGame.config.variant === 'pool' && activePlayers.length === 1) {
+    if (game.config.variant === 'pool' && activePlayers.length === 1) {
       gameWinner = activePlayers[0].id;
     } else if (
-      currentGame.config.variant === 'deals' &&
-      currentGame.config.numberOfDeals &&
-      currentGame.currentDeal >= currentGame.config.numberOfDeals
+      (game.config.variant === 'deals' || game.config.variant === 'twenty-one') &&
+      game.config.numberOfDeals &&
+      game.currentDeal >= game.config.numberOfDeals
     ) {
       const lowestScore = Math.min(...updatedPlayers.map(p => p.score));
       gameWinner = updatedPlayers.find(p => p.score === lowestScore)?.id;
@@ -182,10 +324,10 @@ export const GameProvider = ({ children }: { children: ReactNode }) => {
 
     // Create intermediate game state to calculate next dealer
     const intermediateGame: Game = {
-      ...currentGame,
+      ...game,
       players: updatedPlayers,
-      rounds: [...currentGame.rounds, newRound],
-      currentDeal: currentGame.currentDeal + 1,
+      rounds: [...game.rounds, newRound],
+      currentDeal: game.currentDeal + 1,
       winner: gameWinner,
       completedAt: gameWinner ? new Date() : undefined,
     };
@@ -193,23 +335,23 @@ export const GameProvider = ({ children }: { children: ReactNode }) => {
     // Rotate dealer for next round (unless game is over)
     // Pass previous players state to check who just got eliminated
     const nextDealerId = gameWinner
-      ? currentGame.dealerId
-      : getNextDealer(intermediateGame, currentGame.players);
+      ? game.dealerId
+      : getNextDealer(intermediateGame, game.players);
 
     const updatedGame: Game = {
       ...intermediateGame,
       dealerId: nextDealerId,
     };
 
-    setCurrentGame(updatedGame);
-    saveGame(updatedGame);
+    commitGame(updatedGame, `Round ${game.rounds.length + 1}`);
   };
 
-  const updateRound = (roundId: string, scores: ScoreInput[]) => {
-    if (!currentGame) return;
+  const updateRound = (gameId: string, roundId: string, scores: ScoreInput[]) => {
+    const game = findGame(gameId);
+    if (!game) return;
 
     // Find the round index
-    const roundIndex = currentGame.rounds.findIndex(r => r.id === roundId);
+    const roundIndex = game.rounds.findIndex(r => r.id === roundId);
     if (roundIndex === -1) return;
 
     // Calculate new scores for the round
@@ -217,7 +359,7 @@ export const GameProvider = ({ children }: { children: ReactNode }) => {
     let winner: string | undefined;
 
     scores.forEach(scoreInput => {
-      const calculatedScore = calculateScore(scoreInput, currentGame.config);
+      const calculatedScore = calculateScore(scoreInput, game.config);
       roundScores[scoreInput.playerId] = calculatedScore;
 
       if (scoreInput.isDeclared && !scoreInput.hasInvalidDeclaration) {
@@ -225,16 +367,25 @@ export const GameProvider = ({ children }: { children: ReactNode }) => {
       }
     });
 
-    // Update the round
-    const updatedRounds = [...currentGame.rounds];
+    // Update the round, dropping entered hands whose score was changed by hand
+    const previous = game.rounds[roundIndex];
+    const hands = previous.hands
+      ? Object.fromEntries(
+          Object.entries(previous.hands).filter(
+            ([playerId]) => roundScores[playerId] === previous.scores[playerId]
+          )
+        )
+      : undefined;
+    const updatedRounds = [...game.rounds];
     updatedRounds[roundIndex] = {
-      ...updatedRounds[roundIndex],
+      ...previous,
       scores: roundScores,
       winner,
+      hands,
     };
 
     // Recalculate all player scores from scratch
-    const recalculatedPlayers = currentGame.players.map(player => ({
+    const recalculatedPlayers = game.players.map(player => ({
       ...player,
       score: 0,
       isEliminated: false,
@@ -248,8 +399,8 @@ export const GameProvider = ({ children }: { children: ReactNode }) => {
         player.score += roundScore;
 
         // Check elimination for pool games
-        if (currentGame.config.variant === 'pool' && currentGame.config.poolLimit) {
-          if (player.score > currentGame.config.poolLimit) {
+        if (game.config.variant === 'pool' && game.config.poolLimit) {
+          if (player.score > game.config.poolLimit) {
             player.isEliminated = true;
           }
         }
@@ -258,82 +409,126 @@ export const GameProvider = ({ children }: { children: ReactNode }) => {
       // Check for game winner after each round
       const activePlayers = recalculatedPlayers.filter(p => !p.isEliminated);
 
-      if (currentGame.config.variant === 'pool' && activePlayers.length === 1) {
+      if (game.config.variant === 'pool' && activePlayers.length === 1) {
         gameWinner = activePlayers[0].id;
       } else if (
-        currentGame.config.variant === 'deals' &&
-        currentGame.config.numberOfDeals &&
-        idx + 1 >= currentGame.config.numberOfDeals
+        (game.config.variant === 'deals' || game.config.variant === 'twenty-one') &&
+        game.config.numberOfDeals &&
+        idx + 1 >= game.config.numberOfDeals
       ) {
         const lowestScore = Math.min(...recalculatedPlayers.map(p => p.score));
         gameWinner = recalculatedPlayers.find(p => p.score === lowestScore)?.id;
       }
     });
 
+    // Log what the edit changed, so the table can see who was affected and how
+    const wasEliminated = (playerId: string) =>
+      game.players.find(p => p.id === playerId)?.isEliminated ?? false;
+    const edit: RoundEdit = {
+      id: Date.now().toString(),
+      timestamp: new Date(),
+      roundId,
+      roundNumber: roundIndex + 1,
+      scores: game.players
+        .map(p => ({ playerId: p.id, before: previous.scores[p.id] || 0, after: roundScores[p.id] || 0 }))
+        .filter(change => change.before !== change.after),
+      eliminated: recalculatedPlayers.filter(p => p.isEliminated && !wasEliminated(p.id)).map(p => p.id),
+      reinstated: recalculatedPlayers.filter(p => !p.isEliminated && wasEliminated(p.id)).map(p => p.id),
+    };
+    if (previous.winner !== winner) {
+      edit.roundWinner = { before: previous.winner ?? null, after: winner ?? null };
+    }
+    if (game.winner !== gameWinner) {
+      edit.gameWinner = { before: game.winner ?? null, after: gameWinner ?? null };
+    }
+    const changed =
+      edit.scores.length > 0 ||
+      edit.eliminated.length > 0 ||
+      edit.reinstated.length > 0 ||
+      !!edit.roundWinner ||
+      !!edit.gameWinner;
+
     const updatedGame: Game = {
-      ...currentGame,
+      ...game,
       players: recalculatedPlayers,
       rounds: updatedRounds,
       winner: gameWinner,
       completedAt: gameWinner ? new Date() : undefined,
+      edits: changed ? [...(game.edits ?? []), edit] : game.edits,
     };
 
-    setCurrentGame(updatedGame);
-    saveGame(updatedGame);
-  };
-
-  const resetGame = () => {
-    setCurrentGame(null);
-    AsyncStorage.removeItem('currentGame');
+    commitGame(updatedGame, `Round ${roundIndex + 1} edit`);
+    if (!gameWinner) removeFromHistory(gameId);
   };
 
-  const saveGame = async (game: Game) => {
-    try {
-      await AsyncStorage.setItem('currentGame', JSON.stringify(game));
-
-      // If game is completed, add to history
-      if (game.winner) {
-        const history = await AsyncStorage.getItem('gameHistory');
-        const existingHistory: Game[] = history ? JSON.parse(history) : [];
-
-        // Check if game already exists in history
-        const gameIndex = existingHistory.findIndex(g => g.id === game.id);
-        if (gameIndex >= 0) {
-          existingHistory[gameIndex] = game;
-        } else {
-          existingHistory.unshift(game); // Add to beginning
-        }
-
-        await AsyncStorage.setItem('gameHistory', JSON.stringify(existingHistory));
-        setGameHistory(existingHistory);
-      }
-    } catch (error) {
-      console.error('Error saving game:', error);
-    }
+  // Close a table; if it was on screen, the last table started takes its place
+  const closeGame = (gameId: string) => {
+    const games = activeGames.filter(g => g.id !== gameId);
+    const selectedId =
+      selectedGameId === gameId ? games[games.length - 1]?.id ?? null : selectedGameId;
+    setActiveGames(games);
+    setSelectedGameId(selectedId);
+    clearUndoHistory([gameId]);
+    saveActiveGames(games, selectedId);
   };
 
   const loadGame = useCallback(async () => {
     try {
-      const savedGame = await AsyncStorage.getItem('currentGame');
-      if (savedGame) {
-        const game = JSON.parse(savedGame);
-        setCurrentGame(game);
-      }
+      const tables = await activeGamesRepository.load();
+      setActiveGames(tables?.games ?? []);
+      setSelectedGameId(tables?.selectedGameId ?? null);
+      setUndoStacks({});
+      setRedoStacks({});
 
       // Load history
-      const history = await AsyncStorage.getItem('gameHistory');
-      if (history) {
-        setGameHistory(JSON.parse(history));
-      }
+      setGameHistory((await gameHistoryRepository.load()) ?? []);
     } catch (error) {
       console.error('Error loading game:', error);
     }
   }, []);
 
+  // Put back a game from the undo or redo stack
+  // A game that is no longer won comes back out of the history
+  const restoreGame = async (game: Game) => {
+    await saveGame(game);
+    if (!game.winner) await removeFromHistory(game.id);
+  };
+
+  const undo = (gameId: string) => {
+    const game = findGame(gameId);
+    const undoStack = undoStacks[gameId] ?? [];
+    const snapshot = undoStack[undoStack.length - 1];
+    if (!snapshot || !game) return;
+
+    setUndoStacks({ ...undoStacks, [gameId]: undoStack.slice(0, -1) });
+    setRedoStacks({
+      ...redoStacks,
+      [gameId]: [...(redoStacks[gameId] ?? []), { game, action: snapshot.action }],
+    });
+    restoreGame(snapshot.game);
+  };
+
+  const redo = (gameId: string) => {
+    const game = findGame(gameId);
+    const redoStack = redoStacks[gameId] ?? [];
+    const snapshot = redoStack[redoStack.length - 1];
+    if (!snapshot || !game) return;
+
+    setRedoStacks({ ...redoStacks, [gameId]: redoStack.slice(0, -1) });
+    setUndoStacks({
+      ...undoStacks,
+      [gameId]: [...(undoStacks[gameId] ?? []), { game, action: snapshot.action }],
+    });
+    restoreGame(snapshot.game);
+  };
+
+  // Pick up games written by a restored backup
+  useEffect(() => onBackupRestored(loadGame), [loadGame]);
+
   const deleteGameFromHistory = async (gameId: string) => {
     try {
       const updatedHistory = gameHistory.filter(g => g.id !== gameId);
-      await AsyncStorage.setItem('gameHistory', JSON.stringify(updatedHistory));
+      await gameHistoryRepository.save(updatedHistory);
       setGameHistory(updatedHistory);
     } catch (error) {
       console.error('Error deleting game:', error);
@@ -342,7 +537,7 @@ export const GameProvider = ({ children }: { children: ReactNode }) => {
 
   const clearHistory = async () => {
     try {
-      await AsyncStorage.removeItem('gameHistory');
+      await gameHistoryRepository.remove();
       setGameHistory([]);
     } catch (error) {
       console.error('Error clearing history:', error);
@@ -351,41 +546,43 @@ export const GameProvider = ({ children }: { children: ReactNode }) => {
 
   // Check if a player is in compulsory play state
   // A player is in compulsory play when (poolLimit - currentScore) < dropPenalty
-  const isPlayerInCompulsoryPlay = useCallback((playerId: string): boolean => {
-    if (!currentGame) return false;
-    if (currentGame.config.variant !== 'pool') return false;
-    if (!currentGame.config.poolLimit) return false;
+  const isPlayerInCompulsoryPlay = useCallback((gameId: string, playerId: string): boolean => {
+    const game = findGame(gameId);
+    if (!game) return false;
+    if (game.config.variant !== 'pool') return false;
+    if (!game.config.poolLimit) return false;
 
-    const player = currentGame.players.find(p => p.id === playerId);
+    const player = game.players.find(p => p.id === playerId);
     if (!player || player.isEliminated) return false;
 
-    const firstDropPenalty = currentGame.config.firstDropPenalty || 25;
-    const spaceLeft = currentGame.config.poolLimit - player.score;
+    const firstDropPenalty = game.config.firstDropPenalty || 25;
+    const spaceLeft = game.config.poolLimit - player.score;
 
     return spaceLeft < firstDropPenalty;
-  }, [currentGame]);
+  }, [findGame]);
 
   // Check if eliminated players can rejoin
   // Players can rejoin only when:
   // 1. No active player (who hasn't rejoined) is in compulsory play
   // 2. The rejoin score wouldn't put the rejoining player in compulsory play
-  const canPlayersRejoin = useCallback((): boolean => {
-    if (!currentGame) return false;
-    if (currentGame.config.variant !== 'pool') return false;
-    if (currentGame.winner) return false; // Game is already over
+  const canPlayersRejoin = useCallback((gameId: string): boolean => {
+    const game = findGame(gameId);
+    if (!game) return false;
+    if (game.config.variant !== 'pool') return false;
+    if (game.winner) return false; // Game is already over
 
     // Check if there are any eliminated players
-    const eliminatedPlayers = currentGame.players.filter(p => p.isEliminated);
+    const eliminatedPlayers = game.players.filter(p => p.isEliminated);
     if (eliminatedPlayers.length === 0) return false;
 
-    const activePlayers = currentGame.players.filter(p => !p.isEliminated);
-    const poolLimit = currentGame.config.poolLimit || 101;
-    const firstDropPenalty = currentGame.config.firstDropPenalty || 25;
+    const activePlayers = game.players.filter(p => !p.isEliminated);
+    const poolLimit = game.config.poolLimit || 101;
+    const firstDropPenalty = game.config.firstDropPenalty || 25;
 
     // Check if any active player (who hasn't rejoined) is in compulsory play
     // Players who have rejoined (rejoinCount > 0) are excluded from this check
     const originalPlayers = activePlayers.filter(p => !p.rejoinCount || p.rejoinCount === 0);
-    const anyInCompulsoryPlay = originalPlayers.some(p => isPlayerInCompulsoryPlay(p.id));
+    const anyInCompulsoryPlay = originalPlayers.some(p => isPlayerInCompulsoryPlay(gameId, p.id));
     if (anyInCompulsoryPlay) return false;
 
     // Check if rejoin score would put the player in compulsory play
@@ -397,20 +594,21 @@ export const GameProvider = ({ children }: { children: ReactNode }) => {
 
     // Rejoin is only allowed if the player won't be in compulsory play
     return spaceLeftAfterRejoin >= firstDropPenalty;
-  }, [currentGame, isPlayerInCompulsoryPlay]);
+  }, [findGame, isPlayerInCompulsoryPlay]);
 
   // Rejoin an eliminated player
   // Player joins at highest active player's score + 1
   // Player is seated to the left of the current dealer
-  const rejoinPlayer = useCallback((playerId: string) => {
-    if (!currentGame) return;
-    if (!canPlayersRejoin()) return;
+  const rejoinPlayer = useCallback((gameId: string, playerId: string) => {
+    const game = findGame(gameId);
+    if (!game) return;
+    if (!canPlayersRejoin(gameId)) return;
 
-    const player = currentGame.players.find(p => p.id === playerId);
+    const player = game.players.find(p => p.id === playerId);
     if (!player || !player.isEliminated) return;
 
     // Calculate the new score: highest active player's score + 1
-    const activePlayers = currentGame.players.filter(p => !p.isEliminated);
+    const activePlayers = game.players.filter(p => !p.isEliminated);
     const highestScore = Math.max(...activePlayers.map(p => p.score));
     const rejoinScore = highestScore + 1;
 
@@ -423,11 +621,11 @@ export const GameProvider = ({ children }: { children: ReactNode }) => {
     };
 
     // Find positions for reordering
-    const dealerIndex = currentGame.players.findIndex(p => p.id === currentGame.dealerId);
-    const playerIndex = currentGame.players.findIndex(p => p.id === playerId);
+    const dealerIndex = game.players.findIndex(p => p.id === game.dealerId);
+    const playerIndex = game.players.findIndex(p => p.id === playerId);
 
     // Remove player from current position
-    const playersWithoutRejoiner = currentGame.players.filter(p => p.id !== playerId);
+    const playersWithoutRejoiner = game.players.filter(p => p.id !== playerId);
 
     // Calculate insertion index (left of dealer = at dealer's position, pushing dealer right)
     // If player was before dealer, dealer's index shifted down by 1 after removal
@@ -444,44 +642,46 @@ export const GameProvider = ({ children }: { children: ReactNode }) => {
     ];
 
     const updatedGame: Game = {
-      ...currentGame,
+      ...game,
       players: updatedPlayers,
     };
 
-    setCurrentGame(updatedGame);
-    saveGame(updatedGame);
-  }, [currentGame, canPlayersRejoin]);
+    commitGame(updatedGame, `${player.name}'s rejoin`);
+  }, [findGame, canPlayersRejoin, commitGame]);
 
   // Calculate total pot for split
   // Total = joinTableAmount × (initial players + sum of all rejoins)
-  const getTotalPot = useCallback((): number => {
-    if (!currentGame) return 0;
-    if (currentGame.config.variant !== 'pool') return 0;
+  const getTotalPot = useCallback((gameId: string): number => {
+    const game = findGame(gameId);
+    if (!game) return 0;
+    if (game.config.variant !== 'pool') return 0;
 
-    const joinTableAmount = currentGame.config.joinTableAmount || 0;
-    const initialPlayers = currentGame.players.length;
-    const totalRejoins = currentGame.players.reduce((sum, p) => sum + (p.rejoinCount || 0), 0);
+    const joinTableAmount = game.config.joinTableAmount || 0;
+    const initialPlayers = game.players.length;
+    const totalRejoins = game.players.reduce((sum, p) => sum + (p.rejoinCount || 0), 0);
 
     return joinTableAmount * (initialPlayers + totalRejoins);
-  }, [currentGame]);
+  }, [findGame]);
 
   // Check if pot can be split
   // Only during active pool game with 2+ remaining players
-  const canSplitPot = useCallback((): boolean => {
-    if (!currentGame) return false;
-    if (currentGame.config.variant !== 'pool') return false;
-    if (currentGame.winner) return false; // Game already has a winner
+  const canSplitPot = useCallback((gameId: string): boolean => {
+    const game = findGame(gameId);
+    if (!game) return false;
+    if (game.config.variant !== 'pool') return false;
+    if (game.winner) return false; // Game already has a winner
 
-    const activePlayers = currentGame.players.filter(p => !p.isEliminated);
+    const activePlayers = game.players.filter(p => !p.isEliminated);
     return activePlayers.length >= 2;
-  }, [currentGame]);
+  }, [findGame]);
 
   // Split the pot and end the game
-  const splitPot = useCallback((shares: SplitPotShare[]) => {
-    if (!currentGame) return;
-    if (!canSplitPot()) return;
+  const splitPot = useCallback((gameId: string, shares: SplitPotShare[]) => {
+    const game = findGame(gameId);
+    if (!game) return;
+    if (!canSplitPot(gameId)) return;
 
-    const totalPot = getTotalPot();
+    const totalPot = getTotalPot(gameId);
 
     const splitPotInfo: SplitPotInfo = {
       totalPot,
@@ -490,24 +690,25 @@ export const GameProvider = ({ children }: { children: ReactNode }) => {
 
     // End the game with split pot (no single winner)
     const updatedGame: Game = {
-      ...currentGame,
+      ...game,
       splitPot: splitPotInfo,
       completedAt: new Date(),
     };
 
-    setCurrentGame(updatedGame);
-    saveGame(updatedGame);
-  }, [currentGame, canSplitPot, getTotalPot]);
+    commitGame(updatedGame, 'Pot split');
+  }, [findGame, canSplitPot, getTotalPot, commitGame]);
 
   return (
     <GameContext.Provider
       value={{
+        activeGames,
         currentGame,
         gameHistory,
+        selectGame,
         createGame,
         addRound,
         updateRound,
-        resetGame,
+        closeGame,
         loadGame,
         deleteGameFromHistory,
         clearHistory,
@@ -518,6 +719,10 @@ export const GameProvider = ({ children }: { children: ReactNode }) => {
         splitPot,
         canSplitPot,
         getTotalPot,
+        undo,
+        redo,
+        getUndoAction: gameId => getLastAction(undoStacks, gameId),
+        getRedoAction: gameId => getLastAction(redoStacks, gameId),
       }}>
       {children}
     </GameContext.Provider>
@@ -13,79 +13,66 @@ import React, {
   useEffect,
   useRef,
 } from 'react';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import {
   Card,
   PracticePlayer,
   PracticeGameState,
   PracticeGameConfig,
-  RoundState,
-  RoundResult,
   DrawSource,
   Meld,
-  BotDifficulty,
-  CARDS_PER_PLAYER,
+  BotSeat,
+  GameAction,
 } from '../engine/types';
-import {
-  createDecks,
-  dealCards,
-  drawFromPile,
-  drawFromDiscard,
-  discardCard as addToDiscardPile,
-  refillDrawPile,
-} from '../engine/deck';
-import {
-  addCardToHand,
-  removeCardFromHand,
-} from '../engine/hand';
-import { validateDeclaration } from '../engine/declaration';
-import {
-  calculateRoundScores,
-  updateCumulativeScores,
-  isPlayerEliminated,
-  shouldGameEnd,
-  determineGameWinner,
-} from '../engine/scoring';
+import { getDeckCount } from '../engine/deck';
+import { formatCard, formatHand } from '../engine/notation';
+import { reduce, getCardsPerPlayer, ReduceResult } from '../engine/reducer';
+import { getDiscardHistory } from '../engine/replay';
 import {
   getBotDecision,
   getBotName,
+  getThinkingTime,
   getBotAvatar,
+  getOpponentObservations,
   BotContext,
 } from '../engine/bot';
-
-const STORAGE_KEY = 'practiceGame';
-
-// Static card formatter for logging
-const formatCardStatic = (card: Card): string => {
-  const suitSymbols: Record<string, string> = {
-    hearts: '♥',
-    diamonds: '♦',
-    clubs: '♣',
-    spades: '♠',
-  };
-  if (card.jokerType === 'printed') return '🃏';
-  return `${card.rank}${suitSymbols[card.suit]}`;
+import {
+  ADAPTIVE_DEFAULT_LEVEL,
+  getAdaptiveDifficulty,
+  getAdaptiveTuning,
+} from '../engine/bot/adaptive';
+import {
+  practiceGameRepository,
+  practiceBotSeatsRepository,
+  practiceAdaptiveLevelRepository,
+  onBackupRestored,
+} from '../storage';
+
+// Player whose turn it is, if a round is being played
+const getCurrentPlayerId = (gameState: PracticeGameState | null): string | null => {
+  if (!gameState?.currentRound) return null;
+  return gameState.activePlayers[gameState.currentRound.currentPlayerIndex] ?? null;
 };
 
 interface PracticeGameContextType {
   // State
   gameState: PracticeGameState | null;
   isLoading: boolean;
+  savedBotSeats: BotSeat[] | null; // Bot seats of the last game set up
 
   // Game lifecycle
   createGame: (
     humanPlayerName: string,
-    botCount: number,
-    botDifficulty: BotDifficulty,
-    config: PracticeGameConfig
+    botSeats: BotSeat[],
+    config: PracticeGameConfig,
+    seed?: number
   ) => Promise<void>;
-  startRound: () => Promise<void>;
+  startRound: (seed?: number) => Promise<void>;
   resetGame: () => Promise<void>;
 
   // Player actions
   drawCard: (source: DrawSource) => Promise<Card | null>;
   discardCard: (card: Card) => Promise<void>;
-  declare: (melds: Meld[]) => Promise<boolean>;
+  declare: (melds: Meld[], deadwood?: Card[]) => Promise<boolean>;
   drop: () => Promise<void>;
 
   // Bot helpers
@@ -117,17 +104,22 @@ interface PracticeGameProviderProps {
 export const PracticeGameProvider: React.FC<PracticeGameProviderProps> = ({ children }) => {
   const [gameState, setGameState] = useState<PracticeGameState | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const discardHistoryRef = useRef<Card[]>([]);
+  const [savedBotSeats, setSavedBotSeats] = useState<BotSeat[] | null>(null);
+  const adaptiveLevelRef = useRef(ADAPTIVE_DEFAULT_LEVEL); // Carried over from game to game
   const botTurnTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
-  // Load saved game on mount
+  // Load saved game on mount, and again after a backup is restored
   useEffect(() => {
     const loadGame = async () => {
       try {
-        const saved = await AsyncStorage.getItem(STORAGE_KEY);
-        if (saved) {
-          setGameState(JSON.parse(saved));
-        }
+        const [saved, savedSeats, savedLevel] = await Promise.all([
+          practiceGameRepository.load(),
+          practiceBotSeatsRepository.load(),
+          practiceAdaptiveLevelRepository.load(),
+        ]);
+        setGameState(saved);
+        setSavedBotSeats(savedSeats);
+        adaptiveLevelRef.current = savedLevel ?? ADAPTIVE_DEFAULT_LEVEL;
       } catch (error) {
         console.error('Failed to load practice game:', error);
       } finally {
@@ -135,17 +127,28 @@ export const PracticeGameProvider: React.FC<PracticeGameProviderProps> = ({ chil
       }
     };
     loadGame();
+    return onBackupRestored(loadGame);
   }, []);
 
   // Save game on state change
   useEffect(() => {
     if (!isLoading && gameState) {
-      AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(gameState)).catch(error =>
+      practiceGameRepository.save(gameState).catch(error =>
         console.error('Failed to save practice game:', error)
       );
     }
   }, [gameState, isLoading]);
 
+  // Remember the adaptive level for the next game
+  const adaptiveLevel = gameState?.adaptive?.level;
+  useEffect(() => {
+    if (adaptiveLevel === undefined || adaptiveLevel === adaptiveLevelRef.current) return;
+    adaptiveLevelRef.current = adaptiveLevel;
+    practiceAdaptiveLevelRepository.save(adaptiveLevel).catch(error =>
+      console.error('Failed to save adaptive level:', error)
+    );
+  }, [adaptiveLevel]);
+
   // Cleanup bot timeout on unmount
   useEffect(() => {
     return () => {
@@ -155,14 +158,34 @@ export const PracticeGameProvider: React.FC<PracticeGameProviderProps> = ({ chil
     };
   }, []);
 
+  /**
+   * Apply an action through the engine reducer
+   * Illegal actions are logged and leave the state unchanged
+   */
+  const dispatch = useCallback((action: GameAction): ReduceResult | null => {
+    if (!gameState) return null;
+
+    const result = reduce(gameState, action);
+    if (!result.ok) {
+      console.warn(`Rejected ${action.type}: ${result.error.message} (${result.error.code})`);
+      return result;
+    }
+
+    setGameState(result.state);
+    return result;
+  }, [gameState]);
+
   /**
    * Create a new practice game
+   * Each bot seat has its own difficulty, name and personality; the seats are saved for next time
+   * With adaptive difficulty the seats' difficulties are ignored and the last game's level carries on
+   * Pass a seed to reproduce a previous first-round deal
    */
   const createGame = useCallback(async (
     humanPlayerName: string,
-    botCount: number,
-    botDifficulty: BotDifficulty,
-    config: PracticeGameConfig
+    botSeats: BotSeat[],
+    config: PracticeGameConfig,
+    seed?: number
   ) => {
     // Create human player
     const humanPlayer: PracticePlayer = {
@@ -172,16 +195,19 @@ export const PracticeGameProvider: React.FC<PracticeGameProviderProps> = ({ chil
     };
 
     // Create bot players
-    const bots: PracticePlayer[] = [];
-    for (let i = 0; i < botCount; i++) {
-      bots.push({
-        id: `bot-${i}`,
-        name: getBotName(botDifficulty, i),
-        isBot: true,
-        difficulty: botDifficulty,
-        avatar: getBotAvatar(botDifficulty, i),
-      });
-    }
+    const bots: PracticePlayer[] = botSeats.map((seat, i) => ({
+      id: `bot-${i}`,
+      name: seat.name?.trim() || getBotName(seat.difficulty, i),
+      isBot: true,
+      difficulty: config.adaptive ? undefined : seat.difficulty,
+      personality: seat.personality ?? 'balanced',
+      avatar: getBotAvatar(seat.difficulty, i),
+    }));
+
+    setSavedBotSeats(botSeats);
+    practiceBotSeatsRepository.save(botSeats).catch(error =>
+      console.error('Failed to save practice bot seats:', error)
+    );
 
     const players = [humanPlayer, ...bots];
     const playerIds = players.map(p => p.id);
@@ -192,41 +218,30 @@ export const PracticeGameProvider: React.FC<PracticeGameProviderProps> = ({ chil
       scores[id] = 0;
     });
 
-    // Create deck and deal cards for first round
-    const deck = createDecks(playerIds.length);
-    const dealResult = dealCards(deck, playerIds, CARDS_PER_PLAYER);
-
-    // First round setup
-    const firstRound: RoundState = {
-      roundNumber: 1,
-      phase: 'playing',
-      turnPhase: 'draw',
-      currentPlayerIndex: 1, // First player after dealer (human is dealer first)
-      dealerIndex: 0,
-      hands: dealResult.hands,
-      drawPile: dealResult.drawPile,
-      discardPile: dealResult.discardPile,
-      wildJokerCard: dealResult.wildJokerCard,
-      droppedPlayers: [],
-      humanHasDrawn: false,
-    };
-
     const newGame: PracticeGameState = {
       id: `practice-${Date.now()}`,
       config,
       players,
       activePlayers: playerIds,
-      currentRound: firstRound,
+      currentRound: null,
       roundResults: [],
       scores,
       gamePhase: 'playing',
       winner: null,
+      adaptive: config.adaptive ? { level: adaptiveLevelRef.current, roundsCounted: 0 } : undefined,
       createdAt: Date.now(),
       updatedAt: Date.now(),
     };
 
-    discardHistoryRef.current = [...dealResult.discardPile];
-    setGameState(newGame);
+    // Deal the first round (human is dealer first)
+    const started = reduce(newGame, { type: 'START_ROUND', seed });
+    if (!started.ok) {
+      console.error('Failed to deal first round:', started.error.message);
+      return;
+    }
+    const firstRound = started.state.currentRound!;
+
+    setGameState(started.state);
 
     // Log initial game setup
     console.log('\n' + '='.repeat(50));
@@ -236,12 +251,13 @@ export const PracticeGameProvider: React.FC<PracticeGameProviderProps> = ({ chil
     console.log(`Players: ${players.length}`);
     console.log(`Dealer: ${players[0].name} (index 0)`);
     console.log(`First turn: ${players[1].name} (index 1)`);
-    console.log(`Wild Joker: ${dealResult.wildJokerCard ? formatCardStatic(dealResult.wildJokerCard) : 'None'}`);
-    console.log(`Draw pile: ${dealResult.drawPile.length} | Discard pile: ${dealResult.discardPile.length}`);
+    console.log(`Seed: ${firstRound.seed} | Decks: ${getDeckCount(players.length, config.deck?.deckCount, getCardsPerPlayer(config))}`);
+    console.log(`Wild Joker: ${firstRound.wildJokerCard ? formatCard(firstRound.wildJokerCard) : 'None'}`);
+    console.log(`Draw pile: ${firstRound.drawPile.length} | Discard pile: ${firstRound.discardPile.length}`);
     console.log('\n📋 Initial Hands:');
     players.forEach((player, idx) => {
-      const hand = dealResult.hands[player.id];
-      const handStr = hand.map(formatCardStatic).join(' ');
+      const hand = firstRound.hands[player.id];
+      const handStr = formatHand(hand);
       const marker = idx === 0 ? ' [DEALER]' : idx === 1 ? ' [FIRST TURN]' : '';
       console.log(`   ${player.name}${marker}: ${handStr}`);
     });
@@ -250,377 +266,65 @@ export const PracticeGameProvider: React.FC<PracticeGameProviderProps> = ({ chil
 
   /**
    * Start a new round
+   * Pass a seed to reproduce a previous deal
    */
-  const startRound = useCallback(async () => {
-    if (!gameState) return;
-
-    const activePlayerIds = gameState.activePlayers;
-    const deck = createDecks(activePlayerIds.length);
-    const dealResult = dealCards(deck, activePlayerIds, CARDS_PER_PLAYER);
-
-    // Determine dealer (rotate based on round number)
-    const dealerIndex = gameState.roundResults.length % activePlayerIds.length;
-    // First player is to the left of dealer
-    const firstPlayerIndex = (dealerIndex + 1) % activePlayerIds.length;
-
-    const round: RoundState = {
-      roundNumber: gameState.roundResults.length + 1,
-      phase: 'playing',
-      turnPhase: 'draw',
-      currentPlayerIndex: firstPlayerIndex,
-      dealerIndex,
-      hands: dealResult.hands,
-      drawPile: dealResult.drawPile,
-      discardPile: dealResult.discardPile,
-      wildJokerCard: dealResult.wildJokerCard,
-      droppedPlayers: [],
-      humanHasDrawn: false,
-    };
-
-    discardHistoryRef.current = [...dealResult.discardPile];
-
-    setGameState(prev => {
-      if (!prev) return null;
-      return {
-        ...prev,
-        currentRound: round,
-        gamePhase: 'playing',
-        updatedAt: Date.now(),
-      };
-    });
-  }, [gameState]);
+  const startRound = useCallback(async (seed?: number) => {
+    dispatch({ type: 'START_ROUND', seed });
+  }, [dispatch]);
 
   /**
    * Reset/clear the current game
    */
   const resetGame = useCallback(async () => {
     setGameState(null);
-    discardHistoryRef.current = [];
-    await AsyncStorage.removeItem(STORAGE_KEY);
+    await practiceGameRepository.remove();
   }, []);
 
   /**
    * Draw a card from deck or discard pile
    */
   const drawCard = useCallback(async (source: DrawSource): Promise<Card | null> => {
-    if (!gameState?.currentRound || gameState.currentRound.turnPhase !== 'draw') {
-      return null;
-    }
+    const playerId = getCurrentPlayerId(gameState);
+    if (!playerId) return null;
 
-    const round = gameState.currentRound;
-    const currentPlayerId = gameState.activePlayers[round.currentPlayerIndex];
-    let drawnCard: Card | null = null;
-    let newDrawPile = round.drawPile;
-    let newDiscardPile = round.discardPile;
-
-    if (source === 'deck') {
-      // Check if need to refill draw pile
-      if (round.drawPile.length === 0) {
-        const refilled = refillDrawPile(round.drawPile, round.discardPile);
-        newDrawPile = refilled.newDrawPile;
-        newDiscardPile = refilled.newDiscardPile;
-      }
-
-      const result = drawFromPile(newDrawPile);
-      drawnCard = result.card;
-      newDrawPile = result.newPile;
-    } else {
-      const result = drawFromDiscard(round.discardPile);
-      drawnCard = result.card;
-      newDiscardPile = result.newPile;
-    }
-
-    if (!drawnCard) return null;
-
-    // Add card to player's hand
-    const newHand = addCardToHand(round.hands[currentPlayerId], drawnCard);
-
-    // Track if human has drawn (for drop penalty calculation)
-    const isHumanDraw = currentPlayerId === 'human';
-
-    setGameState(prev => {
-      if (!prev?.currentRound) return prev;
-      return {
-        ...prev,
-        currentRound: {
-          ...prev.currentRound,
-          hands: {
-            ...prev.currentRound.hands,
-            [currentPlayerId]: newHand,
-          },
-          drawPile: newDrawPile,
-          discardPile: newDiscardPile,
-          turnPhase: 'discard',
-          humanHasDrawn: prev.currentRound.humanHasDrawn || isHumanDraw,
-          lastAction: {
-            playerId: currentPlayerId,
-            action: 'draw',
-            card: drawnCard!,
-            source,
-          },
-        },
-        updatedAt: Date.now(),
-      };
-    });
-
-    return drawnCard;
-  }, [gameState]);
+    const result = dispatch({ type: 'DRAW_CARD', playerId, source });
+    return result?.ok ? result.state.currentRound?.lastAction?.card ?? null : null;
+  }, [gameState, dispatch]);
 
   /**
    * Discard a card and end turn
    */
   const discardCard = useCallback(async (card: Card) => {
-    if (!gameState?.currentRound || gameState.currentRound.turnPhase !== 'discard') {
-      return;
-    }
-
-    const round = gameState.currentRound;
-    const currentPlayerId = gameState.activePlayers[round.currentPlayerIndex];
-
-    // Remove card from hand
-    const newHand = removeCardFromHand(round.hands[currentPlayerId], card.id);
+    const playerId = getCurrentPlayerId(gameState);
+    if (!playerId) return;
 
-    // Add to discard pile
-    const newDiscardPile = addToDiscardPile(round.discardPile, card);
-    discardHistoryRef.current.push(card);
-
-    // Move to next player (skip dropped players)
-    let nextPlayerIndex = (round.currentPlayerIndex + 1) % gameState.activePlayers.length;
-    const droppedPlayers = round.droppedPlayers || [];
-    while (droppedPlayers.includes(gameState.activePlayers[nextPlayerIndex])) {
-      nextPlayerIndex = (nextPlayerIndex + 1) % gameState.activePlayers.length;
-    }
-
-    setGameState(prev => {
-      if (!prev?.currentRound) return prev;
-      return {
-        ...prev,
-        currentRound: {
-          ...prev.currentRound,
-          hands: {
-            ...prev.currentRound.hands,
-            [currentPlayerId]: newHand,
-          },
-          discardPile: newDiscardPile,
-          currentPlayerIndex: nextPlayerIndex,
-          turnPhase: 'draw',
-          lastAction: {
-            playerId: currentPlayerId,
-            action: 'discard',
-            card,
-          },
-        },
-        updatedAt: Date.now(),
-      };
-    });
-  }, [gameState]);
+    dispatch({ type: 'DISCARD_CARD', playerId, card });
+  }, [gameState, dispatch]);
 
   /**
    * Declare (show) with melds
    */
-  const declare = useCallback(async (melds: Meld[]): Promise<boolean> => {
-    if (!gameState?.currentRound) return false;
+  const declare = useCallback(async (melds: Meld[], deadwood: Card[] = []): Promise<boolean> => {
+    const playerId = getCurrentPlayerId(gameState);
+    if (!playerId) return false;
 
-    const round = gameState.currentRound;
-    const currentPlayerId = gameState.activePlayers[round.currentPlayerIndex];
-
-    // Validate declaration
-    const validation = validateDeclaration(melds);
-
-    // Calculate round scores
-    const declarationType = validation.isValid ? 'valid' : 'invalid';
-    const roundScores = calculateRoundScores(
-      round.hands,
-      currentPlayerId,
-      declarationType,
-      gameState.config.variant,
-      gameState.config.firstDropPenalty,
-      gameState.config.middleDropPenalty,
-      gameState.config.invalidDeclarationPenalty
-    );
-
-    // Update cumulative scores
-    const newScores = updateCumulativeScores(gameState.scores, roundScores);
-
-    // Create round result with declared melds and final hands
-    const result: RoundResult = {
-      winnerId: currentPlayerId,
-      winnerName: gameState.players.find(p => p.id === currentPlayerId)?.name || 'Unknown',
-      declarationType,
-      scores: roundScores,
-      timestamp: Date.now(),
-      declaredMelds: melds,
-      finalHands: { ...round.hands },
-    };
-
-    // Check for eliminations (pool rummy)
-    const poolLimit = gameState.config.poolLimit;
-    const updatedActivePlayers = gameState.activePlayers.filter(
-      id => !isPlayerEliminated(newScores[id] || 0, gameState.config.variant, poolLimit)
-    );
-
-    // Check if game should end
-    const gameEnded = shouldGameEnd(
-      gameState.players,
-      newScores,
-      [...gameState.roundResults, result],
-      gameState.config.variant,
-      gameState.config.numberOfDeals,
-      poolLimit
-    );
-
-    const winner = gameEnded
-      ? determineGameWinner(gameState.players, newScores, gameState.config.variant, poolLimit)
-      : null;
-
-    setGameState(prev => {
-      if (!prev) return null;
-      return {
-        ...prev,
-        currentRound: {
-          ...prev.currentRound!,
-          phase: 'ended',
-        },
-        roundResults: [...prev.roundResults, result],
-        scores: newScores,
-        activePlayers: updatedActivePlayers,
-        gamePhase: gameEnded ? 'ended' : 'playing',
-        winner,
-        updatedAt: Date.now(),
-      };
-    });
-
-    return validation.isValid;
-  }, [gameState]);
+    const result = dispatch({ type: 'DECLARE', playerId, melds, deadwood });
+    if (!result?.ok) return false;
+    const roundResults = result.state.roundResults;
+    return roundResults[roundResults.length - 1]?.declarationType === 'valid';
+  }, [gameState, dispatch]);
 
   /**
    * Drop from the game
    */
   const drop = useCallback(async () => {
-    if (!gameState?.currentRound) return;
+    const playerId = getCurrentPlayerId(gameState);
+    if (!playerId) return;
 
-    const round = gameState.currentRound;
-    const currentPlayerId = gameState.activePlayers[round.currentPlayerIndex];
-    const isFirstTurn = round.turnPhase === 'draw';
-    const dropType = isFirstTurn ? 'first' : 'middle';
-
-    // Calculate drop penalty for the dropping player only
-    const dropPenalty = dropType === 'first'
-      ? gameState.config.firstDropPenalty
-      : gameState.config.middleDropPenalty;
-
-    // Update dropper's score
-    const newScores = {
-      ...gameState.scores,
-      [currentPlayerId]: (gameState.scores[currentPlayerId] || 0) + dropPenalty,
-    };
-
-    // Add player to dropped list for this round
-    const newDroppedPlayers = [...(round.droppedPlayers || []), currentPlayerId];
-
-    // Find players still in this round (active and not dropped)
-    const playersStillInRound = gameState.activePlayers.filter(
-      id => !newDroppedPlayers.includes(id)
-    );
-
-    // Check for eliminations (pool rummy)
-    const poolLimit = gameState.config.poolLimit;
-    const updatedActivePlayers = gameState.activePlayers.filter(
-      id => !isPlayerEliminated(newScores[id] || 0, gameState.config.variant, poolLimit)
-    );
-
-    // If only one player remains in round, they win
-    if (playersStillInRound.length === 1) {
-      const winnerId = playersStillInRound[0];
-      const winner = gameState.players.find(p => p.id === winnerId);
-
-      // Calculate scores for remaining players (they get their deadwood points)
-      const roundScores: { [playerId: string]: number } = {};
-      for (const playerId of gameState.activePlayers) {
-        if (newDroppedPlayers.includes(playerId)) {
-          // Dropped players already have their penalty in newScores
-          roundScores[playerId] = playerId === currentPlayerId ? dropPenalty :
-            (dropType === 'first' ? gameState.config.firstDropPenalty : gameState.config.middleDropPenalty);
-        } else {
-          // Winner gets 0 points
-          roundScores[playerId] = 0;
-        }
-      }
-
-      const result: RoundResult = {
-        winnerId,
-        winnerName: winner?.name || 'Unknown',
-        declarationType: `drop-${dropType}`,
-        scores: roundScores,
-        timestamp: Date.now(),
-        finalHands: { ...round.hands },
-      };
-
-      // Check if game should end
-      const gameEnded = shouldGameEnd(
-        gameState.players,
-        newScores,
-        [...gameState.roundResults, result],
-        gameState.config.variant,
-        gameState.config.numberOfDeals,
-        poolLimit
-      );
-
-      const gameWinner = gameEnded
-        ? determineGameWinner(gameState.players, newScores, gameState.config.variant, poolLimit)
-        : null;
-
-      setGameState(prev => {
-        if (!prev) return null;
-        return {
-          ...prev,
-          currentRound: {
-            ...prev.currentRound!,
-            phase: 'ended',
-            droppedPlayers: newDroppedPlayers,
-            lastAction: {
-              playerId: currentPlayerId,
-              action: 'drop',
-            },
-          },
-          roundResults: [...prev.roundResults, result],
-          scores: newScores,
-          activePlayers: updatedActivePlayers,
-          gamePhase: gameEnded ? 'ended' : 'playing',
-          winner: gameWinner,
-          updatedAt: Date.now(),
-        };
-      });
-      return;
-    }
-
-    // Find next player who hasn't dropped
-    let nextPlayerIndex = (round.currentPlayerIndex + 1) % gameState.activePlayers.length;
-    while (newDroppedPlayers.includes(gameState.activePlayers[nextPlayerIndex])) {
-      nextPlayerIndex = (nextPlayerIndex + 1) % gameState.activePlayers.length;
-    }
-
-    // Continue round with remaining players
-    setGameState(prev => {
-      if (!prev) return null;
-      return {
-        ...prev,
-        currentRound: {
-          ...prev.currentRound!,
-          currentPlayerIndex: nextPlayerIndex,
-          turnPhase: 'draw',
-          droppedPlayers: newDroppedPlayers,
-          lastAction: {
-            playerId: currentPlayerId,
-            action: 'drop',
-          },
-        },
-        scores: newScores,
-        activePlayers: updatedActivePlayers,
-        updatedAt: Date.now(),
-      };
-    });
-  }, [gameState]);
+    // Dropping before drawing is a first drop, after drawing a middle drop
+    const dropType = gameState!.currentRound!.turnPhase === 'draw' ? 'first' : 'middle';
+    dispatch({ type: 'DROP', playerId, dropType });
+  }, [gameState, dispatch]);
 
   /**
    * Check if it's a bot's turn
@@ -640,7 +344,7 @@ export const PracticeGameProvider: React.FC<PracticeGameProviderProps> = ({ chil
     // Log when it becomes human's turn
     if (!isBot && round.turnPhase === 'draw') {
       const hand = round.hands[currentPlayerId];
-      const handStr = hand?.map(formatCardStatic).join(' ') || 'N/A';
+      const handStr = hand ? formatHand(hand) : 'N/A';
       const topDiscard = round.discardPile.length > 0
         ? round.discardPile[round.discardPile.length - 1]
         : null;
@@ -648,7 +352,7 @@ export const PracticeGameProvider: React.FC<PracticeGameProviderProps> = ({ chil
       console.log(`   Hand (${hand?.length || 0}): ${handStr}`);
       console.log(`   Phase: ${round.turnPhase}`);
       if (topDiscard) {
-        console.log(`   Top discard: ${formatCardStatic(topDiscard)}`);
+        console.log(`   Top discard: ${formatCard(topDiscard)}`);
       }
     }
 
@@ -666,7 +370,10 @@ export const PracticeGameProvider: React.FC<PracticeGameProviderProps> = ({ chil
     const currentPlayer = gameState.players.find(p => p.id === currentPlayerId);
     const dealer = gameState.players[round.dealerIndex];
 
-    if (!currentPlayer?.isBot || !currentPlayer.difficulty) return;
+    const difficulty = gameState.adaptive
+      ? getAdaptiveDifficulty(gameState.adaptive.level)
+      : currentPlayer?.difficulty;
+    if (!currentPlayer?.isBot || !difficulty) return;
 
     const hand = round.hands[currentPlayerId];
     const topDiscard = round.discardPile.length > 0
@@ -680,27 +387,33 @@ export const PracticeGameProvider: React.FC<PracticeGameProviderProps> = ({ chil
     const botContext: BotContext = {
       hand,
       topDiscard,
-      discardHistory: discardHistoryRef.current,
+      discardHistory: getDiscardHistory(gameState),
       isFirstTurn,
       currentScore: gameState.scores[currentPlayerId] || 0,
       poolLimit: gameState.config.poolLimit || null,
       turnPhase: round.turnPhase,
+      meldRules: gameState.config.meldRules,
+      opponents: getOpponentObservations(round, gameState.activePlayers, currentPlayerId),
+      wildJokerCard: round.wildJokerCard,
+      deck: gameState.config.deck,
+      playerCount: gameState.activePlayers.length,
+      personality: currentPlayer.personality,
+      tuning: gameState.adaptive ? getAdaptiveTuning(gameState.adaptive.level) : undefined,
     };
 
-    const decision = getBotDecision(currentPlayer.difficulty, botContext);
-
     // Debug logging for bot plays
-    const handStr = hand.map(formatCardStatic).join(' ');
-    console.log(`\n🤖 [${currentPlayer.name}] (${currentPlayer.difficulty}) - Player ${round.currentPlayerIndex + 1}/${gameState.activePlayers.length}`);
+    const handStr = formatHand(hand);
+    console.log(`\n🤖 [${currentPlayer.name}] (${difficulty}) - Player ${round.currentPlayerIndex + 1}/${gameState.activePlayers.length}`);
     console.log(`   Dealer: ${dealer?.name} | Round: ${round.roundNumber}`);
     console.log(`   Hand (${hand.length}): ${handStr}`);
     console.log(`   Phase: ${round.turnPhase} | Score: ${gameState.scores[currentPlayerId] || 0}`);
     if (topDiscard) {
-      console.log(`   Top discard: ${formatCardStatic(topDiscard)} | Discard pile: ${round.discardPile.length} | Draw pile: ${round.drawPile.length}`);
+      console.log(`   Top discard: ${formatCard(topDiscard)} | Discard pile: ${round.discardPile.length} | Draw pile: ${round.drawPile.length}`);
     }
 
-    // Wait for "thinking" time
+    // Wait for "thinking" time, then decide - the expert's search would otherwise hold up the UI
     botTurnTimeoutRef.current = setTimeout(async () => {
+      const decision = getBotDecision(difficulty, botContext);
       switch (decision.action) {
         case 'draw':
           console.log(`   ➡️ Action: DRAW from ${decision.source || 'deck'}`);
@@ -708,7 +421,7 @@ export const PracticeGameProvider: React.FC<PracticeGameProviderProps> = ({ chil
           break;
         case 'discard':
           if (decision.card) {
-            console.log(`   ➡️ Action: DISCARD ${formatCardStatic(decision.card)}`);
+            console.log(`   ➡️ Action: DISCARD ${formatCard(decision.card)}`);
             await discardCard(decision.card);
           }
           break;
@@ -723,7 +436,7 @@ export const PracticeGameProvider: React.FC<PracticeGameProviderProps> = ({ chil
           await drop();
           break;
       }
-    }, decision.thinkingTime);
+    }, getThinkingTime(difficulty));
   }, [gameState, isBotTurn, drawCard, discardCard, declare, drop]);
 
   /**
@@ -769,6 +482,7 @@ export const PracticeGameProvider: React.FC<PracticeGameProviderProps> = ({ chil
   const value: PracticeGameContextType = {
     gameState,
     isLoading,
+    savedBotSeats,
     createGame,
     startRound,
     resetGame,
@@ -1,6 +1,6 @@
 import React, { createContext, useContext, useState, useCallback, ReactNode, useEffect } from 'react';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { GameVariant, PoolType, CurrencyCode, CURRENCIES } from '../types/game';
+import { gameDefaultsRepository, lastGameSettingsRepository, onBackupRestored } from '../storage';
 
 export interface GameDefaults {
   gameType: GameVariant;
@@ -51,9 +51,6 @@ export const getCurrencySymbol = (code: CurrencyCode): string => {
 
 const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
 
-const SETTINGS_STORAGE_KEY = 'game_defaults';
-const LAST_GAME_STORAGE_KEY = 'last_game_settings';
-
 export const SettingsProvider = ({ children }: { children: ReactNode }) => {
   const [defaults, setDefaults] = useState<GameDefaults>(DEFAULT_SETTINGS);
   const [lastGameSettings, setLastGameSettings] = useState<LastGameSettings | null>(null);
@@ -62,30 +59,25 @@ export const SettingsProvider = ({ children }: { children: ReactNode }) => {
     const loadSettings = async () => {
       try {
         const [savedDefaults, savedLastGame] = await Promise.all([
-          AsyncStorage.getItem(SETTINGS_STORAGE_KEY),
-          AsyncStorage.getItem(LAST_GAME_STORAGE_KEY),
+          gameDefaultsRepository.load(),
+          lastGameSettingsRepository.load(),
         ]);
 
-        if (savedDefaults) {
-          const parsed = JSON.parse(savedDefaults);
-          setDefaults({ ...DEFAULT_SETTINGS, ...parsed });
-        }
-
-        if (savedLastGame) {
-          setLastGameSettings(JSON.parse(savedLastGame));
-        }
+        setDefaults({ ...DEFAULT_SETTINGS, ...savedDefaults });
+        setLastGameSettings(savedLastGame);
       } catch (error) {
         console.error('Error loading settings:', error);
       }
     };
     loadSettings();
+    return onBackupRestored(loadSettings);
   }, []);
 
   const updateDefaults = useCallback(async (updates: Partial<GameDefaults>) => {
     const newDefaults = { ...defaults, ...updates };
     setDefaults(newDefaults);
     try {
-      await AsyncStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(newDefaults));
+      await gameDefaultsRepository.save(newDefaults);
     } catch (error) {
       console.error('Error saving settings:', error);
     }
@@ -94,7 +86,7 @@ export const SettingsProvider = ({ children }: { children: ReactNode }) => {
   const saveLastGameSettings = useCallback(async (settings: LastGameSettings) => {
     setLastGameSettings(settings);
     try {
-      await AsyncStorage.setItem(LAST_GAME_STORAGE_KEY, JSON.stringify(settings));
+      await lastGameSettingsRepository.save(settings);
     } catch (error) {
       console.error('Error saving last game settings:', error);
     }
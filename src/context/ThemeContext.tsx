@@ -1,6 +1,6 @@
 import React, { createContext, useContext, useState, useCallback, ReactNode, useEffect } from 'react';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { ThemeName, ThemeColors, themes } from '../theme';
+import { themeRepository, onBackupRestored } from '../storage';
 
 interface ThemeContextType {
   themeName: ThemeName;
@@ -10,30 +10,29 @@ interface ThemeContextType {
 
 const ThemeContext = createContext<ThemeContextType | undefined>(undefined);
 
-const THEME_STORAGE_KEY = 'app_theme';
-
 export const ThemeProvider = ({ children }: { children: ReactNode }) => {
   const [themeName, setThemeName] = useState<ThemeName>('ocean');
 
   useEffect(() => {
-    // Load saved theme on mount
+    // Load saved theme on mount, and again after a backup is restored
     const loadTheme = async () => {
       try {
-        const savedTheme = await AsyncStorage.getItem(THEME_STORAGE_KEY);
-        if (savedTheme && savedTheme in themes) {
-          setThemeName(savedTheme as ThemeName);
+        const savedTheme = await themeRepository.load();
+        if (savedTheme) {
+          setThemeName(savedTheme);
         }
       } catch (error) {
         console.error('Error loading theme:', error);
       }
     };
     loadTheme();
+    return onBackupRestored(loadTheme);
   }, []);
 
   const setTheme = useCallback(async (theme: ThemeName) => {
     setThemeName(theme);
     try {
-      await AsyncStorage.setItem(THEME_STORAGE_KEY, theme);
+      await themeRepository.save(theme);
     } catch (error) {
       console.error('Error saving theme:', error);
     }
@@ -0,0 +1,95 @@
+/**
+ * Hand analysis
+ * Everything the engine can say about a hand on its own: its best arrangement, whether
+ * it declares, what it would score and, holding a drawn card, which discard is best
+ */
+
+import { Card, HandAnalysis, MeldRules, Rank, getCardValue } from './types';
+import { DeclarationResult, autoArrangeHand, validateDeclaration } from './declaration';
+import { calculateHandPoints } from './scoring';
+import { DEFAULT_MELD_RULES } from './meld';
+
+/**
+ * What a hand is left with after throwing one card
+ */
+export interface DiscardOption {
+  card: Card;
+  points: number; // Hand points after the discard
+  canDeclare: boolean;
+}
+
+/**
+ * The analysis of one hand
+ * A hand holding a drawn card is reported as it stands after its best discard
+ */
+export interface HandReport {
+  cards: Card[]; // The hand the arrangement describes
+  arrangement: HandAnalysis;
+  declaration: DeclarationResult;
+  points: number;
+  discards: DiscardOption[]; // Best first; empty unless a card was drawn
+}
+
+/**
+ * Mark the cards of one rank as wild jokers, clearing any earlier wild marks
+ * Printed jokers are unchanged. Null leaves no wild jokers.
+ */
+export const setWildJokerRank = (cards: Card[], rank: Rank | null): Card[] =>
+  cards.map(card => {
+    if (card.jokerType === 'printed') return card;
+    if (card.rank === rank) return { ...card, jokerType: 'wild' as const, value: 0 };
+    const plain = { ...card, jokerType: null };
+    return { ...plain, value: getCardValue(plain) };
+  });
+
+/**
+ * Points a loser's remaining cards score, with the deal's wild joker rank
+ * As in play, sets only count once the hand has its sequences
+ */
+export const scoreRemainingHand = (
+  cards: Card[],
+  wildRank: Rank | null,
+  rules: MeldRules = DEFAULT_MELD_RULES
+): number => calculateHandPoints(setWildJokerRank(cards, wildRank), rules);
+
+/**
+ * Every distinct discard from a hand holding a drawn card, best first
+ * Copies of the same card from different decks are listed once
+ */
+export const rankDiscards = (cards: Card[], rules: MeldRules = DEFAULT_MELD_RULES): DiscardOption[] => {
+  const options: DiscardOption[] = [];
+  const seen = new Set<string>();
+
+  for (const card of cards) {
+    const key = `${card.suit}-${card.rank}-${card.jokerType}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const rest = cards.filter(c => c.id !== card.id);
+    options.push({
+      card,
+      points: calculateHandPoints(rest, rules),
+      canDeclare: autoArrangeHand(rest, rules).canDeclare,
+    });
+  }
+
+  // Lowest points first; on a tie, shed the card worth more
+  return options.sort((a, b) => a.points - b.points || b.card.value - a.card.value);
+};
+
+/**
+ * Analyse a hand of the rules' hand size, or one card over
+ */
+export const analyzeHand = (cards: Card[], rules: MeldRules = DEFAULT_MELD_RULES): HandReport => {
+  const discards = cards.length === rules.handSize + 1 ? rankDiscards(cards, rules) : [];
+  const kept = discards.length > 0 ? cards.filter(c => c.id !== discards[0].card.id) : cards;
+  const arrangement = autoArrangeHand(kept, rules);
+
+  return {
+    cards: kept,
+    arrangement,
+    declaration: validateDeclaration(arrangement.melds, arrangement.deadwood, rules),
+    points: calculateHandPoints(kept, rules),
+    discards,
+  };
+};
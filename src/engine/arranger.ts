@@ -0,0 +1,841 @@
+/**
+ * Exact hand arranger for the Rummy game engine
+ *
+ * Finds the arrangement of a hand that scores the fewest points under the
+ * Indian Rummy declaration rules (counts come from MeldRules):
+ * - First life: enough pure sequences (1 in 13-card, 3 in 21-card),
+ *   otherwise the whole hand counts
+ * - Second life: enough sequences (2 in 13-card), otherwise sets don't count
+ *
+ * The search is a memoized dynamic program over the multiset of natural
+ * (non-joker) cards. Jokers are a shared resource: printed jokers are only
+ * ever substitutes, wild jokers can also sit in their natural slot of a
+ * sequence and keep it pure. Each state records, for every combination of
+ * "sequences formed" and "pure sequences formed" (each capped at what the
+ * rules require), the lowest deadwood reachable, so all rule cases are
+ * solved in one pass.
+ *
+ * Cost is bounded by the number of distinct sub-multisets reachable by
+ * removing melds, which stays in the low thousands for a 14-card hand.
+ */
+
+import { Card, Meld, MeldRules, Rank, Suit, HandAnalysis, RANKS, SUITS, getRankIndex } from './types';
+import {
+  createMeld,
+  isPureSequenceMeld,
+  isSequenceMeld,
+  DEFAULT_MELD_RULES,
+} from './meld';
+import { calculateDeadwoodPoints } from './hand';
+
+/**
+ * Longest possible sequence (A through K, with Ace either low or high)
+ */
+const MAX_SEQUENCE_LENGTH = 13;
+
+/**
+ * Sequence positions run 1 (Ace low) to 14 (Ace high). Going round the
+ * corner, three laps are used and every run is anchored in the middle one,
+ * so it can extend a full lap in either direction.
+ */
+const ACE_HIGH_POSITION = 14;
+const WRAPAROUND_MAX_POSITION = RANKS.length * 3;
+
+/**
+ * A distinct natural card (suit + rank) and every copy of it in the hand
+ */
+interface NaturalType {
+  suit: Suit;
+  rank: Rank;
+  value: number;
+  cards: Card[];
+}
+
+/**
+ * A wild joker that could fill its own natural slot in a sequence
+ */
+interface WildType {
+  suit: Suit;
+  rank: Rank;
+  cards: Card[];
+}
+
+/**
+ * How one sequence position is filled
+ */
+type SlotFill =
+  | { kind: 'natural'; typeIndex: number }
+  | { kind: 'wild'; wildIndex: number }
+  | { kind: 'joker' };
+
+interface Slot {
+  position: number;
+  fill: SlotFill;
+}
+
+/**
+ * A candidate meld built around the first remaining natural card
+ */
+interface Candidate {
+  kind: 'sequence' | 'set' | 'tunnela';
+  naturals: number[]; // Type indices consumed
+  wilds: number[]; // Wild indices consumed in their natural slot
+  jokers: number; // Jokers consumed as substitutes
+  isPure: boolean;
+  slots: Slot[]; // Sequences only, in position order
+}
+
+/**
+ * Best deadwood per outcome cell (see HandArranger.cellIndex)
+ */
+type OutcomeTable = number[];
+
+/**
+ * What a choice adds to the outcome: 0 nothing (deadwood or set), 1 a sequence, 2 a pure sequence
+ */
+type OutcomeShift = 0 | 1 | 2;
+
+interface MemoEntry {
+  table: OutcomeTable;
+  choices: (Candidate | 'deadwood' | null)[];
+  childCells: number[];
+}
+
+const positionRank = (position: number): Rank => RANKS[(position - 1) % RANKS.length];
+
+
+/**
+ * Solver for a single hand
+ */
+class HandArranger {
+  private readonly types: NaturalType[] = [];
+  private readonly wildTypes: WildType[] = [];
+  private readonly printedJokers: Card[] = [];
+  private readonly typeIndex = new Map<string, number>();
+  private readonly wildIndex = new Map<string, number>();
+  private readonly memo = new Map<string, MemoEntry>();
+  private readonly totalJokers: number;
+
+  private readonly minPosition: number;
+  private readonly maxPosition: number;
+  private readonly sequenceCap: number;
+  private readonly pureCap: number;
+  private readonly cellCount: number;
+  private readonly targetCells: number[][]; // [OutcomeShift][child cell] -> cell
+
+  /**
+   * @param withSets - If false, sets are never formed (scoring when the second life is missed)
+   * @param withDeadwood - If false, every natural card must be melded (declaration check only)
+   */
+  constructor(
+    private readonly cards: Card[],
+    private readonly rules: MeldRules,
+    private readonly withSets = true,
+    private readonly withDeadwood = true
+  ) {
+    this.sequenceCap = rules.requiredSequences;
+    this.pureCap = rules.requiredPureSequences;
+    this.cellCount = (this.sequenceCap + 1) * (this.pureCap + 1);
+    this.targetCells = [
+      [0, 0],
+      [1, 0],
+      [1, 1],
+    ].map(([sequences, pure]) =>
+      Array.from({ length: this.cellCount }, (_, cell) =>
+        this.cellIndex(
+          Math.floor(cell / (this.pureCap + 1)) + sequences,
+          (cell % (this.pureCap + 1)) + pure
+        )
+      )
+    );
+
+    if (rules.wraparound) {
+      this.minPosition = 1;
+      this.maxPosition = WRAPAROUND_MAX_POSITION;
+    } else {
+      this.minPosition = rules.aceLow ? 1 : 2;
+      this.maxPosition = rules.aceHigh ? ACE_HIGH_POSITION : RANKS.length;
+    }
+
+    // Group by suit then rank, so the search consumes each suit low to high
+    // and the remaining cards stay close to a suffix (far fewer states)
+    const sorted = [...cards].sort(
+      (a, b) =>
+        SUITS.indexOf(a.suit) - SUITS.indexOf(b.suit) || getRankIndex(a.rank) - getRankIndex(b.rank)
+    );
+    for (const card of sorted) {
+      const key = `${card.suit}-${card.rank}`;
+      if (card.jokerType === 'printed') {
+        this.printedJokers.push(card);
+      } else if (card.jokerType === 'wild') {
+        let index = this.wildIndex.get(key);
+        if (index === undefined) {
+          index = this.wildTypes.length;
+          this.wildIndex.set(key, index);
+          this.wildTypes.push({ suit: card.suit, rank: card.rank, cards: [] });
+        }
+        this.wildTypes[index].cards.push(card);
+      } else {
+        let index = this.typeIndex.get(key);
+        if (index === undefined) {
+          index = this.types.length;
+          this.typeIndex.set(key, index);
+          this.types.push({ suit: card.suit, rank: card.rank, value: card.value, cards: [] });
+        }
+        this.types[index].cards.push(card);
+      }
+    }
+    this.totalJokers =
+      this.printedJokers.length + this.wildTypes.reduce((sum, w) => sum + w.cards.length, 0);
+  }
+
+  /**
+   * Find the lowest-scoring arrangement
+   */
+  arrange(): HandAnalysis {
+    const counts = this.types.map(t => t.cards.length);
+    const avail = this.wildTypes.map(w => w.cards.length);
+    const root = this.solve(counts, this.totalJokers, avail);
+    const fullCell = this.cellIndex(this.sequenceCap, this.pureCap);
+
+    // First and second life met: sets count, minimise deadwood
+    const declarable = root.table[fullCell];
+
+    // First life only: sets don't count, so only sequences reduce the score
+    const sequencesOnly =
+      this.sequenceCap > this.pureCap ? new HandArranger(this.cards, this.rules, false) : null;
+    const firstLifeOnly = sequencesOnly?.best(
+      (sequences, pure) => pure === this.pureCap && sequences < this.sequenceCap
+    );
+
+    let result: HandAnalysis;
+    if (declarable !== Infinity && (!firstLifeOnly || declarable <= firstLifeOnly.cost)) {
+      result = this.build(this.collect(counts, this.totalJokers, avail, fullCell), true);
+    } else if (sequencesOnly && firstLifeOnly) {
+      result = sequencesOnly.build(sequencesOnly.collectFromRoot(firstLifeOnly.cell), false);
+    } else {
+      // First life can't be met: the whole hand counts, so show the
+      // arrangement that would score best once the pure sequences arrive.
+      // When both lives need the same count (21-card), any sets may show.
+      const withSets = this.best(
+        sequences => !sequencesOnly || sequences === this.sequenceCap
+      );
+      const withoutSets = sequencesOnly?.best(sequences => sequences < this.sequenceCap);
+
+      if (withSets && (!withoutSets || withSets.cost <= withoutSets.cost)) {
+        result = this.build(this.collectFromRoot(withSets.cell), true);
+      } else if (sequencesOnly && withoutSets) {
+        result = sequencesOnly.build(sequencesOnly.collectFromRoot(withoutSets.cell), false);
+      } else {
+        result = this.build([], false);
+      }
+    }
+
+    if (!result.canDeclare && this.rules.dubleesToDeclare !== null) {
+      return this.dubleeDeclaration(this.rules.dubleesToDeclare) ?? result;
+    }
+    return result;
+  }
+
+  /**
+   * A declarable arrangement, if there is one
+   * Much cheaper than arrange() since no card may be left out
+   */
+  declaration(): HandAnalysis | null {
+    const root = this.solve(
+      this.types.map(t => t.cards.length),
+      this.totalJokers,
+      this.wildTypes.map(w => w.cards.length)
+    );
+    const fullCell = this.cellIndex(this.sequenceCap, this.pureCap);
+    if (root.table[fullCell] === 0) {
+      const result = this.build(this.collectFromRoot(fullCell), true);
+      if (result.canDeclare) return result;
+      // Spare jokers found no room in this arrangement - fall back to the full search
+      const full = new HandArranger(this.cards, this.rules).arrange();
+      if (full.canDeclare) return full;
+    }
+    if (this.rules.dubleesToDeclare !== null) {
+      return this.dubleeDeclaration(this.rules.dubleesToDeclare);
+    }
+    return null;
+  }
+
+  /**
+   * Outcome cell for a number of sequences and pure sequences, capped at what the rules require
+   */
+  private cellIndex(sequences: number, pure: number): number {
+    return Math.min(sequences, this.sequenceCap) * (this.pureCap + 1) + Math.min(pure, this.pureCap);
+  }
+
+  /**
+   * Cheapest root cell matching a filter on (sequences, pure sequences)
+   */
+  private best(
+    filter: (sequences: number, pure: number) => boolean
+  ): { cost: number; cell: number } | null {
+    const root = this.solve(
+      this.types.map(t => t.cards.length),
+      this.totalJokers,
+      this.wildTypes.map(w => w.cards.length)
+    );
+    let best: { cost: number; cell: number } | null = null;
+    for (let cell = 0; cell < this.cellCount; cell++) {
+      const sequences = Math.floor(cell / (this.pureCap + 1));
+      const pure = cell % (this.pureCap + 1);
+      const cost = root.table[cell];
+      if (cost !== Infinity && filter(sequences, pure) && (!best || cost < best.cost)) {
+        best = { cost, cell };
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Melds of the optimal arrangement ending in a root cell
+   */
+  private collectFromRoot(cell: number): Candidate[] {
+    return this.collect(
+      this.types.map(t => t.cards.length),
+      this.totalJokers,
+      this.wildTypes.map(w => w.cards.length),
+      cell
+    );
+  }
+
+  /**
+   * Pair up identical cards; enough pairs win outright (21-card dublee declaration)
+   */
+  private dubleeDeclaration(needed: number): HandAnalysis | null {
+    const melds: Meld[] = [];
+    const used = new Set<string>();
+    for (const group of [...this.types, ...this.wildTypes]) {
+      for (let i = 0; i + 1 < group.cards.length; i += 2) {
+        const meld = createMeld([group.cards[i], group.cards[i + 1]], this.rules);
+        if (meld) {
+          melds.push(meld);
+          used.add(group.cards[i].id);
+          used.add(group.cards[i + 1].id);
+        }
+      }
+    }
+    if (melds.length < needed) return null;
+
+    const deadwood = this.cards.filter(c => !used.has(c.id));
+    return {
+      melds,
+      deadwood,
+      deadwoodPoints: calculateDeadwoodPoints(deadwood),
+      hasPureSequence: false,
+      pureSequenceCount: 0,
+      sequenceCount: 0,
+      canDeclare: true,
+    };
+  }
+
+  /**
+   * Memoized search over remaining natural cards and jokers
+   */
+  private solve(counts: number[], jokers: number, avail: number[]): MemoEntry {
+    const key = `${counts.join(',')}|${jokers}|${avail.join(',')}`;
+    const cached = this.memo.get(key);
+    if (cached) return cached;
+
+    const entry: MemoEntry = {
+      table: new Array(this.cellCount).fill(Infinity),
+      choices: new Array(this.cellCount).fill(null),
+      childCells: new Array(this.cellCount).fill(-1),
+    };
+
+    const first = counts.findIndex(c => c > 0);
+    if (first === -1) {
+      // Only jokers left - they can always be parked in a meld later or count 0
+      entry.table[0] = 0;
+      this.memo.set(key, entry);
+      return entry;
+    }
+
+    const consider = (
+      choice: Candidate | 'deadwood',
+      child: MemoEntry,
+      cost: number,
+      shift: OutcomeShift
+    ) => {
+      const targets = this.targetCells[shift];
+      for (let cell = 0; cell < this.cellCount; cell++) {
+        const childCost = child.table[cell];
+        if (childCost === Infinity) continue;
+        const target = targets[cell];
+        const total = childCost + cost;
+        if (total < entry.table[target]) {
+          entry.table[target] = total;
+          entry.choices[target] = choice;
+          entry.childCells[target] = cell;
+        }
+      }
+    };
+
+    // Option 1: the card stays in deadwood
+    if (this.withDeadwood) {
+      counts[first]--;
+      consider('deadwood', this.solve(counts.slice(), jokers, avail), this.types[first].value, 0);
+      counts[first]++;
+    }
+
+    // Option 2: the card goes into one of the melds it can be part of
+    for (const candidate of this.candidates(first, counts, jokers, avail)) {
+      const next = this.apply(candidate, counts, jokers, avail);
+      const shift: OutcomeShift = candidate.kind === 'set' ? 0 : candidate.isPure ? 2 : 1;
+      consider(candidate, this.solve(next.counts, next.jokers, next.avail), 0, shift);
+    }
+
+    this.memo.set(key, entry);
+    return entry;
+  }
+
+  /**
+   * Remove a candidate's cards from the state
+   */
+  private apply(
+    candidate: Candidate,
+    counts: number[],
+    jokers: number,
+    avail: number[]
+  ): { counts: number[]; jokers: number; avail: number[] } {
+    const nextCounts = counts.slice();
+    for (const t of candidate.naturals) nextCounts[t]--;
+    const nextAvail = avail.slice();
+    for (const w of candidate.wilds) nextAvail[w]--;
+    return {
+      counts: nextCounts,
+      jokers: jokers - candidate.jokers - candidate.wilds.length,
+      avail: nextAvail,
+    };
+  }
+
+  /**
+   * Follow memoized choices to list the melds of an optimal arrangement
+   */
+  private collect(counts: number[], jokers: number, avail: number[], cell: number): Candidate[] {
+    const melds: Candidate[] = [];
+    let state = { counts: [...counts], jokers, avail: [...avail] };
+    let currentCell = cell;
+
+    for (;;) {
+      const entry = this.solve(state.counts, state.jokers, state.avail);
+      const choice = entry.choices[currentCell];
+      if (choice === null) break;
+
+      if (choice === 'deadwood') {
+        const first = state.counts.findIndex(c => c > 0);
+        state.counts[first]--;
+        state = { ...state, counts: [...state.counts] };
+      } else {
+        melds.push(choice);
+        state = this.apply(choice, state.counts, state.jokers, state.avail);
+      }
+      currentCell = entry.childCells[currentCell];
+    }
+
+    return melds;
+  }
+
+  /**
+   * All melds containing natural type `first`
+   */
+  private candidates(first: number, counts: number[], jokers: number, avail: number[]): Candidate[] {
+    const result = this.sequenceCandidates(first, counts, jokers, avail);
+    if (this.rules.tunnelas && counts[first] >= 3) {
+      result.push({
+        kind: 'tunnela',
+        naturals: [first, first, first],
+        wilds: [],
+        jokers: 0,
+        isPure: true,
+        slots: [],
+      });
+    }
+    if (this.withSets) {
+      result.push(...this.setCandidates(first, counts, jokers));
+    }
+    return result;
+  }
+
+  /**
+   * Sets: the card plus other cards of the same rank, topped up with jokers.
+   * Extra copies of a suit are only offered when the rules allow repeats.
+   */
+  private setCandidates(first: number, counts: number[], jokers: number): Candidate[] {
+    const { rank } = this.types[first];
+    const repeats = this.rules.duplicateSuitsInSet;
+
+    // [type index, most extra copies that may join]
+    const options: [number, number][] = [];
+    this.types.forEach((t, i) => {
+      if (t.rank !== rank) return;
+      const extra = i === first ? counts[i] - 1 : counts[i];
+      if (extra > 0) {
+        options.push([i, repeats ? extra : i === first ? 0 : 1]);
+      }
+    });
+
+    const result: Candidate[] = [];
+    const pick = (option: number, naturals: number[]) => {
+      if (naturals.length > this.rules.maxSetSize) return;
+      if (option === options.length) {
+        const needed = Math.max(0, this.rules.minMeldSize - naturals.length);
+        if (naturals.length + needed > this.rules.maxSetSize || needed > jokers) return;
+        result.push({
+          kind: 'set',
+          naturals,
+          wilds: [],
+          jokers: needed,
+          isPure: false,
+          slots: [],
+        });
+        return;
+      }
+      const [index, most] = options[option];
+      for (let copies = 0; copies <= most; copies++) {
+        pick(option + 1, [...naturals, ...new Array(copies).fill(index)]);
+      }
+    };
+
+    pick(0, [first]);
+    return result;
+  }
+
+  /**
+   * Positions a rank can start a run from
+   */
+  private rankPositions(rank: Rank): number[] {
+    if (this.rules.wraparound) {
+      return [getRankIndex(rank) + RANKS.length];
+    }
+    if (rank !== 'A') {
+      return [getRankIndex(rank)];
+    }
+    const positions: number[] = [];
+    if (this.rules.aceLow) positions.push(1);
+    if (this.rules.aceHigh) positions.push(ACE_HIGH_POSITION);
+    return positions;
+  }
+
+  /**
+   * Sequences: the card plus runs extending left and right in its suit.
+   * Runs end on a real card; extra jokers beyond the minimum are added
+   * afterwards, since a joker at the end of a run never changes the score.
+   */
+  private sequenceCandidates(
+    first: number,
+    counts: number[],
+    jokers: number,
+    avail: number[]
+  ): Candidate[] {
+    const { suit, rank } = this.types[first];
+    const result: Candidate[] = [];
+
+    for (const position of this.rankPositions(rank)) {
+      const left = this.extensions(suit, position, -1, first, counts, jokers, avail);
+      const right = this.extensions(suit, position, 1, first, counts, jokers, avail);
+
+      for (const l of left) {
+        for (const r of right) {
+          const length = 1 + l.slots.length + r.slots.length;
+          if (length > MAX_SEQUENCE_LENGTH) continue;
+
+          const substitutes = l.jokers + r.jokers;
+          const wilds = [...l.wilds, ...r.wilds];
+          const padding = Math.max(0, this.rules.minMeldSize - length);
+          if (substitutes + padding + wilds.length > jokers) continue;
+
+          const slots: Slot[] = [
+            ...[...l.slots].reverse(),
+            { position, fill: { kind: 'natural', typeIndex: first } },
+            ...r.slots,
+          ];
+          for (let i = 0; i < padding; i++) {
+            const high = slots[slots.length - 1].position;
+            if (high < this.maxPosition) {
+              slots.push({ position: high + 1, fill: { kind: 'joker' } });
+            } else {
+              slots.unshift({ position: slots[0].position - 1, fill: { kind: 'joker' } });
+            }
+          }
+
+          result.push({
+            kind: 'sequence',
+            naturals: [first, ...l.naturals, ...r.naturals],
+            wilds,
+            jokers: substitutes + padding,
+            isPure: substitutes + padding === 0,
+            slots,
+          });
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Ways to extend a run from `position` in one direction, ending on a real card
+   */
+  private extensions(
+    suit: Suit,
+    position: number,
+    step: 1 | -1,
+    first: number,
+    counts: number[],
+    jokers: number,
+    avail: number[]
+  ): { slots: Slot[]; naturals: number[]; wilds: number[]; jokers: number }[] {
+    const result: { slots: Slot[]; naturals: number[]; wilds: number[]; jokers: number }[] = [
+      { slots: [], naturals: [], wilds: [], jokers: 0 },
+    ];
+
+    // A real card (natural or wild in its own slot) at a position that's still available
+    const hasRealCard = (at: number): boolean => {
+      const key = `${suit}-${positionRank(at)}`;
+      const typeIdx = this.typeIndex.get(key);
+      const wildIdx = this.wildIndex.get(key);
+      return (
+        (typeIdx !== undefined && counts[typeIdx] > (typeIdx === first ? 1 : 0)) ||
+        (wildIdx !== undefined && avail[wildIdx] > 0)
+      );
+    };
+
+    // Runs end on a real card, so only bridge with jokers if one is in reach
+    const canBridge = (from: number, spare: number): boolean => {
+      for (let k = 1; k <= spare + 1; k++) {
+        const at = from + step * k;
+        if (at < this.minPosition || at > this.maxPosition) return false;
+        if (hasRealCard(at)) return true;
+      }
+      return false;
+    };
+
+    const walk = (
+      current: number,
+      slots: Slot[],
+      naturals: number[],
+      wilds: number[],
+      used: number
+    ) => {
+      const next = current + step;
+      if (
+        next < this.minPosition ||
+        next > this.maxPosition ||
+        slots.length + 1 >= MAX_SEQUENCE_LENGTH
+      ) {
+        return;
+      }
+
+      const key = `${suit}-${positionRank(next)}`;
+      const typeIdx = this.typeIndex.get(key);
+      const wildIdx = this.wildIndex.get(key);
+
+      if (typeIdx !== undefined && counts[typeIdx] > (typeIdx === first ? 1 : 0)) {
+        const s = [...slots, { position: next, fill: { kind: 'natural', typeIndex: typeIdx } as SlotFill }];
+        const n = [...naturals, typeIdx];
+        result.push({ slots: s, naturals: n, wilds, jokers: used });
+        walk(next, s, n, wilds, used);
+      }
+
+      if (wildIdx !== undefined && avail[wildIdx] > 0 && used + wilds.length + 1 <= jokers) {
+        const s = [...slots, { position: next, fill: { kind: 'wild', wildIndex: wildIdx } as SlotFill }];
+        const w = [...wilds, wildIdx];
+        result.push({ slots: s, naturals, wilds: w, jokers: used });
+        walk(next, s, naturals, w, used);
+      }
+
+      const spare = jokers - used - wilds.length - 1;
+      if (spare >= 0 && canBridge(next, spare)) {
+        walk(next, [...slots, { position: next, fill: { kind: 'joker' } }], naturals, wilds, used + 1);
+      }
+    };
+
+    walk(position, [], [], [], 0);
+    return result;
+  }
+
+  /**
+   * Turn chosen candidates into melds with real cards, park spare jokers,
+   * and report the result in the shape the rest of the engine expects
+   */
+  private build(chosen: Candidate[], parkJokers: boolean): HandAnalysis {
+    const naturalPools = this.types.map(t => [...t.cards]);
+    const wildPools = this.wildTypes.map(w => [...w.cards]);
+
+    // Natural slots first so wild jokers in their own slot aren't spent as substitutes
+    const drafts = chosen.map(candidate => {
+      if (candidate.kind !== 'sequence') {
+        return {
+          candidate,
+          slots: [] as { position: number; card: Card | null }[],
+          cards: candidate.naturals.map(i => naturalPools[i].pop()!),
+        };
+      }
+      return {
+        candidate,
+        slots: candidate.slots.map(slot => ({
+          position: slot.position,
+          card:
+            slot.fill.kind === 'natural'
+              ? naturalPools[slot.fill.typeIndex].pop()!
+              : slot.fill.kind === 'wild'
+              ? wildPools[slot.fill.wildIndex].pop()!
+              : null,
+        })),
+        cards: [] as Card[],
+      };
+    });
+
+    const spareJokers: Card[] = [...this.printedJokers, ...wildPools.flat()];
+
+    for (const draft of drafts) {
+      if (draft.candidate.kind === 'set') {
+        for (let i = 0; i < draft.candidate.jokers; i++) {
+          draft.cards.push(spareJokers.shift()!);
+        }
+      } else {
+        for (const slot of draft.slots) {
+          if (!slot.card) slot.card = spareJokers.shift()!;
+        }
+      }
+    }
+
+    if (parkJokers) {
+      this.parkSpareJokers(drafts, spareJokers);
+    }
+
+    const melds: Meld[] = [];
+    const deadwood: Card[] = [...naturalPools.flat(), ...spareJokers];
+
+    for (const draft of drafts) {
+      const cards =
+        draft.candidate.kind === 'sequence' ? draft.slots.map(s => s.card!) : draft.cards;
+      const meld = createMeld(cards, this.rules);
+      if (meld) {
+        melds.push(meld);
+      } else {
+        deadwood.push(...cards);
+      }
+    }
+
+    // Keep the hand's own card order for deadwood
+    const order = new Map(this.cards.map((c, i) => [c.id, i]));
+    deadwood.sort((a, b) => (order.get(a.id) ?? 0) - (order.get(b.id) ?? 0));
+
+    const sequenceCount = melds.filter(isSequenceMeld).length;
+    const pureSequenceCount = melds.filter(isPureSequenceMeld).length;
+
+    return {
+      melds,
+      deadwood,
+      deadwoodPoints: calculateDeadwoodPoints(deadwood),
+      hasPureSequence: pureSequenceCount > 0,
+      pureSequenceCount,
+      sequenceCount,
+      canDeclare:
+        pureSequenceCount >= this.rules.requiredPureSequences &&
+        sequenceCount >= this.rules.requiredSequences &&
+        deadwood.length === 0,
+    };
+  }
+
+  /**
+   * Add leftover jokers to melds that have room, keeping enough pure sequences pure
+   */
+  private parkSpareJokers(
+    drafts: {
+      candidate: Candidate;
+      slots: { position: number; card: Card | null }[];
+      cards: Card[];
+    }[],
+    spareJokers: Card[]
+  ): void {
+    let pureCount = drafts.filter(d => d.candidate.kind !== 'set' && d.candidate.isPure).length;
+
+    const extendSequence = (slots: { position: number; card: Card | null }[], joker: Card): boolean => {
+      if (slots.length >= MAX_SEQUENCE_LENGTH) return false;
+      const high = slots[slots.length - 1].position;
+      const low = slots[0].position;
+      if (high < this.maxPosition) {
+        slots.push({ position: high + 1, card: joker });
+        return true;
+      }
+      if (low > this.minPosition) {
+        slots.unshift({ position: low - 1, card: joker });
+        return true;
+      }
+      return false;
+    };
+
+    while (spareJokers.length > 0) {
+      const joker = spareJokers[0];
+      const impure = drafts.find(
+        d => d.candidate.kind === 'sequence' && !d.candidate.isPure && d.slots.length < MAX_SEQUENCE_LENGTH
+      );
+      const roomySet = drafts.find(d => d.candidate.kind === 'set' && d.cards.length < this.rules.maxSetSize);
+      const sparePure =
+        pureCount > this.rules.requiredPureSequences
+          ? drafts.find(
+              d => d.candidate.kind === 'sequence' && d.candidate.isPure && d.slots.length < MAX_SEQUENCE_LENGTH
+            )
+          : undefined;
+
+      if (impure && extendSequence(impure.slots, joker)) {
+        spareJokers.shift();
+      } else if (roomySet) {
+        roomySet.cards.push(joker);
+        spareJokers.shift();
+      } else if (sparePure && extendSequence(sparePure.slots, joker)) {
+        sparePure.candidate = { ...sparePure.candidate, isPure: false };
+        pureCount--;
+        spareJokers.shift();
+      } else {
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * Find the provably lowest-scoring arrangement of a hand
+ *
+ * - If the hand can meet both lives, deadwood is minimised with sets counting
+ * - If only a pure sequence is possible, that sequence alone is returned
+ * - If no pure sequence is possible, the whole hand counts; the arrangement
+ *   returned is the one with the least deadwood once a pure sequence arrives
+ */
+export const arrangeOptimally = (
+  cards: Card[],
+  rules: MeldRules = DEFAULT_MELD_RULES
+): HandAnalysis => {
+  const validCards = cards.filter(c => c && c.id);
+  if (validCards.length === 0) {
+    return {
+      melds: [],
+      deadwood: [],
+      deadwoodPoints: 0,
+      hasPureSequence: false,
+      pureSequenceCount: 0,
+      sequenceCount: 0,
+      canDeclare: false,
+    };
+  }
+  return new HandArranger(validCards, rules).arrange();
+};
+
+/**
+ * Find an arrangement that declares, or null if the hand can't declare
+ */
+export const findDeclaration = (
+  cards: Card[],
+  rules: MeldRules = DEFAULT_MELD_RULES
+): HandAnalysis | null => {
+  const validCards = cards.filter(c => c && c.id);
+  if (validCards.length === 0) return null;
+  return new HandArranger(validCards, rules, true, false).declaration();
+};
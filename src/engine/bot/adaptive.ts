@@ -0,0 +1,124 @@
+/**
+ * Adaptive Difficulty
+ *
+ * Tunes bot strength between rounds to keep the human's win rate near a target:
+ * - Reads the human's recent rounds: wins, points conceded and drops
+ * - Moves a level from 1 (gentlest) to 10 (strongest) up or down
+ * - Each level picks a difficulty, and scales how readily bots take the open discard,
+ *   how willing they are to drop and how much they read the discard history
+ */
+
+import { AdaptiveState, BotDifficulty, PracticeGameState, RoundResult } from '../types';
+import { BotTuning } from './personality';
+
+export const ADAPTIVE_MIN_LEVEL = 1;
+export const ADAPTIVE_MAX_LEVEL = 10;
+export const ADAPTIVE_DEFAULT_LEVEL = 5;
+
+/**
+ * Share of rounds the human should win
+ */
+export const ADAPTIVE_TARGET_WIN_RATE = 0.4;
+
+const RECENT_ROUNDS = 5;
+const MIN_ROUNDS_TO_ADJUST = 2;
+const WIN_RATE_TOLERANCE = 0.1; // No change while the win rate is this close to the target
+const HEAVY_LOSS_POINTS = 40; // Conceding more than this a round on average counts as struggling
+const HIGH_DROP_RATE = 0.4; // Dropping more often than this counts as struggling
+
+/**
+ * The human's results over their recent rounds
+ */
+export interface AdaptiveStats {
+  rounds: number;
+  winRate: number;
+  averageConceded: number; // Points added to their score per round
+  dropRate: number;
+}
+
+/**
+ * Summarise a player's last few rounds
+ */
+export const getRecentStats = (results: RoundResult[], playerId: string): AdaptiveStats => {
+  const recent = results.filter(result => playerId in result.scores).slice(-RECENT_ROUNDS);
+  if (recent.length === 0) {
+    return { rounds: 0, winRate: 0, averageConceded: 0, dropRate: 0 };
+  }
+
+  const wins = recent.filter(
+    result => result.winnerId === playerId && result.declarationType !== 'invalid'
+  ).length;
+  const conceded = recent.reduce((sum, result) => sum + Math.max(0, result.scores[playerId]), 0);
+  const drops = recent.filter(result => result.droppedPlayers?.includes(playerId)).length;
+
+  return {
+    rounds: recent.length,
+    winRate: wins / recent.length,
+    averageConceded: conceded / recent.length,
+    dropRate: drops / recent.length,
+  };
+};
+
+/**
+ * Move the level towards keeping the human's win rate near the target
+ * Winning well above the target raises it; losing, conceding heavily or dropping a lot lowers it
+ */
+export const adjustAdaptiveLevel = (
+  level: number,
+  stats: AdaptiveStats,
+  targetWinRate: number = ADAPTIVE_TARGET_WIN_RATE
+): number => {
+  if (stats.rounds < MIN_ROUNDS_TO_ADJUST) return level;
+
+  let step = 0;
+  if (stats.winRate > targetWinRate + WIN_RATE_TOLERANCE) {
+    step += stats.winRate > targetWinRate + 3 * WIN_RATE_TOLERANCE ? 2 : 1;
+  } else if (stats.winRate < targetWinRate - WIN_RATE_TOLERANCE) {
+    step -= 1;
+    if (stats.averageConceded > HEAVY_LOSS_POINTS) step -= 1;
+    if (stats.dropRate > HIGH_DROP_RATE) step -= 1;
+  }
+
+  return Math.max(ADAPTIVE_MIN_LEVEL, Math.min(ADAPTIVE_MAX_LEVEL, level + Math.max(-2, step)));
+};
+
+/**
+ * Adaptive state to start the next round with
+ * Counts each finished round once, so restarting a round doesn't move the level again
+ */
+export const updateAdaptiveState = (state: PracticeGameState): AdaptiveState | undefined => {
+  const { adaptive } = state;
+  if (!state.config.adaptive || !adaptive) return adaptive;
+  if (state.roundResults.length <= adaptive.roundsCounted) return adaptive;
+
+  const human = state.players.find(p => !p.isBot);
+  if (!human) return adaptive;
+
+  return {
+    level: adjustAdaptiveLevel(adaptive.level, getRecentStats(state.roundResults, human.id)),
+    roundsCounted: state.roundResults.length,
+  };
+};
+
+/**
+ * Difficulty the bots play at for a level
+ */
+export const getAdaptiveDifficulty = (level: number): BotDifficulty => {
+  if (level <= 3) return 'easy';
+  if (level <= 6) return 'medium';
+  if (level <= 9) return 'hard';
+  return 'expert';
+};
+
+/**
+ * Strategy multipliers for a level - lower levels take fewer discards,
+ * play bad hands out and barely read the discard history
+ */
+export const getAdaptiveTuning = (level: number): BotTuning => {
+  const strength = (level - ADAPTIVE_MIN_LEVEL) / (ADAPTIVE_MAX_LEVEL - ADAPTIVE_MIN_LEVEL);
+  return {
+    pickupTendency: 0.6 + 0.4 * strength,
+    dropTendency: 0.4 + 0.6 * strength,
+    historyReasoning: strength,
+  };
+};
@@ -8,20 +8,22 @@
  * - Rarely drops
  */
 
-import { Card, BotDecision, DrawSource } from '../types';
+import { Card, BotDecision, DrawSource, MeldRules } from '../types';
 import { BotContext, getThinkingTime } from './index';
 import { autoArrangeHand, canDeclare } from '../declaration';
 import { isJoker } from '../hand';
+import { PersonalityProfile, getPersonalityProfile, rollDrop } from './personality';
 
 /**
  * Easy bot decision maker
  */
 export const easyBotDecide = (context: BotContext): BotDecision => {
-  const { hand, topDiscard, isFirstTurn, turnPhase } = context;
+  const { hand, topDiscard, isFirstTurn, turnPhase, meldRules } = context;
   const thinkingTime = getThinkingTime('easy');
+  const profile = getPersonalityProfile(context.personality, context.tuning);
 
   // Check if should drop (very rarely for easy bot)
-  if (turnPhase === 'draw' && shouldDropEasy(hand, isFirstTurn)) {
+  if (turnPhase === 'draw' && shouldDropEasy(hand, isFirstTurn, profile, meldRules)) {
     return {
       action: 'drop',
       dropType: isFirstTurn ? 'first' : 'middle',
@@ -31,7 +33,7 @@ export const easyBotDecide = (context: BotContext): BotDecision => {
 
   // Draw phase
   if (turnPhase === 'draw') {
-    const source = decideDrawSourceEasy(topDiscard);
+    const source = decideDrawSourceEasy(topDiscard, profile);
     return {
       action: 'draw',
       source,
@@ -45,8 +47,8 @@ export const easyBotDecide = (context: BotContext): BotDecision => {
     // Check each card - if discarding it leaves a winning hand, declare!
     for (const cardToDiscard of hand) {
       const remainingHand = hand.filter(c => c.id !== cardToDiscard.id);
-      if (canDeclare(remainingHand)) {
-        const analysis = autoArrangeHand(remainingHand);
+      if (canDeclare(remainingHand, meldRules)) {
+        const analysis = autoArrangeHand(remainingHand, meldRules);
         return {
           action: 'declare',
           melds: analysis.melds,
@@ -76,14 +78,14 @@ export const easyBotDecide = (context: BotContext): BotDecision => {
 /**
  * Easy bot draw decision - mostly random, slightly favors deck
  */
-const decideDrawSourceEasy = (topDiscard: Card | null): DrawSource => {
+const decideDrawSourceEasy = (topDiscard: Card | null, profile: PersonalityProfile): DrawSource => {
   // No discard available, must draw from deck
   if (!topDiscard) {
     return 'deck';
   }
 
-  // Easy bot draws from deck 80% of the time
-  if (Math.random() < 0.8) {
+  // Easy bot draws from deck 80% of the time, less for a discard fisher
+  if (Math.random() < 1 - 0.2 * profile.pickupTendency) {
     return 'deck';
   }
 
@@ -117,18 +119,23 @@ const decideDiscardEasy = (hand: Card[]): Card => {
 /**
  * Easy bot drop decision - very rarely drops
  */
-const shouldDropEasy = (hand: Card[], isFirstTurn: boolean): boolean => {
+const shouldDropEasy = (
+  hand: Card[],
+  isFirstTurn: boolean,
+  profile: PersonalityProfile,
+  rules?: MeldRules
+): boolean => {
   // Only consider dropping on first turn, and very rarely
   if (!isFirstTurn) {
     return false;
   }
 
   // Easy bot only drops 5% of the time on first turn with bad hand
-  if (Math.random() > 0.05) {
+  if (!rollDrop(0.05, profile)) {
     return false;
   }
 
   // Check if hand is really bad (high deadwood, no potential melds)
-  const analysis = autoArrangeHand(hand);
+  const analysis = autoArrangeHand(hand, rules);
   return analysis.deadwoodPoints > 70 && analysis.melds.length === 0;
 };
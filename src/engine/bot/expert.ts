@@ -0,0 +1,390 @@
+/**
+ * Expert Bot AI
+ *
+ * Information-set Monte Carlo search:
+ * - Works out which cards it hasn't seen from the deck, its hand and the discards
+ * - Samples opponent hands and draw pile orders from those unseen cards
+ * - Plays each candidate draw and discard a few turns forward in every sample
+ * - Picks the choice that leaves it closest to declaring on average, within a time budget
+ * - Drops like the hard bot
+ */
+
+import { Card, BotDecision, DEFAULT_DECK_CONFIG, HandAnalysis, MeldRules, getRankIndex } from '../types';
+import { BotContext, getThinkingTime } from './index';
+import { autoArrangeHand, canDeclare } from '../declaration';
+import { createDecks, markWildJokers, shuffle } from '../deck';
+import { isJoker } from '../hand';
+import { DEFAULT_MELD_RULES } from '../meld';
+import { shouldDropHard } from './hard';
+import { scoreCardForDiscard } from './medium';
+import { getPersonalityProfile } from './personality';
+
+/**
+ * Default search time per decision
+ */
+export const EXPERT_TIME_BUDGET_MS = 200;
+
+const MAX_SAMPLES = 64;
+const MAX_DISCARD_CANDIDATES = 5;
+const LOOKAHEAD_TURNS = 2; // Own draws played forward after the decision
+const LOOSE_CARD_POINTS = 8; // Heuristic cost of each card outside a meld, on top of half its value
+const MISSING_PURE_SEQUENCE_POINTS = 15; // Heuristic cost of each pure sequence still needed
+const FEED_PENALTY_WEIGHT = 0.25; // How much an opponent's gain from our discard costs us
+const PICKUP_BIAS_POINTS = 4; // Position value one step of pickup tendency is worth
+
+/**
+ * One guess at the hidden cards: every opponent's hand and the draw pile order
+ */
+interface Sample {
+  opponentHands: Card[][];
+  drawPile: Card[];
+}
+
+/**
+ * Expert bot decision maker
+ */
+export const expertBotDecide = (context: BotContext): BotDecision => {
+  const { hand, topDiscard, isFirstTurn, currentScore, poolLimit, turnPhase, meldRules } = context;
+  const thinkingTime = getThinkingTime('expert');
+  const profile = getPersonalityProfile(context.personality, context.tuning);
+
+  if (
+    turnPhase === 'draw' &&
+    shouldDropHard(hand, isFirstTurn, currentScore, poolLimit, meldRules, profile)
+  ) {
+    return {
+      action: 'drop',
+      dropType: isFirstTurn ? 'first' : 'middle',
+      thinkingTime,
+    };
+  }
+
+  // Draw phase
+  if (turnPhase === 'draw') {
+    const source = topDiscard && decideTakeDiscard(context, topDiscard) ? 'discard' : 'deck';
+    return {
+      action: 'draw',
+      source,
+      card: source === 'discard' && topDiscard ? topDiscard : undefined,
+      thinkingTime,
+    };
+  }
+
+  // Discard phase - declare if discarding any card leaves a winning hand
+  for (const cardToDiscard of hand) {
+    const remainingHand = hand.filter(c => c.id !== cardToDiscard.id);
+    if (canDeclare(remainingHand, meldRules)) {
+      const analysis = autoArrangeHand(remainingHand, meldRules);
+      return {
+        action: 'declare',
+        melds: analysis.melds,
+        thinkingTime,
+      };
+    }
+  }
+
+  return {
+    action: 'discard',
+    card: decideDiscardExpert(context),
+    thinkingTime,
+  };
+};
+
+/**
+ * Cards each opponent is known to hold, next to play first: picked up from the discard
+ * pile and not thrown back since
+ */
+const getKnownHands = (context: BotContext): Card[][] =>
+  (context.opponents ?? []).map(opponent => {
+    const thrownIds = new Set(opponent.discarded.map(c => c.id));
+    const held = opponent.pickedUp.filter(c => !thrownIds.has(c.id));
+    return markWildJokers(held, context.wildJokerCard ?? null, context.deck?.upDownJokers);
+  });
+
+/**
+ * Cards the bot can't see: not in its hand, not discarded and not the wild joker card
+ * Older discards are added back once the unseen cards can't cover a reshuffled draw pile,
+ * except those an opponent is known to hold
+ */
+const getUnseenCards = (context: BotContext, rules: MeldRules, knownHands: Card[][]): Card[] => {
+  const { hand, discardHistory, topDiscard, wildJokerCard = null } = context;
+  const deck = context.deck ?? DEFAULT_DECK_CONFIG;
+  const playerCount = context.playerCount ?? 2;
+
+  const seenIds = new Set([...hand, ...discardHistory].map(c => c.id));
+  if (wildJokerCard) seenIds.add(wildJokerCard.id);
+
+  const allCards = createDecks(playerCount, deck, rules.handSize);
+  let unseen = allCards.filter(c => !seenIds.has(c.id));
+
+  const needed = (playerCount - 1) * rules.handSize + LOOKAHEAD_TURNS * playerCount;
+  if (unseen.length < needed) {
+    const knownIds = new Set(knownHands.flat().map(c => c.id));
+    const reshuffled = discardHistory.filter(c => c.id !== topDiscard?.id && !knownIds.has(c.id));
+    unseen = [...unseen, ...reshuffled];
+  }
+
+  return markWildJokers(unseen, wildJokerCard, deck.upDownJokers);
+};
+
+/**
+ * Deal a random guess at the hidden cards, around the cards each opponent is known to hold
+ */
+const drawSample = (
+  unseen: Card[],
+  knownHands: Card[][],
+  playerCount: number,
+  handSize: number
+): Sample => {
+  const shuffled = shuffle(unseen);
+  const opponentHands: Card[][] = [];
+  let dealt = 0;
+  for (let i = 0; i < playerCount - 1; i++) {
+    const known = (knownHands[i] ?? []).slice(0, handSize);
+    const hidden = shuffled.slice(dealt, dealt + handSize - known.length);
+    dealt += hidden.length;
+    opponentHands.push([...known, ...hidden]);
+  }
+  return { opponentHands, drawPile: shuffled.slice(dealt) };
+};
+
+/**
+ * Sample repeatedly until the time budget runs out, valuing every option in each sample
+ * Returns the average value per option (lower is better)
+ */
+const searchOptions = (
+  context: BotContext,
+  rules: MeldRules,
+  optionCount: number,
+  scoreOptions: (sample: Sample, totals: number[]) => void
+): number[] => {
+  const playerCount = context.playerCount ?? 2;
+  const knownHands = getKnownHands(context);
+  const unseen = getUnseenCards(context, rules, knownHands);
+  const deadline = Date.now() + (context.timeBudgetMs ?? EXPERT_TIME_BUDGET_MS);
+  const totals = new Array<number>(optionCount).fill(0);
+
+  let samples = 0;
+  do {
+    scoreOptions(drawSample(unseen, knownHands, playerCount, rules.handSize), totals);
+    samples++;
+  } while (samples < MAX_SAMPLES && Date.now() < deadline);
+
+  return totals.map(total => total / samples);
+};
+
+/**
+ * Whether a loose card could grow into a meld with another loose card
+ */
+const isConnected = (card: Card, loose: Card[]): boolean =>
+  loose.some(c => {
+    if (c.id === card.id || isJoker(c)) return false;
+    if (c.suit !== card.suit) return c.rank === card.rank;
+    const gap = Math.abs(getRankIndex(c.rank) - getRankIndex(card.rank));
+    return gap > 0 && gap <= 2;
+  });
+
+/**
+ * How far an arranged hand is from a declaration, after throwing a card from it if one is given
+ * Loose cards cost the most, half as much when they are one card from a meld
+ */
+const positionValue = (analysis: HandAnalysis, thrown: Card | null, rules: MeldRules): number => {
+  const loose = analysis.deadwood.filter(c => c.id !== thrown?.id);
+  let value = 0;
+  for (const card of loose) {
+    if (isJoker(card)) continue;
+    value += (isConnected(card, loose) ? LOOSE_CARD_POINTS / 2 : LOOSE_CARD_POINTS) + card.value / 2;
+  }
+  const missingPure = Math.max(0, rules.requiredPureSequences - analysis.pureSequenceCount);
+  return value + missingPure * MISSING_PURE_SEQUENCE_POINTS;
+};
+
+/**
+ * Card a player would throw from an arrangement: a loose card that leads nowhere, highest first
+ */
+const pickThrow = (hand: Card[], analysis: HandAnalysis): Card => {
+  const loose = analysis.deadwood.filter(c => !isJoker(c));
+  if (loose.length > 0) {
+    const throwOrder = (c: Card) => (isConnected(c, loose) ? 0 : 100) + c.value;
+    return loose.reduce((worst, c) => (throwOrder(c) > throwOrder(worst) ? c : worst));
+  }
+  const nonJokers = hand.filter(c => !isJoker(c));
+  return nonJokers.length > 0
+    ? nonJokers.reduce((best, c) => (c.value < best.value ? c : best))
+    : hand[0];
+};
+
+/**
+ * Play one greedy turn on a drawn card: arrange, throw the worst card, value what's left
+ * A score of 0 means the hand could declare
+ */
+const playTurn = (hand: Card[], drawn: Card, rules: MeldRules): { hand: Card[]; value: number } => {
+  const withDrawn = [...hand, drawn];
+  const analysis = autoArrangeHand(withDrawn, rules);
+  const thrown = pickThrow(withDrawn, analysis);
+  const remaining = withDrawn.filter(c => c.id !== thrown.id);
+
+  const declarable =
+    analysis.deadwood.every(c => c.id === thrown.id) &&
+    analysis.pureSequenceCount >= rules.requiredPureSequences &&
+    analysis.sequenceCount >= rules.requiredSequences;
+
+  return { hand: remaining, value: declarable ? 0 : positionValue(analysis, thrown, rules) };
+};
+
+/**
+ * Play our next few turns from a sampled draw pile, assuming opponents draw from it too
+ * `firstDraw` is the pile position of our next draw
+ */
+const rollout = (
+  hand: Card[],
+  value: number,
+  drawPile: Card[],
+  firstDraw: number,
+  turns: number,
+  playerCount: number,
+  rules: MeldRules
+): number => {
+  let current = { hand, value };
+  for (let turn = 0; turn < turns; turn++) {
+    const index = firstDraw + turn * playerCount;
+    if (index >= drawPile.length || current.value === 0) break;
+    current = playTurn(current.hand, drawPile[index], rules);
+  }
+  return current.value;
+};
+
+/**
+ * Points the next opponent saves by picking up our discard
+ */
+const feedGain = (opponentHand: Card[], baseValue: number, card: Card, rules: MeldRules): number => {
+  const withCard = [...opponentHand, card];
+  const analysis = autoArrangeHand(withCard, rules);
+  return Math.max(0, baseValue - positionValue(analysis, pickThrow(withCard, analysis), rules));
+};
+
+/**
+ * Average position value after drawing from the deck and after taking the top discard
+ * (lower is better)
+ */
+export const evaluateDrawOptions = (
+  context: BotContext,
+  topDiscard: Card
+): { deck: number; discard: number } => {
+  const { hand } = context;
+  const rules = context.meldRules ?? DEFAULT_MELD_RULES;
+  const playerCount = context.playerCount ?? 2;
+  const followUp = LOOKAHEAD_TURNS - 1;
+
+  // Taking the discard is the same in every sample; only the follow-up draws differ
+  const taken = playTurn(hand, topDiscard, rules);
+
+  const [deckValue, discardValue] = searchOptions(context, rules, 2, (sample, totals) => {
+    const { drawPile } = sample;
+    if (drawPile.length === 0) {
+      totals[1] += taken.value;
+      return;
+    }
+    const fromDeck = playTurn(hand, drawPile[0], rules);
+    totals[0] += rollout(fromDeck.hand, fromDeck.value, drawPile, playerCount, followUp, playerCount, rules);
+    totals[1] += rollout(taken.hand, taken.value, drawPile, playerCount - 1, followUp, playerCount, rules);
+  });
+
+  return { deck: deckValue, discard: discardValue };
+};
+
+/**
+ * Expert draw decision - compare the top discard with a sampled deck draw
+ */
+const decideTakeDiscard = (context: BotContext, topDiscard: Card): boolean => {
+  if (isJoker(topDiscard)) {
+    return true;
+  }
+
+  const { deck: deckValue, discard: discardValue } = evaluateDrawOptions(context, topDiscard);
+
+  // Personalities lean towards or away from the open pile
+  const { pickupTendency } = getPersonalityProfile(context.personality, context.tuning);
+  const bias = PICKUP_BIAS_POINTS * (pickupTendency - 1);
+  return discardValue < deckValue + bias;
+};
+
+/**
+ * Play the most promising discards forward in every sample, best first
+ * `include` adds cards to value even if they wouldn't be shortlisted, e.g. a throw to review
+ */
+export const evaluateDiscards = (
+  context: BotContext,
+  include: Card[] = []
+): { card: Card; value: number }[] => {
+  const { hand } = context;
+  const rules = context.meldRules ?? DEFAULT_MELD_RULES;
+  const playerCount = context.playerCount ?? 2;
+  const profile = getPersonalityProfile(context.personality, context.tuning);
+  const analysis = autoArrangeHand(hand, rules);
+
+  const meldedIds = new Set(analysis.melds.flatMap(m => m.cards.map(c => c.id)));
+  const seen = new Set<string>();
+  const loose = hand.filter(c => !isJoker(c) && !meldedIds.has(c.id));
+  const candidates = (loose.length > 0 ? loose : hand.filter(c => !isJoker(c)))
+    .sort(
+      (a, b) =>
+        scoreCardForDiscard(a, hand, meldedIds, profile) -
+        scoreCardForDiscard(b, hand, meldedIds, profile)
+    )
+    .filter(c => {
+      // Identical cards from different decks are the same choice
+      const key = `${c.suit}-${c.rank}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_DISCARD_CANDIDATES);
+  for (const card of include) {
+    if (!candidates.some(c => c.suit === card.suit && c.rank === card.rank)) candidates.push(card);
+  }
+
+  if (candidates.length <= 1) {
+    const card = candidates[0] ?? pickThrow(hand, analysis);
+    return [{ card, value: positionValue(analysis, card, rules) }];
+  }
+
+  // Starting values only matter when the sampled pile is empty
+  const starts = candidates.map(card => {
+    const remaining = hand.filter(c => c.id !== card.id);
+    const value = meldedIds.has(card.id)
+      ? positionValue(autoArrangeHand(remaining, rules), null, rules)
+      : positionValue(analysis, card, rules);
+    return { hand: remaining, value };
+  });
+
+  const averages = searchOptions(context, rules, candidates.length, (sample, totals) => {
+    const { opponentHands, drawPile } = sample;
+    const nextOpponent = opponentHands[0];
+    const opponentValue =
+      nextOpponent.length > 0 ? positionValue(autoArrangeHand(nextOpponent, rules), null, rules) : 0;
+
+    candidates.forEach((card, i) => {
+      const fed = nextOpponent.length > 0 ? feedGain(nextOpponent, opponentValue, card, rules) : 0;
+      const value = rollout(
+        starts[i].hand,
+        starts[i].value,
+        drawPile,
+        playerCount - 1,
+        LOOKAHEAD_TURNS,
+        playerCount,
+        rules
+      );
+      totals[i] += value + fed * FEED_PENALTY_WEIGHT;
+    });
+  });
+
+  return candidates
+    .map((card, i) => ({ card, value: averages[i] }))
+    .sort((a, b) => a.value - b.value);
+};
+
+/**
+ * Expert discard decision - the throw that plays out best
+ */
+const decideDiscardExpert = (context: BotContext): Card => evaluateDiscards(context)[0].card;
@@ -4,16 +4,24 @@
  * Advanced strategy:
  * - Tracks discards to know what's safe to discard
  * - Avoids discarding cards opponents might need
+ * - Reads opponents' pickups and discards to avoid feeding the next player
  * - Picks from discard pile strategically
  * - Optimal meld formation
  * - Smart dropping decisions
  */
 
-import { Card, BotDecision, DrawSource, getRankIndex } from '../types';
-import { BotContext, getThinkingTime } from './index';
+import { Card, BotDecision, DrawSource, getRankIndex, MeldRules } from '../types';
+import { BotContext, OpponentObservation, getThinkingTime } from './index';
 import { autoArrangeHand, canDeclare } from '../declaration';
 import { isJoker, evaluateHand } from '../hand';
 import { checkIfHelpsFormMeld, scoreCardForDiscard } from './medium';
+import {
+  PersonalityProfile,
+  getPersonalityProfile,
+  holdsJokerReserve,
+  rollDrop,
+  rollFish,
+} from './personality';
 
 /**
  * Hard bot decision maker
@@ -27,11 +35,17 @@ export const hardBotDecide = (context: BotContext): BotDecision => {
     currentScore,
     poolLimit,
     turnPhase,
+    meldRules,
+    opponents = [],
   } = context;
   const thinkingTime = getThinkingTime('hard');
+  const profile = getPersonalityProfile(context.personality, context.tuning);
 
   // Check if should drop
-  if (turnPhase === 'draw' && shouldDropHard(hand, isFirstTurn, currentScore, poolLimit)) {
+  if (
+    turnPhase === 'draw' &&
+    shouldDropHard(hand, isFirstTurn, currentScore, poolLimit, meldRules, profile)
+  ) {
     return {
       action: 'drop',
       dropType: isFirstTurn ? 'first' : 'middle',
@@ -41,7 +55,7 @@ export const hardBotDecide = (context: BotContext): BotDecision => {
 
   // Draw phase
   if (turnPhase === 'draw') {
-    const source = decideDrawSourceHard(hand, topDiscard, discardHistory);
+    const source = decideDrawSourceHard(hand, topDiscard, discardHistory, profile);
     return {
       action: 'draw',
       source,
@@ -55,8 +69,8 @@ export const hardBotDecide = (context: BotContext): BotDecision => {
     // Check each card - if discarding it leaves a winning hand, declare!
     for (const cardToDiscard of hand) {
       const remainingHand = hand.filter(c => c.id !== cardToDiscard.id);
-      if (canDeclare(remainingHand)) {
-        const analysis = autoArrangeHand(remainingHand);
+      if (canDeclare(remainingHand, meldRules)) {
+        const analysis = autoArrangeHand(remainingHand, meldRules);
         return {
           action: 'declare',
           melds: analysis.melds,
@@ -66,7 +80,7 @@ export const hardBotDecide = (context: BotContext): BotDecision => {
     }
 
     // No winning discard found, just discard normally
-    const cardToDiscard = decideDiscardHard(hand, discardHistory);
+    const cardToDiscard = decideDiscardHard(hand, discardHistory, opponents, profile, meldRules);
     return {
       action: 'discard',
       card: cardToDiscard,
@@ -75,7 +89,7 @@ export const hardBotDecide = (context: BotContext): BotDecision => {
   }
 
   // Fallback
-  const cardToDiscard = decideDiscardHard(hand, discardHistory);
+  const cardToDiscard = decideDiscardHard(hand, discardHistory, opponents, profile, meldRules);
   return {
     action: 'discard',
     card: cardToDiscard,
@@ -89,7 +103,8 @@ export const hardBotDecide = (context: BotContext): BotDecision => {
 const decideDrawSourceHard = (
   hand: Card[],
   topDiscard: Card | null,
-  discardHistory: Card[]
+  discardHistory: Card[],
+  profile: PersonalityProfile
 ): DrawSource => {
   if (!topDiscard) {
     return 'deck';
@@ -107,8 +122,8 @@ const decideDrawSourceHard = (
   const handWithDiscard = [...hand, topDiscard];
   const evalWithDiscard = evaluateHand(handWithDiscard);
 
-  // If picking up significantly improves hand, do it
-  if (evalWithDiscard < currentEval - 10) {
+  // If picking up significantly improves hand, do it - a fisher settles for less
+  if (evalWithDiscard < currentEval - 10 / profile.pickupTendency) {
     return 'discard';
   }
 
@@ -120,7 +135,7 @@ const decideDrawSourceHard = (
   // Check discard history to see if opponents want this card's neighbors
   // If opponents discarded cards of same rank, they probably don't need this rank
   const sameRankDiscards = discardHistory.filter(c => c.rank === topDiscard.rank);
-  if (sameRankDiscards.length >= 2) {
+  if (sameRankDiscards.length >= 2 && Math.random() < profile.historyReasoning) {
     // Many of this rank have been discarded, less valuable
     return 'deck';
   }
@@ -130,22 +145,26 @@ const decideDrawSourceHard = (
     // But check if it might give away information
     // If we've been discarding similar cards, don't suddenly pick one up
     const recentDiscards = discardHistory.slice(-5);
-    const haveSimilar = recentDiscards.some(c =>
+    const haveSimilar = Math.random() < profile.historyReasoning && recentDiscards.some(c =>
       c.suit === topDiscard.suit &&
       Math.abs(getRankIndex(c.rank) - getRankIndex(topDiscard.rank)) <= 2
     );
-    if (!haveSimilar) {
+    if (!haveSimilar && Math.random() < profile.pickupTendency) {
       return 'discard';
     }
   }
 
+  if (rollFish(hand, topDiscard, profile)) {
+    return 'discard';
+  }
+
   return 'deck';
 };
 
 /**
  * Check if a card would immediately complete a meld
  */
-const wouldCompleteMeld = (hand: Card[], card: Card): boolean => {
+export const wouldCompleteMeld = (hand: Card[], card: Card): boolean => {
   // Check for set completion
   const sameRank = hand.filter(c => c.rank === card.rank && !isJoker(c));
   const uniqueSuits = new Set([...sameRank.map(c => c.suit), card.suit]);
@@ -174,8 +193,14 @@ const wouldCompleteMeld = (hand: Card[], card: Card): boolean => {
 /**
  * Hard bot discard decision - avoid giving opponents what they need
  */
-const decideDiscardHard = (hand: Card[], discardHistory: Card[]): Card => {
-  const analysis = autoArrangeHand(hand);
+const decideDiscardHard = (
+  hand: Card[],
+  discardHistory: Card[],
+  opponents: OpponentObservation[],
+  profile: PersonalityProfile,
+  rules?: MeldRules
+): Card => {
+  const analysis = autoArrangeHand(hand, rules);
 
   // Get cards that are part of melds
   const meldedCardIds = new Set<string>();
@@ -201,7 +226,7 @@ const decideDiscardHard = (hand: Card[], discardHistory: Card[]): Card => {
   // Score each candidate with advanced scoring
   const scored = candidates.map(card => ({
     card,
-    score: scoreCardForDiscardHard(card, hand, discardHistory, meldedCardIds),
+    score: scoreCardForDiscardHard(card, hand, discardHistory, opponents, meldedCardIds, profile),
   }));
 
   // Sort by score ascending (lower = discard first)
@@ -214,21 +239,24 @@ const decideDiscardHard = (hand: Card[], discardHistory: Card[]): Card => {
  * Advanced scoring for discard
  * Lower score = safer to discard
  */
-const scoreCardForDiscardHard = (
+export const scoreCardForDiscardHard = (
   card: Card,
   hand: Card[],
   discardHistory: Card[],
-  meldedIds: Set<string>
+  opponents: OpponentObservation[],
+  meldedIds: Set<string>,
+  profile: PersonalityProfile = getPersonalityProfile()
 ): number => {
   // Start with basic score
-  let score = scoreCardForDiscard(card, hand, meldedIds);
+  let score = scoreCardForDiscard(card, hand, meldedIds, profile);
+  const history = profile.historyReasoning;
 
   // Analyze discard history to determine what opponents might need
 
   // Count how many of this rank have been discarded
   const sameRankDiscards = discardHistory.filter(c => c.rank === card.rank);
   // If many have been discarded, this is safer to discard
-  score -= sameRankDiscards.length * 5;
+  score -= sameRankDiscards.length * 5 * history;
 
   // Check for adjacent cards in discard history (same suit)
   const adjacentDiscards = discardHistory.filter(c => {
@@ -239,32 +267,68 @@ const scoreCardForDiscardHard = (
   });
 
   // If opponents discarded nearby cards, they probably don't need this one
-  score -= adjacentDiscards.length * 3;
+  score -= adjacentDiscards.length * 3 * history;
 
   // Prefer discarding cards that have been "abandoned" by opponents
   // (where many cards of that suit have been discarded)
   const sameSuitDiscards = discardHistory.filter(c => c.suit === card.suit);
   if (sameSuitDiscards.length >= 5) {
     // This suit is heavily discarded, safer to discard more
-    score -= 10;
+    score -= 10 * history;
   }
 
   // High cards are still riskier to hold
-  score -= card.value * 0.5;
+  score -= card.value * 0.5 * profile.pointShedding;
+
+  // Hold on to what the next player is collecting - they can pick up our discard
+  if (opponents.length > 0) {
+    score += opponentInterest(card, opponents[0]) * 2 * history;
+  }
 
   return score;
 };
 
+/**
+ * How strongly an opponent seems to be collecting around a card (0 = no sign)
+ * Pickups from the open pile show the ranks and suits they want; their discards show what they don't
+ */
+export const opponentInterest = (card: Card, opponent: OpponentObservation): number => {
+  const cardIdx = getRankIndex(card.rank);
+  let interest = 0;
+
+  for (const picked of opponent.pickedUp) {
+    if (isJoker(picked)) continue;
+    const gap = Math.abs(getRankIndex(picked.rank) - cardIdx);
+    if (picked.rank === card.rank && picked.suit !== card.suit) interest += 10; // Building a set
+    if (picked.suit === card.suit && gap > 0 && gap <= 2) interest += 8; // Building a sequence
+  }
+
+  for (const thrown of opponent.discarded) {
+    if (isJoker(thrown)) continue;
+    const gap = Math.abs(getRankIndex(thrown.rank) - cardIdx);
+    if (thrown.rank === card.rank) interest -= 4;
+    if (thrown.suit === card.suit && gap > 0 && gap <= 1) interest -= 3;
+  }
+
+  return Math.max(0, interest);
+};
+
 /**
  * Hard bot drop decision - strategic dropping
  */
-const shouldDropHard = (
+export const shouldDropHard = (
   hand: Card[],
   isFirstTurn: boolean,
   currentScore: number,
-  poolLimit: number | null
+  poolLimit: number | null,
+  rules?: MeldRules,
+  profile: PersonalityProfile = getPersonalityProfile()
 ): boolean => {
-  const analysis = autoArrangeHand(hand);
+  if (holdsJokerReserve(hand, profile)) {
+    return false;
+  }
+
+  const analysis = autoArrangeHand(hand, rules);
 
   // Never drop if we have good melds
   if (analysis.melds.length >= 2 && analysis.deadwoodPoints < 40) {
@@ -287,13 +351,13 @@ const shouldDropHard = (
 
       // Comfortable position - drop if hand is bad
       if (spaceRemaining > 100 && expectedHandPoints > 65 && analysis.melds.length === 0) {
-        return true;
+        return rollDrop(1, profile);
       }
     }
 
     // Non-pool games - more conservative dropping
     if (expectedHandPoints > 70 && analysis.melds.length === 0) {
-      return Math.random() < 0.4; // 40% chance
+      return rollDrop(0.4, profile); // 40% chance
     }
   } else {
     const dropCost = 50;
@@ -309,7 +373,7 @@ const shouldDropHard = (
 
       // Only drop if expected loss is significantly higher
       if (spaceRemaining > 80 && expectedHandPoints > 75 && analysis.melds.length <= 1) {
-        return Math.random() < 0.25; // 25% chance
+        return rollDrop(0.25, profile); // 25% chance
       }
     }
   }
@@ -4,10 +4,29 @@
  * Manages bot decision making with different difficulty levels
  */
 
-import { Card, BotDecision, BotDifficulty, DrawSource } from '../types';
+import {
+  Card,
+  BotDecision,
+  BotDifficulty,
+  BotPersonality,
+  DeckConfig,
+  DrawSource,
+  MeldRules,
+  PlayerObservations,
+  RoundState,
+} from '../types';
 import { easyBotDecide } from './easy';
 import { mediumBotDecide } from './medium';
 import { hardBotDecide } from './hard';
+import { expertBotDecide } from './expert';
+import type { BotTuning } from './personality';
+
+export {
+  PERSONALITY_PROFILES,
+  BOT_PERSONALITIES,
+  getPersonalityProfile,
+} from './personality';
+export type { PersonalityProfile, BotTuning } from './personality';
 
 /**
  * Bot strategy interface - all difficulty levels implement this
@@ -48,6 +67,13 @@ export interface BotStrategy {
   ): boolean;
 }
 
+/**
+ * What a bot has seen one opponent do this round
+ */
+export interface OpponentObservation extends PlayerObservations {
+  playerId: string;
+}
+
 /**
  * Context for bot decision making
  */
@@ -61,8 +87,43 @@ export interface BotContext {
   currentScore: number;
   poolLimit: number | null;
   turnPhase: 'draw' | 'discard';
+  meldRules?: MeldRules; // Defaults to DEFAULT_MELD_RULES
+  opponents?: OpponentObservation[]; // Opponents still in the round, next to play first
+  personality?: BotPersonality; // Defaults to balanced
+  tuning?: BotTuning; // Adaptive difficulty multipliers on top of the personality
+  // Public table information, used by the expert bot to work out the unseen cards
+  wildJokerCard?: Card | null;
+  deck?: DeckConfig; // Defaults to DEFAULT_DECK_CONFIG
+  playerCount?: number; // Players dealt in this round, defaults to 2
+  timeBudgetMs?: number; // Expert bot search time per decision
 }
 
+/**
+ * Observations of every opponent still in the round, in turn order from the next player
+ */
+export const getOpponentObservations = (
+  round: RoundState,
+  activePlayers: string[],
+  playerId: string
+): OpponentObservation[] => {
+  const seat = activePlayers.indexOf(playerId);
+  const opponents: OpponentObservation[] = [];
+
+  for (let offset = 1; offset < activePlayers.length; offset++) {
+    const opponentId = activePlayers[(seat + offset) % activePlayers.length];
+    if (round.droppedPlayers.includes(opponentId)) continue;
+    const seen = round.observations?.[opponentId];
+    opponents.push({
+      playerId: opponentId,
+      pickedUp: seen?.pickedUp ?? [],
+      discarded: seen?.discarded ?? [],
+      deckDraws: seen?.deckDraws ?? 0,
+    });
+  }
+
+  return opponents;
+};
+
 /**
  * Get bot decision based on difficulty and game state
  */
@@ -77,6 +138,8 @@ export const getBotDecision = (
       return mediumBotDecide(context);
     case 'hard':
       return hardBotDecide(context);
+    case 'expert':
+      return expertBotDecide(context);
     default:
       return easyBotDecide(context);
   }
@@ -96,11 +159,23 @@ export const getThinkingTime = (difficulty: BotDifficulty): number => {
       return baseTime + Math.random() * 1000; // 0.5-1.5s
     case 'hard':
       return baseTime + Math.random() * 1500; // 0.5-2s
+    case 'expert':
+      return baseTime + Math.random() * 1500; // 0.5-2s, on top of the search
     default:
       return baseTime;
   }
 };
 
+/**
+ * Display labels for the difficulty levels
+ */
+export const DIFFICULTY_LABELS: Record<BotDifficulty, string> = {
+  easy: 'Easy',
+  medium: 'Medium',
+  hard: 'Hard',
+  expert: 'Expert',
+};
+
 /**
  * Get bot name based on difficulty and index
  */
@@ -108,6 +183,7 @@ export const getBotName = (difficulty: BotDifficulty, index: number): string =>
   const easyNames = ['Beginner Bot', 'Novice Bot', 'Learner Bot', 'Starter Bot'];
   const mediumNames = ['Regular Bot', 'Average Bot', 'Standard Bot', 'Normal Bot'];
   const hardNames = ['Expert Bot', 'Master Bot', 'Pro Bot', 'Champion Bot'];
+  const expertNames = ['Grandmaster Bot', 'Oracle Bot', 'Shark Bot', 'Legend Bot'];
 
   let names: string[];
   switch (difficulty) {
@@ -120,6 +196,9 @@ export const getBotName = (difficulty: BotDifficulty, index: number): string =>
     case 'hard':
       names = hardNames;
       break;
+    case 'expert':
+      names = expertNames;
+      break;
     default:
       names = mediumNames;
   }
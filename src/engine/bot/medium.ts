@@ -8,20 +8,32 @@
  * - Drops strategically when hand is very bad
  */
 
-import { Card, BotDecision, DrawSource, getRankIndex } from '../types';
+import { Card, BotDecision, DrawSource, getRankIndex, MeldRules } from '../types';
 import { BotContext, getThinkingTime } from './index';
 import { autoArrangeHand, canDeclare } from '../declaration';
 import { isJoker } from '../hand';
+import {
+  PersonalityProfile,
+  getPersonalityProfile,
+  holdsJokerReserve,
+  rollDrop,
+  rollFish,
+} from './personality';
 
 /**
  * Medium bot decision maker
  */
 export const mediumBotDecide = (context: BotContext): BotDecision => {
-  const { hand, topDiscard, isFirstTurn, currentScore, poolLimit, turnPhase } = context;
+  const { hand, topDiscard, isFirstTurn, currentScore, poolLimit, turnPhase, meldRules } =
+    context;
   const thinkingTime = getThinkingTime('medium');
+  const profile = getPersonalityProfile(context.personality, context.tuning);
 
   // Check if should drop
-  if (turnPhase === 'draw' && shouldDropMedium(hand, isFirstTurn, currentScore, poolLimit)) {
+  if (
+    turnPhase === 'draw' &&
+    shouldDropMedium(hand, isFirstTurn, currentScore, poolLimit, profile, meldRules)
+  ) {
     return {
       action: 'drop',
       dropType: isFirstTurn ? 'first' : 'middle',
@@ -31,7 +43,7 @@ export const mediumBotDecide = (context: BotContext): BotDecision => {
 
   // Draw phase
   if (turnPhase === 'draw') {
-    const source = decideDrawSourceMedium(hand, topDiscard);
+    const source = decideDrawSourceMedium(hand, topDiscard, profile);
     return {
       action: 'draw',
       source,
@@ -45,8 +57,8 @@ export const mediumBotDecide = (context: BotContext): BotDecision => {
     // Check each card - if discarding it leaves a winning hand, declare!
     for (const cardToDiscard of hand) {
       const remainingHand = hand.filter(c => c.id !== cardToDiscard.id);
-      if (canDeclare(remainingHand)) {
-        const analysis = autoArrangeHand(remainingHand);
+      if (canDeclare(remainingHand, meldRules)) {
+        const analysis = autoArrangeHand(remainingHand, meldRules);
         return {
           action: 'declare',
           melds: analysis.melds,
@@ -56,7 +68,7 @@ export const mediumBotDecide = (context: BotContext): BotDecision => {
     }
 
     // No winning discard found, just discard normally
-    const cardToDiscard = decideDiscardMedium(hand);
+    const cardToDiscard = decideDiscardMedium(hand, profile, meldRules);
     return {
       action: 'discard',
       card: cardToDiscard,
@@ -65,7 +77,7 @@ export const mediumBotDecide = (context: BotContext): BotDecision => {
   }
 
   // Fallback
-  const cardToDiscard = decideDiscardMedium(hand);
+  const cardToDiscard = decideDiscardMedium(hand, profile, meldRules);
   return {
     action: 'discard',
     card: cardToDiscard,
@@ -76,7 +88,11 @@ export const mediumBotDecide = (context: BotContext): BotDecision => {
 /**
  * Medium bot draw decision - considers if discard helps form melds
  */
-const decideDrawSourceMedium = (hand: Card[], topDiscard: Card | null): DrawSource => {
+const decideDrawSourceMedium = (
+  hand: Card[],
+  topDiscard: Card | null,
+  profile: PersonalityProfile
+): DrawSource => {
   if (!topDiscard) {
     return 'deck';
   }
@@ -89,7 +105,12 @@ const decideDrawSourceMedium = (hand: Card[], topDiscard: Card | null): DrawSour
   // Check if discard card would help form a meld
   const wouldHelpMeld = checkIfHelpsFormMeld(hand, topDiscard);
 
-  if (wouldHelpMeld) {
+  if (wouldHelpMeld && Math.random() < profile.pickupTendency) {
+    return 'discard';
+  }
+
+  // A discard fisher also goes after cards that only touch the hand
+  if (rollFish(hand, topDiscard, profile)) {
     return 'discard';
   }
 
@@ -138,8 +159,12 @@ const checkIfHelpsFormMeld = (hand: Card[], card: Card): boolean => {
 /**
  * Medium bot discard decision - avoid discarding cards that help melds
  */
-const decideDiscardMedium = (hand: Card[]): Card => {
-  const analysis = autoArrangeHand(hand);
+const decideDiscardMedium = (
+  hand: Card[],
+  profile: PersonalityProfile,
+  rules?: MeldRules
+): Card => {
+  const analysis = autoArrangeHand(hand, rules);
 
   // Get cards that are part of melds
   const meldedCardIds = new Set<string>();
@@ -161,7 +186,7 @@ const decideDiscardMedium = (hand: Card[]): Card => {
   // Score each candidate - lower is better to discard
   const scored = candidates.map(card => ({
     card,
-    score: scoreCardForDiscard(card, hand, meldedCardIds),
+    score: scoreCardForDiscard(card, hand, meldedCardIds, profile),
   }));
 
   // Sort by score ascending (lower = discard first)
@@ -175,7 +200,12 @@ const decideDiscardMedium = (hand: Card[]): Card => {
  * Score a card for discard potential
  * Lower score = better to discard
  */
-const scoreCardForDiscard = (card: Card, hand: Card[], meldedIds: Set<string>): number => {
+const scoreCardForDiscard = (
+  card: Card,
+  hand: Card[],
+  meldedIds: Set<string>,
+  profile: PersonalityProfile = getPersonalityProfile()
+): number => {
   let score = 0;
 
   // Jokers are never good to discard
@@ -184,14 +214,17 @@ const scoreCardForDiscard = (card: Card, hand: Card[], meldedIds: Set<string>):
   }
 
   // High value cards should be discarded sooner
-  score -= card.value;
+  score -= card.value * profile.pointShedding;
+
+  // Partial melds are worth more to a joker hoarder holding a joker to finish them
+  const partialWeight = hand.some(isJoker) ? profile.jokerHoarding : 1;
 
   // Check if card is close to forming a meld with other unmelded cards
   const otherUnmelded = hand.filter(c => c.id !== card.id && !meldedIds.has(c.id));
 
   // Same rank cards (potential set)
   const sameRankCount = otherUnmelded.filter(c => c.rank === card.rank).length;
-  score += sameRankCount * 10;
+  score += sameRankCount * 10 * partialWeight;
 
   // Adjacent same-suit cards (potential sequence)
   const cardRankIdx = getRankIndex(card.rank);
@@ -200,7 +233,7 @@ const scoreCardForDiscard = (card: Card, hand: Card[], meldedIds: Set<string>):
     const rankIdx = getRankIndex(c.rank);
     return Math.abs(rankIdx - cardRankIdx) <= 1;
   }).length;
-  score += adjacentCount * 15;
+  score += adjacentCount * 15 * partialWeight;
 
   return score;
 };
@@ -212,9 +245,15 @@ const shouldDropMedium = (
   hand: Card[],
   isFirstTurn: boolean,
   currentScore: number,
-  poolLimit: number | null
+  poolLimit: number | null,
+  profile: PersonalityProfile,
+  rules?: MeldRules
 ): boolean => {
-  const analysis = autoArrangeHand(hand);
+  if (holdsJokerReserve(hand, profile)) {
+    return false;
+  }
+
+  const analysis = autoArrangeHand(hand, rules);
 
   // Consider dropping if hand is very bad
   if (analysis.deadwoodPoints < 50) {
@@ -233,7 +272,7 @@ const shouldDropMedium = (
           return false;
         }
       }
-      return Math.random() < 0.3; // 30% chance to drop
+      return rollDrop(0.3, profile); // 30% chance to drop
     }
   } else {
     // Middle drop - 50 points
@@ -245,7 +284,7 @@ const shouldDropMedium = (
           return false;
         }
       }
-      return Math.random() < 0.15; // 15% chance to drop
+      return rollDrop(0.15, profile); // 15% chance to drop
     }
   }
 
@@ -0,0 +1,137 @@
+/**
+ * Bot Personalities
+ *
+ * Parameter sets the bot strategies read on top of their difficulty,
+ * so bots of the same level play like different opponents
+ */
+
+import { BotPersonality, Card, getRankIndex } from '../types';
+import { isJoker } from '../hand';
+
+/**
+ * Knobs a strategy scales its fixed thresholds by - 1 is the standard behaviour
+ */
+export interface PersonalityProfile {
+  label: string;
+  shortLabel: string; // Fits under a name on the table
+  description: string;
+  dropTendency: number; // Scales the chance of dropping a bad hand (0 = never drops)
+  pickupTendency: number; // Scales how readily the open discard is taken
+  pointShedding: number; // Scales how much high cards are worth throwing
+  jokerHoarding: number; // Scales how much jokers in hand are built around and played on
+  historyReasoning: number; // Scales how much the discard history and opponents' picks are read
+}
+
+/**
+ * Multipliers applied on top of a personality, e.g. by adaptive difficulty
+ */
+export type BotTuning = Partial<
+  Pick<PersonalityProfile, 'dropTendency' | 'pickupTendency' | 'historyReasoning'>
+>;
+
+export const PERSONALITY_PROFILES: Record<BotPersonality, PersonalityProfile> = {
+  balanced: {
+    label: 'Balanced',
+    shortLabel: 'Balanced',
+    description: 'Plays the difficulty as designed',
+    dropTendency: 1,
+    pickupTendency: 1,
+    pointShedding: 1,
+    jokerHoarding: 1,
+    historyReasoning: 1,
+  },
+  aggressive: {
+    label: 'Aggressive Declarer',
+    shortLabel: 'Aggressive',
+    description: 'Plays every hand out and races to declare',
+    dropTendency: 0.25,
+    pickupTendency: 1.2,
+    pointShedding: 0.5,
+    jokerHoarding: 1,
+    historyReasoning: 1,
+  },
+  cautious: {
+    label: 'Cautious Dropper',
+    shortLabel: 'Cautious',
+    description: 'Drops weak hands and sheds high cards early',
+    dropTendency: 2.5,
+    pickupTendency: 0.8,
+    pointShedding: 1.6,
+    jokerHoarding: 1,
+    historyReasoning: 1,
+  },
+  'joker-hoarder': {
+    label: 'Joker Hoarder',
+    shortLabel: 'Hoarder',
+    description: 'Builds around its jokers and stays in while holding them',
+    dropTendency: 0.6,
+    pickupTendency: 1,
+    pointShedding: 1,
+    jokerHoarding: 2.5,
+    historyReasoning: 1,
+  },
+  fisher: {
+    label: 'Discard Fisher',
+    shortLabel: 'Fisher',
+    description: 'Picks up from the open pile whenever it might help',
+    dropTendency: 1,
+    pickupTendency: 2.5,
+    pointShedding: 1,
+    jokerHoarding: 1,
+    historyReasoning: 1,
+  },
+};
+
+export const BOT_PERSONALITIES = Object.keys(PERSONALITY_PROFILES) as BotPersonality[];
+
+/**
+ * Profile for a personality, balanced when none is set, with any tuning multiplied in
+ */
+export const getPersonalityProfile = (
+  personality?: BotPersonality,
+  tuning?: BotTuning
+): PersonalityProfile => {
+  const profile = PERSONALITY_PROFILES[personality ?? 'balanced'] ?? PERSONALITY_PROFILES.balanced;
+  if (!tuning) return profile;
+  return {
+    ...profile,
+    dropTendency: profile.dropTendency * (tuning.dropTendency ?? 1),
+    pickupTendency: profile.pickupTendency * (tuning.pickupTendency ?? 1),
+    historyReasoning: profile.historyReasoning * (tuning.historyReasoning ?? 1),
+  };
+};
+
+/**
+ * Roll a drop chance scaled by the profile's drop tendency
+ */
+export const rollDrop = (chance: number, profile: PersonalityProfile): boolean =>
+  Math.random() < Math.min(1, chance * profile.dropTendency);
+
+/**
+ * Whether the jokers in hand are reason enough to play the round out
+ * Only a hoarding personality stays in on jokers alone
+ */
+export const holdsJokerReserve = (hand: Card[], profile: PersonalityProfile): boolean =>
+  profile.jokerHoarding > 1 && hand.filter(isJoker).length * profile.jokerHoarding >= 2;
+
+/**
+ * Whether a card shares a rank with, or sits within two of a same-suit card in, the hand
+ * Looser than a meld check - what a discard fisher picks up on
+ */
+const touchesHand = (hand: Card[], card: Card): boolean =>
+  hand.some(
+    c =>
+      !isJoker(c) &&
+      c.id !== card.id &&
+      (c.rank === card.rank ||
+        (c.suit === card.suit && Math.abs(getRankIndex(c.rank) - getRankIndex(card.rank)) <= 2))
+  );
+
+/**
+ * Whether a fisher goes after a discard that only touches the hand
+ * Chance grows with pickup tendency above 1; standard and wary profiles never do
+ */
+export const rollFish = (hand: Card[], card: Card, profile: PersonalityProfile): boolean =>
+  profile.pickupTendency > 1 &&
+  touchesHand(hand, card) &&
+  Math.random() < profile.pickupTendency - 1;
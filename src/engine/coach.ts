@@ -0,0 +1,117 @@
+/**
+ * In-game coach for the human player
+ * Recommends a draw source or ranks the cards to throw, each with a one-line reason,
+ * using the same hand evaluation and discard scoring the hard bot plays with
+ */
+
+import { Card, DrawSource, MeldRules, getRankIndex } from './types';
+import { autoArrangeHand } from './declaration';
+import { evaluateHand, findBestDiscard, isJoker } from './hand';
+import { OpponentObservation } from './bot';
+import { checkIfHelpsFormMeld } from './bot/medium';
+import { opponentInterest, scoreCardForDiscardHard, wouldCompleteMeld } from './bot/hard';
+
+/**
+ * Whether to take the top discard, and why
+ */
+export interface DrawAdvice {
+  source: DrawSource;
+  reason: string;
+}
+
+/**
+ * One card worth throwing, and why
+ */
+export interface DiscardAdvice {
+  card: Card;
+  score: number; // Lower is a better throw
+  reason: string;
+}
+
+const CLEAR_IMPROVEMENT = 10; // Hand evaluation points a pickup must save to be worth showing
+const LIKELY_NEEDED = 8; // Opponent interest at which a throw counts as feeding them
+const DEFAULT_DISCARD_ADVICE = 3;
+
+/**
+ * Advise the draw phase: take the top discard or draw from the deck
+ */
+export const getDrawAdvice = (hand: Card[], topDiscard: Card | null): DrawAdvice => {
+  if (!topDiscard) {
+    return { source: 'deck', reason: 'The discard pile is empty' };
+  }
+  if (isJoker(topDiscard)) {
+    return { source: 'discard', reason: 'A joker fits into any meld' };
+  }
+  if (wouldCompleteMeld(hand, topDiscard)) {
+    return { source: 'discard', reason: 'It completes a meld' };
+  }
+
+  const improvement = evaluateHand(hand) - evaluateHand([...hand, topDiscard]);
+  if (improvement >= CLEAR_IMPROVEMENT) {
+    return { source: 'discard', reason: `It improves your hand by ${Math.round(improvement)} points` };
+  }
+  if (checkIfHelpsFormMeld(hand, topDiscard)) {
+    return { source: 'discard', reason: 'It builds towards a meld' };
+  }
+
+  return { source: 'deck', reason: "It doesn't help any meld; an unseen card is a better bet" };
+};
+
+/**
+ * Rank the best cards to throw in the discard phase, best first
+ * Pass the round's discards and what the opponents have picked up, next player first
+ */
+export const getDiscardAdvice = (
+  hand: Card[],
+  discardHistory: Card[],
+  opponents: OpponentObservation[],
+  rules?: MeldRules,
+  limit: number = DEFAULT_DISCARD_ADVICE
+): DiscardAdvice[] => {
+  const analysis = autoArrangeHand(hand, rules);
+  const meldedIds = new Set(analysis.melds.flatMap(m => m.cards.map(c => c.id)));
+  const nonJokers = hand.filter(c => !isJoker(c));
+  const loose = nonJokers.filter(c => !meldedIds.has(c.id));
+  const candidates = loose.length > 0 ? loose : nonJokers;
+  const highest = findBestDiscard(candidates, meldedIds);
+  const next = opponents[0];
+
+  const describe = (card: Card): string => {
+    if (meldedIds.has(card.id)) {
+      return 'Every card is in a meld; this breaks the cheapest one';
+    }
+    if (next && opponentInterest(card, next) >= LIKELY_NEEDED) {
+      return 'Careful: the next player is likely collecting this';
+    }
+    if (highest && card.value === highest.value && card.value >= 10) {
+      return `High points: ${card.value} if someone declares`;
+    }
+    if (discardHistory.filter(c => c.rank === card.rank).length >= 2) {
+      return 'Breaks no meld, and this rank is already being thrown';
+    }
+    const hasNeighbour = loose.some(
+      c =>
+        c.id !== card.id &&
+        (c.rank === card.rank ||
+          (c.suit === card.suit && Math.abs(getRankIndex(c.rank) - getRankIndex(card.rank)) <= 2))
+    );
+    return hasNeighbour ? 'Breaks no meld, but gives up a partial one' : 'Breaks no meld';
+  };
+
+  const seen = new Set<string>();
+  return candidates
+    .map(card => ({
+      card,
+      score: scoreCardForDiscardHard(card, hand, discardHistory, opponents, meldedIds),
+    }))
+    .sort((a, b) => a.score - b.score)
+    .filter(({ card }) => {
+      // Identical cards from different decks are the same advice
+      const key = `${card.suit}-${card.rank}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, limit)
+    .map(({ card, score }) => ({ card, score, reason: describe(card) }));
+};
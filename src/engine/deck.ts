@@ -11,8 +11,12 @@ import {
   RANKS,
   CARDS_PER_PLAYER,
   PRINTED_JOKERS_PER_DECK,
+  MAX_DECK_COUNT,
+  DEFAULT_DECK_CONFIG,
+  DeckConfig,
   getCardValue,
 } from './types';
+import { RandomSource, createSeededRandom, generateSeed } from './random';
 
 /**
  * Generate a unique ID for a card
@@ -21,10 +25,18 @@ const generateCardId = (suit: Suit, rank: Rank, deckIndex: number): string => {
   return `${suit}-${rank}-${deckIndex}`;
 };
 
+/**
+ * Cards left in the draw pile after dealing, below which a deck count is too small
+ */
+const MIN_DRAW_PILE_SIZE = 10;
+
 /**
  * Create a single standard deck of 52 cards plus printed jokers
  */
-export const createDeck = (deckIndex: number = 0): Card[] => {
+export const createDeck = (
+  deckIndex: number = 0,
+  printedJokers: number = PRINTED_JOKERS_PER_DECK
+): Card[] => {
   const deck: Card[] = [];
 
   // Create standard 52 cards
@@ -42,7 +54,7 @@ export const createDeck = (deckIndex: number = 0): Card[] => {
   }
 
   // Add printed jokers
-  for (let i = 0; i < PRINTED_JOKERS_PER_DECK; i++) {
+  for (let i = 0; i < printedJokers; i++) {
     const joker: Card = {
       id: `joker-${deckIndex}-${i}`,
       suit: 'spades', // Placeholder suit for jokers
@@ -56,17 +68,58 @@ export const createDeck = (deckIndex: number = 0): Card[] => {
   return deck;
 };
 
+/**
+ * Fewest decks that leave a workable draw pile after dealing
+ */
+export const getMinimumDeckCount = (
+  playerCount: number,
+  cardsPerPlayer: number = CARDS_PER_PLAYER
+): number => {
+  const cardsNeeded = playerCount * cardsPerPlayer + MIN_DRAW_PILE_SIZE;
+  return Math.max(1, Math.ceil(cardsNeeded / (SUITS.length * RANKS.length)));
+};
+
+/**
+ * Resolve how many decks to use for a table
+ * Auto: 1 deck heads-up, 2 decks for 3-5 players, 3 decks for 6+
+ * An explicit count is raised to the minimum needed to deal everyone in
+ */
+export const getDeckCount = (
+  playerCount: number,
+  deckCount: DeckConfig['deckCount'] = 'auto',
+  cardsPerPlayer: number = CARDS_PER_PLAYER
+): number => {
+  let count: number;
+  if (deckCount === 'auto') {
+    if (playerCount <= 2) {
+      count = 1;
+    } else if (playerCount <= 5) {
+      count = 2;
+    } else {
+      count = 3;
+    }
+  } else {
+    count = deckCount;
+  }
+
+  const minimum = getMinimumDeckCount(playerCount, cardsPerPlayer);
+  return Math.min(Math.max(count, minimum), Math.max(MAX_DECK_COUNT, minimum));
+};
+
 /**
  * Create multiple decks for games
- * Indian Rummy always uses 2 decks (108 cards total including 4 jokers)
- * This ensures enough cards for dealing + draw pile
+ * Deck count and printed jokers come from the deck config
  */
-export const createDecks = (_playerCount: number): Card[] => {
-  const deckCount = 2; // Always use 2 decks for Indian Rummy
+export const createDecks = (
+  playerCount: number,
+  config: DeckConfig = DEFAULT_DECK_CONFIG,
+  cardsPerPlayer: number = CARDS_PER_PLAYER
+): Card[] => {
+  const deckCount = getDeckCount(playerCount, config.deckCount, cardsPerPlayer);
   const allCards: Card[] = [];
 
   for (let i = 0; i < deckCount; i++) {
-    allCards.push(...createDeck(i));
+    allCards.push(...createDeck(i, config.printedJokersPerDeck));
   }
 
   return allCards;
@@ -75,16 +128,52 @@ export const createDecks = (_playerCount: number): Card[] => {
 /**
  * Fisher-Yates shuffle algorithm
  * Creates a new shuffled array without modifying the original
+ * Pass a seeded random source to make the shuffle reproducible
  */
-export const shuffle = <T>(array: T[]): T[] => {
+export const shuffle = <T>(array: T[], random: RandomSource = Math.random): T[] => {
   const result = [...array];
   for (let i = result.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [result[i], result[j]] = [result[j], result[i]];
   }
   return result;
 };
 
+/**
+ * Ranks either side of the wild joker card (K and A wrap around)
+ * With up/down jokers on, these ranks in the wild joker's suit are jokers too
+ */
+export const getUpDownJokerRanks = (wildJokerCard: Card): [Rank, Rank] => {
+  const index = RANKS.indexOf(wildJokerCard.rank);
+  return [
+    RANKS[(index + RANKS.length - 1) % RANKS.length],
+    RANKS[(index + 1) % RANKS.length],
+  ];
+};
+
+/**
+ * Mark the cards that a wild joker card turns into jokers
+ * Cards of the same rank become wild (and, with up/down jokers, its suit's neighbouring ranks)
+ */
+export const markWildJokers = (
+  cards: Card[],
+  wildJokerCard: Card | null,
+  upDownJokers: boolean = false
+): Card[] => {
+  if (!wildJokerCard) return cards;
+  const upDownRanks: Rank[] = upDownJokers ? getUpDownJokerRanks(wildJokerCard) : [];
+  return cards.map(card => {
+    if (card.jokerType === 'printed') return card;
+    if (card.rank === wildJokerCard.rank && card.id !== wildJokerCard.id) {
+      return { ...card, jokerType: 'wild' as const, value: 0 };
+    }
+    if (card.suit === wildJokerCard.suit && upDownRanks.includes(card.rank)) {
+      return { ...card, jokerType: 'wild' as const, value: 0 };
+    }
+    return card;
+  });
+};
+
 /**
  * Deal cards to players
  * Returns hands for each player and the remaining draw pile
@@ -94,14 +183,17 @@ export interface DealResult {
   drawPile: Card[];
   discardPile: Card[];
   wildJokerCard: Card | null;
+  seed: number; // Seed used for the shuffle - dealing again with it reproduces this result
 }
 
 export const dealCards = (
   deck: Card[],
   playerIds: string[],
-  cardsPerPlayer: number = CARDS_PER_PLAYER
+  cardsPerPlayer: number = CARDS_PER_PLAYER,
+  seed: number = generateSeed(),
+  config: DeckConfig = DEFAULT_DECK_CONFIG
 ): DealResult => {
-  const shuffledDeck = shuffle(deck);
+  const shuffledDeck = shuffle(deck, createSeededRandom(seed));
   const hands: { [playerId: string]: Card[] } = {};
   let currentIndex = 0;
 
@@ -120,9 +212,9 @@ export const dealCards = (
     }
   }
 
-  // Pick wild joker card (first card after dealing)
+  // Pick wild joker card (first card after dealing), unless playing without one
   let wildJokerCard: Card | null = null;
-  if (currentIndex < shuffledDeck.length) {
+  if (config.wildJoker && currentIndex < shuffledDeck.length) {
     const potentialWildCard = shuffledDeck[currentIndex];
     // Printed jokers can't be wild joker cards - keep drawing until we get a regular card
     if (potentialWildCard.jokerType !== 'printed') {
@@ -142,21 +234,9 @@ export const dealCards = (
     }
   }
 
-  // Mark wild jokers in the deck (cards of same rank as wild joker card become wild jokers)
-  const markWildJokers = (cards: Card[]): Card[] => {
-    if (!wildJokerCard) return cards;
-    return cards.map(card => {
-      if (card.jokerType === 'printed') return card;
-      if (card.rank === wildJokerCard!.rank && card.id !== wildJokerCard!.id) {
-        return { ...card, jokerType: 'wild' as const, value: 0 };
-      }
-      return card;
-    });
-  };
-
   // Mark wild jokers in hands
   for (const playerId of playerIds) {
-    hands[playerId] = markWildJokers(hands[playerId]);
+    hands[playerId] = markWildJokers(hands[playerId], wildJokerCard, config.upDownJokers);
   }
 
   // First card for discard pile (open card)
@@ -167,13 +247,14 @@ export const dealCards = (
   }
 
   // Remaining cards form the draw pile (also mark wild jokers)
-  const drawPile = markWildJokers(shuffledDeck.slice(currentIndex));
+  const drawPile = markWildJokers(shuffledDeck.slice(currentIndex), wildJokerCard, config.upDownJokers);
 
   return {
     hands,
     drawPile,
     discardPile,
     wildJokerCard,
+    seed,
   };
 };
 
@@ -212,10 +293,12 @@ export const discardCard = (discardPile: Card[], card: Card): Card[] => {
 /**
  * Check if the draw pile needs to be refilled from discard pile
  * (Keep the top discard card, shuffle the rest back into draw pile)
+ * Pass a seed to make the reshuffle reproducible
  */
 export const refillDrawPile = (
   drawPile: Card[],
-  discardPile: Card[]
+  discardPile: Card[],
+  seed?: number
 ): { newDrawPile: Card[]; newDiscardPile: Card[] } => {
   if (drawPile.length > 0 || discardPile.length <= 1) {
     return { newDrawPile: drawPile, newDiscardPile: discardPile };
@@ -226,7 +309,10 @@ export const refillDrawPile = (
   const cardsToShuffle = discardPile.slice(0, -1);
 
   return {
-    newDrawPile: shuffle(cardsToShuffle),
+    newDrawPile: shuffle(
+      cardsToShuffle,
+      seed !== undefined ? createSeededRandom(seed) : Math.random
+    ),
     newDiscardPile: [topDiscard],
   };
 };
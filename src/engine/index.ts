@@ -2,20 +2,29 @@
  * Rummy Game Engine
  *
  * A complete game engine for Indian Rummy, including:
- * - Card and deck management
+ * - Card and deck management, with a text notation for cards and hands
  * - Hand analysis and meld validation
  * - Declaration rules
  * - Scoring system
+ * - In-game coaching and post-game review
  * - Bot AI (in ./bot/)
  */
 
 // Types
 export * from './types';
 
+// Seeded randomness
+export { generateSeed, createSeededRandom, deriveSeed } from './random';
+export type { RandomSource } from './random';
+
 // Deck operations
 export {
   createDeck,
   createDecks,
+  getDeckCount,
+  getMinimumDeckCount,
+  getUpDownJokerRanks,
+  markWildJokers,
   shuffle,
   dealCards,
   drawFromPile,
@@ -26,6 +35,10 @@ export {
 } from './deck';
 export type { DealResult } from './deck';
 
+// Card and hand notation
+export { GROUP_SEPARATOR, formatCard, formatHand, parseCard, parseHand } from './notation';
+export type { NotationError, CardParseResult, HandParseResult } from './notation';
+
 // Hand operations
 export {
   sortBySuit,
@@ -50,11 +63,19 @@ export {
 export {
   MIN_MELD_SIZE,
   MAX_SET_SIZE,
+  MELD_RULE_PRESETS,
+  DEFAULT_MELD_RULES,
+  getMeldRulesPreset,
   isValidSet,
   isValidSequence,
   isPureSequence,
+  isTunnela,
+  isDublee,
+  isSequenceMeld,
+  isPureSequenceMeld,
   getMeldType,
   createMeld,
+  createGroup,
   validateMeld,
   canAddToMeld,
   findMeldExtensions,
@@ -71,7 +92,7 @@ export {
   canDeclare,
   getDeclarationHint,
 } from './declaration';
-export type { DeclarationResult } from './declaration';
+export type { DeclarationResult, DeclarationError, DeclarationErrorCode } from './declaration';
 
 // Scoring
 export {
@@ -95,3 +116,60 @@ export {
   calculateRejoinScore,
 } from './scoring';
 export type { RoundScoreResult } from './scoring';
+
+// Hand analysis
+export { setWildJokerRank, scoreRemainingHand, rankDiscards, analyzeHand } from './analysis';
+export type { DiscardOption, HandReport } from './analysis';
+
+// In-game coach
+export { getDrawAdvice, getDiscardAdvice } from './coach';
+export type { DrawAdvice, DiscardAdvice } from './coach';
+
+// Post-game review
+export {
+  REVIEW_PATTERNS,
+  REVIEW_TIME_BUDGET_MS,
+  assessDraw,
+  assessDiscard,
+  reviewRound,
+  summarizeReview,
+} from './review';
+export type {
+  MoveQuality,
+  ReviewPattern,
+  ReviewChoice,
+  MoveAssessment,
+  MoveReview,
+  PatternSummary,
+  ReviewSummary,
+} from './review';
+
+// Game state reducer
+export { reduce, getCardsPerPlayer } from './reducer';
+export type { GameError, GameErrorCode, ReduceResult } from './reducer';
+
+// Round replay and shareable replay files
+export { getDiscardHistory, getRoundStartState, replayActions, replayRound } from './replay';
+export type { ReplayResult } from './replay';
+export {
+  REPLAY_FILE_FORMAT,
+  REPLAY_FILE_VERSION,
+  createReplayFile,
+  getReplayStartState,
+  playReplayFile,
+  validateReplayFile,
+  parseReplayFile,
+  serializeReplayFile,
+} from './replayFile';
+export type { ReplayFile, ReplayFileResult } from './replayFile';
+
+// 21-card rummy
+export {
+  TWENTY_ONE_CARDS_PER_PLAYER,
+  TWENTY_ONE_DECK_CONFIG,
+  TWENTY_ONE_BONUS_POINTS,
+  withTwentyOneRules,
+  calculateTwentyOneBonus,
+  calculateTwentyOneBonuses,
+  settleTwentyOneBonuses,
+} from './twentyOne';
@@ -3,7 +3,17 @@
  * Validates sets and sequences according to Indian Rummy rules
  */
 
-import { Card, Meld, MeldType, Suit, getRankIndex, RANKS } from './types';
+import {
+  Card,
+  Meld,
+  MeldRules,
+  MeldRulesPreset,
+  MeldType,
+  Suit,
+  getRankIndex,
+  RANKS,
+  CARDS_PER_PLAYER,
+} from './types';
 import { isJoker } from './hand';
 
 /**
@@ -12,19 +22,93 @@ import { isJoker } from './hand';
 export const MIN_MELD_SIZE = 3;
 export const MAX_SET_SIZE = 4;
 
+/**
+ * 13-card declaration: one pure sequence, two sequences in all, no tunnelas or dublees
+ */
+const STANDARD_DECLARATION = {
+  tunnelas: false,
+  handSize: CARDS_PER_PLAYER,
+  requiredPureSequences: 1,
+  requiredSequences: 2,
+  dubleesToDeclare: null,
+};
+
+/**
+ * House rule presets
+ * - standard: A-2-3 and Q-K-A, no K-A-2, sets of 3-4 distinct suits
+ * - round-the-corner: sequences may wrap from K through A to 2
+ * - ace-low-only: Ace only counts as 1, so Q-K-A is not a sequence
+ * - duplicate-sets: sets may repeat a suit from another deck
+ */
+export const MELD_RULE_PRESETS: { [preset in MeldRulesPreset]: MeldRules } = {
+  standard: {
+    minMeldSize: MIN_MELD_SIZE,
+    maxSetSize: MAX_SET_SIZE,
+    aceLow: true,
+    aceHigh: true,
+    wraparound: false,
+    duplicateSuitsInSet: false,
+    ...STANDARD_DECLARATION,
+  },
+  'round-the-corner': {
+    minMeldSize: MIN_MELD_SIZE,
+    maxSetSize: MAX_SET_SIZE,
+    aceLow: true,
+    aceHigh: true,
+    wraparound: true,
+    duplicateSuitsInSet: false,
+    ...STANDARD_DECLARATION,
+  },
+  'ace-low-only': {
+    minMeldSize: MIN_MELD_SIZE,
+    maxSetSize: MAX_SET_SIZE,
+    aceLow: true,
+    aceHigh: false,
+    wraparound: false,
+    duplicateSuitsInSet: false,
+    ...STANDARD_DECLARATION,
+  },
+  'duplicate-sets': {
+    minMeldSize: MIN_MELD_SIZE,
+    maxSetSize: MAX_SET_SIZE,
+    aceLow: true,
+    aceHigh: true,
+    wraparound: false,
+    duplicateSuitsInSet: true,
+    ...STANDARD_DECLARATION,
+  },
+};
+
+export const DEFAULT_MELD_RULES: MeldRules = MELD_RULE_PRESETS.standard;
+
+/**
+ * Find the preset matching a rule set, or null for custom rules
+ */
+export const getMeldRulesPreset = (rules: MeldRules): MeldRulesPreset | null => {
+  const presets = Object.keys(MELD_RULE_PRESETS) as MeldRulesPreset[];
+  return (
+    presets.find(preset => {
+      const candidate = MELD_RULE_PRESETS[preset];
+      return (Object.keys(candidate) as (keyof MeldRules)[]).every(
+        key => candidate[key] === rules[key]
+      );
+    }) ?? null
+  );
+};
+
 /**
  * Check if cards form a valid set (same rank, different suits)
  * A set must have 3-4 cards of the same rank with different suits
  * Jokers can substitute for missing cards
  */
-export const isValidSet = (cards: Card[]): boolean => {
-  if (!cards || cards.length < MIN_MELD_SIZE || cards.length > MAX_SET_SIZE) {
+export const isValidSet = (cards: Card[], rules: MeldRules = DEFAULT_MELD_RULES): boolean => {
+  if (!cards || cards.length < rules.minMeldSize || cards.length > rules.maxSetSize) {
     return false;
   }
 
   // Filter out invalid cards
   const validCards = cards.filter(c => c && c.id);
-  if (validCards.length < MIN_MELD_SIZE) return false;
+  if (validCards.length < rules.minMeldSize) return false;
 
   const nonJokers = validCards.filter(c => !isJoker(c));
   const jokerCount = validCards.length - nonJokers.length;
@@ -40,30 +124,36 @@ export const isValidSet = (cards: Card[]): boolean => {
     return false;
   }
 
-  // All non-jokers must have different suits
+  // All non-jokers must have different suits, unless the house allows repeats
   const suits = new Set(nonJokers.map(c => c.suit));
-  if (suits.size !== nonJokers.length) {
+  if (!rules.duplicateSuitsInSet && suits.size !== nonJokers.length) {
     return false;
   }
 
-  // With jokers filling in, total must be 3-4
-  return nonJokers.length + jokerCount >= MIN_MELD_SIZE;
+  // With jokers filling in, total must be within the set size limits
+  return nonJokers.length + jokerCount >= rules.minMeldSize;
 };
 
 /**
  * Check if cards form a valid sequence (consecutive ranks, same suit)
  * A sequence must have 3+ cards of consecutive ranks in the same suit
  * Jokers can substitute for missing cards
- * A-2-3 is valid, Q-K-A is valid, K-A-2 is NOT valid
+ * By default A-2-3 is valid, Q-K-A is valid, K-A-2 is NOT valid
  */
-export const isValidSequence = (cards: Card[]): boolean => {
-  if (!cards || cards.length < MIN_MELD_SIZE) {
+export const isValidSequence = (
+  cards: Card[],
+  rules: MeldRules = DEFAULT_MELD_RULES
+): boolean => {
+  if (!cards || cards.length < rules.minMeldSize) {
     return false;
   }
 
   // Filter out invalid cards
   const validCards = cards.filter(c => c && c.id);
-  if (validCards.length < MIN_MELD_SIZE) return false;
+  if (validCards.length < rules.minMeldSize) return false;
+
+  // Going round the corner, a longer run would repeat a rank
+  if (rules.wraparound && validCards.length > RANKS.length) return false;
 
   const nonJokers = validCards.filter(c => !isJoker(c));
   const jokerCount = validCards.length - nonJokers.length;
@@ -79,66 +169,56 @@ export const isValidSequence = (cards: Card[]): boolean => {
     return false;
   }
 
-  // Check if this could be an A-2-3... sequence or Q-K-A sequence
-  const hasAce = nonJokers.some(c => c.rank === 'A');
-  const hasLowCards = nonJokers.some(c => {
-    const idx = getRankIndex(c.rank);
-    return idx >= 2 && idx <= 4; // 2, 3, 4
-  });
-  const hasHighCards = nonJokers.some(c => {
-    const idx = getRankIndex(c.rank);
-    return idx >= 10 && idx <= 13; // 10, J, Q, K
-  });
-
-  // Determine if Ace should be high or low
-  // Ace is high (14) when we have high cards (10-K) and no low cards (2-4)
-  // Ace is low (1) when we have low cards (2-4)
-  const aceHigh = hasAce && hasHighCards && !hasLowCards;
-
-  // Sort by rank with correct Ace interpretation
-  const sorted = [...nonJokers].sort((a, b) =>
-    getRankIndex(a.rank, aceHigh) - getRankIndex(b.rank, aceHigh)
+  return getSequenceLayouts(nonJokers, rules).some(
+    positions => checkSequenceGaps(positions, jokerCount).isValid
   );
+};
 
-  // Try the sequence check
-  const check = checkSequenceGaps(sorted, jokerCount, !aceHigh);
-  if (check.isValid) {
-    return true;
-  }
+/**
+ * Every way the cards' ranks can be laid out as sequence positions
+ * Without wraparound, Ace is 1 (A-2-3) or 14 (Q-K-A) as the rules allow;
+ * with wraparound, positions are counted from each card's rank in turn
+ */
+const getSequenceLayouts = (cards: Card[], rules: MeldRules): number[][] => {
+  const ranks = cards.map(c => getRankIndex(c.rank));
 
-  // If we have an ace, try the opposite interpretation
-  if (hasAce) {
-    const sortedAlt = [...nonJokers].sort((a, b) =>
-      getRankIndex(a.rank, !aceHigh) - getRankIndex(b.rank, !aceHigh)
+  if (rules.wraparound) {
+    return [...new Set(ranks)].map(start =>
+      ranks.map(rank => (rank - start + RANKS.length) % RANKS.length)
     );
-    return checkSequenceGaps(sortedAlt, jokerCount, aceHigh).isValid;
   }
 
-  return false;
+  if (!cards.some(c => c.rank === 'A')) {
+    return [ranks];
+  }
+
+  const layouts: number[][] = [];
+  if (rules.aceLow) {
+    layouts.push(ranks);
+  }
+  if (rules.aceHigh) {
+    layouts.push(cards.map(c => getRankIndex(c.rank, true)));
+  }
+  return layouts;
 };
 
 /**
  * Helper to check gaps in a sequence
- * @param sorted - Cards sorted by rank
+ * @param positions - Sequence position of each card
  * @param availableJokers - Number of jokers available to fill gaps
- * @param aceLow - If true, Ace is treated as 1; if false, Ace is treated as 14
  */
 const checkSequenceGaps = (
-  sorted: Card[],
-  availableJokers: number,
-  aceLow: boolean
+  positions: number[],
+  availableJokers: number
 ): { isValid: boolean; jokersUsed: number } => {
+  const sorted = [...positions].sort((a, b) => a - b);
   let jokersUsed = 0;
 
   for (let i = 1; i < sorted.length; i++) {
-    // Use getRankIndex with aceHigh = !aceLow
-    const prevRank = getRankIndex(sorted[i - 1].rank, !aceLow);
-    const currRank = getRankIndex(sorted[i].rank, !aceLow);
-
-    const gap = currRank - prevRank - 1;
+    const gap = sorted[i] - sorted[i - 1] - 1;
 
     if (gap < 0) {
-      // Cards are not in order or duplicate ranks
+      // Duplicate ranks
       return { isValid: false, jokersUsed: 0 };
     }
 
@@ -158,8 +238,11 @@ const checkSequenceGaps = (
  * A sequence with wild-ranked cards is still pure if they're used in their natural position
  * (same suit as sequence, filling their actual rank slot)
  */
-export const isPureSequence = (cards: Card[]): boolean => {
-  if (!isValidSequence(cards)) {
+export const isPureSequence = (
+  cards: Card[],
+  rules: MeldRules = DEFAULT_MELD_RULES
+): boolean => {
+  if (!isValidSequence(cards, rules)) {
     return false;
   }
 
@@ -184,57 +267,88 @@ export const isPureSequence = (cards: Card[]): boolean => {
     return false;
   }
 
-  // Determine Ace position
-  const hasAce = cards.some(c => c.rank === 'A');
-  const hasLowCards = cards.some(c => {
-    const idx = getRankIndex(c.rank);
-    return idx >= 2 && idx <= 4;
-  });
-  const hasHighCards = cards.some(c => {
-    const idx = getRankIndex(c.rank);
-    return idx >= 10 && idx <= 13;
-  });
-  const aceHigh = hasAce && hasHighCards && !hasLowCards;
-
-  // Sort ALL cards by rank and check for consecutive ranks
-  const sorted = [...cards].sort((a, b) =>
-    getRankIndex(a.rank, aceHigh) - getRankIndex(b.rank, aceHigh)
+  // Treating every card at face value, the run must have no gaps at all
+  return getSequenceLayouts(cards, rules).some(
+    positions => checkSequenceGaps(positions, 0).isValid
   );
+};
 
-  for (let i = 1; i < sorted.length; i++) {
-    const prevRank = getRankIndex(sorted[i - 1].rank, aceHigh);
-    const currRank = getRankIndex(sorted[i].rank, aceHigh);
-    if (currRank - prevRank !== 1) {
-      // Gap exists - wild jokers are filling gaps, not natural positions
-      return false;
-    }
-  }
+/**
+ * Check if cards are identical copies of one card (same suit and rank, from different decks)
+ * Printed jokers never count
+ */
+const areIdentical = (cards: Card[]): boolean =>
+  cards.every(
+    c =>
+      c &&
+      c.id &&
+      c.jokerType !== 'printed' &&
+      c.suit === cards[0].suit &&
+      c.rank === cards[0].rank
+  );
+
+/**
+ * Check if cards form a tunnela (three identical cards)
+ * Only valid when the rules allow tunnelas (21-card rummy)
+ */
+export const isTunnela = (cards: Card[], rules: MeldRules = DEFAULT_MELD_RULES): boolean => {
+  return rules.tunnelas && !!cards && cards.length === 3 && areIdentical(cards);
+};
 
-  // All cards same suit, consecutive ranks - wild jokers are in natural positions
-  return true;
+/**
+ * Check if cards form a dublee (two identical cards)
+ * Only valid when the rules allow a dublee declaration (21-card rummy)
+ */
+export const isDublee = (cards: Card[], rules: MeldRules = DEFAULT_MELD_RULES): boolean => {
+  return rules.dubleesToDeclare !== null && !!cards && cards.length === 2 && areIdentical(cards);
 };
 
+/**
+ * Check if a meld counts towards the sequence requirements
+ * Tunnelas count as pure sequences
+ */
+export const isSequenceMeld = (meld: Meld): boolean =>
+  meld.type === 'sequence' || meld.type === 'pure-sequence' || meld.type === 'tunnela';
+
+/**
+ * Check if a meld counts as a pure sequence for the first life
+ */
+export const isPureSequenceMeld = (meld: Meld): boolean =>
+  meld.type === 'pure-sequence' || meld.type === 'tunnela';
+
 /**
  * Determine the type of a meld
  */
-export const getMeldType = (cards: Card[]): MeldType | null => {
-  if (isPureSequence(cards)) {
+export const getMeldType = (
+  cards: Card[],
+  rules: MeldRules = DEFAULT_MELD_RULES
+): MeldType | null => {
+  if (isPureSequence(cards, rules)) {
     return 'pure-sequence';
   }
-  if (isValidSequence(cards)) {
+  if (isValidSequence(cards, rules)) {
     return 'sequence';
   }
-  if (isValidSet(cards)) {
+  if (isTunnela(cards, rules)) {
+    return 'tunnela';
+  }
+  if (isValidSet(cards, rules)) {
     return 'set';
   }
+  if (isDublee(cards, rules)) {
+    return 'dublee';
+  }
   return null;
 };
 
 /**
  * Create a Meld object from cards
  */
-export const createMeld = (cards: Card[]): Meld | null => {
-  const type = getMeldType(cards);
+export const createMeld = (
+  cards: Card[],
+  rules: MeldRules = DEFAULT_MELD_RULES
+): Meld | null => {
+  const type = getMeldType(cards, rules);
   if (!type) {
     return null;
   }
@@ -246,41 +360,68 @@ export const createMeld = (cards: Card[]): Meld | null => {
   };
 };
 
+/**
+ * A player's group as a meld, whether or not it is valid
+ * A group that isn't a meld is typed as the set or sequence it comes closest to,
+ * so validateDeclaration can say what's wrong with it
+ */
+export const createGroup = (cards: Card[], rules: MeldRules = DEFAULT_MELD_RULES): Meld => {
+  const meld = createMeld(cards, rules);
+  if (meld) return meld;
+
+  const nonJokers = cards.filter(c => !isJoker(c));
+  const sameRank = nonJokers.length > 0 && nonJokers.every(c => c.rank === nonJokers[0].rank);
+  return { type: sameRank ? 'set' : 'sequence', cards: [...cards], isPure: false };
+};
+
 /**
  * Validate a meld object
  */
-export const validateMeld = (meld: Meld): boolean => {
-  const actualType = getMeldType(meld.cards);
+export const validateMeld = (meld: Meld, rules: MeldRules = DEFAULT_MELD_RULES): boolean => {
+  const actualType = getMeldType(meld.cards, rules);
   return actualType !== null && actualType === meld.type;
 };
 
 /**
  * Check if adding a card to a meld keeps it valid
  */
-export const canAddToMeld = (meld: Meld, card: Card): boolean => {
+export const canAddToMeld = (
+  meld: Meld,
+  card: Card,
+  rules: MeldRules = DEFAULT_MELD_RULES
+): boolean => {
   const newCards = [...meld.cards, card];
 
+  // Tunnelas and dublees are fixed size
+  if (meld.type === 'tunnela' || meld.type === 'dublee') {
+    return false;
+  }
+
   if (meld.type === 'set') {
-    return isValidSet(newCards) && newCards.length <= MAX_SET_SIZE;
+    return isValidSet(newCards, rules) && newCards.length <= rules.maxSetSize;
   }
 
   // For sequences, card must extend at either end
-  return isValidSequence(newCards);
+  return isValidSequence(newCards, rules);
 };
 
 /**
  * Find all possible ways to extend a meld with available cards
  */
-export const findMeldExtensions = (meld: Meld, availableCards: Card[]): Card[] => {
-  return availableCards.filter(card => canAddToMeld(meld, card));
+export const findMeldExtensions = (
+  meld: Meld,
+  availableCards: Card[],
+  rules: MeldRules = DEFAULT_MELD_RULES
+): Card[] => {
+  return availableCards.filter(card => canAddToMeld(meld, card, rules));
 };
 
 /**
  * Split a long sequence into valid smaller sequences
  * For example: A-2-3-4-5-6 can be split into A-2-3 and 4-5-6
  */
-export const splitSequence = (cards: Card[]): Meld[] => {
-  if (!isValidSequence(cards)) {
+export const splitSequence = (cards: Card[], rules: MeldRules = DEFAULT_MELD_RULES): Meld[] => {
+  if (!isValidSequence(cards, rules)) {
     return [];
   }
 
@@ -288,7 +429,7 @@ export const splitSequence = (cards: Card[]): Meld[] => {
 
   // If sequence is 3-5 cards, keep as one meld
   if (cards.length <= 5) {
-    const meld = createMeld(cards);
+    const meld = createMeld(cards, rules);
     if (meld) melds.push(meld);
     return melds;
   }
@@ -298,7 +439,7 @@ export const splitSequence = (cards: Card[]): Meld[] => {
   while (remaining.length >= 3) {
     const chunkSize = remaining.length >= 6 ? 3 : remaining.length;
     const chunk = remaining.slice(0, chunkSize);
-    const meld = createMeld(chunk);
+    const meld = createMeld(chunk, rules);
     if (meld) melds.push(meld);
     remaining = remaining.slice(chunkSize);
   }
@@ -309,7 +450,7 @@ export const splitSequence = (cards: Card[]): Meld[] => {
 /**
  * Find the best set combinations from cards of the same rank
  */
-export const findBestSets = (cards: Card[]): Meld[] => {
+export const findBestSets = (cards: Card[], rules: MeldRules = DEFAULT_MELD_RULES): Meld[] => {
   const byRank: { [rank: string]: Card[] } = {};
 
   for (const card of cards) {
@@ -326,16 +467,18 @@ export const findBestSets = (cards: Card[]): Meld[] => {
   for (const rank of Object.keys(byRank)) {
     const rankCards = byRank[rank];
 
-    // Filter to unique suits
+    // Filter to unique suits unless the house allows repeats
     const seenSuits = new Set<Suit>();
-    const uniqueSuitCards = rankCards.filter(card => {
-      if (seenSuits.has(card.suit)) return false;
-      seenSuits.add(card.suit);
-      return true;
-    });
-
-    if (uniqueSuitCards.length >= 3) {
-      const meld = createMeld(uniqueSuitCards.slice(0, 4));
+    const uniqueSuitCards = rules.duplicateSuitsInSet
+      ? rankCards
+      : rankCards.filter(card => {
+          if (seenSuits.has(card.suit)) return false;
+          seenSuits.add(card.suit);
+          return true;
+        });
+
+    if (uniqueSuitCards.length >= rules.minMeldSize) {
+      const meld = createMeld(uniqueSuitCards.slice(0, rules.maxSetSize), rules);
       if (meld) melds.push(meld);
     }
   }
@@ -346,7 +489,10 @@ export const findBestSets = (cards: Card[]): Meld[] => {
 /**
  * Find the best sequence combinations for cards of the same suit
  */
-export const findBestSequences = (cards: Card[]): Meld[] => {
+export const findBestSequences = (
+  cards: Card[],
+  rules: MeldRules = DEFAULT_MELD_RULES
+): Meld[] => {
   const bySuit: { [suit in Suit]: Card[] } = {
     spades: [],
     hearts: [],
@@ -364,7 +510,7 @@ export const findBestSequences = (cards: Card[]): Meld[] => {
 
   for (const suit of Object.keys(bySuit) as Suit[]) {
     const suitCards = bySuit[suit];
-    if (suitCards.length < 3) continue;
+    if (suitCards.length < rules.minMeldSize) continue;
 
     // Sort by rank
     const sorted = suitCards.sort((a, b) => getRankIndex(a.rank) - getRankIndex(b.rank));
@@ -380,8 +526,8 @@ export const findBestSequences = (cards: Card[]): Meld[] => {
         currentRun.push(sorted[i]);
       } else if (currRank !== prevRank) {
         // End of run
-        if (currentRun.length >= 3) {
-          const meld = createMeld(currentRun);
+        if (currentRun.length >= rules.minMeldSize) {
+          const meld = createMeld(currentRun, rules);
           if (meld) melds.push(meld);
         }
         currentRun = [sorted[i]];
@@ -389,8 +535,8 @@ export const findBestSequences = (cards: Card[]): Meld[] => {
     }
 
     // Check last run
-    if (currentRun.length >= 3) {
-      const meld = createMeld(currentRun);
+    if (currentRun.length >= rules.minMeldSize) {
+      const meld = createMeld(currentRun, rules);
       if (meld) melds.push(meld);
     }
 
@@ -399,7 +545,7 @@ export const findBestSequences = (cards: Card[]): Meld[] => {
     const two = sorted.find(c => c.rank === '2');
     const three = sorted.find(c => c.rank === '3');
     if (ace && two && three) {
-      const meld = createMeld([ace, two, three]);
+      const meld = createMeld([ace, two, three], rules);
       if (meld) melds.push(meld);
     }
   }
@@ -0,0 +1,202 @@
+/**
+ * Card notation
+ * A compact text form for cards and hands, for pasting into tools, replays and bug reports:
+ *
+ *   AH 2H 3H | 7S 7D 7C | JK
+ *
+ * - A card is its rank (A, 2–10, J, Q, K) then suit letter (H, D, C, S)
+ * - `*` marks a wild joker: 7S*
+ * - `#n` gives the deck a card came from when it isn't the first: 7S#1, 7S*#1
+ *   (a game dealt from more than MAX_DECK_COUNT decks passes its deck count to the parser)
+ * - JK is a printed joker; JK2 is the deck's second one: JK, JK2#1
+ * - `|` separates groups
+ */
+
+import { Card, Rank, Suit, MAX_DECK_COUNT, getCardValue } from './types';
+
+/**
+ * Why a piece of notation couldn't be read
+ */
+export interface NotationError {
+  message: string;
+  token: string; // The offending token, or '' at the end of the text
+  position: number; // Character offset of the token in the text
+}
+
+export type CardParseResult =
+  | { ok: true; card: Card }
+  | { ok: false; error: NotationError };
+
+export type HandParseResult =
+  | { ok: true; cards: Card[]; groups: Card[][] }
+  | { ok: false; error: NotationError };
+
+export const GROUP_SEPARATOR = '|';
+
+const SUIT_LETTERS: { [key in Suit]: string } = {
+  hearts: 'H',
+  diamonds: 'D',
+  clubs: 'C',
+  spades: 'S',
+};
+
+const LETTER_SUITS: { [letter: string]: Suit } = {
+  H: 'hearts',
+  D: 'diamonds',
+  C: 'clubs',
+  S: 'spades',
+};
+
+const CARD_PATTERN = /^(10|[2-9AJQK])([HDCS])(\*)?(?:#(\d+))?$/;
+const JOKER_PATTERN = /^JK(\d+)?(?:#(\d+))?$/;
+const TOKEN_PATTERN = /\||[^\s|]+/g;
+
+const CARD_HELP = 'expected a rank (A, 2-10, J, Q, K) and a suit (H, D, C, S), or JK';
+
+/**
+ * Deck index and printed joker number encoded in a card's id
+ */
+const getIdParts = (card: Card): { deckIndex: number; jokerIndex: number } => {
+  const parts = card.id.split('-');
+  if (card.jokerType === 'printed') {
+    return { deckIndex: parseInt(parts[1], 10) || 0, jokerIndex: parseInt(parts[2], 10) || 0 };
+  }
+  return { deckIndex: parseInt(parts[parts.length - 1], 10) || 0, jokerIndex: 0 };
+};
+
+/**
+ * Notation for one card, e.g. "10H", "7S*#1" or "JK2"
+ */
+export const formatCard = (card: Card): string => {
+  const { deckIndex, jokerIndex } = getIdParts(card);
+  const deck = deckIndex > 0 ? `#${deckIndex}` : '';
+
+  if (card.jokerType === 'printed') {
+    return `JK${jokerIndex > 0 ? jokerIndex + 1 : ''}${deck}`;
+  }
+  return `${card.rank}${SUIT_LETTERS[card.suit]}${card.jokerType === 'wild' ? '*' : ''}${deck}`;
+};
+
+/**
+ * Notation for a hand, either as a flat list or in groups
+ */
+export const formatHand = (hand: Card[] | Card[][]): string => {
+  const groups = hand.length > 0 && Array.isArray(hand[0]) ? (hand as Card[][]) : [hand as Card[]];
+  return groups
+    .map(group => group.map(formatCard).join(' '))
+    .join(` ${GROUP_SEPARATOR} `);
+};
+
+const notationError = (message: string, token: string, position: number) => ({
+  ok: false as const,
+  error: { message, token, position },
+});
+
+/**
+ * Read a single card token; position is where it sits in a longer text
+ */
+const readCard = (token: string, position: number, deckCount: number): CardParseResult => {
+  const joker = JOKER_PATTERN.exec(token);
+  if (joker) {
+    const number = joker[1] !== undefined ? parseInt(joker[1], 10) : 1;
+    const deckIndex = joker[2] !== undefined ? parseInt(joker[2], 10) : 0;
+    if (number < 1) {
+      return notationError(`"${token}": printed jokers are numbered from 1`, token, position);
+    }
+    if (deckIndex >= deckCount) {
+      return notationError(`"${token}": deck index must be below ${deckCount}`, token, position);
+    }
+    return {
+      ok: true,
+      card: {
+        id: `joker-${deckIndex}-${number - 1}`,
+        suit: 'spades',
+        rank: 'A',
+        jokerType: 'printed',
+        value: 0,
+      },
+    };
+  }
+
+  const match = CARD_PATTERN.exec(token);
+  if (!match) {
+    const upper = token.toUpperCase();
+    if (upper !== token && (CARD_PATTERN.test(upper) || JOKER_PATTERN.test(upper))) {
+      return notationError(`"${token}": write cards in capitals, as ${upper}`, token, position);
+    }
+    if (/^T[HDCS]/.test(token)) {
+      return notationError(`"${token}": write a ten as 10, as in 10${token[1]}`, token, position);
+    }
+    return notationError(`"${token}" is not a card: ${CARD_HELP}`, token, position);
+  }
+
+  const rank = match[1] as Rank;
+  const suit = LETTER_SUITS[match[2]];
+  const deckIndex = match[4] !== undefined ? parseInt(match[4], 10) : 0;
+  if (deckIndex >= deckCount) {
+    return notationError(`"${token}": deck index must be below ${deckCount}`, token, position);
+  }
+
+  const base: Card = { id: `${suit}-${rank}-${deckIndex}`, suit, rank, jokerType: null, value: 0 };
+  return match[3]
+    ? { ok: true, card: { ...base, jokerType: 'wild', value: 0 } }
+    : { ok: true, card: { ...base, value: getCardValue(base) } };
+};
+
+/**
+ * Parse one card, e.g. "QD" or "JK#1"
+ */
+export const parseCard = (text: string, deckCount: number = MAX_DECK_COUNT): CardParseResult => {
+  const token = text.trim();
+  if (!token) {
+    return notationError(`No card given: ${CARD_HELP}`, '', 0);
+  }
+  return readCard(token, text.indexOf(token), deckCount);
+};
+
+/**
+ * Parse a hand, e.g. "AH 2H 3H | 7S 7D 7C | JK"
+ * Without separators the whole hand is one group. The same physical card can't appear twice.
+ */
+export const parseHand = (text: string, deckCount: number = MAX_DECK_COUNT): HandParseResult => {
+  const groups: Card[][] = [[]];
+  const seen = new Map<string, string>();
+  let separatorPosition = -1;
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const token = match[0];
+    const position = match.index ?? 0;
+    const group = groups[groups.length - 1];
+
+    if (token === GROUP_SEPARATOR) {
+      if (group.length === 0) {
+        return notationError('Empty group before "|"', token, position);
+      }
+      groups.push([]);
+      separatorPosition = position;
+      continue;
+    }
+
+    const result = readCard(token, position, deckCount);
+    if (!result.ok) return result;
+
+    const earlier = seen.get(result.card.id);
+    if (earlier !== undefined) {
+      return notationError(
+        `"${token}" is the same card as "${earlier}"; mark a copy from another deck with #, e.g. ${token.replace(/#\d+$/, '')}#1`,
+        token,
+        position
+      );
+    }
+    seen.set(result.card.id, token);
+    group.push(result.card);
+  }
+
+  const last = groups[groups.length - 1];
+  if (last.length === 0 && groups.length > 1) {
+    return notationError('Empty group after "|"', GROUP_SEPARATOR, separatorPosition);
+  }
+
+  const cardGroups = last.length === 0 ? [] : groups;
+  return { ok: true, cards: cardGroups.flat(), groups: cardGroups };
+};
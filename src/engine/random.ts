@@ -0,0 +1,43 @@
+/* eslint-disable no-bitwise */
+/**
+ * Seedable random number generation for the Rummy game engine
+ * Lets a deal be reproduced card for card from a single number
+ */
+
+/**
+ * A source of uniformly distributed numbers in [0, 1), like Math.random
+ */
+export type RandomSource = () => number;
+
+/**
+ * Generate a fresh 32-bit seed for a new round
+ */
+export const generateSeed = (): number => {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+};
+
+/**
+ * Create a deterministic random source from a seed (mulberry32)
+ * The same seed always yields the same sequence of numbers
+ */
+export const createSeededRandom = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+};
+
+/**
+ * Derive a child seed from a parent seed and a counter
+ * Used for follow-up shuffles in a round (e.g. refilling the draw pile)
+ */
+export const deriveSeed = (seed: number, counter: number): number => {
+  let h = (seed ^ Math.imul(counter + 1, 0x9e3779b1)) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+};
@@ -0,0 +1,568 @@
+/**
+ * Game state reducer for the Rummy game engine
+ * Applies a GameAction to a PracticeGameState, enforcing turn order and phase rules
+ *
+ * The reducer never mutates its input and never throws for an illegal move;
+ * it returns a typed error instead. Pass a seed with START_ROUND and a `now`
+ * timestamp to make it fully deterministic.
+ */
+
+import {
+  Card,
+  GameAction,
+  PracticeGameConfig,
+  PlayerObservations,
+  PracticeGameState,
+  RoundAction,
+  RoundResult,
+  RoundState,
+  TurnPhase,
+  CARDS_PER_PLAYER,
+} from './types';
+import {
+  createDecks,
+  dealCards,
+  drawFromPile,
+  drawFromDiscard,
+  discardCard,
+  refillDrawPile,
+} from './deck';
+import { deriveSeed } from './random';
+import { addCardToHand, removeCardFromHand } from './hand';
+import { validateDeclaration } from './declaration';
+import {
+  calculateRoundScores,
+  updateCumulativeScores,
+  isPlayerEliminated,
+  shouldGameEnd,
+  determineGameWinner,
+} from './scoring';
+import { calculateTwentyOneBonuses, settleTwentyOneBonuses } from './twentyOne';
+import { updateAdaptiveState } from './bot/adaptive';
+
+/**
+ * Why an action was rejected
+ */
+export type GameErrorCode =
+  | 'GAME_OVER' // The game has already ended
+  | 'ROUND_IN_PROGRESS' // START_ROUND while a round is still being played
+  | 'NO_ROUND_IN_PROGRESS' // A turn action with no round being played
+  | 'UNKNOWN_PLAYER' // Player is not in the game (or was eliminated)
+  | 'PLAYER_DROPPED' // Player already dropped this round
+  | 'NOT_YOUR_TURN' // Another player is to act
+  | 'WRONG_TURN_PHASE' // e.g. discarding before drawing
+  | 'EMPTY_PILE' // Nothing to draw from the chosen pile
+  | 'CARD_NOT_IN_HAND' // Discarded or declared card isn't in the player's hand
+  | 'MALFORMED_DECLARATION'; // Declared cards repeat, or aren't the hand less the discard
+
+export interface GameError {
+  code: GameErrorCode;
+  message: string;
+}
+
+export type ReduceResult =
+  | { ok: true; state: PracticeGameState }
+  | { ok: false; error: GameError };
+
+const fail = (code: GameErrorCode, message: string): ReduceResult => ({
+  ok: false,
+  error: { code, message },
+});
+
+/**
+ * Cards dealt to each player under a game's rules
+ */
+export const getCardsPerPlayer = (config: PracticeGameConfig): number =>
+  config.meldRules?.handSize ?? CARDS_PER_PLAYER;
+
+/**
+ * Check that a player may act now, optionally in a given turn phase
+ */
+const checkTurn = (
+  state: PracticeGameState,
+  playerId: string,
+  turnPhase?: TurnPhase
+): GameError | null => {
+  const round = state.currentRound;
+  if (state.gamePhase === 'ended') {
+    return { code: 'GAME_OVER', message: 'The game has ended' };
+  }
+  if (!round || round.phase !== 'playing') {
+    return { code: 'NO_ROUND_IN_PROGRESS', message: 'No round is being played' };
+  }
+  if (!state.activePlayers.includes(playerId)) {
+    return { code: 'UNKNOWN_PLAYER', message: `Player ${playerId} is not in this round` };
+  }
+  if (round.droppedPlayers.includes(playerId)) {
+    return { code: 'PLAYER_DROPPED', message: `Player ${playerId} has dropped this round` };
+  }
+  if (state.activePlayers[round.currentPlayerIndex] !== playerId) {
+    return { code: 'NOT_YOUR_TURN', message: `It is not ${playerId}'s turn` };
+  }
+  if (turnPhase && round.turnPhase !== turnPhase) {
+    return {
+      code: 'WRONG_TURN_PHASE',
+      message: turnPhase === 'draw' ? 'Already drew this turn' : 'Draw a card first',
+    };
+  }
+  return null;
+};
+
+/**
+ * Record something a player did in full view of the table
+ */
+const observe = (
+  round: RoundState,
+  playerId: string,
+  update: (seen: PlayerObservations) => PlayerObservations
+): { [playerId: string]: PlayerObservations } => {
+  const seen = round.observations?.[playerId] ?? { pickedUp: [], discarded: [], deckDraws: 0 };
+  return { ...round.observations, [playerId]: update(seen) };
+};
+
+/**
+ * Append a move to the round's action log
+ */
+const logAction = (round: RoundState, action: RoundAction): RoundAction[] => [
+  ...(round.actions ?? []),
+  action,
+];
+
+/**
+ * What each dropped player was charged, read from the round's logged drops
+ * A round saved before actions were logged only knows who dropped, so they're charged `fallback`
+ */
+const getDropPenalties = (
+  droppedPlayers: string[],
+  actions: RoundAction[],
+  config: PracticeGameConfig,
+  fallback: number
+): { [playerId: string]: number } => {
+  const penalties = Object.fromEntries(droppedPlayers.map(id => [id, fallback]));
+  for (const logged of actions) {
+    if (logged.type === 'DROP') {
+      penalties[logged.playerId] =
+        logged.dropType === 'first' ? config.firstDropPenalty : config.middleDropPenalty;
+    }
+  }
+  return penalties;
+};
+
+/**
+ * Next seat to play, skipping players who dropped
+ */
+const nextPlayerIndex = (
+  activePlayers: string[],
+  currentIndex: number,
+  droppedPlayers: string[]
+): number => {
+  let index = (currentIndex + 1) % activePlayers.length;
+  while (droppedPlayers.includes(activePlayers[index]) && index !== currentIndex) {
+    index = (index + 1) % activePlayers.length;
+  }
+  return index;
+};
+
+/**
+ * Close the current round: record the result, eliminate players and check for game end
+ * `scores` are the cumulative scores with this round already included
+ */
+const endRound = (
+  state: PracticeGameState,
+  round: RoundState,
+  result: RoundResult,
+  scores: { [playerId: string]: number },
+  now: number
+): PracticeGameState => {
+  const { variant, poolLimit, numberOfDeals } = state.config;
+  const roundResults = [
+    ...state.roundResults,
+    { ...result, droppedPlayers: round.droppedPlayers, actions: round.actions },
+  ];
+
+  const activePlayers = state.activePlayers.filter(
+    id => !isPlayerEliminated(scores[id] || 0, variant, poolLimit)
+  );
+  const gameEnded = shouldGameEnd(
+    state.players,
+    scores,
+    roundResults,
+    variant,
+    numberOfDeals,
+    poolLimit
+  );
+
+  return {
+    ...state,
+    currentRound: { ...round, phase: 'ended' },
+    roundResults,
+    scores,
+    activePlayers,
+    gamePhase: gameEnded ? 'ended' : 'playing',
+    winner: gameEnded ? determineGameWinner(state.players, scores, variant, poolLimit) : null,
+    updatedAt: now,
+  };
+};
+
+const startRound = (
+  state: PracticeGameState,
+  action: Extract<GameAction, { type: 'START_ROUND' }>,
+  now: number
+): ReduceResult => {
+  if (state.gamePhase === 'ended') {
+    return fail('GAME_OVER', 'The game has ended');
+  }
+  if (state.currentRound && state.currentRound.phase !== 'ended') {
+    return fail('ROUND_IN_PROGRESS', 'Finish the current round first');
+  }
+
+  const playerIds = state.activePlayers;
+  const cardsPerPlayer = getCardsPerPlayer(state.config);
+  const deck = createDecks(playerIds.length, state.config.deck, cardsPerPlayer);
+  const dealResult = dealCards(deck, playerIds, cardsPerPlayer, action.seed, state.config.deck);
+
+  // Dealer rotates each round unless given; first player is to the dealer's left
+  const dealerIndex = (action.dealerIndex ?? state.roundResults.length) % playerIds.length;
+
+  return {
+    ok: true,
+    state: {
+      ...state,
+      adaptive: updateAdaptiveState(state), // Adaptive difficulty moves between rounds
+      currentRound: {
+        roundNumber: state.roundResults.length + 1,
+        phase: 'playing',
+        turnPhase: 'draw',
+        currentPlayerIndex: (dealerIndex + 1) % playerIds.length,
+        dealerIndex,
+        hands: dealResult.hands,
+        drawPile: dealResult.drawPile,
+        discardPile: dealResult.discardPile,
+        wildJokerCard: dealResult.wildJokerCard,
+        droppedPlayers: [],
+        humanHasDrawn: false,
+        seed: dealResult.seed,
+        reshuffleCount: 0,
+        actions: [{ type: 'START_ROUND', seed: dealResult.seed, dealerIndex }],
+        observations: Object.fromEntries(
+          playerIds.map(id => [id, { pickedUp: [], discarded: [], deckDraws: 0 }])
+        ),
+      },
+      gamePhase: 'playing',
+      updatedAt: now,
+    },
+  };
+};
+
+const drawCard = (
+  state: PracticeGameState,
+  playerId: string,
+  source: 'deck' | 'discard',
+  now: number
+): ReduceResult => {
+  const error = checkTurn(state, playerId, 'draw');
+  if (error) return { ok: false, error };
+  const round = state.currentRound!;
+
+  let drawPile = round.drawPile;
+  let discardPile = round.discardPile;
+  let reshuffleCount = round.reshuffleCount ?? 0;
+  let card: Card | null;
+
+  if (source === 'deck') {
+    // Refill from the discard pile when empty (reshuffle seed derives from the round seed)
+    if (drawPile.length === 0) {
+      const refillSeed = round.seed !== undefined ? deriveSeed(round.seed, reshuffleCount) : undefined;
+      const refilled = refillDrawPile(drawPile, discardPile, refillSeed);
+      drawPile = refilled.newDrawPile;
+      discardPile = refilled.newDiscardPile;
+      reshuffleCount++;
+    }
+    const drawn = drawFromPile(drawPile);
+    card = drawn.card;
+    drawPile = drawn.newPile;
+  } else {
+    const drawn = drawFromDiscard(discardPile);
+    card = drawn.card;
+    discardPile = drawn.newPile;
+  }
+
+  if (!card) {
+    return fail('EMPTY_PILE', `The ${source === 'deck' ? 'draw' : 'discard'} pile is empty`);
+  }
+
+  const isHuman = !state.players.find(p => p.id === playerId)?.isBot;
+
+  return {
+    ok: true,
+    state: {
+      ...state,
+      currentRound: {
+        ...round,
+        hands: { ...round.hands, [playerId]: addCardToHand(round.hands[playerId], card) },
+        drawPile,
+        discardPile,
+        turnPhase: 'discard',
+        humanHasDrawn: round.humanHasDrawn || isHuman,
+        reshuffleCount,
+        observations: observe(round, playerId, seen =>
+          source === 'discard'
+            ? { ...seen, pickedUp: [...seen.pickedUp, card!] }
+            : { ...seen, deckDraws: seen.deckDraws + 1 }
+        ),
+        actions: logAction(round, { type: 'DRAW_CARD', playerId, source }),
+        lastAction: { playerId, action: 'draw', card, source },
+      },
+      updatedAt: now,
+    },
+  };
+};
+
+const discard = (
+  state: PracticeGameState,
+  playerId: string,
+  card: Card,
+  now: number
+): ReduceResult => {
+  const error = checkTurn(state, playerId, 'discard');
+  if (error) return { ok: false, error };
+  const round = state.currentRound!;
+
+  if (!round.hands[playerId].some(c => c.id === card.id)) {
+    return fail('CARD_NOT_IN_HAND', 'That card is not in your hand');
+  }
+
+  return {
+    ok: true,
+    state: {
+      ...state,
+      currentRound: {
+        ...round,
+        hands: { ...round.hands, [playerId]: removeCardFromHand(round.hands[playerId], card.id) },
+        discardPile: discardCard(round.discardPile, card),
+        currentPlayerIndex: nextPlayerIndex(
+          state.activePlayers,
+          round.currentPlayerIndex,
+          round.droppedPlayers
+        ),
+        turnPhase: 'draw',
+        observations: observe(round, playerId, seen => ({
+          ...seen,
+          discarded: [...seen.discarded, card],
+        })),
+        actions: logAction(round, { type: 'DISCARD_CARD', playerId, card }),
+        lastAction: { playerId, action: 'discard', card },
+      },
+      updatedAt: now,
+    },
+  };
+};
+
+const declare = (
+  state: PracticeGameState,
+  action: Extract<GameAction, { type: 'DECLARE' }>,
+  now: number
+): ReduceResult => {
+  const { playerId, melds, deadwood } = action;
+  const error = checkTurn(state, playerId, 'discard');
+  if (error) return { ok: false, error };
+  const round = state.currentRound!;
+  const { config } = state;
+
+  const handIds = new Set(round.hands[playerId].map(c => c.id));
+  const declared = [...melds.flatMap(m => m.cards), ...deadwood];
+  if (declared.some(c => !handIds.has(c.id))) {
+    return fail('CARD_NOT_IN_HAND', 'Declared cards must come from your hand');
+  }
+  if (new Set(declared.map(c => c.id)).size !== declared.length) {
+    return fail('MALFORMED_DECLARATION', 'Each card can be declared only once');
+  }
+  // The one card left over is the discard that closes the hand
+  const handSize = getCardsPerPlayer(config);
+  if (declared.length !== handSize) {
+    return fail('MALFORMED_DECLARATION', `Declare ${handSize} cards, keeping back only your discard`);
+  }
+
+  const validation = validateDeclaration(melds, deadwood, config.meldRules);
+  const declarationType = validation.isValid ? 'valid' : 'invalid';
+
+  // Players who dropped already paid their drop penalty, so their hands aren't counted
+  const hands = Object.fromEntries(
+    Object.entries(round.hands).filter(([id]) => !round.droppedPlayers.includes(id))
+  );
+  let roundScores = calculateRoundScores(
+    hands,
+    playerId,
+    declarationType,
+    config.variant,
+    config.firstDropPenalty,
+    config.middleDropPenalty,
+    config.invalidDeclarationPenalty,
+    config.meldRules
+  );
+
+  // 21-card: settle tunnela, marriage and value card bonuses after a valid show
+  let bonuses: { [playerId: string]: number } | undefined;
+  if (config.variant === 'twenty-one' && validation.isValid && config.meldRules) {
+    bonuses = calculateTwentyOneBonuses(hands, round.wildJokerCard, playerId, config.meldRules);
+    roundScores = settleTwentyOneBonuses(roundScores, bonuses);
+  }
+  const dropPenalties = getDropPenalties(
+    round.droppedPlayers,
+    round.actions ?? [],
+    config,
+    config.firstDropPenalty
+  );
+
+  const result: RoundResult = {
+    winnerId: playerId,
+    winnerName: state.players.find(p => p.id === playerId)?.name || 'Unknown',
+    declarationType,
+    scores: { ...roundScores, ...dropPenalties },
+    timestamp: now,
+    declaredMelds: melds,
+    finalHands: { ...round.hands },
+    bonuses,
+  };
+
+  return {
+    ok: true,
+    state: endRound(
+      state,
+      { ...round, actions: logAction(round, action) },
+      result,
+      updateCumulativeScores(state.scores, roundScores),
+      now
+    ),
+  };
+};
+
+const drop = (
+  state: PracticeGameState,
+  playerId: string,
+  dropType: 'first' | 'middle',
+  now: number
+): ReduceResult => {
+  const error = checkTurn(state, playerId);
+  if (error) return { ok: false, error };
+  const round = state.currentRound!;
+  const { config } = state;
+
+  // A first drop is made instead of drawing; a middle drop after
+  if ((dropType === 'first') !== (round.turnPhase === 'draw')) {
+    return fail(
+      'WRONG_TURN_PHASE',
+      dropType === 'first' ? 'A first drop must be made before drawing' : 'Draw a card before a middle drop'
+    );
+  }
+
+  const dropPenalty = dropType === 'first' ? config.firstDropPenalty : config.middleDropPenalty;
+  const scores = {
+    ...state.scores,
+    [playerId]: (state.scores[playerId] || 0) + dropPenalty,
+  };
+  const droppedPlayers = [...round.droppedPlayers, playerId];
+  const lastAction = { playerId, action: 'drop' as const };
+  const actions = logAction(round, { type: 'DROP', playerId, dropType });
+  const playersStillInRound = state.activePlayers.filter(id => !droppedPlayers.includes(id));
+
+  // Last player standing wins the round; dropped players' penalties are already in the scores
+  if (playersStillInRound.length === 1) {
+    const winnerId = playersStillInRound[0];
+    // Each dropped player pays for the drop they made, as their cumulative score did
+    const roundScores: { [playerId: string]: number } = {
+      ...Object.fromEntries(state.activePlayers.map(id => [id, 0])),
+      ...getDropPenalties(droppedPlayers, actions, config, dropPenalty),
+    };
+
+    const result: RoundResult = {
+      winnerId,
+      winnerName: state.players.find(p => p.id === winnerId)?.name || 'Unknown',
+      declarationType: `drop-${dropType}`,
+      scores: roundScores,
+      timestamp: now,
+      finalHands: { ...round.hands },
+    };
+
+    return {
+      ok: true,
+      state: endRound(state, { ...round, droppedPlayers, lastAction, actions }, result, scores, now),
+    };
+  }
+
+  return {
+    ok: true,
+    state: {
+      ...state,
+      currentRound: {
+        ...round,
+        currentPlayerIndex: nextPlayerIndex(state.activePlayers, round.currentPlayerIndex, droppedPlayers),
+        turnPhase: 'draw',
+        droppedPlayers,
+        lastAction,
+        actions,
+      },
+      scores,
+      updatedAt: now,
+    },
+  };
+};
+
+/**
+ * Apply an action to the game state
+ * Returns the next state, or a typed error if the action is illegal right now
+ */
+export const reduce = (
+  state: PracticeGameState,
+  action: GameAction,
+  now: number = Date.now()
+): ReduceResult => {
+  switch (action.type) {
+    case 'START_ROUND':
+      return startRound(state, action, now);
+
+    case 'DRAW_CARD':
+      return drawCard(state, action.playerId, action.source, now);
+
+    case 'DISCARD_CARD':
+      return discard(state, action.playerId, action.card, now);
+
+    case 'DECLARE':
+      return declare(state, action, now);
+
+    case 'DROP':
+      return drop(state, action.playerId, action.dropType, now);
+
+    case 'END_ROUND': {
+      if (state.gamePhase === 'ended') {
+        return fail('GAME_OVER', 'The game has ended');
+      }
+      const round = state.currentRound;
+      if (!round || round.phase === 'ended') {
+        return fail('NO_ROUND_IN_PROGRESS', 'No round is being played');
+      }
+      const scores = updateCumulativeScores(state.scores, action.result.scores);
+      return { ok: true, state: endRound(state, round, action.result, scores, now) };
+    }
+
+    case 'END_GAME': {
+      if (state.gamePhase === 'ended') {
+        return fail('GAME_OVER', 'The game has ended');
+      }
+      const winner = state.players.find(p => p.id === action.winnerId);
+      if (!winner) {
+        return fail('UNKNOWN_PLAYER', `Player ${action.winnerId} is not in this game`);
+      }
+      return {
+        ok: true,
+        state: {
+          ...state,
+          currentRound: state.currentRound ? { ...state.currentRound, phase: 'ended' } : null,
+          gamePhase: 'ended',
+          winner,
+          updatedAt: now,
+        },
+      };
+    }
+  }
+};
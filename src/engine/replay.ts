@@ -0,0 +1,125 @@
+/**
+ * Round replay
+ * Rebuilds a finished round step by step by running its action log
+ * back through the reducer, from the deal to the last move
+ */
+
+import { Card, PracticeGameState, RoundAction } from './types';
+import { reduce } from './reducer';
+import { updateCumulativeScores } from './scoring';
+
+export type ReplayResult =
+  | { ok: true; states: PracticeGameState[] } // The game after each logged action
+  | { ok: false; error: string };
+
+/**
+ * The game as it stood before a finished round was dealt
+ */
+export const getRoundStartState = (
+  game: PracticeGameState,
+  roundIndex: number
+): PracticeGameState => {
+  const result = game.roundResults[roundIndex];
+  const previous = game.roundResults.slice(0, roundIndex);
+
+  // Everyone scored in a round was dealt into it
+  const activePlayers = game.players.map(p => p.id).filter(id => id in result.scores);
+  const zero = Object.fromEntries(game.players.map(p => [p.id, 0]));
+  const scores = previous.reduce((total, r) => updateCumulativeScores(total, r.scores), zero);
+
+  return {
+    ...game,
+    activePlayers,
+    currentRound: null,
+    roundResults: previous,
+    scores,
+    gamePhase: 'playing',
+    winner: null,
+  };
+};
+
+const isSameCard = (a: Card, b: Card): boolean =>
+  a.id === b.id &&
+  a.suit === b.suit &&
+  a.rank === b.rank &&
+  a.jokerType === b.jokerType &&
+  a.value === b.value;
+
+/**
+ * Cards a move names that don't match the ones in the player's hand
+ * The reducer only checks card ids, so a hand-edited log could otherwise swap a card
+ */
+const hasForeignCards = (state: PracticeGameState, action: RoundAction): boolean => {
+  if (action.type !== 'DISCARD_CARD' && action.type !== 'DECLARE') return false;
+  const named =
+    action.type === 'DISCARD_CARD'
+      ? [action.card]
+      : [...action.melds.flatMap(m => m.cards), ...action.deadwood];
+  const hand = state.currentRound?.hands[action.playerId] ?? [];
+  return named.some(card => {
+    const held = hand.find(c => c.id === card.id);
+    return held !== undefined && !isSameCard(held, card);
+  });
+};
+
+/**
+ * Every card discarded in the round being played, oldest first, starting with the open card
+ * Rebuilt from the round's action log, so it survives the game being saved and reloaded
+ */
+export const getDiscardHistory = (game: PracticeGameState): Card[] => {
+  const round = game.currentRound;
+  if (!round) return [];
+
+  const [start, ...moves] = round.actions ?? [];
+  if (start?.type !== 'START_ROUND') {
+    // Saved before moves were logged: the pile is all that's known
+    return [...round.discardPile];
+  }
+
+  // Deal again from the logged seed to find the open card
+  const dealt = reduce({ ...game, currentRound: null, gamePhase: 'playing' }, start, game.updatedAt);
+  const openCards = dealt.ok ? dealt.state.currentRound!.discardPile : [];
+  const discards = moves.flatMap(action => (action.type === 'DISCARD_CARD' ? [action.card] : []));
+  return [...openCards, ...discards];
+};
+
+/**
+ * Apply an action log to a game, keeping the state after every action
+ */
+export const replayActions = (
+  start: PracticeGameState,
+  actions: RoundAction[],
+  now: number
+): ReplayResult => {
+  const states: PracticeGameState[] = [];
+  let state = start;
+  for (const [index, action] of actions.entries()) {
+    if (hasForeignCards(state, action)) {
+      return { ok: false, error: `Move ${index + 1} names a card that isn't the one dealt` };
+    }
+    const next = reduce(state, action, now);
+    if (!next.ok) {
+      return { ok: false, error: `Move ${index + 1}: ${next.error.message}` };
+    }
+    state = next.state;
+    states.push(state);
+  }
+  return { ok: true, states };
+};
+
+/**
+ * Replay a finished round through the reducer
+ * Fails for rounds saved before moves were logged, or if a logged move no longer applies
+ */
+export const replayRound = (game: PracticeGameState, roundIndex: number): ReplayResult => {
+  const result = game.roundResults[roundIndex];
+  if (!result) {
+    return { ok: false, error: `Round ${roundIndex + 1} has not been played` };
+  }
+  const actions = result.actions;
+  if (!actions || actions[0]?.type !== 'START_ROUND' || actions[0].seed === undefined) {
+    return { ok: false, error: `Round ${roundIndex + 1} was saved without its moves` };
+  }
+
+  return replayActions(getRoundStartState(game, roundIndex), actions, result.timestamp);
+};
@@ -0,0 +1,295 @@
+/**
+ * Portable round replays
+ * A versioned JSON format for sharing a practice round: the game config, the players
+ * dealt in and the round's action log, whose first entry carries the deal seed and dealer.
+ * Importing checks the file's shape, then rebuilds the round through the reducer.
+ */
+
+import {
+  Card,
+  PracticeGameConfig,
+  PracticeGameState,
+  PracticePlayer,
+  PracticeVariant,
+  RoundAction,
+} from './types';
+import { ReplayResult, getRoundStartState, replayActions } from './replay';
+
+export const REPLAY_FILE_FORMAT = 'rummyiq-round-replay';
+export const REPLAY_FILE_VERSION = 1;
+
+/**
+ * A shareable replay of one round
+ */
+export interface ReplayFile {
+  format: typeof REPLAY_FILE_FORMAT;
+  version: number;
+  exportedAt: number;
+  roundNumber: number; // Round of the original game, for display
+  config: PracticeGameConfig;
+  players: PracticePlayer[]; // Players dealt into the round, in seat order
+  scores: { [playerId: string]: number }; // Cumulative scores before the deal
+  actions: RoundAction[]; // Starts with the deal
+}
+
+export type ReplayFileResult =
+  | { ok: true; replay: ReplayFile; states: PracticeGameState[] }
+  | { ok: false; errors: string[] };
+
+const VARIANTS: PracticeVariant[] = ['pool', 'points', 'deals', 'twenty-one'];
+const SUITS = ['hearts', 'diamonds', 'clubs', 'spades'];
+const RANKS = ['A', '2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K'];
+
+/**
+ * Package a finished round of a game as a replay file
+ * Returns null if the round wasn't logged
+ */
+export const createReplayFile = (
+  game: PracticeGameState,
+  roundIndex: number,
+  now: number = Date.now()
+): ReplayFile | null => {
+  const actions = game.roundResults[roundIndex]?.actions;
+  if (!actions || actions[0]?.type !== 'START_ROUND') return null;
+
+  const start = getRoundStartState(game, roundIndex);
+  const players = start.activePlayers
+    .map(id => game.players.find(p => p.id === id))
+    .filter((p): p is PracticePlayer => !!p);
+
+  return {
+    format: REPLAY_FILE_FORMAT,
+    version: REPLAY_FILE_VERSION,
+    exportedAt: now,
+    roundNumber: roundIndex + 1,
+    config: game.config,
+    players,
+    scores: Object.fromEntries(players.map(p => [p.id, start.scores[p.id] || 0])),
+    actions,
+  };
+};
+
+/**
+ * The game a replay file's deal is applied to
+ */
+export const getReplayStartState = (replay: ReplayFile): PracticeGameState => ({
+  id: `replay-${replay.exportedAt}`,
+  config: replay.config,
+  players: replay.players,
+  activePlayers: replay.players.map(p => p.id),
+  currentRound: null,
+  roundResults: [],
+  scores: { ...replay.scores },
+  gamePhase: 'playing',
+  winner: null,
+  createdAt: replay.exportedAt,
+  updatedAt: replay.exportedAt,
+});
+
+/**
+ * Rebuild a replay file's round through the reducer
+ */
+export const playReplayFile = (replay: ReplayFile): ReplayResult =>
+  replayActions(getReplayStartState(replay), replay.actions, replay.exportedAt);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isCard = (value: unknown): value is Card =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  SUITS.includes(value.suit as string) &&
+  RANKS.includes(value.rank as string) &&
+  (value.jokerType === null || value.jokerType === 'printed' || value.jokerType === 'wild') &&
+  typeof value.value === 'number';
+
+const isCardList = (value: unknown): value is Card[] => Array.isArray(value) && value.every(isCard);
+
+const isCount = (value: unknown): boolean => Number.isInteger(value) && (value as number) >= 0;
+
+const isOptional = (value: unknown, check: (value: unknown) => boolean): boolean =>
+  value === undefined || check(value);
+
+const isBoolean = (value: unknown): boolean => typeof value === 'boolean';
+
+const isDeckConfig = (value: unknown): boolean =>
+  isRecord(value) &&
+  (value.deckCount === 'auto' || (isCount(value.deckCount) && (value.deckCount as number) > 0)) &&
+  isCount(value.printedJokersPerDeck) &&
+  isBoolean(value.wildJoker) &&
+  isOptional(value.upDownJokers, isBoolean);
+
+const isMeldRules = (value: unknown): boolean =>
+  isRecord(value) &&
+  [
+    value.minMeldSize,
+    value.maxSetSize,
+    value.handSize,
+    value.requiredPureSequences,
+    value.requiredSequences,
+  ].every(isCount) &&
+  [value.aceLow, value.aceHigh, value.wraparound, value.duplicateSuitsInSet, value.tunnelas].every(
+    isBoolean
+  ) &&
+  (value.dubleesToDeclare === null || isCount(value.dubleesToDeclare));
+
+/**
+ * Shape problems in the game settings
+ */
+const checkConfig = (config: unknown): string[] => {
+  if (
+    !isRecord(config) ||
+    !VARIANTS.includes(config.variant as PracticeVariant) ||
+    typeof config.firstDropPenalty !== 'number' ||
+    typeof config.middleDropPenalty !== 'number' ||
+    typeof config.invalidDeclarationPenalty !== 'number'
+  ) {
+    return ['The game settings are missing or unreadable'];
+  }
+
+  const errors: string[] = [];
+  if (!isOptional(config.deck, isDeckConfig)) {
+    errors.push('The deck settings are unreadable');
+  }
+  if (!isOptional(config.meldRules, isMeldRules)) {
+    errors.push('The meld rules are unreadable');
+  }
+  const isNumber = (value: unknown) => typeof value === 'number';
+  if (
+    ![config.poolLimit, config.numberOfDeals, config.pointValue].every(value => isOptional(value, isNumber)) ||
+    !isOptional(config.adaptive, isBoolean)
+  ) {
+    errors.push('The game settings are unreadable');
+  }
+  return errors;
+};
+
+/**
+ * Shape problems in one logged action, if any
+ */
+const checkAction = (action: unknown, index: number, playerIds: Set<string>): string | null => {
+  const move = `Move ${index + 1}`;
+  if (!isRecord(action)) return `${move} is not an object`;
+
+  if (index === 0) {
+    return action.type === 'START_ROUND' &&
+      Number.isInteger(action.seed) &&
+      Number.isInteger(action.dealerIndex)
+      ? null
+      : 'The first move must be the deal, with its seed and dealer';
+  }
+  if (action.type === 'START_ROUND') {
+    return `${move} deals a second time`;
+  }
+  if (typeof action.playerId !== 'string' || !playerIds.has(action.playerId)) {
+    return `${move} is by an unknown player`;
+  }
+
+  switch (action.type) {
+    case 'DRAW_CARD':
+      return action.source === 'deck' || action.source === 'discard' ? null : `${move} has no draw source`;
+    case 'DISCARD_CARD':
+      return isCard(action.card) ? null : `${move} discards an unreadable card`;
+    case 'DROP':
+      return action.dropType === 'first' || action.dropType === 'middle' ? null : `${move} has no drop type`;
+    case 'DECLARE':
+      return Array.isArray(action.melds) &&
+        action.melds.every(m => isRecord(m) && typeof m.type === 'string' && isCardList(m.cards)) &&
+        isCardList(action.deadwood)
+        ? null
+        : `${move} declares unreadable melds`;
+    default:
+      return `${move} has an unknown type`;
+  }
+};
+
+/**
+ * Check a parsed replay file, then rebuild its round through the engine
+ * Every problem with the file's shape is reported; a move the engine rejects stops the replay
+ */
+export const validateReplayFile = (value: unknown): ReplayFileResult => {
+  if (!isRecord(value) || value.format !== REPLAY_FILE_FORMAT) {
+    return { ok: false, errors: ['This is not a RummyIQ round replay'] };
+  }
+  if (!Number.isInteger(value.version) || (value.version as number) < 1) {
+    return { ok: false, errors: ['The replay has no valid version number'] };
+  }
+  if ((value.version as number) > REPLAY_FILE_VERSION) {
+    return { ok: false, errors: ['This replay was made by a newer version of the app'] };
+  }
+
+  const { config, players, scores, actions } = value;
+  const errors = checkConfig(config);
+
+  const playerIds = new Set<string>();
+  if (!Array.isArray(players) || players.length < 2) {
+    errors.push('A replay needs at least two players');
+  } else {
+    for (const player of players) {
+      if (
+        !isRecord(player) ||
+        typeof player.id !== 'string' ||
+        typeof player.name !== 'string' ||
+        typeof player.isBot !== 'boolean'
+      ) {
+        errors.push('A player is missing an id, name or bot flag');
+      } else if (playerIds.has(player.id)) {
+        errors.push(`Player ${player.id} appears twice`);
+      } else {
+        playerIds.add(player.id);
+      }
+    }
+  }
+
+  if (!isRecord(scores) || Object.values(scores).some(score => typeof score !== 'number')) {
+    errors.push('The starting scores are unreadable');
+  }
+
+  if (!Array.isArray(actions) || actions.length === 0) {
+    errors.push('The replay has no moves');
+  } else {
+    actions.forEach((action, index) => {
+      const error = checkAction(action, index, playerIds);
+      if (error) errors.push(error);
+    });
+  }
+
+  if (typeof value.exportedAt !== 'number' || typeof value.roundNumber !== 'number') {
+    errors.push('The replay is missing its export details');
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  // The shape checks can't catch every combination the engine can't play
+  const replay = value as unknown as ReplayFile;
+  let rebuilt: ReplayResult;
+  try {
+    rebuilt = playReplayFile(replay);
+  } catch {
+    return { ok: false, errors: ['The replay could not be played back'] };
+  }
+  if (!rebuilt.ok) {
+    return { ok: false, errors: [rebuilt.error] };
+  }
+  return { ok: true, replay, states: rebuilt.states };
+};
+
+/**
+ * Parse and validate replay text, e.g. pasted from the clipboard
+ */
+export const parseReplayFile = (text: string): ReplayFileResult => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return { ok: false, errors: ['The replay is not valid JSON'] };
+  }
+  return validateReplayFile(value);
+};
+
+/**
+ * Replay file as text to share
+ */
+export const serializeReplayFile = (replay: ReplayFile): string => JSON.stringify(replay);
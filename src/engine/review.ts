@@ -0,0 +1,296 @@
+/**
+ * Post-game review of the human's moves
+ * Replays each finished round, asks the expert bot's search what it would have drawn and
+ * thrown at every one of the player's decisions, and grades the move by the position
+ * value it gave up. Recurring mistakes are summarised as patterns.
+ */
+
+import { Card, DrawSource, PracticeGameState, getRankIndex } from './types';
+import { autoArrangeHand } from './declaration';
+import { isJoker } from './hand';
+import { BotContext, getOpponentObservations } from './bot';
+import { evaluateDiscards, evaluateDrawOptions } from './bot/expert';
+import { opponentInterest } from './bot/hard';
+import { replayRound } from './replay';
+
+export type MoveQuality = 'good' | 'inaccuracy' | 'mistake';
+
+export type ReviewPattern =
+  | 'held-high-cards' // Threw a cheap card while the best throw was a loose high card
+  | 'broke-near-sequence' // Threw a card one or two steps from a same-suit partner
+  | 'broke-meld' // Threw a card out of a finished meld
+  | 'missed-pickup' // Drew blind when the open discard was worth taking
+  | 'wasted-pickup' // Took a discard that did less than a deck draw
+  | 'fed-next-player'; // Threw a card the next player is visibly collecting
+
+/**
+ * A draw or discard choice
+ */
+export interface ReviewChoice {
+  source?: DrawSource; // Draw decisions
+  card?: Card; // Discard decisions, or the discard taken
+}
+
+/**
+ * How one move compares with the expert's choice
+ */
+export interface MoveAssessment {
+  best: ReviewChoice;
+  equityLoss: number; // Position points given up against the best choice
+  quality: MoveQuality;
+  patterns: ReviewPattern[];
+}
+
+/**
+ * One reviewed decision from a finished game
+ */
+export interface MoveReview extends MoveAssessment {
+  roundNumber: number;
+  turn: number; // The player's turn within the round, from 1
+  kind: 'draw' | 'discard';
+  hand: Card[]; // Hand when the decision was made
+  topDiscard: Card | null;
+  chosen: ReviewChoice;
+}
+
+export interface PatternSummary {
+  pattern: ReviewPattern;
+  count: number;
+  label: string;
+  advice: string;
+}
+
+export interface ReviewSummary {
+  counts: Record<MoveQuality, number>;
+  totalEquityLoss: number;
+  patterns: PatternSummary[]; // Most frequent first
+}
+
+/**
+ * Search time per reviewed decision - shorter than a live expert turn,
+ * since a game has a lot of decisions to go through
+ */
+export const REVIEW_TIME_BUDGET_MS = 40;
+
+// Position points lost before a move stops counting as good; the search is sampled,
+// so small differences are noise
+const INACCURACY_POINTS = 4;
+const MISTAKE_POINTS = 10;
+const HIGH_CARD_VALUE = 10;
+const LIKELY_NEEDED = 8; // Opponent interest at which a throw counts as feeding them
+
+export const REVIEW_PATTERNS: Record<ReviewPattern, { label: string; advice: string }> = {
+  'held-high-cards': {
+    label: 'Holding high cards too long',
+    advice: 'Loose tens and face cards cost the most when someone declares. Throw them early.',
+  },
+  'broke-near-sequence': {
+    label: 'Breaking near-sequences',
+    advice: 'Cards one or two steps from a same-suit partner are worth keeping over unconnected ones.',
+  },
+  'broke-meld': {
+    label: 'Breaking finished melds',
+    advice: 'Throw loose cards before splitting a meld you already have.',
+  },
+  'missed-pickup': {
+    label: 'Passing on useful discards',
+    advice: 'Take the open card when it finishes or clearly extends a meld.',
+  },
+  'wasted-pickup': {
+    label: "Taking discards that don't help",
+    advice: 'An unseen card from the deck is a better bet than a discard that fits nothing.',
+  },
+  'fed-next-player': {
+    label: 'Feeding the next player',
+    advice: 'Watch what the next player picks up and hold cards close to it.',
+  },
+};
+
+const gradeMove = (equityLoss: number): MoveQuality => {
+  if (equityLoss >= MISTAKE_POINTS) return 'mistake';
+  if (equityLoss >= INACCURACY_POINTS) return 'inaccuracy';
+  return 'good';
+};
+
+const roundPoints = (value: number): number => Math.round(Math.max(0, value) * 10) / 10;
+
+const isSameCard = (a: Card, b: Card): boolean => a.suit === b.suit && a.rank === b.rank;
+
+/**
+ * Grade a draw: deck or the top discard
+ */
+export const assessDraw = (context: BotContext, source: DrawSource): MoveAssessment => {
+  const { topDiscard } = context;
+  if (!topDiscard) {
+    return { best: { source: 'deck' }, equityLoss: 0, quality: 'good', patterns: [] };
+  }
+
+  const values = evaluateDrawOptions(context, topDiscard);
+  const bestSource: DrawSource =
+    isJoker(topDiscard) || values.discard < values.deck ? 'discard' : 'deck';
+  const equityLoss = roundPoints(values[source] - values[bestSource]);
+  const quality = gradeMove(equityLoss);
+
+  const patterns: ReviewPattern[] = [];
+  if (quality !== 'good') {
+    patterns.push(source === 'deck' ? 'missed-pickup' : 'wasted-pickup');
+  }
+
+  return {
+    best: { source: bestSource, card: bestSource === 'discard' ? topDiscard : undefined },
+    equityLoss,
+    quality,
+    patterns,
+  };
+};
+
+/**
+ * Grade a discard against the expert's best throw
+ */
+export const assessDiscard = (context: BotContext, card: Card): MoveAssessment => {
+  const { hand } = context;
+  const ranked = evaluateDiscards(context, [card]);
+  const best = ranked[0];
+  const chosen = ranked.find(option => isSameCard(option.card, card)) ?? best;
+  const equityLoss = roundPoints(chosen.value - best.value);
+  const quality = gradeMove(equityLoss);
+
+  const patterns: ReviewPattern[] = [];
+  if (quality !== 'good') {
+    const analysis = autoArrangeHand(hand, context.meldRules);
+    const meldedIds = new Set(analysis.melds.flatMap(m => m.cards.map(c => c.id)));
+    const loose = hand.filter(c => !meldedIds.has(c.id) && !isJoker(c));
+    const hasPartner = loose.some(
+      c =>
+        c.id !== card.id &&
+        c.suit === card.suit &&
+        Math.abs(getRankIndex(c.rank) - getRankIndex(card.rank)) <= 2
+    );
+
+    if (meldedIds.has(card.id)) {
+      patterns.push('broke-meld');
+    } else if (hasPartner) {
+      patterns.push('broke-near-sequence');
+    }
+    if (
+      best.card.value >= HIGH_CARD_VALUE &&
+      !meldedIds.has(best.card.id) &&
+      card.value < best.card.value
+    ) {
+      patterns.push('held-high-cards');
+    }
+
+    const next = context.opponents?.[0];
+    if (
+      next &&
+      opponentInterest(card, next) >= LIKELY_NEEDED &&
+      opponentInterest(best.card, next) < LIKELY_NEEDED
+    ) {
+      patterns.push('fed-next-player');
+    }
+  }
+
+  return { best: { card: best.card }, equityLoss, quality, patterns };
+};
+
+/**
+ * Review a player's draws and discards in one finished round
+ * Returns null if the round can't be replayed, e.g. it was saved before moves were logged
+ */
+export const reviewRound = (
+  game: PracticeGameState,
+  roundIndex: number,
+  playerId: string,
+  timeBudgetMs: number = REVIEW_TIME_BUDGET_MS
+): MoveReview[] | null => {
+  const replay = replayRound(game, roundIndex);
+  const actions = game.roundResults[roundIndex]?.actions;
+  if (!replay.ok || !actions) return null;
+
+  const moves: MoveReview[] = [];
+  let turn = 0;
+  // Every card discarded so far, starting with the open card from the deal
+  const discardHistory: Card[] = [...replay.states[0].currentRound!.discardPile];
+
+  actions.forEach((action, i) => {
+    const seen = [...discardHistory];
+    if (action.type === 'DISCARD_CARD') discardHistory.push(action.card);
+    if (action.type !== 'DRAW_CARD' && action.type !== 'DISCARD_CARD') return;
+    if (action.playerId !== playerId) return;
+
+    // The position the player faced: the game after the previous logged action
+    const state = replay.states[i - 1];
+    const round = state.currentRound!;
+    const hand = round.hands[playerId];
+    const topDiscard = round.discardPile[round.discardPile.length - 1] ?? null;
+    const context: BotContext = {
+      hand,
+      topDiscard,
+      discardHistory: seen,
+      isFirstTurn: turn === 0 && action.type === 'DRAW_CARD',
+      currentScore: state.scores[playerId] || 0,
+      poolLimit: state.config.poolLimit || null,
+      turnPhase: round.turnPhase,
+      meldRules: state.config.meldRules,
+      opponents: getOpponentObservations(round, state.activePlayers, playerId),
+      wildJokerCard: round.wildJokerCard,
+      deck: state.config.deck,
+      playerCount: state.activePlayers.length,
+      timeBudgetMs,
+    };
+
+    if (action.type === 'DRAW_CARD') {
+      turn++;
+      // Nothing to weigh when the discard pile is empty
+      if (!topDiscard) return;
+      const chosen = {
+        source: action.source,
+        card: action.source === 'discard' ? topDiscard : undefined,
+      };
+      moves.push({
+        roundNumber: round.roundNumber,
+        turn,
+        kind: 'draw',
+        hand,
+        topDiscard,
+        chosen,
+        ...assessDraw(context, action.source),
+      });
+    } else {
+      moves.push({
+        roundNumber: round.roundNumber,
+        turn,
+        kind: 'discard',
+        hand,
+        topDiscard,
+        chosen: { card: action.card },
+        ...assessDiscard(context, action.card),
+      });
+    }
+  });
+
+  return moves;
+};
+
+/**
+ * Tally a review's grades and its recurring error patterns
+ */
+export const summarizeReview = (moves: MoveReview[]): ReviewSummary => {
+  const counts: Record<MoveQuality, number> = { good: 0, inaccuracy: 0, mistake: 0 };
+  const patternCounts = new Map<ReviewPattern, number>();
+  let totalEquityLoss = 0;
+
+  for (const move of moves) {
+    counts[move.quality]++;
+    totalEquityLoss += move.equityLoss;
+    for (const pattern of move.patterns) {
+      patternCounts.set(pattern, (patternCounts.get(pattern) ?? 0) + 1);
+    }
+  }
+
+  const patterns = [...patternCounts.entries()]
+    .sort(([, a], [, b]) => b - a)
+    .map(([pattern, count]) => ({ pattern, count, ...REVIEW_PATTERNS[pattern] }));
+
+  return { counts, totalEquityLoss: roundPoints(totalEquityLoss), patterns };
+};
@@ -4,6 +4,7 @@
 
 import {
   Card,
+  MeldRules,
   PracticeGameState,
   PracticePlayer,
   RoundResult,
@@ -12,6 +13,7 @@ import {
 } from './types';
 import { calculateDeadwoodPoints } from './hand';
 import { autoArrangeHand } from './declaration';
+import { DEFAULT_MELD_RULES, isSequenceMeld } from './meld';
 
 /**
  * Maximum points a player can get in a single round
@@ -29,13 +31,16 @@ export const DEFAULT_INVALID_DECLARATION = 80;
  * Calculate points for a player's hand at end of round
  * Winner gets 0 points, others get their deadwood points (capped at 80)
  *
- * Indian Rummy Rules:
+ * Indian Rummy Rules (sequence counts come from MeldRules):
  * - If no pure sequence: max 80 points (full count)
  * - If no second sequence: sets don't count, their cards are deadwood
  * - Otherwise: deadwood points capped at 80
  */
-export const calculateHandPoints = (hand: Card[]): number => {
-  const analysis = autoArrangeHand(hand);
+export const calculateHandPoints = (
+  hand: Card[],
+  rules: MeldRules = DEFAULT_MELD_RULES
+): number => {
+  const analysis = autoArrangeHand(hand, rules);
 
   // If valid declaration, 0 points
   if (analysis.canDeclare) {
@@ -43,16 +48,16 @@ export const calculateHandPoints = (hand: Card[]): number => {
   }
 
   // If no pure sequence, full count (max 80)
-  if (!analysis.hasPureSequence) {
+  if (analysis.pureSequenceCount < rules.requiredPureSequences) {
     return MAX_ROUND_POINTS;
   }
 
   // If less than 2 sequences, sets don't count - calculate with all non-sequence cards
-  if (analysis.sequenceCount < 2) {
+  if (analysis.sequenceCount < rules.requiredSequences) {
     // All cards not in sequences are deadwood
     const sequenceCards = new Set<string>();
     for (const meld of analysis.melds) {
-      if (meld.type === 'sequence' || meld.type === 'pure-sequence') {
+      if (isSequenceMeld(meld)) {
         for (const card of meld.cards) {
           sequenceCards.add(card.id);
         }
@@ -113,7 +118,8 @@ export const calculateRoundScores = (
   variant: PracticeVariant,
   firstDropPenalty: number = DEFAULT_FIRST_DROP,
   middleDropPenalty: number = DEFAULT_MIDDLE_DROP,
-  invalidDeclarationPenalty: number = DEFAULT_INVALID_DECLARATION
+  invalidDeclarationPenalty: number = DEFAULT_INVALID_DECLARATION,
+  rules: MeldRules = DEFAULT_MELD_RULES
 ): { [playerId: string]: number } => {
   const scores: { [playerId: string]: number } = {};
 
@@ -133,7 +139,7 @@ export const calculateRoundScores = (
       }
     } else {
       // Other players get their deadwood points
-      scores[playerId] = calculateHandPoints(hands[playerId]);
+      scores[playerId] = calculateHandPoints(hands[playerId], rules);
     }
   }
 
@@ -202,7 +208,7 @@ export const shouldGameEnd = (
     return activePlayers.length <= 1;
   }
 
-  if (variant === 'deals' && numberOfDeals) {
+  if ((variant === 'deals' || variant === 'twenty-one') && numberOfDeals) {
     // Deals rummy: game ends after fixed number of deals
     return roundResults.length >= numberOfDeals;
   }
@@ -230,7 +236,7 @@ export const determineGameWinner = (
     return activePlayers.length === 1 ? activePlayers[0] : null;
   }
 
-  if (variant === 'deals' || variant === 'points') {
+  if (variant === 'deals' || variant === 'points' || variant === 'twenty-one') {
     // Lowest score wins
     let winner: PracticePlayer | null = null;
     let lowestScore = Infinity;
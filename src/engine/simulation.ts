@@ -0,0 +1,313 @@
+/**
+ * Headless bot-vs-bot simulation for the Rummy game engine
+ * Plays full practice games through the reducer and collects aggregate statistics,
+ * so the effect of a bot change can be measured and compared across commits
+ *
+ * Deals are seeded; bot choices still use Math.random, so compare over enough games.
+ */
+
+import {
+  BotDifficulty,
+  BotPersonality,
+  Card,
+  GameAction,
+  PracticeGameConfig,
+  PracticeGameState,
+  PracticePlayer,
+} from './types';
+import { generateSeed, deriveSeed } from './random';
+import { autoArrangeHand } from './declaration';
+import {
+  DEFAULT_FIRST_DROP,
+  DEFAULT_MIDDLE_DROP,
+  DEFAULT_INVALID_DECLARATION,
+} from './scoring';
+import { reduce } from './reducer';
+import { BotContext, getBotDecision, getOpponentObservations } from './bot';
+
+export interface SimulationOptions {
+  seats: BotDifficulty[]; // One bot per seat, in turn order
+  personalities?: BotPersonality[]; // Per seat, balanced where missing
+  games: number;
+  config?: PracticeGameConfig; // Defaults to 101 pool
+  seed?: number; // Master seed; each game and round derives its deal from it
+  maxTurnsPerRound?: number; // Abandon a game whose round runs longer than this
+  timeBudgetMs?: number; // Expert bot search time per decision
+}
+
+export interface SeatStats {
+  seat: number;
+  difficulty: BotDifficulty;
+  personality: BotPersonality;
+  gamesWon: number;
+  winRate: number;
+  roundsWon: number;
+  declares: number;
+  invalidDeclares: number;
+  drops: number;
+  declareRate: number; // Declarations per round played
+  dropRate: number; // Drops per round played
+  averageDeadwood: number; // Deadwood points left when another seat declared
+}
+
+export interface SimulationStats {
+  seed: number;
+  games: number;
+  completedGames: number;
+  abandonedGames: number; // Stalled past maxTurnsPerRound or hit an illegal move
+  rounds: number;
+  averageTurnsPerRound: number;
+  averageRoundsPerGame: number;
+  deckExhaustions: number; // Rounds where the draw pile ran out and was refilled
+  seats: SeatStats[];
+}
+
+const DEFAULT_SIMULATION_CONFIG: PracticeGameConfig = {
+  variant: 'pool',
+  poolLimit: 101,
+  firstDropPenalty: DEFAULT_FIRST_DROP,
+  middleDropPenalty: DEFAULT_MIDDLE_DROP,
+  invalidDeclarationPenalty: DEFAULT_INVALID_DECLARATION,
+};
+
+const DEFAULT_MAX_TURNS_PER_ROUND = 1000;
+
+/**
+ * Running totals for one seat
+ */
+interface SeatTally {
+  gamesWon: number;
+  roundsWon: number;
+  roundsPlayed: number;
+  declares: number;
+  invalidDeclares: number;
+  drops: number;
+  deadwoodTotal: number;
+  deadwoodSamples: number;
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const ratio = (value: number, total: number): number => (total > 0 ? round2(value / total) : 0);
+
+/**
+ * Play one round to the end with every seat driven by its bot
+ * Returns the final state, or null if the round stalled or a bot made an illegal move
+ */
+const playRound = (
+  state: PracticeGameState,
+  seed: number,
+  maxTurns: number,
+  timeBudgetMs: number | undefined,
+  tallies: { [playerId: string]: SeatTally },
+  totals: { turns: number; deckExhaustions: number }
+): PracticeGameState | null => {
+  const started = reduce(state, { type: 'START_ROUND', seed }, 0);
+  if (!started.ok) return null;
+  let current = started.state;
+  const discardHistory: Card[] = [...current.currentRound!.discardPile];
+  const roundNumber = current.roundResults.length;
+
+  for (const playerId of current.activePlayers) {
+    tallies[playerId].roundsPlayed++;
+  }
+
+  let turns = 0;
+  while (current.roundResults.length === roundNumber) {
+    if (turns >= maxTurns) {
+      if ((current.currentRound!.reshuffleCount ?? 0) > 0) {
+        totals.deckExhaustions++;
+      }
+      return null;
+    }
+
+    const round = current.currentRound!;
+    const playerId = current.activePlayers[round.currentPlayerIndex];
+    const player = current.players.find(p => p.id === playerId)!;
+    const topDiscard = round.discardPile[round.discardPile.length - 1] ?? null;
+
+    const context: BotContext = {
+      hand: round.hands[playerId],
+      topDiscard,
+      discardHistory,
+      isFirstTurn: round.turnPhase === 'draw' && !round.lastAction?.playerId,
+      currentScore: current.scores[playerId] || 0,
+      poolLimit: current.config.poolLimit || null,
+      turnPhase: round.turnPhase,
+      meldRules: current.config.meldRules,
+      opponents: getOpponentObservations(round, current.activePlayers, playerId),
+      wildJokerCard: round.wildJokerCard,
+      deck: current.config.deck,
+      playerCount: current.activePlayers.length,
+      timeBudgetMs,
+      personality: player.personality,
+    };
+    const decision = getBotDecision(player.difficulty!, context);
+
+    // Same translation from decision to action as the practice game screen
+    let action: GameAction | null = null;
+    switch (decision.action) {
+      case 'draw':
+        action = { type: 'DRAW_CARD', playerId, source: decision.source || 'deck' };
+        break;
+      case 'discard':
+        action = decision.card ? { type: 'DISCARD_CARD', playerId, card: decision.card } : null;
+        break;
+      case 'declare':
+        action = decision.melds
+          ? { type: 'DECLARE', playerId, melds: decision.melds, deadwood: [] }
+          : null;
+        break;
+      case 'drop':
+        action = {
+          type: 'DROP',
+          playerId,
+          dropType: round.turnPhase === 'draw' ? 'first' : 'middle',
+        };
+        break;
+    }
+    if (!action) return null;
+
+    const result = reduce(current, action, 0);
+    if (!result.ok) return null;
+    current = result.state;
+
+    if (action.type === 'DISCARD_CARD') {
+      discardHistory.push(action.card);
+    }
+    if (action.type !== 'DRAW_CARD') {
+      turns++;
+    }
+    if (action.type === 'DECLARE') {
+      tallies[playerId].declares++;
+    }
+    if (action.type === 'DROP') {
+      tallies[playerId].drops++;
+    }
+  }
+
+  const finalRound = current.currentRound!;
+  const roundResult = current.roundResults[roundNumber];
+  totals.turns += turns;
+  if ((finalRound.reshuffleCount ?? 0) > 0) {
+    totals.deckExhaustions++;
+  }
+
+  if (roundResult.declarationType === 'invalid') {
+    tallies[roundResult.winnerId].invalidDeclares++;
+  } else {
+    tallies[roundResult.winnerId].roundsWon++;
+  }
+
+  // Deadwood left in the hands of seats still playing when someone showed
+  if (roundResult.declarationType === 'valid') {
+    for (const playerId of state.activePlayers) {
+      if (playerId === roundResult.winnerId || finalRound.droppedPlayers.includes(playerId)) {
+        continue;
+      }
+      const analysis = autoArrangeHand(finalRound.hands[playerId], current.config.meldRules);
+      tallies[playerId].deadwoodTotal += analysis.deadwoodPoints;
+      tallies[playerId].deadwoodSamples++;
+    }
+  }
+
+  return current;
+};
+
+/**
+ * Play a number of full games between bots and report aggregate statistics
+ */
+export const simulateGames = (options: SimulationOptions): SimulationStats => {
+  const { seats, games } = options;
+  const config = options.config ?? DEFAULT_SIMULATION_CONFIG;
+  const seed = options.seed ?? generateSeed();
+  const maxTurns = options.maxTurnsPerRound ?? DEFAULT_MAX_TURNS_PER_ROUND;
+
+  const players: PracticePlayer[] = seats.map((difficulty, seat) => ({
+    id: `seat-${seat}`,
+    name: `Seat ${seat + 1} (${difficulty})`,
+    isBot: true,
+    difficulty,
+    personality: options.personalities?.[seat] ?? 'balanced',
+  }));
+
+  const tallies: { [playerId: string]: SeatTally } = {};
+  for (const player of players) {
+    tallies[player.id] = {
+      gamesWon: 0,
+      roundsWon: 0,
+      roundsPlayed: 0,
+      declares: 0,
+      invalidDeclares: 0,
+      drops: 0,
+      deadwoodTotal: 0,
+      deadwoodSamples: 0,
+    };
+  }
+
+  const totals = { turns: 0, deckExhaustions: 0 };
+  let completedGames = 0;
+  let rounds = 0;
+
+  for (let game = 0; game < games; game++) {
+    const gameSeed = deriveSeed(seed, game);
+    let state: PracticeGameState | null = {
+      id: `simulation-${game}`,
+      config,
+      players,
+      activePlayers: players.map(p => p.id),
+      currentRound: null,
+      roundResults: [],
+      scores: Object.fromEntries(players.map(p => [p.id, 0])),
+      gamePhase: 'playing',
+      winner: null,
+      createdAt: 0,
+      updatedAt: 0,
+    };
+
+    while (state && state.gamePhase !== 'ended') {
+      state = playRound(
+        state,
+        deriveSeed(gameSeed, state.roundResults.length),
+        maxTurns,
+        options.timeBudgetMs,
+        tallies,
+        totals
+      );
+      if (state) rounds++;
+    }
+
+    if (state?.winner) {
+      tallies[state.winner.id].gamesWon++;
+      completedGames++;
+    }
+  }
+
+  return {
+    seed,
+    games,
+    completedGames,
+    abandonedGames: games - completedGames,
+    rounds,
+    averageTurnsPerRound: ratio(totals.turns, rounds),
+    averageRoundsPerGame: ratio(rounds, games),
+    deckExhaustions: totals.deckExhaustions,
+    seats: players.map((player, seat) => {
+      const tally = tallies[player.id];
+      return {
+        seat,
+        difficulty: player.difficulty!,
+        personality: player.personality!,
+        gamesWon: tally.gamesWon,
+        winRate: ratio(tally.gamesWon, completedGames),
+        roundsWon: tally.roundsWon,
+        declares: tally.declares,
+        invalidDeclares: tally.invalidDeclares,
+        drops: tally.drops,
+        declareRate: ratio(tally.declares, tally.roundsPlayed),
+        dropRate: ratio(tally.drops, tally.roundsPlayed),
+        averageDeadwood: ratio(tally.deadwoodTotal, tally.deadwoodSamples),
+      };
+    }),
+  };
+};
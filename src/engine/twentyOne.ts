@@ -0,0 +1,140 @@
+/**
+ * 21-card Indian Rummy
+ * Three decks, up/down jokers, three pure sequences to declare,
+ * and bonus points for tunnelas, marriages and value cards
+ */
+
+import { Card, DeckConfig, MeldRules } from './types';
+import { getUpDownJokerRanks } from './deck';
+import { autoArrangeHand } from './declaration';
+
+export const TWENTY_ONE_CARDS_PER_PLAYER = 21;
+
+/**
+ * Always three decks; the cards either side of the wild joker are jokers too
+ */
+export const TWENTY_ONE_DECK_CONFIG: DeckConfig = {
+  deckCount: 3,
+  printedJokersPerDeck: 2,
+  wildJoker: true,
+  upDownJokers: true,
+};
+
+/**
+ * Bonus points collected from every other player at the end of a round
+ * - marriage: down, tiplu (wild joker card) and up of the wild joker's suit
+ * - tunnela: three identical cards
+ * - valueCard: a tiplu, up, down or alter (same rank and colour as the tiplu) not in a marriage
+ */
+export const TWENTY_ONE_BONUS_POINTS = {
+  marriage: 100,
+  tunnela: 30,
+  valueCard: 10,
+};
+
+/**
+ * Apply the 21-card declaration rules on top of a set of house meld rules
+ */
+export const withTwentyOneRules = (rules: MeldRules): MeldRules => ({
+  ...rules,
+  tunnelas: true,
+  handSize: TWENTY_ONE_CARDS_PER_PLAYER,
+  requiredPureSequences: 3,
+  requiredSequences: 3,
+  dubleesToDeclare: 8,
+});
+
+/**
+ * Colour partner of a suit (the alter suit)
+ */
+const ALTER_SUIT = {
+  hearts: 'diamonds',
+  diamonds: 'hearts',
+  clubs: 'spades',
+  spades: 'clubs',
+} as const;
+
+/**
+ * Count the tunnelas in a hand (printed jokers never count)
+ */
+const countTunnelas = (hand: Card[]): number => {
+  const counts = new Map<string, number>();
+  for (const card of hand) {
+    if (card.jokerType === 'printed') continue;
+    const key = `${card.suit}-${card.rank}`;
+    counts.set(key, (counts.get(key) || 0) + 1);
+  }
+  let tunnelas = 0;
+  counts.forEach(count => {
+    tunnelas += Math.floor(count / 3);
+  });
+  return tunnelas;
+};
+
+/**
+ * Bonus points one hand earns for tunnelas, marriages and value cards
+ */
+export const calculateTwentyOneBonus = (hand: Card[], wildJokerCard: Card | null): number => {
+  let bonus = countTunnelas(hand) * TWENTY_ONE_BONUS_POINTS.tunnela;
+  if (!wildJokerCard) return bonus;
+
+  const [downRank, upRank] = getUpDownJokerRanks(wildJokerCard);
+  const naturals = hand.filter(card => card.jokerType !== 'printed');
+  const count = (suit: Card['suit'], rank: Card['rank']) =>
+    naturals.filter(card => card.suit === suit && card.rank === rank).length;
+
+  const downs = count(wildJokerCard.suit, downRank);
+  const tiplus = count(wildJokerCard.suit, wildJokerCard.rank);
+  const ups = count(wildJokerCard.suit, upRank);
+  const alters = count(ALTER_SUIT[wildJokerCard.suit], wildJokerCard.rank);
+  const marriages = Math.min(downs, tiplus, ups);
+  const valueCards = downs + tiplus + ups - marriages * 3 + alters;
+
+  bonus += marriages * TWENTY_ONE_BONUS_POINTS.marriage;
+  bonus += valueCards * TWENTY_ONE_BONUS_POINTS.valueCard;
+  return bonus;
+};
+
+/**
+ * Bonus points for every player at the end of a round
+ * The declarer always collects; others only with the pure sequences a declaration needs
+ */
+export const calculateTwentyOneBonuses = (
+  hands: { [playerId: string]: Card[] },
+  wildJokerCard: Card | null,
+  winnerId: string,
+  rules: MeldRules
+): { [playerId: string]: number } => {
+  const bonuses: { [playerId: string]: number } = {};
+
+  for (const playerId of Object.keys(hands)) {
+    const eligible = playerId === winnerId ||
+      autoArrangeHand(hands[playerId], rules).pureSequenceCount >= rules.requiredPureSequences;
+    bonuses[playerId] = eligible ? calculateTwentyOneBonus(hands[playerId], wildJokerCard) : 0;
+  }
+
+  return bonuses;
+};
+
+/**
+ * Settle bonuses against round scores
+ * Each player collects their bonus from every other player, so a round score can go negative
+ */
+export const settleTwentyOneBonuses = (
+  roundScores: { [playerId: string]: number },
+  bonuses: { [playerId: string]: number }
+): { [playerId: string]: number } => {
+  const playerIds = Object.keys(roundScores);
+  const settled: { [playerId: string]: number } = { ...roundScores };
+
+  for (const playerId of playerIds) {
+    const bonus = bonuses[playerId] || 0;
+    for (const otherId of playerIds) {
+      if (otherId === playerId) continue;
+      settled[playerId] -= bonus;
+      settled[otherId] += bonus;
+    }
+  }
+
+  return settled;
+};
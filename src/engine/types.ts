@@ -25,7 +25,7 @@ export interface Card {
 /**
  * Types of valid melds in Indian Rummy
  */
-export type MeldType = 'set' | 'sequence' | 'pure-sequence';
+export type MeldType = 'set' | 'sequence' | 'pure-sequence' | 'tunnela' | 'dublee';
 
 /**
  * A meld is a valid group of cards (set or sequence)
@@ -44,14 +44,20 @@ export interface HandAnalysis {
   deadwood: Card[]; // Cards not in any meld
   deadwoodPoints: number;
   hasPureSequence: boolean;
-  sequenceCount: number;
+  pureSequenceCount: number; // Tunnelas count as pure sequences
+  sequenceCount: number; // Pure sequences and tunnelas included
   canDeclare: boolean; // True if valid declaration possible
 }
 
 /**
  * Bot difficulty levels
  */
-export type BotDifficulty = 'easy' | 'medium' | 'hard';
+export type BotDifficulty = 'easy' | 'medium' | 'hard' | 'expert';
+
+/**
+ * Bot playing styles, layered on top of the difficulty
+ */
+export type BotPersonality = 'balanced' | 'aggressive' | 'cautious' | 'joker-hoarder' | 'fisher';
 
 /**
  * A player in the practice game
@@ -61,9 +67,19 @@ export interface PracticePlayer {
   name: string;
   isBot: boolean;
   difficulty?: BotDifficulty;
+  personality?: BotPersonality; // Defaults to balanced
   avatar?: string;
 }
 
+/**
+ * Setup for one bot seat in a practice game
+ */
+export interface BotSeat {
+  name?: string; // Defaults to a name for the difficulty
+  difficulty: BotDifficulty;
+  personality?: BotPersonality; // Defaults to balanced
+}
+
 /**
  * Result of a completed round
  */
@@ -75,24 +91,70 @@ export interface RoundResult {
   timestamp: number;
   declaredMelds?: Meld[]; // Melds as declared by the winner (if declaration)
   finalHands?: { [playerId: string]: Card[] }; // All players' hands at round end
+  bonuses?: { [playerId: string]: number }; // 21-card: bonus points each player collected (already in scores)
+  droppedPlayers?: string[]; // Players who dropped during the round
+  actions?: RoundAction[]; // The round's action log, from the deal to the last move
 }
 
 /**
  * Game variants supported in practice mode
  */
-export type PracticeVariant = 'pool' | 'points' | 'deals';
+export type PracticeVariant = 'pool' | 'points' | 'deals' | 'twenty-one';
+
+/**
+ * Deck composition for a game
+ */
+export interface DeckConfig {
+  deckCount: number | 'auto'; // 'auto' picks from the player count (see getDeckCount)
+  printedJokersPerDeck: number;
+  wildJoker: boolean; // Cut a wild joker card after dealing
+  upDownJokers?: boolean; // 21-card: the ranks either side of the wild joker, in its suit, are jokers too
+}
+
+/**
+ * House rules for which groups of cards count as melds, and what a declaration needs
+ */
+export interface MeldRules {
+  minMeldSize: number; // Fewest cards in a set or sequence
+  maxSetSize: number; // Most cards in a set, jokers included
+  aceLow: boolean; // A-2-3 is a sequence
+  aceHigh: boolean; // Q-K-A is a sequence
+  wraparound: boolean; // K-A-2 is a sequence (Ace can also sit at either end)
+  duplicateSuitsInSet: boolean; // A set may repeat a suit (e.g. 7♠ 7♠ 7♥ from two decks)
+  tunnelas: boolean; // Three identical cards form a tunnela, which counts as a pure sequence
+  handSize: number; // Cards in a declared hand
+  requiredPureSequences: number; // First life
+  requiredSequences: number; // Second life - sets only count once this many sequences are made
+  dubleesToDeclare: number | null; // Pairs of identical cards that win outright, if allowed
+}
+
+/**
+ * Named house rule sets offered in practice setup
+ */
+export type MeldRulesPreset = 'standard' | 'round-the-corner' | 'ace-low-only' | 'duplicate-sets';
 
 /**
  * Configuration for a practice game
  */
 export interface PracticeGameConfig {
   variant: PracticeVariant;
+  deck?: DeckConfig; // Defaults to DEFAULT_DECK_CONFIG
+  meldRules?: MeldRules; // Defaults to DEFAULT_MELD_RULES
   poolLimit?: number; // For pool rummy (e.g., 101, 201, 250)
   numberOfDeals?: number; // For deals rummy
   pointValue?: number; // For points rummy
   firstDropPenalty: number;
   middleDropPenalty: number;
   invalidDeclarationPenalty: number;
+  adaptive?: boolean; // Bots tune their strength to the human's results (see bot/adaptive)
+}
+
+/**
+ * Adaptive difficulty level of a practice game
+ */
+export interface AdaptiveState {
+  level: number; // 1 (gentlest) to 10 (strongest)
+  roundsCounted: number; // Round results already taken into account
 }
 
 /**
@@ -110,6 +172,15 @@ export type TurnPhase = 'draw' | 'discard';
  */
 export type DrawSource = 'deck' | 'discard';
 
+/**
+ * What the table has seen one player do this round
+ */
+export interface PlayerObservations {
+  pickedUp: Card[]; // Cards taken from the open discard pile, oldest first
+  discarded: Card[]; // Cards thrown, oldest first
+  deckDraws: number; // Blind draws from the deck
+}
+
 /**
  * State of a single round
  */
@@ -125,6 +196,10 @@ export interface RoundState {
   wildJokerCard: Card | null; // The card that determines wild jokers
   droppedPlayers: string[]; // IDs of players who dropped this round
   humanHasDrawn: boolean; // Has human drawn at least once (for drop penalty: 25 before, 50 after)
+  seed: number; // Shuffle seed - re-dealing with it reproduces the round's deal card for card
+  reshuffleCount: number; // Times the discard pile was shuffled back into the draw pile
+  observations?: { [playerId: string]: PlayerObservations }; // Missing in rounds saved before tracking
+  actions?: RoundAction[]; // Action log so far, starting with the deal; missing in rounds saved before logging
   lastAction?: {
     playerId: string;
     action: 'draw' | 'discard' | 'declare' | 'drop';
@@ -146,15 +221,16 @@ export interface PracticeGameState {
   scores: { [playerId: string]: number }; // Cumulative scores
   gamePhase: 'setup' | 'playing' | 'ended';
   winner: PracticePlayer | null;
+  adaptive?: AdaptiveState; // Set when config.adaptive is on
   createdAt: number;
   updatedAt: number;
 }
 
 /**
- * Action types for game state updates
+ * Action types for game state updates (applied by reduce in ./reducer)
  */
 export type GameAction =
-  | { type: 'START_ROUND' }
+  | { type: 'START_ROUND'; seed?: number; dealerIndex?: number } // Pass a seed (and dealer seat) to reproduce a deal
   | { type: 'DRAW_CARD'; playerId: string; source: DrawSource }
   | { type: 'DISCARD_CARD'; playerId: string; card: Card }
   | { type: 'DECLARE'; playerId: string; melds: Meld[]; deadwood: Card[] }
@@ -162,6 +238,15 @@ export type GameAction =
   | { type: 'END_ROUND'; result: RoundResult }
   | { type: 'END_GAME'; winnerId: string };
 
+/**
+ * An entry in a round's action log: the deal (with the seed it used), then each player's moves
+ * Applying the entries in order to the game as it stood before the deal replays the round
+ */
+export type RoundAction = Extract<
+  GameAction,
+  { type: 'START_ROUND' | 'DRAW_CARD' | 'DISCARD_CARD' | 'DECLARE' | 'DROP' }
+>;
+
 /**
  * Bot decision result
  */
@@ -181,6 +266,16 @@ export const RANKS: Rank[] = ['A', '2', '3', '4', '5', '6', '7', '8', '9', '10',
 export const SUITS: Suit[] = ['hearts', 'diamonds', 'clubs', 'spades'];
 export const CARDS_PER_PLAYER = 13;
 export const PRINTED_JOKERS_PER_DECK = 2;
+export const MAX_DECK_COUNT = 3;
+
+/**
+ * Default deck composition: deck count from player count, 2 printed jokers per deck, wild joker on
+ */
+export const DEFAULT_DECK_CONFIG: DeckConfig = {
+  deckCount: 'auto',
+  printedJokersPerDeck: PRINTED_JOKERS_PER_DECK,
+  wildJoker: true,
+};
 
 /**
  * Get point value for a card
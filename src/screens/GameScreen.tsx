@@ -1,4 +1,4 @@
-import React, { useState, useRef, useMemo } from 'react';
+import React, { useState, useRef, useMemo, useEffect } from 'react';
 import {
   View,
   Text,
@@ -19,14 +19,32 @@ import { ScoreInput, SplitPotShare } from '../types/game';
 import FireworksModal from '../components/FireworksModal';
 import ConfirmationDialog from '../components/ConfirmationDialog';
 import SplitPotModal from '../components/SplitPotModal';
+import HandEntryModal from '../components/HandEntryModal';
 import Icon from '../components/Icon';
 import { ThemeColors, Typography, Spacing, TapTargets, IconSize, BorderRadius } from '../theme';
+import { Card, Rank } from '../engine/types';
+import { DEFAULT_MELD_RULES } from '../engine/meld';
+import { withTwentyOneRules } from '../engine/twentyOne';
+import { scoreRemainingHand } from '../engine/analysis';
 
-// States: 0 = default (25 drop), 1 = winner (0), 2 = custom score, 3 = invalid declaration (80)
-type PlayerState = 0 | 1 | 2 | 3;
+// States: 0 = default (25 drop), 1 = winner (0), 2 = custom score, 3 = invalid declaration (80),
+// 4 = remaining cards tapped in and counted
+type PlayerState = 0 | 1 | 2 | 3 | 4;
 
 const GameScreen = ({ navigation }: any) => {
-  const { currentGame, addRound, canPlayersRejoin, rejoinPlayer, canSplitPot, splitPot, getTotalPot } = useGame();
+  const {
+    currentGame,
+    addRound,
+    canPlayersRejoin,
+    rejoinPlayer,
+    canSplitPot,
+    splitPot,
+    getTotalPot,
+    undo,
+    redo,
+    getUndoAction,
+    getRedoAction,
+  } = useGame();
   const { colors } = useTheme();
   const styles = useMemo(() => createStyles(colors), [colors]);
   const [playerStates, setPlayerStates] = useState<{ [playerId: string]: PlayerState }>({});
@@ -38,8 +56,22 @@ const GameScreen = ({ navigation }: any) => {
   const [errorMessage, setErrorMessage] = useState('');
   const [pendingScores, setPendingScores] = useState<ScoreInput[] | null>(null);
   const [showSplitPot, setShowSplitPot] = useState(false);
+  const [enteredHands, setEnteredHands] = useState<{ [playerId: string]: Card[] }>({});
+  const [wildJokerRank, setWildJokerRank] = useState<Rank | null>(null);
+  const [handEntryPlayerId, setHandEntryPlayerId] = useState<string | null>(null);
   const inputRefs = useRef<{ [playerId: string]: TextInput | null }>({});
 
+  // Entries belong to one table; player ids repeat across tables, so start afresh on a switch
+  const gameId = currentGame?.id;
+  useEffect(() => {
+    setPlayerStates({});
+    setCustomScores({});
+    setEnteredHands({});
+    setWildJokerRank(null);
+    setPendingScores(null);
+    setHandEntryPlayerId(null);
+  }, [gameId]);
+
   // Track touch position for swipe detection
   const touchStartX = useRef(0);
   const touchStartY = useRef(0);
@@ -64,6 +96,10 @@ const GameScreen = ({ navigation }: any) => {
     return null;
   }
 
+  const meldRules = currentGame.config.variant === 'twenty-one'
+    ? withTwentyOneRules(DEFAULT_MELD_RULES)
+    : DEFAULT_MELD_RULES;
+
   const hasWinner = Object.values(playerStates).includes(1);
   const hasInvalidDeclaration = Object.values(playerStates).includes(3);
   const roundStarter = hasWinner || hasInvalidDeclaration;
@@ -86,8 +122,8 @@ const GameScreen = ({ navigation }: any) => {
       // No winner/invalid yet - first tap sets winner
       newStates[playerId] = 1;
     } else {
-      // Cycle losers: 0 (drop 25) -> 2 (custom) -> 0
-      const loserCycle: PlayerState[] = [0, 2];
+      // Cycle losers: 0 (drop 25) -> 2 (custom) -> 4 (cards) -> 0
+      const loserCycle: PlayerState[] = [0, 2, 4];
       const currentIndex = loserCycle.indexOf(currentState);
       const nextIndex = (currentIndex + 1) % loserCycle.length;
       newStates[playerId] = loserCycle[nextIndex];
@@ -98,6 +134,11 @@ const GameScreen = ({ navigation }: any) => {
           inputRefs.current[playerId]?.focus();
         }, 100);
       }
+
+      // Open the card picker when entering cards state
+      if (loserCycle[nextIndex] === 4) {
+        setHandEntryPlayerId(playerId);
+      }
     }
 
     setPlayerStates(newStates);
@@ -128,6 +169,21 @@ const GameScreen = ({ navigation }: any) => {
     }
   };
 
+  // Count entered cards like a typed score: at least 2 for a loser
+  const countHand = (hand: Card[], wildRank: Rank | null): number =>
+    Math.max(2, scoreRemainingHand(hand, wildRank, meldRules));
+
+  const isHandComplete = (playerId: string): boolean =>
+    (enteredHands[playerId]?.length ?? 0) === meldRules.handSize;
+
+  const handleHandEntryDone = (hand: Card[], wildRank: Rank | null) => {
+    if (handEntryPlayerId) {
+      setEnteredHands({ ...enteredHands, [handEntryPlayerId]: hand });
+    }
+    setWildJokerRank(wildRank);
+    setHandEntryPlayerId(null);
+  };
+
   const getPlayerScore = (playerId: string): number => {
     const state = playerStates[playerId] || 0;
     switch (state) {
@@ -139,6 +195,8 @@ const GameScreen = ({ navigation }: any) => {
         return score < 2 ? 2 : score;
       }
       case 3: return 80; // Invalid declaration
+      case 4: // Cards: counted once all are entered
+        return isHandComplete(playerId) ? countHand(enteredHands[playerId], wildJokerRank) : 2;
       default: return 25;
     }
   };
@@ -149,6 +207,7 @@ const GameScreen = ({ navigation }: any) => {
       case 1: return 'Winner';
       case 2: return 'Custom';
       case 3: return 'Invalid';
+      case 4: return 'Cards';
       default: return 'Drop';
     }
   };
@@ -167,6 +226,15 @@ const GameScreen = ({ navigation }: any) => {
       setCustomScores(updatedScores);
     }
 
+    const incompleteHand = currentGame.players.find(
+      p => !p.isEliminated && playerStates[p.id] === 4 && !isHandComplete(p.id)
+    );
+    if (incompleteHand) {
+      setErrorMessage(`Enter all ${meldRules.handSize} of ${incompleteHand.name}'s cards`);
+      setShowError(true);
+      return;
+    }
+
     const scores: ScoreInput[] = currentGame.players
       .filter(p => !p.isEliminated)
       .map(p => ({
@@ -176,6 +244,7 @@ const GameScreen = ({ navigation }: any) => {
           : getPlayerScore(p.id),
         isDeclared: playerStates[p.id] === 1,
         hasInvalidDeclaration: playerStates[p.id] === 3,
+        cards: playerStates[p.id] === 4 ? enteredHands[p.id] : undefined,
       }));
 
     const declaredCount = scores.filter(s => s.isDeclared).length;
@@ -218,9 +287,11 @@ const GameScreen = ({ navigation }: any) => {
       }
     }
 
-    addRound(pendingScores);
+    addRound(currentGame.id, pendingScores, wildJokerRank);
     setPlayerStates({});
     setCustomScores({});
+    setEnteredHands({});
+    setWildJokerRank(null);
     setPendingScores(null);
     setShowConfirmation(false);
 
@@ -237,20 +308,24 @@ const GameScreen = ({ navigation }: any) => {
   };
 
   const handleSplitPotConfirm = (shares: SplitPotShare[]) => {
-    splitPot(shares);
+    splitPot(currentGame.id, shares);
     setShowSplitPot(false);
     navigation.navigate('History');
   };
 
   const activePlayers = currentGame.players.filter(p => !p.isEliminated);
   const eliminatedPlayers = currentGame.players.filter(p => p.isEliminated);
-  const rejoinEnabled = canPlayersRejoin();
+  const rejoinEnabled = canPlayersRejoin(currentGame.id);
+  const undoAction = getUndoAction(currentGame.id);
+  const redoAction = getRedoAction(currentGame.id);
 
   const getGameTypeLabel = () => {
     if (currentGame.config.variant === 'pool') {
       return `Pool ${currentGame.config.poolLimit}`;
     } else if (currentGame.config.variant === 'deals') {
       return `Deal ${currentGame.currentDeal}/${currentGame.config.numberOfDeals}`;
+    } else if (currentGame.config.variant === 'twenty-one') {
+      return `21 Card ${currentGame.currentDeal}/${currentGame.config.numberOfDeals}`;
     }
     return 'Points';
   };
@@ -282,7 +357,7 @@ const GameScreen = ({ navigation }: any) => {
               )}
               <View style={styles.infoBadge}>
                 <Icon
-                  name={currentGame.config.variant === 'pool' ? 'person.3.fill' : currentGame.config.variant === 'deals' ? 'square.stack.fill' : 'star.fill'}
+                  name={currentGame.config.variant === 'pool' ? 'person.3.fill' : currentGame.config.variant === 'deals' || currentGame.config.variant === 'twenty-one' ? 'square.stack.fill' : 'star.fill'}
                   size={IconSize.small}
                   color={colors.accent}
                   weight="medium"
@@ -318,7 +393,7 @@ const GameScreen = ({ navigation }: any) => {
             <Icon name="hand.tap.fill" size={IconSize.medium} color={colors.secondaryLabel} weight="medium" />
             <Text style={styles.instructionText}>
               {roundStarter
-                ? 'Tap player to cycle: Drop → Custom'
+                ? 'Tap player to cycle: Drop → Custom → Cards'
                 : 'Tap player to select winner'}
             </Text>
           </View>
@@ -328,6 +403,22 @@ const GameScreen = ({ navigation }: any) => {
             <View style={styles.sectionHeader}>
               <Text style={styles.sectionLabel}>PLAYERS</Text>
               <View style={styles.sectionActions}>
+                <TouchableOpacity
+                  style={[styles.sectionButton, !undoAction && styles.sectionButtonDisabled]}
+                  onPress={() => undo(currentGame.id)}
+                  disabled={!undoAction}
+                  accessibilityLabel={undoAction ? `Undo ${undoAction}` : 'Undo'}
+                  accessibilityRole="button">
+                  <Icon name="arrow.uturn.backward" size={IconSize.small} color={colors.gold} weight="medium" />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.sectionButton, !redoAction && styles.sectionButtonDisabled]}
+                  onPress={() => redo(currentGame.id)}
+                  disabled={!redoAction}
+                  accessibilityLabel={redoAction ? `Redo ${redoAction}` : 'Redo'}
+                  accessibilityRole="button">
+                  <Icon name="arrow.uturn.forward" size={IconSize.small} color={colors.gold} weight="medium" />
+                </TouchableOpacity>
                 <TouchableOpacity
                   style={styles.sectionButton}
                   onPress={() => navigation.navigate('History')}
@@ -336,7 +427,7 @@ const GameScreen = ({ navigation }: any) => {
                   <Icon name="chart.bar.fill" size={IconSize.small} color={colors.gold} weight="medium" />
                   <Text style={styles.sectionButtonText}>Scores</Text>
                 </TouchableOpacity>
-                {canSplitPot() && (
+                {canSplitPot(currentGame.id) && (
                   <TouchableOpacity
                     style={styles.sectionButton}
                     onPress={() => setShowSplitPot(true)}
@@ -427,7 +518,17 @@ const GameScreen = ({ navigation }: any) => {
 
                     {/* Points Input/Display */}
                     <View style={styles.ptsColumn}>
-                      {state === 2 ? (
+                      {state === 4 ? (
+                        <TouchableOpacity
+                          style={styles.cardsButton}
+                          onPress={() => setHandEntryPlayerId(player.id)}
+                          accessibilityLabel={`Edit ${player.name}'s cards`}
+                          accessibilityRole="button">
+                          <Text style={styles.cardsButtonText}>
+                            {isHandComplete(player.id) ? getPlayerScore(player.id) : '—'}
+                          </Text>
+                        </TouchableOpacity>
+                      ) : state === 2 ? (
                         <TextInput
                           ref={ref => { inputRefs.current[player.id] = ref; }}
                           style={styles.scoreInput}
@@ -479,7 +580,7 @@ const GameScreen = ({ navigation }: any) => {
                           styles.rejoinButton,
                           !rejoinEnabled && styles.rejoinButtonDisabled,
                         ]}
-                        onPress={() => rejoinPlayer(player.id)}
+                        onPress={() => rejoinPlayer(currentGame.id, player.id)}
                         disabled={!rejoinEnabled}
                         accessibilityLabel={`Rejoin ${player.name}`}
                         accessibilityRole="button">
@@ -556,9 +657,20 @@ const GameScreen = ({ navigation }: any) => {
           onCancel={() => setShowError(false)}
         />
 
+        <HandEntryModal
+          visible={handEntryPlayerId !== null}
+          playerName={currentGame.players.find(p => p.id === handEntryPlayerId)?.name || ''}
+          initialHand={(handEntryPlayerId && enteredHands[handEntryPlayerId]) || []}
+          wildJokerRank={wildJokerRank}
+          rules={meldRules}
+          scoreHand={countHand}
+          onDone={handleHandEntryDone}
+          onClose={() => setHandEntryPlayerId(null)}
+        />
+
         <SplitPotModal
           visible={showSplitPot}
-          totalPot={getTotalPot()}
+          totalPot={getTotalPot(currentGame.id)}
           poolLimit={currentGame.config.poolLimit || 250}
           activePlayers={activePlayers}
           onConfirm={handleSplitPotConfirm}
@@ -692,6 +804,9 @@ const createStyles = (colors: ThemeColors) => StyleSheet.create({
     fontWeight: '600',
     color: colors.gold,
   },
+  sectionButtonDisabled: {
+    opacity: 0.4,
+  },
 
   // Card Styles
   card: {
@@ -828,6 +943,21 @@ const createStyles = (colors: ThemeColors) => StyleSheet.create({
   pointsDisplayWinner: {
     color: colors.success,
   },
+  cardsButton: {
+    backgroundColor: colors.tint + '20',
+    borderWidth: 1,
+    borderColor: colors.tint,
+    borderRadius: BorderRadius.small,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 4,
+    minWidth: 48,
+    alignItems: 'center',
+  },
+  cardsButtonText: {
+    color: colors.tint,
+    fontSize: 14,
+    fontWeight: '600',
+  },
   scoreInput: {
     backgroundColor: colors.background,
     borderWidth: 1,
@@ -24,13 +24,14 @@ const GAME_TYPES: { id: GameVariant; label: string }[] = [
   { id: 'pool', label: 'Pool' },
   { id: 'points', label: 'Points' },
   { id: 'deals', label: 'Deals' },
+  { id: 'twenty-one', label: '21 Card' },
 ];
 
 const POOL_LIMIT_OPTIONS = ['101', '201', '250', 'Custom'] as const;
 const PRESET_POOL_LIMITS = [101, 201, 250] as const;
 
 const GameSetupScreen = ({ navigation }: any) => {
-  const { createGame, resetGame } = useGame();
+  const { createGame } = useGame();
   const { colors } = useTheme();
   const { defaults, getEffectiveDefaults, saveLastGameSettings } = useSettings();
   const styles = useMemo(() => createStyles(colors), [colors]);
@@ -176,7 +177,7 @@ const GameSetupScreen = ({ navigation }: any) => {
         joinTableAmount: effectiveJoinTableAmount,
       }),
       ...(effectiveVariant === 'points' && { pointValue }),
-      ...(effectiveVariant === 'deals' && { numberOfDeals: effectiveDeals }),
+      ...((effectiveVariant === 'deals' || effectiveVariant === 'twenty-one') && { numberOfDeals: effectiveDeals }),
     };
 
     // Save last game settings for "Remember Last Game" feature
@@ -191,7 +192,6 @@ const GameSetupScreen = ({ navigation }: any) => {
       joinTableAmount: effectiveJoinTableAmount,
     });
 
-    resetGame();
     // Pass dealerId - if selected, use that; otherwise createGame will default to last player
     const dealerId = selectedDealerId || undefined;
     createGame(config, validPlayers, gameName.trim() || undefined, dealerId);
@@ -208,6 +208,8 @@ const GameSetupScreen = ({ navigation }: any) => {
         return 'Cash game - winner collects from losers based on their hand value × point value.';
       case 'deals':
         return 'Fixed number of deals. Player with lowest total score wins.';
+      case 'twenty-one':
+        return '21 cards from 3 decks. Needs 3 pure sequences (or 8 dublees). Fixed number of deals, lowest total score wins.';
     }
   };
 
@@ -217,6 +219,8 @@ const GameSetupScreen = ({ navigation }: any) => {
       return `Pool ${defaults.poolLimit}`;
     } else if (v === 'deals') {
       return `${defaults.numberOfDeals} Deals`;
+    } else if (v === 'twenty-one') {
+      return `21 Card, ${defaults.numberOfDeals} Deals`;
     }
     return 'Points';
   };
@@ -285,7 +289,7 @@ const GameSetupScreen = ({ navigation }: any) => {
               />
               <View style={styles.variantDescriptionContainer}>
                 <Icon
-                  name={variant === 'pool' ? 'person.3.fill' : variant === 'deals' ? 'square.stack.fill' : 'star.fill'}
+                  name={variant === 'pool' ? 'person.3.fill' : variant === 'deals' || variant === 'twenty-one' ? 'square.stack.fill' : 'star.fill'}
                   size={IconSize.medium}
                   color={colors.tint}
                   weight="medium"
@@ -420,7 +424,7 @@ const GameSetupScreen = ({ navigation }: any) => {
         )}
 
         {/* Number of Deals Section - Only show when not using defaults */}
-        {!useDefaults && variant === 'deals' && (
+        {!useDefaults && (variant === 'deals' || variant === 'twenty-one') && (
           <View style={styles.section}>
             <Text style={styles.sectionLabel}>NUMBER OF DEALS</Text>
             <View style={styles.card}>
@@ -0,0 +1,308 @@
+/**
+ * HandAnalysisScreen
+ *
+ * A sandbox for settling arguments about a hand. Pick 13 or 14 cards from the
+ * grid or paste them in card notation, choose the wild joker rank, and see the
+ * best arrangement, why it does or doesn't declare, its points and, holding a
+ * drawn card, which discard leaves the best hand.
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useTheme } from '../context/ThemeContext';
+import Icon from '../components/Icon';
+import { ArrangedHand, Card, CardPicker, WildJokerPicker } from '../components/practice';
+import { ThemeColors, Typography, Spacing, BorderRadius } from '../theme';
+import { Card as CardType, Rank } from '../engine/types';
+import { DEFAULT_MELD_RULES } from '../engine/meld';
+import { analyzeHand, setWildJokerRank } from '../engine/analysis';
+import { formatCard, formatHand, parseHand } from '../engine/notation';
+
+const HAND_SIZE = DEFAULT_MELD_RULES.handSize;
+const MAX_CARDS = HAND_SIZE + 1;
+
+const HandAnalysisScreen = () => {
+  const { colors } = useTheme();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
+  const [hand, setHand] = useState<CardType[]>([]);
+  const [wildRank, setWildRank] = useState<Rank | null>(null);
+  const [pasteText, setPasteText] = useState('');
+  const [pasteError, setPasteError] = useState<string | null>(null);
+
+  const cards = useMemo(() => setWildJokerRank(hand, wildRank), [hand, wildRank]);
+  const report = useMemo(
+    () => (cards.length >= HAND_SIZE ? analyzeHand(cards, DEFAULT_MELD_RULES) : null),
+    [cards]
+  );
+  const bestDiscard = report?.discards[0];
+
+  const handleLoad = () => {
+    const result = parseHand(pasteText);
+    if (!result.ok) {
+      setPasteError(result.error.message);
+      return;
+    }
+    if (result.cards.length > MAX_CARDS) {
+      setPasteError(`A hand holds at most ${MAX_CARDS} cards, not ${result.cards.length}`);
+      return;
+    }
+    // Wild marks in the text pick the wild joker rank
+    const wild = result.cards.find(card => card.jokerType === 'wild');
+    if (wild) setWildRank(wild.rank);
+    setHand(result.cards);
+    setPasteText('');
+    setPasteError(null);
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['left', 'right', 'bottom']}>
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Wild joker */}
+        <Text style={styles.sectionLabel}>WILD JOKER</Text>
+        <WildJokerPicker rank={wildRank} onChange={setWildRank} />
+
+        {/* Hand */}
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionLabel}>
+            HAND · {hand.length} OF {HAND_SIZE}–{MAX_CARDS}
+          </Text>
+          {hand.length > 0 && (
+            <TouchableOpacity onPress={() => setHand([])} accessibilityRole="button">
+              <Text style={styles.linkText}>Clear</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+        <View style={styles.card}>
+          <CardPicker
+            hand={cards}
+            maxCards={MAX_CARDS}
+            onChange={setHand}
+            emptyText="Tap cards below to add them, or paste a hand."
+          />
+          {cards.length > 0 && (
+            <Text style={styles.notation} selectable>
+              {formatHand(cards)}
+            </Text>
+          )}
+        </View>
+
+        {/* Paste */}
+        <View style={styles.card}>
+          <View style={styles.pasteRow}>
+            <TextInput
+              style={styles.input}
+              value={pasteText}
+              onChangeText={value => {
+                setPasteText(value);
+                setPasteError(null);
+              }}
+              placeholder="AH 2H 3H | 7S 7D 7C | JK"
+              placeholderTextColor={colors.placeholder}
+              autoCapitalize="characters"
+              autoCorrect={false}
+              onSubmitEditing={handleLoad}
+            />
+            <TouchableOpacity
+              style={[styles.loadButton, !pasteText.trim() && styles.loadButtonDisabled]}
+              onPress={handleLoad}
+              disabled={!pasteText.trim()}
+            >
+              <Text style={styles.loadButtonText}>Load</Text>
+            </TouchableOpacity>
+          </View>
+          {pasteError && (
+            <View style={styles.errorRow}>
+              <Icon name="exclamationmark.triangle.fill" size={12} color={colors.destructive} />
+              <Text style={styles.errorText}>{pasteError}</Text>
+            </View>
+          )}
+        </View>
+
+        {/* Analysis */}
+        <Text style={styles.sectionLabel}>ANALYSIS</Text>
+        {!report ? (
+          <View style={styles.card}>
+            <Text style={styles.helperText}>
+              Pick {HAND_SIZE - cards.length} more {HAND_SIZE - cards.length === 1 ? 'card' : 'cards'} to analyse the hand.
+            </Text>
+          </View>
+        ) : (
+          <View style={styles.card}>
+            <View style={styles.verdictRow}>
+              <Icon
+                name={report.declaration.isValid ? 'checkmark.circle.fill' : 'xmark.circle.fill'}
+                size={20}
+                color={report.declaration.isValid ? colors.success : colors.destructive}
+              />
+              <Text style={styles.verdictText}>
+                {report.declaration.isValid ? 'Valid declaration' : 'Not declarable'}
+              </Text>
+              <Text style={styles.pointsText}>{report.points} pts</Text>
+            </View>
+            {bestDiscard && (
+              <Text style={styles.helperText}>After discarding {formatCard(bestDiscard.card)}</Text>
+            )}
+            <ArrangedHand melds={report.arrangement.melds} deadwood={report.arrangement.deadwood} />
+            {report.declaration.errors.map(error => (
+              <View key={`${error.code}-${error.meldIndex ?? ''}`} style={styles.errorRow}>
+                <Icon name="exclamationmark.triangle.fill" size={12} color={colors.destructive} />
+                <Text style={styles.errorText}>{error.message}</Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {/* Discard options for a hand holding a drawn card */}
+        {report && report.discards.length > 0 && (
+          <>
+            <Text style={styles.sectionLabel}>DISCARDS</Text>
+            <View style={styles.card}>
+              {report.discards.map((option, index) => (
+                <View
+                  key={option.card.id}
+                  style={[styles.discardRow, index === 0 && styles.bestDiscardRow]}
+                >
+                  <Card card={option.card} size="tiny" />
+                  <Text style={styles.discardText}>
+                    Leaves {option.points} pts{option.canDeclare ? ' · declares' : ''}
+                  </Text>
+                  {index === 0 && <Text style={styles.bestLabel}>Best</Text>}
+                </View>
+              ))}
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    content: {
+      padding: Spacing.md,
+      gap: Spacing.sm,
+    },
+    sectionHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+    },
+    sectionLabel: {
+      ...Typography.footnote,
+      color: colors.secondaryLabel,
+      fontWeight: '600',
+      marginTop: Spacing.sm,
+    },
+    linkText: {
+      ...Typography.footnote,
+      color: colors.accent,
+      fontWeight: '600',
+      marginTop: Spacing.sm,
+    },
+    card: {
+      backgroundColor: colors.cardBackground,
+      borderRadius: BorderRadius.medium,
+      padding: Spacing.sm,
+      borderWidth: 1,
+      borderColor: colors.separator,
+      gap: Spacing.xs,
+    },
+    notation: {
+      ...Typography.caption1,
+      color: colors.secondaryLabel,
+      fontFamily: 'Menlo',
+    },
+    helperText: {
+      ...Typography.footnote,
+      color: colors.secondaryLabel,
+    },
+    pasteRow: {
+      flexDirection: 'row',
+      gap: Spacing.sm,
+    },
+    input: {
+      ...Typography.footnote,
+      flex: 1,
+      color: colors.label,
+      backgroundColor: colors.background,
+      borderRadius: BorderRadius.medium,
+      borderWidth: 1,
+      borderColor: colors.separator,
+      paddingHorizontal: Spacing.sm,
+      paddingVertical: Spacing.xs,
+    },
+    loadButton: {
+      backgroundColor: colors.accent,
+      borderRadius: BorderRadius.medium,
+      paddingHorizontal: Spacing.md,
+      justifyContent: 'center',
+    },
+    loadButtonDisabled: {
+      opacity: 0.5,
+    },
+    loadButtonText: {
+      ...Typography.subheadline,
+      color: '#FFFFFF',
+      fontWeight: '600',
+    },
+    errorRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: Spacing.xs,
+    },
+    errorText: {
+      ...Typography.caption1,
+      color: colors.destructive,
+      flex: 1,
+    },
+    verdictRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: Spacing.xs,
+    },
+    verdictText: {
+      ...Typography.headline,
+      color: colors.label,
+      flex: 1,
+    },
+    pointsText: {
+      ...Typography.headline,
+      color: colors.label,
+    },
+    discardRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: Spacing.sm,
+      padding: Spacing.xs,
+      borderRadius: BorderRadius.small,
+    },
+    bestDiscardRow: {
+      backgroundColor: colors.success + '20',
+    },
+    discardText: {
+      ...Typography.subheadline,
+      color: colors.label,
+      flex: 1,
+    },
+    bestLabel: {
+      ...Typography.caption1,
+      color: colors.success,
+      fontWeight: '700',
+    },
+  });
+
+export default HandAnalysisScreen;
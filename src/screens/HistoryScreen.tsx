@@ -20,7 +20,7 @@ import { Round } from '../types/game';
 const screenWidth = Dimensions.get('window').width;
 
 const HistoryScreen = ({ navigation, route }: any) => {
-  const { currentGame, gameHistory } = useGame();
+  const { currentGame, activeGames, gameHistory } = useGame();
   const { colors } = useTheme();
   const styles = useMemo(() => createStyles(colors), [colors]);
   const [editingRound, setEditingRound] = useState<Round | null>(null);
@@ -46,14 +46,15 @@ const HistoryScreen = ({ navigation, route }: any) => {
     }
   };
 
-  // Check if viewing a past game from history
+  // Check if viewing a past game from history rather than one at a table
   const gameId = route?.params?.gameId;
-  const viewingHistoricalGame = gameId && gameId !== currentGame?.id;
+  const tableGame = gameId ? activeGames.find(g => g.id === gameId) : currentGame;
+  const viewingHistoricalGame = gameId && !tableGame;
   const historicalGame = viewingHistoricalGame
     ? gameHistory.find(g => g.id === gameId)
     : null;
 
-  const displayGame = historicalGame || currentGame;
+  const displayGame = historicalGame || tableGame;
 
   if (!displayGame) {
     navigation.navigate('Home');
@@ -68,6 +69,21 @@ const HistoryScreen = ({ navigation, route }: any) => {
     return displayGame.rounds.filter(r => r.winner === playerId).length;
   };
 
+  const getPlayerName = (playerId: string | null) =>
+    playerId ? displayGame.players.find(p => p.id === playerId)?.name ?? 'Unknown' : 'None';
+
+  // Newest first, like the rounds
+  const edits = [...(displayGame.edits ?? [])].reverse();
+  const getEditCount = (roundId: string) => edits.filter(e => e.roundId === roundId).length;
+
+  const formatEditTime = (date: Date) =>
+    new Date(date).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+
   const sortedPlayers = [...displayGame.players].sort((a, b) => {
     if (a.isEliminated && !b.isEliminated) return 1;
     if (!a.isEliminated && b.isEliminated) return -1;
@@ -110,6 +126,8 @@ const HistoryScreen = ({ navigation, route }: any) => {
       return `Pool ${displayGame.config.poolLimit}`;
     } else if (displayGame.config.variant === 'deals') {
       return `${displayGame.config.numberOfDeals} Deals`;
+    } else if (displayGame.config.variant === 'twenty-one') {
+      return `21 Card, ${displayGame.config.numberOfDeals} Deals`;
     }
     return 'Points';
   };
@@ -148,7 +166,7 @@ const HistoryScreen = ({ navigation, route }: any) => {
             )}
             <View style={styles.infoBadge}>
               <Icon
-                name={displayGame.config.variant === 'pool' ? 'person.3.fill' : displayGame.config.variant === 'deals' ? 'square.stack.fill' : 'star.fill'}
+                name={displayGame.config.variant === 'pool' ? 'person.3.fill' : displayGame.config.variant === 'deals' || displayGame.config.variant === 'twenty-one' ? 'square.stack.fill' : 'star.fill'}
                 size={IconSize.small}
                 color={colors.accent}
                 weight="medium"
@@ -306,6 +324,7 @@ const HistoryScreen = ({ navigation, route }: any) => {
             {[...displayGame.rounds].reverse().map((round, index) => {
               const roundNumber = displayGame.rounds.length - index;
               const canEdit = !viewingHistoricalGame;
+              const editCount = getEditCount(round.id);
 
               return (
                 <TouchableOpacity
@@ -321,8 +340,17 @@ const HistoryScreen = ({ navigation, route }: any) => {
                   accessibilityLabel={`Edit round ${roundNumber}`}
                   accessibilityRole="button">
                   <View style={styles.roundHeader}>
-                    <View style={styles.roundNumberBadge}>
-                      <Text style={styles.roundNumberText}>R{roundNumber}</Text>
+                    <View style={styles.roundBadges}>
+                      <View style={styles.roundNumberBadge}>
+                        <Text style={styles.roundNumberText}>R{roundNumber}</Text>
+                      </View>
+                      {editCount > 0 && (
+                        <View style={styles.editedBadge}>
+                          <Text style={styles.editedBadgeText}>
+                            {editCount === 1 ? 'Edited' : `Edited ${editCount}×`}
+                          </Text>
+                        </View>
+                      )}
                     </View>
                     {canEdit && (
                       <Icon name="pencil" size={IconSize.small} color={colors.tertiaryLabel} weight="medium" />
@@ -367,6 +395,59 @@ const HistoryScreen = ({ navigation, route }: any) => {
           </View>
         )}
 
+        {/* Edit Log */}
+        {edits.length > 0 && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeaderRow}>
+              <Text style={styles.sectionLabel}>EDIT LOG</Text>
+              <View style={styles.roundHistoryBadge}>
+                <Text style={styles.roundHistoryBadgeText}>{edits.length}</Text>
+              </View>
+            </View>
+
+            {edits.map(edit => (
+              <View key={edit.id} style={styles.roundCard}>
+                <View style={styles.roundHeader}>
+                  <View style={styles.roundNumberBadge}>
+                    <Text style={styles.roundNumberText}>R{edit.roundNumber}</Text>
+                  </View>
+                  <Text style={styles.editTime}>{formatEditTime(edit.timestamp)}</Text>
+                </View>
+                <View style={styles.roundScores}>
+                  {edit.scores.map(change => (
+                    <View key={change.playerId} style={styles.roundScoreRow}>
+                      <Text style={styles.roundPlayerName}>{getPlayerName(change.playerId)}</Text>
+                      <Text style={styles.roundPlayerScore}>
+                        {change.before} → {change.after}
+                      </Text>
+                    </View>
+                  ))}
+                  {edit.roundWinner && (
+                    <Text style={styles.editNote}>
+                      Round winner: {getPlayerName(edit.roundWinner.before)} → {getPlayerName(edit.roundWinner.after)}
+                    </Text>
+                  )}
+                  {edit.eliminated.length > 0 && (
+                    <Text style={styles.editNote}>
+                      Eliminated: {edit.eliminated.map(getPlayerName).join(', ')}
+                    </Text>
+                  )}
+                  {edit.reinstated.length > 0 && (
+                    <Text style={styles.editNote}>
+                      Back in the game: {edit.reinstated.map(getPlayerName).join(', ')}
+                    </Text>
+                  )}
+                  {edit.gameWinner && (
+                    <Text style={styles.editNote}>
+                      Game winner: {getPlayerName(edit.gameWinner.before)} → {getPlayerName(edit.gameWinner.after)}
+                    </Text>
+                  )}
+                </View>
+              </View>
+            ))}
+          </View>
+        )}
+
         {/* Action Buttons */}
         <View style={styles.actionSection}>
           {viewingHistoricalGame ? (
@@ -394,6 +475,7 @@ const HistoryScreen = ({ navigation, route }: any) => {
       {/* Edit Round Modal */}
       <EditRoundModal
         visible={editingRound !== null}
+        gameId={displayGame.id}
         round={editingRound}
         roundNumber={editingRoundNumber}
         players={displayGame.players}
@@ -690,6 +772,31 @@ const createStyles = (colors: ThemeColors) => StyleSheet.create({
     borderBottomWidth: StyleSheet.hairlineWidth,
     borderBottomColor: colors.separator,
   },
+  roundBadges: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+  },
+  editedBadge: {
+    backgroundColor: colors.warning + '20',
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 4,
+    borderRadius: BorderRadius.small,
+  },
+  editedBadgeText: {
+    ...Typography.caption1,
+    fontWeight: '600',
+    color: colors.warning,
+  },
+  editTime: {
+    ...Typography.caption1,
+    color: colors.secondaryLabel,
+  },
+  editNote: {
+    ...Typography.footnote,
+    color: colors.label,
+    paddingVertical: Spacing.xs,
+  },
   roundNumberBadge: {
     backgroundColor: colors.tint + '20',
     paddingHorizontal: Spacing.sm,
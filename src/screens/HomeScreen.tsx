@@ -5,17 +5,18 @@ import {
   TouchableOpacity,
   StyleSheet,
   ScrollView,
+  Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useGame } from '../context/GameContext';
 import { useTheme } from '../context/ThemeContext';
-import { Game } from '../types/game';
+import { Game, getTableName, isGameInProgress } from '../types/game';
 import Icon from '../components/Icon';
 import SettingsModal from '../components/SettingsModal';
 import { ThemeColors, Typography, Spacing, TapTargets, IconSize, BorderRadius } from '../theme';
 
 const HomeScreen = ({ navigation }: any) => {
-  const { currentGame, gameHistory, loadGame } = useGame();
+  const { activeGames, gameHistory, loadGame, selectGame, closeGame } = useGame();
   const { colors } = useTheme();
   const styles = useMemo(() => createStyles(colors), [colors]);
   const [showSettings, setShowSettings] = useState(false);
@@ -32,12 +33,32 @@ const HomeScreen = ({ navigation }: any) => {
     });
   };
 
+  const tables = activeGames.filter(isGameInProgress);
+
+  const continueGame = (gameId: string) => {
+    selectGame(gameId);
+    navigation.navigate('Game');
+  };
+
+  const confirmCloseTable = (game: Game) => {
+    Alert.alert(
+      'Close Table?',
+      `The game at ${getTableName(game)} will be discarded.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Close', style: 'destructive', onPress: () => closeGame(game.id) },
+      ]
+    );
+  };
+
   const getGameSummary = (game: Game) => {
     const winnerPlayer = game.players.find(p => p.id === game.winner);
     const variant = game.config.variant === 'pool'
       ? `Pool ${game.config.poolLimit}`
       : game.config.variant === 'deals'
       ? `Deals ${game.config.numberOfDeals}`
+      : game.config.variant === 'twenty-one'
+      ? `21 Card ${game.config.numberOfDeals}`
       : 'Points';
     return {
       winner: winnerPlayer?.name || 'Unknown',
@@ -76,24 +97,34 @@ const HomeScreen = ({ navigation }: any) => {
 
         {/* Action Cards */}
         <View style={styles.actionsSection}>
-          {currentGame && !currentGame.winner && (
+          {/* One card per table, so several games can run at once */}
+          {tables.map(game => (
             <TouchableOpacity
+              key={game.id}
               style={styles.actionCard}
-              onPress={() => navigation.navigate('Game')}
-              accessibilityLabel="Continue current game"
+              onPress={() => continueGame(game.id)}
+              accessibilityLabel={`Continue game at ${getTableName(game)}`}
               accessibilityRole="button">
               <View style={[styles.actionIconContainer, { backgroundColor: colors.success + '20' }]}>
                 <Icon name="play.fill" size={IconSize.large} color={colors.success} weight="medium" />
               </View>
               <View style={styles.actionContent}>
-                <Text style={styles.actionTitle}>Continue Game</Text>
+                <Text style={styles.actionTitle} numberOfLines={1}>
+                  {tables.length > 1 ? getTableName(game) : 'Continue Game'}
+                </Text>
                 <Text style={styles.actionSubtitle}>
-                  Round {currentGame.rounds.length + 1} • {currentGame.players.filter(p => !p.isEliminated).length} players
+                  Round {game.rounds.length + 1} • {game.players.filter(p => !p.isEliminated).length} players
                 </Text>
               </View>
-              <Icon name="chevron.right" size={IconSize.medium} color={colors.tertiaryLabel} weight="semibold" />
+              <TouchableOpacity
+                style={styles.closeTableButton}
+                onPress={() => confirmCloseTable(game)}
+                accessibilityLabel={`Close ${getTableName(game)}`}
+                accessibilityRole="button">
+                <Icon name="xmark.circle.fill" size={IconSize.medium} color={colors.tertiaryLabel} weight="medium" />
+              </TouchableOpacity>
             </TouchableOpacity>
-          )}
+          ))}
 
           <TouchableOpacity
             style={styles.actionCard}
@@ -105,7 +136,9 @@ const HomeScreen = ({ navigation }: any) => {
             </View>
             <View style={styles.actionContent}>
               <Text style={styles.actionTitle}>New Game</Text>
-              <Text style={styles.actionSubtitle}>Pool, Points, or Deals</Text>
+              <Text style={styles.actionSubtitle}>
+                {tables.length > 0 ? 'Start another table' : 'Pool, Points, or Deals'}
+              </Text>
             </View>
             <Icon name="chevron.right" size={IconSize.medium} color={colors.tertiaryLabel} weight="semibold" />
           </TouchableOpacity>
@@ -125,6 +158,21 @@ const HomeScreen = ({ navigation }: any) => {
             <Icon name="chevron.right" size={IconSize.medium} color={colors.tertiaryLabel} weight="semibold" />
           </TouchableOpacity>
 
+          <TouchableOpacity
+            style={styles.actionCard}
+            onPress={() => navigation.navigate('HandAnalysis')}
+            accessibilityLabel="Analyse a hand"
+            accessibilityRole="button">
+            <View style={[styles.actionIconContainer, { backgroundColor: colors.success + '20' }]}>
+              <Icon name="rectangle.stack.fill" size={IconSize.large} color={colors.success} weight="medium" />
+            </View>
+            <View style={styles.actionContent}>
+              <Text style={styles.actionTitle}>Hand Analysis</Text>
+              <Text style={styles.actionSubtitle}>Check a hand's melds and points</Text>
+            </View>
+            <Icon name="chevron.right" size={IconSize.medium} color={colors.tertiaryLabel} weight="semibold" />
+          </TouchableOpacity>
+
           <TouchableOpacity
             style={styles.actionCard}
             onPress={() => navigation.navigate('PracticeSetup')}
@@ -289,6 +337,12 @@ const createStyles = (colors: ThemeColors) => StyleSheet.create({
     ...Typography.caption1,
     color: colors.secondaryLabel,
   },
+  closeTableButton: {
+    width: TapTargets.minimum,
+    height: TapTargets.minimum,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
 
   // History Section
   historySection: {
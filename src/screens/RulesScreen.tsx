@@ -60,6 +60,18 @@ const RULES_DATA: RuleSection[] = [
       'Player with lowest total score at the end wins.',
     ],
   },
+  {
+    id: 'twenty-one',
+    title: '21 Card Rummy',
+    icon: 'square.stack.3d.up.fill',
+    content: [
+      'Played with 3 decks, 21 cards each.',
+      'The cards one rank above and below the wild joker, in its suit, are also jokers.',
+      'Declare with 3 pure sequences (a tunnela of 3 identical cards counts as one), or with 8 dublees (identical pairs).',
+      'Marriage (down, wild joker and up of its suit) earns 100 points, a tunnela 30, and each other value card 10 - collected from every other player.',
+      'Fixed number of deals, lowest total score wins.',
+    ],
+  },
   {
     id: 'scoring',
     title: 'Scoring Rules',
@@ -2,7 +2,8 @@
  * PracticeGameScreen
  *
  * Main game screen for practice mode.
- * Shows player hands, piles, and game actions.
+ * Shows player hands, piles, and game actions, with a header for the round
+ * and the effective bot level when adaptive difficulty is on, and an optional coach panel.
  */
 
 import React, { useMemo, useState, useEffect, useCallback, useRef } from 'react';
@@ -11,6 +12,7 @@ import {
   Text,
   StyleSheet,
   Alert,
+  TouchableOpacity,
   useWindowDimensions,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
@@ -18,12 +20,22 @@ import { useNavigation } from '@react-navigation/native';
 import Orientation from 'react-native-orientation-locker';
 import { useTheme } from '../../context/ThemeContext';
 import { usePracticeGame } from '../../context/PracticeGameContext';
-import { Card as CardType, DrawSource, Meld, PracticePlayer } from '../../engine/types';
+import { Card as CardType, DrawSource, Meld, PracticePlayer, CARDS_PER_PLAYER } from '../../engine/types';
 import { smartSortWithGroups, CardWithGroup } from '../../engine/cardSorting';
 import { autoArrangeHand } from '../../engine/declaration';
 import { ThemeColors, Typography, Spacing, BorderRadius } from '../../theme';
 import Icon from '../../components/Icon';
-import { DraggableHand, ActionBar, DeclarationModal, TableView, DrawAnimation, BotDeclarationModal } from '../../components/practice';
+import { DIFFICULTY_LABELS, getOpponentObservations } from '../../engine/bot';
+import { getAdaptiveDifficulty } from '../../engine/bot/adaptive';
+import {
+  DraggableHand,
+  ActionBar,
+  DeclarationModal,
+  TableView,
+  DrawAnimation,
+  BotDeclarationModal,
+  CoachPanel,
+} from '../../components/practice';
 
 // Type for bot declaration info in the queue
 interface BotDeclarationInfo {
@@ -55,6 +67,7 @@ const PracticeGameScreen = () => {
 
   const [selectedCardIds, setSelectedCardIds] = useState<string[]>([]);
   const [showDeclarationModal, setShowDeclarationModal] = useState(false);
+  const [showCoach, setShowCoach] = useState(false);
   const [orderedCards, setOrderedCards] = useState<CardWithGroup[]>([]); // Custom card ordering with meld groups
 
   // Bot declaration modal state - queue of all bot hands to show
@@ -86,6 +99,18 @@ const PracticeGameScreen = () => {
   const rawHand = getPlayerHand('human');
   const topDiscard = getTopDiscard();
 
+  // What the coach reads: this round's discards and the opponents' pickups
+  const liveRound = gameState?.currentRound;
+  const activePlayers = gameState?.activePlayers;
+  const roundDiscards = useMemo(
+    () => Object.values(liveRound?.observations ?? {}).flatMap(seen => seen.discarded),
+    [liveRound?.observations]
+  );
+  const coachOpponents = useMemo(
+    () => (liveRound && activePlayers ? getOpponentObservations(liveRound, activePlayers, 'human') : []),
+    [liveRound, activePlayers]
+  );
+
   // Reset card order when starting a new round (hand is dealt fresh)
   useEffect(() => {
     if (gameState?.currentRound?.roundNumber) {
@@ -273,7 +298,7 @@ const PracticeGameScreen = () => {
 
         const botHand = gameState.currentRound?.hands[player.id] || [];
         if (botHand.length > 0) {
-          const arranged = autoArrangeHand(botHand);
+          const arranged = autoArrangeHand(botHand, gameState.config.meldRules);
           const isWinner = player.id === lastResult.winnerId;
           botDeclarations.push({
             player,
@@ -304,7 +329,7 @@ const PracticeGameScreen = () => {
         );
       }
     }
-  }, [gameState?.currentRound?.phase, gameState?.gamePhase, gameState?.roundResults, gameState?.currentRound?.roundNumber, gameState?.currentRound?.hands, gameState?.players]);
+  }, [gameState?.currentRound?.phase, gameState?.gamePhase, gameState?.roundResults, gameState?.currentRound?.roundNumber, gameState?.currentRound?.hands, gameState?.players, gameState?.config.meldRules]);
 
   const handleCardPress = useCallback((card: CardType, _index: number) => {
     // Toggle card selection (works anytime for grouping, restricted for discard)
@@ -403,9 +428,9 @@ const PracticeGameScreen = () => {
     }
   }, [canDraw, canDiscard, drawCard, discardCard, drop, selectedCardIds, myHand, topDiscard, handleSmartSort, handleGroupCards, gameState?.currentRound?.humanHasDrawn]);
 
-  const handleDeclare = useCallback(async (melds: any[]) => {
+  const handleDeclare = useCallback(async (melds: any[], deadwood: CardType[]) => {
     setShowDeclarationModal(false);
-    await declare(melds);
+    await declare(melds, deadwood);
   }, [declare]);
 
   // Handle drag-to-discard
@@ -526,6 +551,29 @@ const PracticeGameScreen = () => {
     <SafeAreaView style={styles.container} edges={['bottom']}>
       {/* Virtual Table with Players - Full Screen */}
       <View style={styles.tableContainer}>
+        {/* Game header - round, adaptive level and coach toggle */}
+        <View style={styles.gameHeader}>
+          <Text style={styles.gameHeaderText}>Round {round.roundNumber}</Text>
+          <TouchableOpacity
+            onPress={() => setShowCoach(prev => !prev)}
+            accessibilityLabel={showCoach ? 'Hide coach' : 'Show coach'}
+          >
+            <Icon
+              name={showCoach ? 'lightbulb.fill' : 'lightbulb'}
+              size={16}
+              color={showCoach ? colors.gold : colors.secondaryLabel}
+            />
+          </TouchableOpacity>
+          {gameState.adaptive && (
+            <View style={styles.levelBadge}>
+              <Icon name="dial.medium" size={12} color={colors.accent} />
+              <Text style={styles.levelText}>
+                Level {gameState.adaptive.level} · {DIFFICULTY_LABELS[getAdaptiveDifficulty(gameState.adaptive.level)]}
+              </Text>
+            </View>
+          )}
+        </View>
+
         <TableView
           players={gameState.players}
           humanPlayerId="human"
@@ -546,6 +594,19 @@ const PracticeGameScreen = () => {
           onDragDrawFromDiscard={(absoluteX) => handleDragDraw('discard', absoluteX)}
         />
 
+        {/* Coach advice on the human's turn */}
+        {showCoach && isMyTurn && (
+          <CoachPanel
+            hand={myHand}
+            topDiscard={topDiscard}
+            turnPhase={round.turnPhase}
+            discardHistory={roundDiscards}
+            opponents={coachOpponents}
+            meldRules={gameState.config.meldRules}
+            style={styles.coachPanel}
+          />
+        )}
+
         {/* Card animation for bot actions (draw and discard) */}
         <DrawAnimation
           card={cardAnimation.card}
@@ -573,6 +634,7 @@ const PracticeGameScreen = () => {
 
         <DraggableHand
           cards={myHand}
+          meldRules={gameState.config.meldRules}
           selectedCardIds={selectedCardIds}
           onCardPress={handleCardPress}
           onCardsReordered={(newCards) => {
@@ -595,7 +657,7 @@ const PracticeGameScreen = () => {
       {/* Action Bar */}
       <ActionBar
         turnPhase={isMyTurn ? round.turnPhase : 'draw'}
-        canDeclare={canDiscard() && myHand.length === 14}
+        canDeclare={canDiscard() && myHand.length === (gameState.config.meldRules?.handSize ?? CARDS_PER_PLAYER) + 1}
         canDrop={true}
         hasDiscardCard={!!topDiscard}
         selectedCardCount={selectedCardIds.length}
@@ -609,6 +671,7 @@ const PracticeGameScreen = () => {
         cards={myHand}
         onDeclare={handleDeclare}
         onCancel={() => setShowDeclarationModal(false)}
+        meldRules={gameState.config.meldRules}
       />
 
       {/* Bot Declaration Modal - shows all bot hands after round ends */}
@@ -652,6 +715,42 @@ const createStyles = (colors: ThemeColors) =>
     tableContainer: {
       flex: 1,
     },
+    gameHeader: {
+      position: 'absolute',
+      top: Spacing.xs,
+      left: Spacing.sm,
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: Spacing.sm,
+      zIndex: 10,
+    },
+    gameHeaderText: {
+      ...Typography.caption1,
+      color: colors.secondaryLabel,
+      fontWeight: '600',
+    },
+    levelBadge: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 4,
+      backgroundColor: colors.background,
+      borderRadius: BorderRadius.medium,
+      paddingVertical: 2,
+      paddingHorizontal: Spacing.sm,
+      borderWidth: StyleSheet.hairlineWidth,
+      borderColor: colors.accent,
+    },
+    levelText: {
+      ...Typography.caption2,
+      color: colors.accent,
+      fontWeight: '600',
+    },
+    coachPanel: {
+      position: 'absolute',
+      top: Spacing.xs,
+      right: Spacing.sm,
+      zIndex: 10,
+    },
     handContainer: {
       backgroundColor: colors.cardBackground,
       borderTopWidth: StyleSheet.hairlineWidth,
@@ -2,15 +2,17 @@
  * PracticeHistoryScreen
  *
  * Shows game results, round history, and final scores.
+ * Rounds can be replayed, shared as replay files, or loaded from a shared file.
  */
 
-import React, { useMemo, useEffect } from 'react';
+import React, { useMemo, useEffect, useState } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   ScrollView,
   TouchableOpacity,
+  Share,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useNavigation } from '@react-navigation/native';
@@ -19,15 +21,18 @@ import { useTheme } from '../../context/ThemeContext';
 import { usePracticeGame } from '../../context/PracticeGameContext';
 import { ThemeColors, Typography, Spacing, BorderRadius, IconSize } from '../../theme';
 import Icon from '../../components/Icon';
-import { Card } from '../../components/practice';
+import { ArrangedHand, ImportReplayModal } from '../../components/practice';
 import { autoArrangeHand } from '../../engine/declaration';
-import { Meld, Card as CardType } from '../../engine/types';
+import { Meld, Card as CardType, CARDS_PER_PLAYER, PracticePlayer } from '../../engine/types';
+import { DIFFICULTY_LABELS, getPersonalityProfile } from '../../engine/bot';
+import { ReplayFile, createReplayFile, serializeReplayFile } from '../../engine/replayFile';
 
 const PracticeHistoryScreen = () => {
   const { colors } = useTheme();
   const navigation = useNavigation<any>();
   const { gameState, resetGame } = usePracticeGame();
   const styles = useMemo(() => createStyles(colors), [colors]);
+  const [showImport, setShowImport] = useState(false);
 
   // Keep landscape orientation, unlock when leaving
   useEffect(() => {
@@ -49,6 +54,24 @@ const PracticeHistoryScreen = () => {
     navigation.navigate('Home');
   };
 
+  const handleShareRound = async (roundIndex: number) => {
+    const replay = gameState && createReplayFile(gameState, roundIndex);
+    if (!replay) return;
+    try {
+      await Share.share({
+        title: `RummyIQ round ${replay.roundNumber} replay`,
+        message: serializeReplayFile(replay),
+      });
+    } catch (error) {
+      console.error('Failed to share replay:', error);
+    }
+  };
+
+  const handleImportReplay = (replay: ReplayFile) => {
+    setShowImport(false);
+    navigation.navigate('PracticeReplay', { replay });
+  };
+
   // Get arranged hands for all players (must be before conditional return for hooks rule)
   // For the winner: use their declared melds
   // For others: use autoArrangeHand
@@ -70,28 +93,20 @@ const PracticeHistoryScreen = () => {
           const deadwood = hand.filter(c => !meldCardIds.has(c.id));
           hands[playerId] = { melds: declaredMelds, deadwood };
         } else {
-          // For others, use autoArrangeHand (first 13 cards)
-          const handToArrange = hand.slice(0, 13);
-          hands[playerId] = autoArrangeHand(handToArrange);
+          // For others, use autoArrangeHand (first hand-size cards)
+          const handToArrange = hand.slice(0, gameState?.config.meldRules?.handSize ?? CARDS_PER_PLAYER);
+          hands[playerId] = autoArrangeHand(handToArrange, gameState?.config.meldRules);
         }
       }
     });
 
     return hands;
-  }, [gameState?.roundResults, gameState?.currentRound?.hands]);
-
-  // Helper to get meld type label
-  const getMeldTypeLabel = (meld: Meld): string => {
-    if (meld.type === 'pure-sequence') return 'Pure';
-    if (meld.type === 'sequence') return 'Seq';
-    return 'Set';
-  };
+  }, [gameState?.roundResults, gameState?.currentRound?.hands, gameState?.config.meldRules]);
 
-  // Helper to get meld type color
-  const getMeldTypeColor = (meld: Meld): string => {
-    if (meld.type === 'pure-sequence') return colors.success;
-    if (meld.type === 'sequence') return colors.accent;
-    return colors.warning;
+  // Helper to describe a bot's seat setup, e.g. "Hard · Fisher"
+  const getBotStyleLabel = (player: PracticePlayer): string => {
+    const personality = getPersonalityProfile(player.personality).shortLabel;
+    return player.difficulty ? `${DIFFICULTY_LABELS[player.difficulty]} · ${personality}` : personality;
   };
 
   if (!gameState) {
@@ -149,6 +164,9 @@ const PracticeHistoryScreen = () => {
                       <Text style={[styles.handPlayerName, isWinner && styles.winnerHandPlayerName]}>
                         {player.id === 'human' ? 'You' : player.name}
                       </Text>
+                      {player.isBot && (
+                        <Text style={styles.handPlayerStyle}>{getBotStyleLabel(player)}</Text>
+                      )}
                       {isWinner && (
                         <Icon name="crown.fill" size={14} color={colors.gold} />
                       )}
@@ -158,39 +176,7 @@ const PracticeHistoryScreen = () => {
                     </Text>
                   </View>
 
-                  {/* All cards in one line with gaps between groups */}
-                  <View style={styles.allCardsRow}>
-                    {arranged.melds.map((meld, meldIdx) => (
-                      <View key={meldIdx} style={[styles.meldGroupContainer, meldIdx > 0 && styles.meldGap]}>
-                        <View style={styles.meldGroup}>
-                          {meld.cards.map((card, idx) => (
-                            <View key={card.id} style={[styles.cardWrapper, idx > 0 && styles.cardOverlap]}>
-                              <Card card={card} size="medium" />
-                            </View>
-                          ))}
-                        </View>
-                        <View style={[styles.meldTypeBadgeOverlay, { backgroundColor: getMeldTypeColor(meld) }]}>
-                          <Text style={styles.meldTypeBadgeText}>{getMeldTypeLabel(meld)}</Text>
-                        </View>
-                      </View>
-                    ))}
-                    {arranged.deadwood.length > 0 && (
-                      <View style={[styles.meldGroupContainer, styles.meldGap]}>
-                        <View style={[styles.meldGroup, styles.deadwoodGroup]}>
-                          {arranged.deadwood.map((card, idx) => (
-                            <View key={card.id} style={[styles.cardWrapper, idx > 0 && styles.cardOverlap]}>
-                              <Card card={card} size="medium" />
-                            </View>
-                          ))}
-                        </View>
-                        <View style={[styles.meldTypeBadgeOverlay, { backgroundColor: colors.destructive }]}>
-                          <Text style={styles.meldTypeBadgeText}>
-                            {arranged.deadwood.reduce((sum, c) => sum + c.value, 0)}pts
-                          </Text>
-                        </View>
-                      </View>
-                    )}
-                  </View>
+                  <ArrangedHand melds={arranged.melds} deadwood={arranged.deadwood} />
                 </View>
               );
             })}
@@ -199,7 +185,17 @@ const PracticeHistoryScreen = () => {
 
         {/* Round History */}
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Round History</Text>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Round History</Text>
+            <TouchableOpacity
+              style={styles.replayButton}
+              onPress={() => setShowImport(true)}
+              accessibilityRole="button"
+            >
+              <Icon name="square.and.arrow.down" size={12} color={colors.accent} />
+              <Text style={styles.replayButtonText}>Import Replay</Text>
+            </TouchableOpacity>
+          </View>
           {gameState.roundResults.map((result, index) => (
             <View key={index} style={styles.roundCard}>
               <View style={styles.roundHeader}>
@@ -230,15 +226,40 @@ const PracticeHistoryScreen = () => {
                         <Text
                           style={[
                             styles.roundScoreValue,
-                            roundScore === 0 && styles.zeroScore,
+                            roundScore <= 0 && styles.zeroScore,
                           ]}
                         >
-                          {roundScore === 0 ? 'WIN' : `+${roundScore}`}
+                          {roundScore === 0 ? 'WIN' : roundScore < 0 ? `${roundScore}` : `+${roundScore}`}
                         </Text>
+                        {!!result.bonuses?.[playerId] && (
+                          <Text style={styles.roundBonus}>
+                            Bonus {result.bonuses[playerId]}
+                          </Text>
+                        )}
                       </View>
                     );
                   })}
               </View>
+              {!!result.actions && (
+                <View style={styles.replayActions}>
+                  <TouchableOpacity
+                    style={styles.replayButton}
+                    onPress={() => navigation.navigate('PracticeReplay', { roundIndex: index })}
+                    accessibilityRole="button"
+                  >
+                    <Icon name="play.fill" size={12} color={colors.accent} />
+                    <Text style={styles.replayButtonText}>Replay Round</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.replayButton}
+                    onPress={() => handleShareRound(index)}
+                    accessibilityRole="button"
+                  >
+                    <Icon name="square.and.arrow.up" size={12} color={colors.accent} />
+                    <Text style={styles.replayButtonText}>Share Replay</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
             </View>
           ))}
         </View>
@@ -259,6 +280,18 @@ const PracticeHistoryScreen = () => {
               <Text style={styles.infoLabel}>Players</Text>
               <Text style={styles.infoValue}>{gameState.players.length}</Text>
             </View>
+            {gameState.adaptive && (
+              <View style={styles.infoRow}>
+                <Text style={styles.infoLabel}>Adaptive Level</Text>
+                <Text style={styles.infoValue}>{gameState.adaptive.level}</Text>
+              </View>
+            )}
+            {gameState.players.filter(p => p.isBot).map(player => (
+              <View key={player.id} style={styles.infoRow}>
+                <Text style={styles.infoLabel}>{player.name}</Text>
+                <Text style={styles.infoValue}>{getBotStyleLabel(player)}</Text>
+              </View>
+            ))}
           </View>
         </View>
       </ScrollView>
@@ -272,6 +305,15 @@ const PracticeHistoryScreen = () => {
           <Icon name="house.fill" size={IconSize.medium} color={colors.accent} />
           <Text style={[styles.buttonText, { color: colors.accent }]}>Home</Text>
         </TouchableOpacity>
+        {gameState.players.some(p => !p.isBot) && (
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={() => navigation.navigate('PracticeReview')}
+          >
+            <Icon name="chart.bar.xaxis" size={IconSize.medium} color={colors.accent} />
+            <Text style={[styles.buttonText, { color: colors.accent }]}>Review</Text>
+          </TouchableOpacity>
+        )}
         <TouchableOpacity
           style={styles.primaryButton}
           onPress={handlePlayAgain}
@@ -280,6 +322,12 @@ const PracticeHistoryScreen = () => {
           <Text style={styles.primaryButtonText}>Play Again</Text>
         </TouchableOpacity>
       </View>
+
+      <ImportReplayModal
+        visible={showImport}
+        onImport={handleImportReplay}
+        onClose={() => setShowImport(false)}
+      />
     </SafeAreaView>
   );
 };
@@ -354,6 +402,10 @@ const createStyles = (colors: ThemeColors) =>
       color: colors.label,
       fontWeight: '600',
     },
+    handPlayerStyle: {
+      ...Typography.caption1,
+      color: colors.secondaryLabel,
+    },
     winnerHandPlayerName: {
       color: colors.gold,
     },
@@ -365,48 +417,6 @@ const createStyles = (colors: ThemeColors) =>
     winnerHandScore: {
       color: colors.gold,
     },
-    allCardsRow: {
-      flexDirection: 'row',
-      flexWrap: 'wrap',
-      alignItems: 'flex-end',
-      marginTop: Spacing.xs,
-    },
-    meldGroupContainer: {
-      position: 'relative',
-    },
-    meldTypeBadgeOverlay: {
-      position: 'absolute',
-      left: 0,
-      right: 0,
-      bottom: 0,
-      paddingVertical: 3,
-      alignItems: 'center',
-      borderBottomLeftRadius: BorderRadius.small,
-      borderBottomRightRadius: BorderRadius.small,
-    },
-    meldTypeBadgeText: {
-      fontSize: 10,
-      fontWeight: '700',
-      color: '#FFFFFF',
-      textShadowColor: 'rgba(0,0,0,0.5)',
-      textShadowOffset: { width: 0, height: 1 },
-      textShadowRadius: 2,
-    },
-    meldGroup: {
-      flexDirection: 'row',
-    },
-    meldGap: {
-      marginLeft: Spacing.sm,
-    },
-    deadwoodGroup: {
-      opacity: 0.6,
-    },
-    cardWrapper: {
-      marginBottom: 2,
-    },
-    cardOverlap: {
-      marginLeft: -30,
-    },
     roundCard: {
       backgroundColor: colors.cardBackground,
       borderRadius: BorderRadius.medium,
@@ -462,6 +472,30 @@ const createStyles = (colors: ThemeColors) =>
     zeroScore: {
       color: colors.success,
     },
+    sectionHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'baseline',
+    },
+    replayActions: {
+      flexDirection: 'row',
+      gap: Spacing.lg,
+      marginTop: Spacing.sm,
+    },
+    replayButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 4,
+    },
+    replayButtonText: {
+      ...Typography.footnote,
+      color: colors.accent,
+      fontWeight: '600',
+    },
+    roundBonus: {
+      ...Typography.caption2,
+      color: colors.secondaryLabel,
+    },
     infoCard: {
       backgroundColor: colors.cardBackground,
       borderRadius: BorderRadius.medium,
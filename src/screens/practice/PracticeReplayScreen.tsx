@@ -0,0 +1,298 @@
+/**
+ * PracticeReplayScreen
+ *
+ * Steps forwards and backwards through a finished round of the practice game,
+ * or an imported replay file, rebuilt from its action log. Hands can be shown face up.
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Switch,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import { useTheme } from '../../context/ThemeContext';
+import { usePracticeGame } from '../../context/PracticeGameContext';
+import { ThemeColors, Typography, Spacing, BorderRadius } from '../../theme';
+import Icon from '../../components/Icon';
+import { Card, OpponentHand, TableView } from '../../components/practice';
+import { PracticeGameState, RoundAction } from '../../engine/types';
+import { getCardDisplay } from '../../engine/deck';
+import { replayRound } from '../../engine/replay';
+import { ReplayFile, playReplayFile } from '../../engine/replayFile';
+
+/**
+ * One line describing what a logged action did
+ * Deck draws are only named when the drawn card may be shown
+ */
+const describeStep = (
+  action: RoundAction,
+  state: PracticeGameState,
+  canShowCard: (playerId: string) => boolean
+): string => {
+  if (action.type === 'START_ROUND') {
+    const wild = state.currentRound?.wildJokerCard;
+    return wild ? `Cards dealt · Wild joker ${getCardDisplay(wild).symbol}` : 'Cards dealt';
+  }
+
+  const name = state.players.find(p => p.id === action.playerId)?.name ?? 'Unknown';
+  switch (action.type) {
+    case 'DRAW_CARD': {
+      const card = state.currentRound?.lastAction?.card;
+      if (action.source === 'discard') {
+        return card ? `${name} picked up ${getCardDisplay(card).symbol}` : `${name} picked up the discard`;
+      }
+      return card && canShowCard(action.playerId)
+        ? `${name} drew ${getCardDisplay(card).symbol} from the deck`
+        : `${name} drew from the deck`;
+    }
+    case 'DISCARD_CARD':
+      return `${name} discarded ${getCardDisplay(action.card).symbol}`;
+    case 'DROP':
+      return `${name} dropped (${action.dropType === 'first' ? 'first' : 'middle'} drop)`;
+    case 'DECLARE': {
+      const result = state.roundResults[state.roundResults.length - 1];
+      return result?.declarationType === 'valid'
+        ? `${name} declared a valid show`
+        : `${name} made an invalid declaration`;
+    }
+  }
+};
+
+const PracticeReplayScreen = () => {
+  const { colors } = useTheme();
+  const navigation = useNavigation<any>();
+  const route = useRoute<any>();
+  const { gameState } = usePracticeGame();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
+  const roundIndex: number = route.params?.roundIndex ?? 0;
+  const imported: ReplayFile | undefined = route.params?.replay;
+  const [step, setStep] = useState(0);
+  const [showAllHands, setShowAllHands] = useState(false);
+
+  // An imported file is rebuilt through the engine just like a round of this game
+  const source = useMemo(() => {
+    if (imported) {
+      return {
+        replay: playReplayFile(imported),
+        actions: imported.actions,
+        players: imported.players,
+        roundNumber: imported.roundNumber,
+      };
+    }
+    if (!gameState) return null;
+    return {
+      replay: replayRound(gameState, roundIndex),
+      actions: gameState.roundResults[roundIndex]?.actions ?? [],
+      players: gameState.players,
+      roundNumber: roundIndex + 1,
+    };
+  }, [imported, gameState, roundIndex]);
+  const replay = source?.replay;
+
+  if (!source || !replay || !replay.ok) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyText}>
+            {replay && !replay.ok ? replay.error : 'No round to replay'}
+          </Text>
+          <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+            <Text style={styles.backButtonText}>Back</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const { actions, players, roundNumber } = source;
+  const { states } = replay;
+  const lastStep = states.length - 1;
+  const state = states[step];
+  const round = state.currentRound!;
+  const humanId = players.find(p => !p.isBot)?.id ?? 'human';
+  const seatedPlayers = state.activePlayers
+    .map(id => players.find(p => p.id === id))
+    .filter((p): p is NonNullable<typeof p> => !!p);
+  const currentPlayer = seatedPlayers[round.currentPlayerIndex];
+  const topDiscard = round.discardPile[round.discardPile.length - 1] ?? null;
+  const canShowCard = (playerId: string) => showAllHands || playerId === humanId;
+
+  const goTo = (next: number) => setStep(Math.max(0, Math.min(lastStep, next)));
+
+  return (
+    <SafeAreaView style={styles.container} edges={['left', 'right', 'bottom']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          accessibilityLabel="Back"
+          accessibilityRole="button"
+        >
+          <Icon name="chevron.left" size={18} color={colors.accent} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>
+          {imported ? 'Imported Replay · ' : ''}Round {roundNumber}
+        </Text>
+        <View style={styles.headerSpacer} />
+        <Text style={styles.toggleLabel}>Show all hands</Text>
+        <Switch
+          value={showAllHands}
+          onValueChange={setShowAllHands}
+          trackColor={{ false: colors.separator, true: colors.accent }}
+        />
+      </View>
+
+      <TableView
+        players={seatedPlayers}
+        humanPlayerId={humanId}
+        currentPlayerIndex={round.currentPlayerIndex}
+        dealerIndex={round.dealerIndex}
+        scores={state.scores}
+        hands={round.hands}
+        drawPile={round.drawPile}
+        discardPile={round.discardPile}
+        topDiscard={topDiscard}
+        wildJokerCard={round.wildJokerCard}
+        turnPhase={round.turnPhase}
+        currentPlayerName={currentPlayer?.name || ''}
+        isHumanTurn={false}
+      />
+
+      {/* Step controls */}
+      <View style={styles.controls}>
+        <TouchableOpacity onPress={() => goTo(0)} disabled={step === 0} accessibilityLabel="First step">
+          <Icon name="backward.end.fill" size={18} color={step === 0 ? colors.tertiaryLabel : colors.accent} />
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => goTo(step - 1)} disabled={step === 0} accessibilityLabel="Previous step">
+          <Icon name="backward.fill" size={18} color={step === 0 ? colors.tertiaryLabel : colors.accent} />
+        </TouchableOpacity>
+        <View style={styles.stepInfo}>
+          <Text style={styles.stepText} numberOfLines={1}>
+            {describeStep(actions[step], state, canShowCard)}
+          </Text>
+          <Text style={styles.stepCount}>
+            Step {step + 1} of {states.length}
+          </Text>
+        </View>
+        <TouchableOpacity onPress={() => goTo(step + 1)} disabled={step === lastStep} accessibilityLabel="Next step">
+          <Icon name="forward.fill" size={18} color={step === lastStep ? colors.tertiaryLabel : colors.accent} />
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => goTo(lastStep)} disabled={step === lastStep} accessibilityLabel="Last step">
+          <Icon name="forward.end.fill" size={18} color={step === lastStep ? colors.tertiaryLabel : colors.accent} />
+        </TouchableOpacity>
+      </View>
+
+      {/* Hands */}
+      <ScrollView contentContainerStyle={styles.hands} showsVerticalScrollIndicator={false}>
+        <View style={styles.humanHand}>
+          {(round.hands[humanId] ?? []).map((card, index) => (
+            <View key={card.id} style={index > 0 && styles.cardOverlap}>
+              <Card card={card} size="small" />
+            </View>
+          ))}
+        </View>
+        {showAllHands &&
+          seatedPlayers
+            .filter(player => player.id !== humanId)
+            .map(player => (
+              <OpponentHand
+                key={player.id}
+                player={player}
+                cardCount={round.hands[player.id]?.length ?? 0}
+                isCurrentTurn={player.id === currentPlayer?.id}
+                isDealer={seatedPlayers[round.dealerIndex]?.id === player.id}
+                score={state.scores[player.id] || 0}
+                cards={round.hands[player.id]}
+              />
+            ))}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    emptyContainer: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    emptyText: {
+      ...Typography.body,
+      color: colors.secondaryLabel,
+      marginBottom: Spacing.md,
+    },
+    backButton: {
+      paddingHorizontal: Spacing.lg,
+      paddingVertical: Spacing.md,
+      backgroundColor: colors.accent,
+      borderRadius: BorderRadius.medium,
+    },
+    backButtonText: {
+      ...Typography.body,
+      color: '#FFFFFF',
+      fontWeight: '600',
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: Spacing.sm,
+      paddingHorizontal: Spacing.md,
+      paddingTop: Spacing.xs,
+    },
+    headerTitle: {
+      ...Typography.subheadline,
+      color: colors.label,
+      fontWeight: '600',
+    },
+    headerSpacer: {
+      flex: 1,
+    },
+    toggleLabel: {
+      ...Typography.caption1,
+      color: colors.secondaryLabel,
+    },
+    controls: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: Spacing.lg,
+      paddingVertical: Spacing.xs,
+    },
+    stepInfo: {
+      alignItems: 'center',
+      minWidth: 240,
+    },
+    stepText: {
+      ...Typography.subheadline,
+      color: colors.label,
+    },
+    stepCount: {
+      ...Typography.caption2,
+      color: colors.tertiaryLabel,
+    },
+    hands: {
+      alignItems: 'center',
+      gap: Spacing.xs,
+      paddingBottom: Spacing.md,
+    },
+    humanHand: {
+      flexDirection: 'row',
+    },
+    cardOverlap: {
+      marginLeft: -20,
+    },
+  });
+
+export default PracticeReplayScreen;
@@ -0,0 +1,386 @@
+/**
+ * PracticeReviewScreen
+ *
+ * Walks through the human's draws and discards after a practice game,
+ * grading each one against the expert bot's choice and summarising
+ * the mistakes that keep coming up.
+ */
+
+import React, { useMemo, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useTheme } from '../../context/ThemeContext';
+import { usePracticeGame } from '../../context/PracticeGameContext';
+import { ThemeColors, Typography, Spacing, BorderRadius } from '../../theme';
+import Icon from '../../components/Icon';
+import { Card } from '../../components/practice';
+import {
+  MoveQuality,
+  MoveReview,
+  ReviewChoice,
+  reviewRound,
+  summarizeReview,
+} from '../../engine/review';
+
+const QUALITY_LABELS: Record<MoveQuality, string> = {
+  good: 'Good',
+  inaccuracy: 'Inaccuracy',
+  mistake: 'Mistake',
+};
+
+const PracticeReviewScreen = () => {
+  const { colors } = useTheme();
+  const { gameState } = usePracticeGame();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
+  const [moves, setMoves] = useState<MoveReview[]>([]);
+  const [roundsReviewed, setRoundsReviewed] = useState(0);
+  const [skippedRounds, setSkippedRounds] = useState<number[]>([]);
+  const [showAllMoves, setShowAllMoves] = useState(false);
+
+  const human = gameState?.players.find(p => !p.isBot);
+  const totalRounds = gameState?.roundResults.length ?? 0;
+
+  // Review one round at a time so the screen stays responsive while the search runs
+  useEffect(() => {
+    if (!gameState || !human) return;
+
+    let cancelled = false;
+    let timeout: ReturnType<typeof setTimeout>;
+    const reviewed: MoveReview[] = [];
+    const skipped: number[] = [];
+
+    const reviewNext = (roundIndex: number) => {
+      if (cancelled || roundIndex >= gameState.roundResults.length) return;
+      const roundMoves = reviewRound(gameState, roundIndex, human.id);
+      if (roundMoves) {
+        reviewed.push(...roundMoves);
+      } else {
+        skipped.push(roundIndex + 1);
+      }
+      setMoves([...reviewed]);
+      setSkippedRounds([...skipped]);
+      setRoundsReviewed(roundIndex + 1);
+      timeout = setTimeout(() => reviewNext(roundIndex + 1), 0);
+    };
+
+    timeout = setTimeout(() => reviewNext(0), 0);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [gameState, human]);
+
+  const summary = useMemo(() => summarizeReview(moves), [moves]);
+  const visibleMoves = showAllMoves ? moves : moves.filter(m => m.quality !== 'good');
+  const isReviewing = roundsReviewed < totalRounds;
+
+  const getQualityColor = (quality: MoveQuality): string => {
+    if (quality === 'mistake') return colors.destructive;
+    if (quality === 'inaccuracy') return colors.warning;
+    return colors.success;
+  };
+
+  const renderChoice = (choice: ReviewChoice) =>
+    choice.card ? (
+      <Card card={choice.card} size="tiny" />
+    ) : (
+      <View style={styles.deckChoice}>
+        <Icon name="square.stack.3d.up" size={14} color={colors.accent} />
+        <Text style={styles.deckChoiceText}>Deck</Text>
+      </View>
+    );
+
+  if (!gameState || !human) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyText}>No game to review</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom', 'left', 'right']}>
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Summary */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Summary</Text>
+          <View style={styles.summaryRow}>
+            {(['good', 'inaccuracy', 'mistake'] as MoveQuality[]).map(quality => (
+              <View key={quality} style={styles.summaryCard}>
+                <Text style={[styles.summaryCount, { color: getQualityColor(quality) }]}>
+                  {summary.counts[quality]}
+                </Text>
+                <Text style={styles.summaryLabel}>{QUALITY_LABELS[quality]}</Text>
+              </View>
+            ))}
+            <View style={styles.summaryCard}>
+              <Text style={styles.summaryCount}>{summary.totalEquityLoss}</Text>
+              <Text style={styles.summaryLabel}>Points given up</Text>
+            </View>
+          </View>
+          {isReviewing && (
+            <View style={styles.progressRow}>
+              <ActivityIndicator size="small" color={colors.accent} />
+              <Text style={styles.helperText}>
+                Reviewing round {roundsReviewed + 1} of {totalRounds}...
+              </Text>
+            </View>
+          )}
+          {skippedRounds.length > 0 && (
+            <Text style={styles.helperText}>
+              {`Round ${skippedRounds.join(', ')} can't be reviewed: its moves weren't recorded`}
+            </Text>
+          )}
+        </View>
+
+        {/* Recurring patterns */}
+        {summary.patterns.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>What to Work On</Text>
+            {summary.patterns.map(pattern => (
+              <View key={pattern.pattern} style={styles.patternCard}>
+                <View style={styles.patternHeader}>
+                  <Text style={styles.patternLabel}>{pattern.label}</Text>
+                  <Text style={styles.patternCount}>
+                    {pattern.count} {pattern.count === 1 ? 'time' : 'times'}
+                  </Text>
+                </View>
+                <Text style={styles.helperText}>{pattern.advice}</Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {/* Moves */}
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Moves</Text>
+            <TouchableOpacity
+              onPress={() => setShowAllMoves(!showAllMoves)}
+              accessibilityRole="button"
+            >
+              <Text style={styles.filterText}>
+                {showAllMoves ? 'Errors Only' : 'Show All'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          {!isReviewing && visibleMoves.length === 0 && (
+            <Text style={styles.helperText}>
+              {moves.length === 0 ? 'No moves to review' : 'No inaccuracies or mistakes - well played!'}
+            </Text>
+          )}
+
+          {visibleMoves.map(move => (
+            <View
+              key={`${move.roundNumber}-${move.turn}-${move.kind}`}
+              style={styles.moveCard}
+            >
+              <View style={styles.moveHeader}>
+                <Text style={styles.moveTitle}>
+                  Round {move.roundNumber} · Turn {move.turn} · {move.kind === 'draw' ? 'Draw' : 'Discard'}
+                </Text>
+                <View style={[styles.qualityBadge, { backgroundColor: getQualityColor(move.quality) + '25' }]}>
+                  <Text style={[styles.qualityText, { color: getQualityColor(move.quality) }]}>
+                    {QUALITY_LABELS[move.quality]}
+                    {move.equityLoss > 0 ? `  −${move.equityLoss}` : ''}
+                  </Text>
+                </View>
+              </View>
+
+              <View style={styles.choiceRow}>
+                <View style={styles.choice}>
+                  <Text style={styles.choiceLabel}>You</Text>
+                  {renderChoice(move.chosen)}
+                </View>
+                {move.quality !== 'good' && (
+                  <View style={styles.choice}>
+                    <Text style={styles.choiceLabel}>Best</Text>
+                    {renderChoice(move.best)}
+                  </View>
+                )}
+                {move.kind === 'draw' && move.topDiscard && (
+                  <View style={styles.choice}>
+                    <Text style={styles.choiceLabel}>Top discard</Text>
+                    <Card card={move.topDiscard} size="tiny" />
+                  </View>
+                )}
+              </View>
+
+              <View style={styles.handRow}>
+                {move.hand.map((card, index) => (
+                  <View key={card.id} style={index > 0 && styles.cardOverlap}>
+                    <Card card={card} size="tiny" />
+                  </View>
+                ))}
+              </View>
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    content: {
+      padding: Spacing.lg,
+    },
+    emptyContainer: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    emptyText: {
+      ...Typography.body,
+      color: colors.secondaryLabel,
+    },
+    section: {
+      marginBottom: Spacing.xl,
+    },
+    sectionHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'baseline',
+    },
+    sectionTitle: {
+      ...Typography.headline,
+      color: colors.label,
+      marginBottom: Spacing.md,
+    },
+    filterText: {
+      ...Typography.subheadline,
+      color: colors.accent,
+      fontWeight: '600',
+    },
+    summaryRow: {
+      flexDirection: 'row',
+      gap: Spacing.sm,
+    },
+    summaryCard: {
+      flex: 1,
+      alignItems: 'center',
+      backgroundColor: colors.cardBackground,
+      borderRadius: BorderRadius.medium,
+      padding: Spacing.md,
+      borderWidth: 1,
+      borderColor: colors.separator,
+    },
+    summaryCount: {
+      ...Typography.title2,
+      color: colors.label,
+      fontWeight: '700',
+    },
+    summaryLabel: {
+      ...Typography.caption1,
+      color: colors.secondaryLabel,
+    },
+    progressRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: Spacing.xs,
+      marginTop: Spacing.sm,
+    },
+    helperText: {
+      ...Typography.footnote,
+      color: colors.secondaryLabel,
+      marginTop: Spacing.xs,
+    },
+    patternCard: {
+      backgroundColor: colors.cardBackground,
+      borderRadius: BorderRadius.medium,
+      padding: Spacing.md,
+      marginBottom: Spacing.sm,
+      borderWidth: 1,
+      borderColor: colors.separator,
+    },
+    patternHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+    },
+    patternLabel: {
+      ...Typography.body,
+      color: colors.label,
+      fontWeight: '600',
+    },
+    patternCount: {
+      ...Typography.footnote,
+      color: colors.secondaryLabel,
+      fontWeight: '600',
+    },
+    moveCard: {
+      backgroundColor: colors.cardBackground,
+      borderRadius: BorderRadius.medium,
+      padding: Spacing.sm,
+      marginBottom: Spacing.sm,
+      borderWidth: 1,
+      borderColor: colors.separator,
+      gap: Spacing.xs,
+    },
+    moveHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+    },
+    moveTitle: {
+      ...Typography.subheadline,
+      color: colors.label,
+      fontWeight: '600',
+    },
+    qualityBadge: {
+      paddingHorizontal: Spacing.sm,
+      paddingVertical: 2,
+      borderRadius: BorderRadius.small,
+    },
+    qualityText: {
+      ...Typography.caption1,
+      fontWeight: '700',
+    },
+    choiceRow: {
+      flexDirection: 'row',
+      gap: Spacing.lg,
+    },
+    choice: {
+      alignItems: 'center',
+      gap: 2,
+    },
+    choiceLabel: {
+      ...Typography.caption2,
+      color: colors.tertiaryLabel,
+    },
+    deckChoice: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 4,
+      paddingVertical: Spacing.xs,
+    },
+    deckChoiceText: {
+      ...Typography.caption1,
+      color: colors.accent,
+    },
+    handRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+    },
+    cardOverlap: {
+      marginLeft: -12,
+    },
+  });
+
+export default PracticeReviewScreen;
@@ -1,10 +1,11 @@
 /**
  * PracticeSetupScreen
  *
- * Configure practice game settings: bot count, difficulty, variant.
+ * Configure practice game settings: bot count, per-seat difficulty, name and personality,
+ * adaptive difficulty, variant, deck. The bot seats are remembered from the last game.
  */
 
-import React, { useMemo, useState, useCallback } from 'react';
+import React, { useMemo, useState, useCallback, useEffect } from 'react';
 import {
   View,
   Text,
@@ -13,14 +14,32 @@ import {
   TouchableOpacity,
   TextInput,
   Modal,
+  Switch,
 } from 'react-native';
 import { BlurView } from '@react-native-community/blur';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useNavigation } from '@react-navigation/native';
 import { useTheme } from '../../context/ThemeContext';
 import { usePracticeGame } from '../../context/PracticeGameContext';
-import { BotDifficulty, PracticeVariant, PracticeGameConfig } from '../../engine/types';
+import {
+  BotDifficulty,
+  BotPersonality,
+  BotSeat,
+  PracticeVariant,
+  PracticeGameConfig,
+  DeckConfig,
+  MeldRulesPreset,
+  PRINTED_JOKERS_PER_DECK,
+} from '../../engine/types';
 import { DEFAULT_FIRST_DROP, DEFAULT_MIDDLE_DROP, DEFAULT_INVALID_DECLARATION } from '../../engine/scoring';
+import { getDeckCount, getMinimumDeckCount } from '../../engine/deck';
+import { MELD_RULE_PRESETS } from '../../engine/meld';
+import {
+  TWENTY_ONE_CARDS_PER_PLAYER,
+  TWENTY_ONE_DECK_CONFIG,
+  withTwentyOneRules,
+} from '../../engine/twentyOne';
+import { BOT_PERSONALITIES, PERSONALITY_PROFILES, getBotName } from '../../engine/bot';
 import { ThemeColors, Typography, Spacing, BorderRadius, IconSize } from '../../theme';
 import Icon from '../../components/Icon';
 
@@ -28,44 +47,111 @@ const VARIANT_OPTIONS: { value: PracticeVariant; label: string; description: str
   { value: 'pool', label: 'Pool', description: 'Eliminated at point limit' },
   { value: 'points', label: 'Points', description: 'Single round, lowest wins' },
   { value: 'deals', label: 'Deals', description: 'Fixed number of deals' },
+  { value: 'twenty-one', label: '21 Cards', description: '3 pure sequences, tunnela and marriage bonuses' },
 ];
 
 const POOL_LIMIT_PRESETS = [101, 201, 250];
 
+const DECK_COUNT_OPTIONS: DeckConfig['deckCount'][] = ['auto', 1, 2, 3];
+
+const PRINTED_JOKER_OPTIONS = [0, 1, 2];
+
+const MELD_RULE_OPTIONS: { value: MeldRulesPreset; label: string; description: string }[] = [
+  { value: 'standard', label: 'Standard', description: 'A-2-3 and Q-K-A count, K-A-2 does not' },
+  { value: 'round-the-corner', label: 'Round the Corner', description: 'Sequences can wrap, e.g. K-A-2' },
+  { value: 'ace-low-only', label: 'Ace Low Only', description: 'A-2-3 counts, Q-K-A does not' },
+  { value: 'duplicate-sets', label: 'Duplicate Sets', description: 'Sets may repeat a suit, e.g. 7♠ 7♠ 7♥' },
+];
+
 const DIFFICULTY_OPTIONS: { value: BotDifficulty; label: string; icon: string }[] = [
   { value: 'easy', label: 'Easy', icon: 'tortoise.fill' },
   { value: 'medium', label: 'Medium', icon: 'hare.fill' },
   { value: 'hard', label: 'Hard', icon: 'bolt.fill' },
+  { value: 'expert', label: 'Expert', icon: 'brain.head.profile' },
 ];
 
+const PERSONALITY_ICONS: Record<BotPersonality, string> = {
+  balanced: 'circle.grid.2x2.fill',
+  aggressive: 'flame.fill',
+  cautious: 'shield.fill',
+  'joker-hoarder': 'star.circle.fill',
+  fisher: 'tray.and.arrow.down.fill',
+};
+
+const MAX_BOTS = 5;
+
+const DEFAULT_BOT_SEAT: BotSeat = { name: '', difficulty: 'medium', personality: 'balanced' };
+
 const PracticeSetupScreen = () => {
   const { colors } = useTheme();
   const navigation = useNavigation<any>();
-  const { createGame } = usePracticeGame();
+  const { createGame, savedBotSeats } = usePracticeGame();
   const styles = useMemo(() => createStyles(colors), [colors]);
 
   // Form state
   const [playerName, setPlayerName] = useState('You');
   const [botCount, setBotCount] = useState(3);
-  const [difficulty, setDifficulty] = useState<BotDifficulty>('medium');
+  const [botSeats, setBotSeats] = useState<BotSeat[]>(Array(MAX_BOTS).fill(DEFAULT_BOT_SEAT));
+  const [adaptive, setAdaptive] = useState(false);
   const [variant, setVariant] = useState<PracticeVariant>('points');
   const [poolLimit, setPoolLimit] = useState(201);
   const [numberOfDeals, setNumberOfDeals] = useState(3);
+  const [deckCount, setDeckCount] = useState<DeckConfig['deckCount']>('auto');
+  const [printedJokersPerDeck, setPrintedJokersPerDeck] = useState(PRINTED_JOKERS_PER_DECK);
+  const [wildJoker, setWildJoker] = useState(true);
+  const [meldRulesPreset, setMeldRulesPreset] = useState<MeldRulesPreset>('standard');
   const [showDifficultyInfo, setShowDifficultyInfo] = useState(false);
 
+  const playerCount = botCount + 1;
+  const isTwentyOne = variant === 'twenty-one';
+  const minimumDeckCount = getMinimumDeckCount(playerCount);
+  const effectiveDeckCount = getDeckCount(playerCount, deckCount);
+
+  // Start from the seats of the last game
+  useEffect(() => {
+    if (!savedBotSeats?.length) return;
+    setBotCount(Math.min(savedBotSeats.length, MAX_BOTS));
+    setBotSeats(prev => prev.map((seat, i) => ({ ...seat, ...savedBotSeats[i] })));
+  }, [savedBotSeats]);
+
+  const updateBotSeat = useCallback((index: number, updates: Partial<BotSeat>) => {
+    setBotSeats(prev => prev.map((seat, i) => (i === index ? { ...seat, ...updates } : seat)));
+  }, []);
+
   const handleStartGame = useCallback(async () => {
     const config: PracticeGameConfig = {
       variant,
       poolLimit: variant === 'pool' ? poolLimit : undefined,
-      numberOfDeals: variant === 'deals' ? numberOfDeals : undefined,
+      numberOfDeals: variant === 'deals' || variant === 'twenty-one' ? numberOfDeals : undefined,
+      deck: variant === 'twenty-one'
+        ? { ...TWENTY_ONE_DECK_CONFIG, printedJokersPerDeck }
+        : { deckCount, printedJokersPerDeck, wildJoker },
+      meldRules: variant === 'twenty-one'
+        ? withTwentyOneRules(MELD_RULE_PRESETS[meldRulesPreset])
+        : MELD_RULE_PRESETS[meldRulesPreset],
       firstDropPenalty: DEFAULT_FIRST_DROP,
       middleDropPenalty: DEFAULT_MIDDLE_DROP,
       invalidDeclarationPenalty: DEFAULT_INVALID_DECLARATION,
+      adaptive,
     };
 
-    await createGame(playerName.trim() || 'You', botCount, difficulty, config);
+    await createGame(playerName.trim() || 'You', botSeats.slice(0, botCount), config);
     navigation.replace('PracticeGame');
-  }, [playerName, botCount, difficulty, variant, poolLimit, numberOfDeals, createGame, navigation]);
+  }, [
+    playerName,
+    botCount,
+    botSeats,
+    adaptive,
+    variant,
+    poolLimit,
+    numberOfDeals,
+    deckCount,
+    printedJokersPerDeck,
+    wildJoker,
+    meldRulesPreset,
+    createGame,
+    navigation,
+  ]);
 
   return (
     <SafeAreaView style={styles.container} edges={['bottom']}>
@@ -102,7 +188,7 @@ const PracticeSetupScreen = () => {
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Number of Opponents</Text>
           <View style={styles.segmentedControl}>
-            {[1, 2, 3, 4, 5].map((num) => (
+            {Array.from({ length: MAX_BOTS }, (_, i) => i + 1).map((num) => (
               <TouchableOpacity
                 key={num}
                 style={[
@@ -127,10 +213,10 @@ const PracticeSetupScreen = () => {
           </Text>
         </View>
 
-        {/* Difficulty */}
+        {/* Opponents */}
         <View style={styles.section}>
           <View style={styles.sectionTitleRow}>
-            <Text style={styles.sectionTitle}>Bot Difficulty</Text>
+            <Text style={styles.sectionTitle}>Opponents</Text>
             <TouchableOpacity
               onPress={() => setShowDifficultyInfo(true)}
               style={styles.infoButton}
@@ -139,33 +225,91 @@ const PracticeSetupScreen = () => {
               <Icon name="info.circle" size={IconSize.medium} color={colors.accent} />
             </TouchableOpacity>
           </View>
-          <View style={styles.optionsRow}>
-            {DIFFICULTY_OPTIONS.map((option) => (
-              <TouchableOpacity
-                key={option.value}
-                style={[
-                  styles.optionCard,
-                  difficulty === option.value && styles.selectedOption,
-                ]}
-                onPress={() => setDifficulty(option.value)}
-              >
-                <Icon
-                  name={option.icon}
-                  size={IconSize.large}
-                  color={difficulty === option.value ? colors.accent : colors.secondaryLabel}
-                  weight="medium"
-                />
-                <Text
-                  style={[
-                    styles.optionLabel,
-                    difficulty === option.value && styles.selectedOptionLabel,
-                  ]}
-                >
-                  {option.label}
-                </Text>
-              </TouchableOpacity>
-            ))}
+          <View style={[styles.toggleRow, styles.seatCard]}>
+            <View style={styles.variantInfo}>
+              <Text style={styles.variantLabel}>Adaptive Difficulty</Text>
+              <Text style={styles.variantDescription}>
+                Bots get stronger or gentler between rounds to match your results
+              </Text>
+            </View>
+            <Switch
+              value={adaptive}
+              onValueChange={setAdaptive}
+              trackColor={{ false: colors.separator, true: colors.accent }}
+              thumbColor="#FFFFFF"
+              ios_backgroundColor={colors.separator}
+            />
           </View>
+          {botSeats.slice(0, botCount).map((seat, index) => {
+            const personality = seat.personality ?? 'balanced';
+            return (
+              <View key={index} style={styles.seatCard}>
+                <Text style={styles.seatLabel}>Opponent {index + 1}</Text>
+                <View style={styles.inputContainer}>
+                  <Icon name="cpu" size={IconSize.medium} color={colors.secondaryLabel} />
+                  <TextInput
+                    style={styles.textInput}
+                    value={seat.name}
+                    onChangeText={name => updateBotSeat(index, { name })}
+                    placeholder={getBotName(seat.difficulty, index)}
+                    placeholderTextColor={colors.placeholder}
+                    maxLength={20}
+                  />
+                </View>
+                {!adaptive && (
+                  <View style={[styles.optionsRow, styles.seatControl]}>
+                    {DIFFICULTY_OPTIONS.map((option) => (
+                      <TouchableOpacity
+                        key={option.value}
+                        style={[
+                          styles.optionCard,
+                          seat.difficulty === option.value && styles.selectedOption,
+                        ]}
+                        onPress={() => updateBotSeat(index, { difficulty: option.value })}
+                      >
+                        <Icon
+                          name={option.icon}
+                          size={IconSize.large}
+                          color={seat.difficulty === option.value ? colors.accent : colors.secondaryLabel}
+                          weight="medium"
+                        />
+                        <Text
+                          style={[
+                            styles.optionLabel,
+                            seat.difficulty === option.value && styles.selectedOptionLabel,
+                          ]}
+                        >
+                          {option.label}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                )}
+                <View style={[styles.segmentedControl, styles.seatControl]}>
+                  {BOT_PERSONALITIES.map((option) => (
+                    <TouchableOpacity
+                      key={option}
+                      style={[
+                        styles.segment,
+                        personality === option && styles.selectedSegment,
+                      ]}
+                      onPress={() => updateBotSeat(index, { personality: option })}
+                      accessibilityLabel={PERSONALITY_PROFILES[option].label}
+                    >
+                      <Icon
+                        name={PERSONALITY_ICONS[option]}
+                        size={IconSize.medium}
+                        color={personality === option ? '#FFFFFF' : colors.secondaryLabel}
+                      />
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                <Text style={styles.helperText}>
+                  {PERSONALITY_PROFILES[personality].label}: {PERSONALITY_PROFILES[personality].description}
+                </Text>
+              </View>
+            );
+          })}
         </View>
 
         {/* Game Variant */}
@@ -229,8 +373,8 @@ const PracticeSetupScreen = () => {
           </View>
         )}
 
-        {/* Deals count (for Deals variant) */}
-        {variant === 'deals' && (
+        {/* Deals count (for Deals and 21 Cards variants) */}
+        {(variant === 'deals' || isTwentyOne) && (
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Number of Deals</Text>
             <View style={styles.segmentedControl}>
@@ -256,6 +400,119 @@ const PracticeSetupScreen = () => {
             </View>
           </View>
         )}
+
+        {/* Deck */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Decks</Text>
+          {isTwentyOne ? (
+            <Text style={styles.helperText}>
+              {TWENTY_ONE_DECK_CONFIG.deckCount} decks, {TWENTY_ONE_CARDS_PER_PLAYER} cards each, with up and down jokers
+            </Text>
+          ) : (
+            <>
+              <View style={styles.segmentedControl}>
+                {DECK_COUNT_OPTIONS.map((option) => {
+                  const isDisabled = option !== 'auto' && option < minimumDeckCount;
+                  return (
+                    <TouchableOpacity
+                      key={String(option)}
+                      style={[
+                        styles.segment,
+                        deckCount === option && styles.selectedSegment,
+                        isDisabled && styles.disabledSegment,
+                      ]}
+                      onPress={() => setDeckCount(option)}
+                      disabled={isDisabled}
+                      accessibilityState={{ selected: deckCount === option, disabled: isDisabled }}
+                    >
+                      <Text
+                        style={[
+                          styles.segmentText,
+                          deckCount === option && styles.selectedSegmentText,
+                        ]}
+                      >
+                        {option === 'auto' ? 'Auto' : option}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              <Text style={styles.helperText}>
+                {effectiveDeckCount} deck{effectiveDeckCount > 1 ? 's' : ''} for {playerCount} players
+              </Text>
+            </>
+          )}
+
+          <Text style={[styles.sectionTitle, styles.subsectionTitle]}>Printed Jokers per Deck</Text>
+          <View style={styles.segmentedControl}>
+            {PRINTED_JOKER_OPTIONS.map((num) => (
+              <TouchableOpacity
+                key={num}
+                style={[
+                  styles.segment,
+                  printedJokersPerDeck === num && styles.selectedSegment,
+                ]}
+                onPress={() => setPrintedJokersPerDeck(num)}
+              >
+                <Text
+                  style={[
+                    styles.segmentText,
+                    printedJokersPerDeck === num && styles.selectedSegmentText,
+                  ]}
+                >
+                  {num}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {!isTwentyOne && (
+            <View style={[styles.toggleRow, styles.subsectionTitle]}>
+              <View style={styles.variantInfo}>
+                <Text style={styles.variantLabel}>Wild Joker</Text>
+                <Text style={styles.variantDescription}>Cut a card after dealing; its rank is wild</Text>
+              </View>
+              <Switch
+                value={wildJoker}
+                onValueChange={setWildJoker}
+                trackColor={{ false: colors.separator, true: colors.accent }}
+                thumbColor="#FFFFFF"
+                ios_backgroundColor={colors.separator}
+              />
+            </View>
+          )}
+        </View>
+
+        {/* Meld Rules */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Meld Rules</Text>
+          {MELD_RULE_OPTIONS.map((option) => (
+            <TouchableOpacity
+              key={option.value}
+              style={[
+                styles.variantOption,
+                meldRulesPreset === option.value && styles.selectedVariant,
+              ]}
+              onPress={() => setMeldRulesPreset(option.value)}
+              accessibilityState={{ selected: meldRulesPreset === option.value }}
+            >
+              <View style={styles.radioOuter}>
+                {meldRulesPreset === option.value && <View style={styles.radioInner} />}
+              </View>
+              <View style={styles.variantInfo}>
+                <Text
+                  style={[
+                    styles.variantLabel,
+                    meldRulesPreset === option.value && styles.selectedVariantLabel,
+                  ]}
+                >
+                  {option.label}
+                </Text>
+                <Text style={styles.variantDescription}>{option.description}</Text>
+              </View>
+            </TouchableOpacity>
+          ))}
+        </View>
       </ScrollView>
 
       {/* Start Button */}
@@ -337,32 +594,51 @@ const PracticeSetupScreen = () => {
                 </View>
               </View>
 
+              {/* Expert Bot */}
+              <View style={styles.difficultySection}>
+                <View style={styles.difficultyHeader}>
+                  <Icon name="brain.head.profile" size={IconSize.large} color={colors.accent} />
+                  <Text style={[styles.difficultyTitle, { color: colors.accent }]}>Expert</Text>
+                </View>
+                <Text style={styles.difficultySubtitle}>Simulates the turns ahead</Text>
+                <View style={styles.difficultyDetails}>
+                  <Text style={styles.detailItem}>• Guesses your hand from the cards it hasn't seen</Text>
+                  <Text style={styles.detailItem}>• Plays each draw and discard forward many times</Text>
+                  <Text style={styles.detailItem}>• Holds back cards that would help the next player</Text>
+                  <Text style={styles.detailItem}>• Drops like the hard bot</Text>
+                </View>
+              </View>
+
               {/* Comparison Table */}
               <View style={styles.comparisonSection}>
                 <Text style={styles.comparisonTitle}>Feature Comparison</Text>
                 <View style={styles.comparisonTable}>
                   <View style={styles.comparisonRow}>
                     <Text style={styles.comparisonLabel}>Tracks discards</Text>
-                    <Text style={styles.comparisonValue}>❌  ❌  ✅</Text>
+                    <Text style={styles.comparisonValue}>❌  ❌  ✅  ✅</Text>
                   </View>
                   <View style={styles.comparisonRow}>
                     <Text style={styles.comparisonLabel}>Evaluates hand value</Text>
-                    <Text style={styles.comparisonValue}>❌  ❌  ✅</Text>
+                    <Text style={styles.comparisonValue}>❌  ❌  ✅  ✅</Text>
                   </View>
                   <View style={styles.comparisonRow}>
                     <Text style={styles.comparisonLabel}>Meld awareness</Text>
-                    <Text style={styles.comparisonValue}>❌  ✅  ✅</Text>
+                    <Text style={styles.comparisonValue}>❌  ✅  ✅  ✅</Text>
                   </View>
                   <View style={styles.comparisonRow}>
                     <Text style={styles.comparisonLabel}>Strategic dropping</Text>
-                    <Text style={styles.comparisonValue}>❌  ✅  ✅</Text>
+                    <Text style={styles.comparisonValue}>❌  ✅  ✅  ✅</Text>
                   </View>
                   <View style={styles.comparisonRow}>
                     <Text style={styles.comparisonLabel}>Opponent modeling</Text>
-                    <Text style={styles.comparisonValue}>❌  ❌  ✅</Text>
+                    <Text style={styles.comparisonValue}>❌  ❌  ✅  ✅</Text>
+                  </View>
+                  <View style={styles.comparisonRow}>
+                    <Text style={styles.comparisonLabel}>Looks ahead</Text>
+                    <Text style={styles.comparisonValue}>❌  ❌  ❌  ✅</Text>
                   </View>
                 </View>
-                <Text style={styles.comparisonLegend}>Easy  Medium  Hard</Text>
+                <Text style={styles.comparisonLegend}>Easy  Medium  Hard  Expert</Text>
               </View>
             </ScrollView>
           </View>
@@ -455,12 +731,40 @@ const createStyles = (colors: ThemeColors) =>
     selectedSegmentText: {
       color: '#FFFFFF',
     },
+    disabledSegment: {
+      opacity: 0.4,
+    },
+    subsectionTitle: {
+      marginTop: Spacing.md,
+    },
+    toggleRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      padding: Spacing.md,
+      backgroundColor: colors.cardBackground,
+      borderRadius: BorderRadius.medium,
+      borderWidth: 1,
+      borderColor: colors.separator,
+      gap: Spacing.md,
+    },
     helperText: {
       ...Typography.footnote,
       color: colors.tertiaryLabel,
       marginTop: Spacing.xs,
       textAlign: 'center',
     },
+    seatCard: {
+      marginBottom: Spacing.lg,
+    },
+    seatLabel: {
+      ...Typography.subheadline,
+      color: colors.secondaryLabel,
+      fontWeight: '600',
+      marginBottom: Spacing.xs,
+    },
+    seatControl: {
+      marginTop: Spacing.sm,
+    },
     optionsRow: {
       flexDirection: 'row',
       gap: Spacing.sm,
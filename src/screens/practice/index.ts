@@ -5,3 +5,5 @@
 export { default as PracticeSetupScreen } from './PracticeSetupScreen';
 export { default as PracticeGameScreen } from './PracticeGameScreen';
 export { default as PracticeHistoryScreen } from './PracticeHistoryScreen';
+export { default as PracticeReviewScreen } from './PracticeReviewScreen';
+export { default as PracticeReplayScreen } from './PracticeReplayScreen';
@@ -0,0 +1,211 @@
+/**
+ * Backup archives
+ * One versioned JSON file holding everything the app stores: the scorekeeper's games,
+ * settings, theme and the practice game. Each record keeps its own schema version, so
+ * an archive from an older app runs through the same migrations as stored data.
+ */
+
+import { BotSeat, PracticeGameState } from '../engine/types';
+import { ActiveGames, Game } from '../types/game';
+import { ThemeName } from '../theme';
+import type { GameDefaults, LastGameSettings } from '../context/SettingsContext';
+import { RepositoryOptions, StorageBackend, createRepository, migrateRecord } from './repository';
+import {
+  ACTIVE_GAMES_SCHEMA,
+  GAME_HISTORY_SCHEMA,
+  PRACTICE_GAME_SCHEMA,
+  PRACTICE_BOT_SEATS_SCHEMA,
+  PRACTICE_ADAPTIVE_LEVEL_SCHEMA,
+  GAME_DEFAULTS_SCHEMA,
+  LAST_GAME_SETTINGS_SCHEMA,
+  THEME_SCHEMA,
+} from './schemas';
+
+export const BACKUP_FORMAT = 'rummyiq-backup';
+export const BACKUP_VERSION = 1;
+
+/**
+ * What a backup holds; null where the device had nothing stored
+ */
+export interface BackupContents {
+  currentGame: ActiveGames | null; // Every table in progress; named for the storage key
+  gameHistory: Game[] | null;
+  gameDefaults: Partial<GameDefaults> | null;
+  lastGameSettings: LastGameSettings | null;
+  theme: ThemeName | null;
+  practiceGame: PracticeGameState | null;
+  practiceBotSeats: BotSeat[] | null;
+  practiceAdaptiveLevel: number | null;
+}
+
+type BackupRecordName = keyof BackupContents;
+
+interface BackupRecord {
+  schemaVersion: number;
+  data: unknown;
+}
+
+/**
+ * The exported file
+ */
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: number;
+  records: { [name in BackupRecordName]?: BackupRecord };
+}
+
+export type BackupResult =
+  | { ok: true; exportedAt: number; contents: BackupContents }
+  | { ok: false; errors: string[] };
+
+/**
+ * Merge adds what the device is missing; replace makes the device match the backup
+ */
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestoreSummary {
+  gamesAdded: number;
+  gamesSkipped: number; // Already on the device, by game id
+}
+
+const BACKUP_SCHEMAS: { [name in BackupRecordName]: RepositoryOptions<NonNullable<BackupContents[name]>> } = {
+  currentGame: ACTIVE_GAMES_SCHEMA,
+  gameHistory: GAME_HISTORY_SCHEMA,
+  gameDefaults: GAME_DEFAULTS_SCHEMA,
+  lastGameSettings: LAST_GAME_SETTINGS_SCHEMA,
+  theme: THEME_SCHEMA,
+  practiceGame: PRACTICE_GAME_SCHEMA,
+  practiceBotSeats: PRACTICE_BOT_SEATS_SCHEMA,
+  practiceAdaptiveLevel: PRACTICE_ADAPTIVE_LEVEL_SCHEMA,
+};
+
+const RECORD_LABELS: { [name in BackupRecordName]: string } = {
+  currentGame: 'open tables',
+  gameHistory: 'game history',
+  gameDefaults: 'game defaults',
+  lastGameSettings: 'last game settings',
+  theme: 'theme',
+  practiceGame: 'practice game',
+  practiceBotSeats: 'practice opponents',
+  practiceAdaptiveLevel: 'adaptive difficulty level',
+};
+
+const RECORD_NAMES = Object.keys(BACKUP_SCHEMAS) as BackupRecordName[];
+
+// Loosely typed so the records can be handled in one loop
+const getSchema = (name: BackupRecordName) => BACKUP_SCHEMAS[name] as RepositoryOptions<unknown>;
+
+/**
+ * Snapshot everything stored on the device
+ */
+export const createBackup = async (backend: StorageBackend, now: number): Promise<BackupArchive> => {
+  const records: BackupArchive['records'] = {};
+  for (const name of RECORD_NAMES) {
+    const schema = getSchema(name);
+    const data = await createRepository(backend, schema).load();
+    if (data !== null) {
+      records[name] = { schemaVersion: schema.migrations.length, data };
+    }
+  }
+  return { format: BACKUP_FORMAT, version: BACKUP_VERSION, exportedAt: now, records };
+};
+
+export const serializeBackup = (archive: BackupArchive): string => JSON.stringify(archive);
+
+/**
+ * Read a backup file, migrating and checking every record in it
+ */
+export const parseBackup = (text: string): BackupResult => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return { ok: false, errors: ['This is not a RummyIQ backup'] };
+  }
+
+  const archive = value as Partial<BackupArchive> | null;
+  if (typeof archive !== 'object' || archive === null || archive.format !== BACKUP_FORMAT) {
+    return { ok: false, errors: ['This is not a RummyIQ backup'] };
+  }
+  if (typeof archive.version !== 'number' || archive.version > BACKUP_VERSION) {
+    return { ok: false, errors: ['This backup was made by a newer version of the app'] };
+  }
+  if (typeof archive.exportedAt !== 'number' || typeof archive.records !== 'object' || !archive.records) {
+    return { ok: false, errors: ['The backup is incomplete'] };
+  }
+
+  const errors: string[] = [];
+  const contents = Object.fromEntries(RECORD_NAMES.map(name => [name, null])) as {
+    [name in BackupRecordName]: unknown;
+  };
+  for (const name of RECORD_NAMES) {
+    const record = archive.records[name];
+    if (record === undefined) continue;
+    try {
+      contents[name] = migrateRecord(JSON.stringify(record), getSchema(name)).data;
+    } catch {
+      errors.push(`The ${RECORD_LABELS[name]} in the backup is damaged`);
+    }
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, exportedAt: archive.exportedAt, contents: contents as BackupContents };
+};
+
+// Newest first, as the history is kept
+const getGameDate = (game: Game): number => new Date(game.completedAt ?? game.startedAt).getTime();
+
+/**
+ * Write a backup's contents to the device
+ * Merging keeps everything already on the device, adds games and tables whose ids
+ * it doesn't have, and fills in only the other records the device has none of
+ */
+export const restoreBackup = async (
+  backend: StorageBackend,
+  contents: BackupContents,
+  mode: RestoreMode
+): Promise<RestoreSummary> => {
+  const summary: RestoreSummary = { gamesAdded: 0, gamesSkipped: 0 };
+
+  for (const name of RECORD_NAMES) {
+    const repository = createRepository(backend, getSchema(name));
+    const incoming = contents[name];
+
+    if (name === 'gameHistory') {
+      const games = (incoming as Game[] | null) ?? [];
+      const existing = mode === 'merge' ? ((await repository.load()) as Game[] | null) ?? [] : [];
+      const existingIds = new Set(existing.map(game => game.id));
+      const added = games.filter(game => !existingIds.has(game.id));
+      summary.gamesAdded = added.length;
+      summary.gamesSkipped = games.length - added.length;
+
+      const history = [...existing, ...added].sort((a, b) => getGameDate(b) - getGameDate(a));
+      if (history.length > 0) {
+        await repository.save(history);
+      } else {
+        await repository.remove();
+      }
+    } else if (name === 'currentGame' && mode === 'merge') {
+      const tables = incoming as ActiveGames | null;
+      const existing = (await repository.load()) as ActiveGames | null;
+      if (tables && existing) {
+        const existingIds = new Set(existing.games.map(game => game.id));
+        const added = tables.games.filter(game => !existingIds.has(game.id));
+        await repository.save({ ...existing, games: [...existing.games, ...added] });
+      } else if (tables) {
+        await repository.save(tables);
+      }
+    } else if (mode === 'replace') {
+      if (incoming !== null) {
+        await repository.save(incoming);
+      } else {
+        await repository.remove();
+      }
+    } else if (incoming !== null && (await repository.load()) === null) {
+      await repository.save(incoming);
+    }
+  }
+
+  return summary;
+};
@@ -0,0 +1,76 @@
+/**
+ * App storage
+ * Typed repositories over AsyncStorage. Contexts read and write through these
+ * rather than calling AsyncStorage themselves.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createRepository, getQuarantinedKeys } from './repository';
+import {
+  BackupContents,
+  RestoreMode,
+  RestoreSummary,
+  createBackup,
+  restoreBackup as restoreBackupTo,
+} from './backup';
+import {
+  ACTIVE_GAMES_SCHEMA,
+  GAME_HISTORY_SCHEMA,
+  PRACTICE_GAME_SCHEMA,
+  PRACTICE_BOT_SEATS_SCHEMA,
+  PRACTICE_ADAPTIVE_LEVEL_SCHEMA,
+  GAME_DEFAULTS_SCHEMA,
+  LAST_GAME_SETTINGS_SCHEMA,
+  THEME_SCHEMA,
+} from './schemas';
+
+export type { Repository, StorageBackend, Migration } from './repository';
+export type { BackupArchive, BackupContents, BackupResult, RestoreMode, RestoreSummary } from './backup';
+export { parseBackup, serializeBackup } from './backup';
+
+export const activeGamesRepository = createRepository(AsyncStorage, ACTIVE_GAMES_SCHEMA);
+export const gameHistoryRepository = createRepository(AsyncStorage, GAME_HISTORY_SCHEMA);
+export const practiceGameRepository = createRepository(AsyncStorage, PRACTICE_GAME_SCHEMA);
+export const practiceBotSeatsRepository = createRepository(AsyncStorage, PRACTICE_BOT_SEATS_SCHEMA);
+export const practiceAdaptiveLevelRepository = createRepository(
+  AsyncStorage,
+  PRACTICE_ADAPTIVE_LEVEL_SCHEMA
+);
+export const gameDefaultsRepository = createRepository(AsyncStorage, GAME_DEFAULTS_SCHEMA);
+export const lastGameSettingsRepository = createRepository(AsyncStorage, LAST_GAME_SETTINGS_SCHEMA);
+export const themeRepository = createRepository(AsyncStorage, THEME_SCHEMA);
+
+/**
+ * Keys of records that failed to load and were set aside
+ */
+export const getQuarantinedRecords = () => getQuarantinedKeys(AsyncStorage);
+
+const restoreListeners = new Set<() => void>();
+
+/**
+ * Run a callback whenever a backup is restored, so state can be reloaded
+ * Returns a function that stops listening
+ */
+export const onBackupRestored = (listener: () => void) => {
+  restoreListeners.add(listener);
+  return () => {
+    restoreListeners.delete(listener);
+  };
+};
+
+/**
+ * Snapshot everything stored on the device into a backup archive
+ */
+export const exportBackup = () => createBackup(AsyncStorage, Date.now());
+
+/**
+ * Write a parsed backup to the device and tell the contexts to reload
+ */
+export const restoreBackup = async (
+  contents: BackupContents,
+  mode: RestoreMode
+): Promise<RestoreSummary> => {
+  const summary = await restoreBackupTo(AsyncStorage, contents, mode);
+  restoreListeners.forEach(listener => listener());
+  return summary;
+};
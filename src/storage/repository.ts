@@ -0,0 +1,151 @@
+/**
+ * Versioned repositories
+ * Every record is stored as { schemaVersion, data }. Loading runs the record through
+ * its migrations up to the current version, checks its shape and revives values JSON
+ * can't carry (such as Dates). A record that can't be read is moved aside under a
+ * quarantine key instead of being thrown away.
+ */
+
+/**
+ * The key-value store records are kept in (AsyncStorage in the app)
+ */
+export interface StorageBackend {
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+  getAllKeys: () => Promise<readonly string[]>;
+}
+
+/**
+ * Upgrades data from one schema version to the next
+ */
+export type Migration = (data: unknown) => unknown;
+
+export interface RepositoryOptions<T> {
+  key: string;
+  // migrations[i] upgrades version i to i + 1; the current version is migrations.length.
+  // Version 0 is a record written before versioning, as the raw stored value.
+  migrations: Migration[];
+  isValid: (data: unknown) => boolean; // Shape check after migrating
+  revive?: (data: T) => T; // Restore values JSON turns into strings
+  parseLegacy?: (raw: string) => unknown; // Read a version 0 record; JSON by default
+}
+
+export interface Repository<T> {
+  key: string;
+  version: number;
+  load: () => Promise<T | null>; // Null when nothing is stored or the record was quarantined
+  save: (data: T) => Promise<void>;
+  remove: () => Promise<void>;
+}
+
+interface StoredRecord {
+  schemaVersion: number;
+  data: unknown;
+}
+
+export interface MigratedRecord<T> {
+  data: T;
+  fromVersion: number; // Version the record was stored at
+}
+
+export const QUARANTINE_PREFIX = 'quarantine:';
+
+/**
+ * Key a corrupt record is moved to
+ */
+export const getQuarantineKey = (key: string, at: number): string =>
+  `${QUARANTINE_PREFIX}${key}:${at}`;
+
+const isStoredRecord = (value: unknown): value is StoredRecord =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as StoredRecord).schemaVersion === 'number' &&
+  'data' in value;
+
+const parseJson = (raw: string): unknown => {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Read a raw stored value and bring it up to the current version
+ * Throws when the record is unreadable, from a newer app, or the wrong shape
+ */
+export const migrateRecord = <T>(raw: string, options: RepositoryOptions<T>): MigratedRecord<T> => {
+  const { migrations, isValid, revive, parseLegacy = JSON.parse } = options;
+
+  const parsed = parseJson(raw);
+  const fromVersion = isStoredRecord(parsed) ? parsed.schemaVersion : 0;
+  let data = isStoredRecord(parsed) ? parsed.data : parseLegacy(raw);
+
+  if (!Number.isInteger(fromVersion) || fromVersion < 0 || fromVersion > migrations.length) {
+    throw new Error(`Unknown schema version ${fromVersion}`);
+  }
+
+  for (let v = fromVersion; v < migrations.length; v++) {
+    data = migrations[v](data);
+  }
+
+  if (!isValid(data)) {
+    throw new Error('Record does not match its schema');
+  }
+
+  return { data: revive ? revive(data as T) : (data as T), fromVersion };
+};
+
+/**
+ * Create a repository for one storage key
+ */
+export const createRepository = <T>(
+  backend: StorageBackend,
+  options: RepositoryOptions<T>
+): Repository<T> => {
+  const { key, migrations } = options;
+  const version = migrations.length;
+
+  const save = async (data: T) => {
+    const record: StoredRecord = { schemaVersion: version, data };
+    await backend.setItem(key, JSON.stringify(record));
+  };
+
+  const load = async (): Promise<T | null> => {
+    const raw = await backend.getItem(key);
+    if (raw === null) return null;
+
+    let record: MigratedRecord<T>;
+    try {
+      record = migrateRecord(raw, options);
+    } catch (error) {
+      // Keep the record for recovery and start afresh
+      const quarantineKey = getQuarantineKey(key, Date.now());
+      console.warn(`Quarantined ${key} as ${quarantineKey}:`, error);
+      await backend.setItem(quarantineKey, raw);
+      await backend.removeItem(key);
+      return null;
+    }
+
+    // Write migrated records back so they're only migrated once
+    if (record.fromVersion < version) {
+      await save(record.data);
+    }
+    return record.data;
+  };
+
+  return {
+    key,
+    version,
+    load,
+    save,
+    remove: () => backend.removeItem(key),
+  };
+};
+
+/**
+ * Keys of every quarantined record, oldest first
+ */
+export const getQuarantinedKeys = async (backend: StorageBackend): Promise<string[]> =>
+  (await backend.getAllKeys()).filter(key => key.startsWith(QUARANTINE_PREFIX)).sort();
@@ -0,0 +1,100 @@
+/**
+ * Stored record schemas
+ * The key, migrations, shape check and revival for everything the app keeps on the device.
+ * To change a stored shape, append a migration to its list; never edit an old one.
+ */
+
+import { BotSeat, PracticeGameState } from '../engine/types';
+import { ActiveGames, Game } from '../types/game';
+import { ThemeName, themes } from '../theme';
+import type { GameDefaults, LastGameSettings } from '../context/SettingsContext';
+import { Migration, RepositoryOptions } from './repository';
+
+// Version 0 records were written as the bare value; version 1 wraps it unchanged
+const wrapLegacy: Migration = data => data;
+
+const isObject = (value: unknown): value is { [key: string]: unknown } =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isGame = (value: unknown): boolean =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  isObject(value.config) &&
+  Array.isArray(value.players) &&
+  Array.isArray(value.rounds);
+
+/**
+ * Turn a game's dates back into Dates after JSON has made them strings
+ */
+export const reviveGame = (game: Game): Game => ({
+  ...game,
+  startedAt: new Date(game.startedAt),
+  completedAt: game.completedAt ? new Date(game.completedAt) : undefined,
+  rounds: game.rounds.map(round => ({ ...round, timestamp: new Date(round.timestamp) })),
+  edits: game.edits?.map(edit => ({ ...edit, timestamp: new Date(edit.timestamp) })),
+});
+
+// Version 1 held the one game in progress; version 2 holds a list of tables
+const toTables: Migration = data => ({ games: [data], selectedGameId: (data as Game).id });
+
+// Keyed 'currentGame' from when only one game could be in progress
+export const ACTIVE_GAMES_SCHEMA: RepositoryOptions<ActiveGames> = {
+  key: 'currentGame',
+  migrations: [wrapLegacy, toTables],
+  isValid: value =>
+    isObject(value) &&
+    Array.isArray(value.games) &&
+    value.games.every(isGame) &&
+    (value.selectedGameId === null || typeof value.selectedGameId === 'string'),
+  revive: tables => ({ ...tables, games: tables.games.map(reviveGame) }),
+};
+
+export const GAME_HISTORY_SCHEMA: RepositoryOptions<Game[]> = {
+  key: 'gameHistory',
+  migrations: [wrapLegacy],
+  isValid: value => Array.isArray(value) && value.every(isGame),
+  revive: games => games.map(reviveGame),
+};
+
+export const PRACTICE_GAME_SCHEMA: RepositoryOptions<PracticeGameState> = {
+  key: 'practiceGame',
+  migrations: [wrapLegacy],
+  isValid: value =>
+    isObject(value) &&
+    typeof value.id === 'string' &&
+    isObject(value.config) &&
+    Array.isArray(value.players) &&
+    isObject(value.scores),
+};
+
+export const PRACTICE_BOT_SEATS_SCHEMA: RepositoryOptions<BotSeat[]> = {
+  key: 'practiceBotSeats',
+  migrations: [wrapLegacy],
+  isValid: value => Array.isArray(value) && value.every(isObject),
+};
+
+export const PRACTICE_ADAPTIVE_LEVEL_SCHEMA: RepositoryOptions<number> = {
+  key: 'practiceAdaptiveLevel',
+  migrations: [wrapLegacy],
+  isValid: value => typeof value === 'number' && Number.isFinite(value),
+};
+
+// Partial so settings added later fall back to their defaults
+export const GAME_DEFAULTS_SCHEMA: RepositoryOptions<Partial<GameDefaults>> = {
+  key: 'game_defaults',
+  migrations: [wrapLegacy],
+  isValid: isObject,
+};
+
+export const LAST_GAME_SETTINGS_SCHEMA: RepositoryOptions<LastGameSettings> = {
+  key: 'last_game_settings',
+  migrations: [wrapLegacy],
+  isValid: value => isObject(value) && Array.isArray(value.playerNames),
+};
+
+export const THEME_SCHEMA: RepositoryOptions<ThemeName> = {
+  key: 'app_theme',
+  migrations: [wrapLegacy],
+  isValid: value => typeof value === 'string' && value in themes,
+  parseLegacy: raw => raw, // The theme name was stored as a plain string
+};
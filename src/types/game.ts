@@ -1,4 +1,6 @@
-export type GameVariant = 'pool' | 'points' | 'deals';
+import { Card, Rank } from '../engine/types';
+
+export type GameVariant = 'pool' | 'points' | 'deals' | 'twenty-one';
 
 export type PoolType = number;
 
@@ -34,6 +36,32 @@ export interface Round {
   timestamp: Date;
   scores: { [playerId: string]: number };
   winner?: string;
+  hands?: { [playerId: string]: Card[] }; // Losers' remaining cards, when tapped in card by card
+  wildJokerRank?: Rank | null; // The deal's wild joker, saved with entered hands
+}
+
+export interface ScoreChange {
+  playerId: string;
+  before: number;
+  after: number;
+}
+
+export interface WinnerChange {
+  before: string | null; // Player id
+  after: string | null;
+}
+
+// One edit to a submitted round, and what it did to the game
+export interface RoundEdit {
+  id: string;
+  timestamp: Date;
+  roundId: string;
+  roundNumber: number;
+  scores: ScoreChange[]; // Only players whose round score changed
+  roundWinner?: WinnerChange;
+  gameWinner?: WinnerChange;
+  eliminated: string[]; // Players knocked out by the edit
+  reinstated: string[]; // Players back in the game after it
 }
 
 export interface GameConfig {
@@ -68,11 +96,30 @@ export interface Game {
   completedAt?: Date;
   winner?: string;
   splitPot?: SplitPotInfo;
+  edits?: RoundEdit[]; // Oldest first
 }
 
+/**
+ * The scorekeeper's tables: every game started and not yet closed
+ */
+export interface ActiveGames {
+  games: Game[]; // In the order they were started
+  selectedGameId: string | null; // The table on screen
+}
+
+// Not yet won or split; a finished game stays at its table until it's closed
+export const isGameInProgress = (game: Game): boolean => !game.completedAt;
+
+/**
+ * What to call a table in the switcher: its name, or who's playing at it
+ */
+export const getTableName = (game: Game): string =>
+  game.name || game.players.map(p => p.name).join(', ');
+
 export interface ScoreInput {
   playerId: string;
   points: number;
   isDeclared: boolean;
   hasInvalidDeclaration?: boolean;
+  cards?: Card[]; // Remaining cards the points were counted from
 }